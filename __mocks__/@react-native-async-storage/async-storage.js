@@ -0,0 +1,27 @@
+// In-memory AsyncStorage; `__store` is exposed so tests can inspect or corrupt raw records
+const store = new Map();
+
+const AsyncStorage = {
+  getItem: async (key) => (store.has(key) ? store.get(key) : null),
+  setItem: async (key, value) => {
+    store.set(key, String(value));
+  },
+  removeItem: async (key) => {
+    store.delete(key);
+  },
+  getAllKeys: async () => [...store.keys()],
+  multiGet: async (keys) => keys.map((key) => [key, store.has(key) ? store.get(key) : null]),
+  multiSet: async (pairs) => {
+    for (const [key, value] of pairs) store.set(key, String(value));
+  },
+  multiRemove: async (keys) => {
+    for (const key of keys) store.delete(key);
+  },
+  clear: async () => {
+    store.clear();
+  },
+  __store: store,
+};
+
+module.exports = AsyncStorage;
+module.exports.default = AsyncStorage;
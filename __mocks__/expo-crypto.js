@@ -0,0 +1,17 @@
+// expo-crypto backed by node's crypto module
+const nodeCrypto = require("crypto");
+
+const CryptoDigestAlgorithm = { SHA256: "SHA-256", SHA512: "SHA-512" };
+const CryptoEncoding = { HEX: "hex", BASE64: "base64" };
+
+module.exports = {
+  CryptoDigestAlgorithm,
+  CryptoEncoding,
+  getRandomBytes: (size) => new Uint8Array(nodeCrypto.randomBytes(size)),
+  getRandomBytesAsync: async (size) => new Uint8Array(nodeCrypto.randomBytes(size)),
+  digestStringAsync: async (algorithm, data, options) =>
+    nodeCrypto
+      .createHash(algorithm.replace("-", "").toLowerCase())
+      .update(String(data), "utf8")
+      .digest(options && options.encoding === CryptoEncoding.BASE64 ? "base64" : "hex"),
+};
@@ -0,0 +1,48 @@
+// In-memory document directory for the audit log, attachments and backups
+const files = new Map();
+const dirs = new Set();
+
+const asDir = (path) => (path.endsWith("/") ? path : `${path}/`);
+
+module.exports = {
+  documentDirectory: "file:///document/",
+  cacheDirectory: "file:///cache/",
+  EncodingType: { UTF8: "utf8", Base64: "base64" },
+  writeAsStringAsync: async (path, data, options) => {
+    const encoding = options && options.encoding === "base64" ? "base64" : "utf8";
+    files.set(path, Buffer.from(data, encoding));
+  },
+  readAsStringAsync: async (path, options) => {
+    if (!files.has(path)) throw new Error(`File '${path}' does not exist`);
+    let bytes = files.get(path);
+    if (options && options.encoding === "base64") {
+      if (options.position != null) {
+        bytes = bytes.subarray(options.position, options.position + (options.length ?? bytes.length));
+      }
+      return bytes.toString("base64");
+    }
+    return bytes.toString("utf8");
+  },
+  getInfoAsync: async (path) => {
+    if (files.has(path)) return { exists: true, isDirectory: false, size: files.get(path).length };
+    const dir = asDir(path);
+    const exists = dirs.has(dir) || [...files.keys()].some((key) => key.startsWith(dir));
+    return { exists, isDirectory: exists };
+  },
+  makeDirectoryAsync: async (path) => {
+    dirs.add(asDir(path));
+  },
+  readDirectoryAsync: async (path) => {
+    const dir = asDir(path);
+    const children = [...files.keys(), ...dirs]
+      .filter((key) => key.startsWith(dir) && key !== dir)
+      .map((key) => key.slice(dir.length).split("/")[0]);
+    return [...new Set(children)];
+  },
+  deleteAsync: async (path) => {
+    files.delete(path);
+    for (const key of [...files.keys()]) if (key.startsWith(asDir(path))) files.delete(key);
+    for (const dir of [...dirs]) if (dir.startsWith(asDir(path))) dirs.delete(dir);
+  },
+  __files: files,
+};
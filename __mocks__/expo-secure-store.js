@@ -0,0 +1,13 @@
+// In-memory SecureStore; `__store` is exposed so tests can seed or inspect keys
+const store = new Map();
+
+module.exports = {
+  getItemAsync: async (key) => (store.has(key) ? store.get(key) : null),
+  setItemAsync: async (key, value) => {
+    store.set(key, String(value));
+  },
+  deleteItemAsync: async (key) => {
+    store.delete(key);
+  },
+  __store: store,
+};
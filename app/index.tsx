@@ -1,9 +1,11 @@
 // app/index.tsx
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as DocumentPicker from "expo-document-picker";
 import * as LocalAuthentication from "expo-local-authentication";
 import * as ScreenCapture from "expo-screen-capture";
 import * as SecureStore from "expo-secure-store";
-import React, { useEffect, useState } from "react";
+import * as Sharing from "expo-sharing";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -12,39 +14,84 @@ import {
   Platform,
   SafeAreaView,
   ScrollView,
+  SectionList,
   Text,
   TextInput,
   TouchableOpacity,
   View,
 } from "react-native";
 // import pookieStyles from "../src/pookieStyles";
+import * as attachments from "../src/attachments";
+import * as autolock from "../src/autolock";
+import * as backup from "../src/backup";
+import AttachmentPreview from "../src/components/AttachmentPreview";
 import AuditModal from "../src/components/AuditModal";
+import AutoLockModal from "../src/components/AutoLockModal";
+import BackupModal from "../src/components/BackupModal";
+import ChangePassphraseModal from "../src/components/ChangePassphraseModal";
+import DuressModal from "../src/components/DuressModal";
 import EntryCard from "../src/components/EntryCard";
+import EntryViewer from "../src/components/EntryViewer";
+import NewPassphraseModal from "../src/components/NewPassphraseModal";
+import RecoveryCodesModal from "../src/components/RecoveryCodesModal";
+import ShareRecoveryModal from "../src/components/ShareRecoveryModal";
+import SharesModal from "../src/components/SharesModal";
+import TagFilterBar from "../src/components/TagFilterBar";
 import PanicModal from "../src/components/PanicModal";
 import * as crypto from "../src/crypto";
+import * as deadman from "../src/deadman";
+import * as duress from "../src/duress";
+import * as entryFormat from "../src/entries";
+import type {
+  AttachmentRef,
+  CommitStatus,
+  EntryCommitCheck,
+  EntryListItem,
+  EntryMeta,
+  FileInfo,
+  SearchIndex,
+  ShamirShare,
+} from "../src/types";
+import * as lockout from "../src/lockout";
 import MeowDetail from "../src/meowdetail";
+import * as search from "../src/search";
+import * as shamir from "../src/shamir";
 import * as storage from "../src/storage";
+import type { Entry } from "../src/storage";
 import styles from "../src/styles";
+import * as vaultkey from "../src/vaultkey";
+import * as wipe from "../src/wipe";
 // import LiveFeed from "../src/components/LiveFeed";
 import * as blockchain from "../src/blockchain";
+import type { Block } from "../src/blockchain";
 import KittyLive from "../src/components/KittyLive";
 import LiveFeed, { BlackpinkDateTime } from "../src/components/LiveFeed";
 
-const PBKDF2_ITERATIONS = 100000;
-
 // DEV unlock for testing purposes
 
-// Minimal TS types (storage.js & crypto.js are JS files you said you already have)
+// Entry, Block and the other domain types come from the core modules (src/types.ts); the rest are app state
 type VaultMeta = { biometricEnabled: boolean };
-type Entry = {
-  id: string;
-  iv: string;
-  ciphertext: string;
-  hmac: string;
-  timestamp: string;
-  [k: string]: any;
+type PendingFile = { uri: string; name: string; mime: string; size: number };
+type RevisionView = { id: string; timestamp: string; text: string | null; files: FileInfo[] };
+type AutoLockSettings = { idleMinutes: number | null; onBackground: boolean; onScreenOff: boolean; graceSeconds: number };
+type DeadmanStatus = { armed: boolean; days: number | null; remainingMs: number | null };
+type KdfProgress = { fraction: number; phase: "unlock" | "upgrade" };
+type LockoutState = { failures: number; lastFailureAt: number; lockedUntil: number; wipeAfter: number | null };
+type IssuedShare = ShamirShare & { threshold: number; custodian: string };
+
+// worst first: a card shows the worst status among its chain's records
+const COMMIT_STATUS_ORDER: CommitStatus[] = ["changed", "missing", "extra", "legacy", "committed"];
+
+const chainCommitStatus = (records: Entry[], check: EntryCommitCheck | null): CommitStatus | null => {
+  if (!check) return null;
+  const statuses: CommitStatus[] = records.map((r) => check.statuses[r.id]).filter(Boolean);
+  if (check.missing.some((m) => records.some((r) => r.prevId === m.id))) statuses.push("missing");
+  return COMMIT_STATUS_ORDER.find((st) => statuses.includes(st)) || null;
 };
-type TamperLogItem = { ts: string; event: string; detail?: string; id?: string };
+
+// what a caught value says about itself; anything thrown that is not an Error says nothing
+const errorMessage = (e: unknown): string => (e instanceof Error ? e.message : "");
+const errorCode = (e: unknown): string => (e instanceof Error && "code" in e && typeof e.code === "string" ? e.code : "");
 
 // --- Forensic-friendly formatting helpers ---
 const rfc3339Parts = (ts: string) => {
@@ -60,12 +107,18 @@ type Severity = "ok" | "warn" | "err" | "info";
 const severityFor = (evt: string, detail?: string): Severity => {
   const e = evt.toLowerCase();
 
-  if (e.includes("panic_wipe") || e.includes("entry_integrity_fail")) return "err";
+  if (e.includes("panic_wipe") || e.includes("entry_integrity_fail") || e.includes("revision_link_broken")) return "err";
+  if (e.includes("entry_commitment_mismatch")) return "err";
   if (e.includes("unlock_failed") || e.includes("decrypt_fail")) return "err";
+  if (e.includes("lockout_wipe_threshold")) return "info";
+  if (e.includes("lockout_wipe")) return "err";
+  if (e.includes("lockout_started") || e.includes("lockout_cleared")) return "warn";
+  if (e.includes("deadman_")) return "warn";
   if (e.includes("integrity_check") && detail && /fail/i.test(detail)) return "warn";
+  if (e.includes("migration_failed") || e.includes("migration_skipped")) return "warn";
   if (e.includes("dev_unlocked")) return "warn";
 
-  if (e.includes("unlocked") || e.includes("locked") || e.includes("entry_added")) return "ok";
+  if (e.includes("unlocked") || e.includes("locked") || e.includes("entry_added") || e.includes("entry_revised")) return "ok";
   if (e.includes("manual_integrity_check")) return "info";
 
   return "info";
@@ -79,12 +132,35 @@ const colorsBySeverity: Record<Severity, { bg: string; border: string; label: st
 };
 // --- End forensic helpers ---
 
+// lock-screen countdowns, e.g. 8s, 4m 16s, 1h 0m, 6d 23h
+// records per page of the entry list and the tamper log sidebar; more load as they are scrolled
+const ENTRY_PAGE = 50;
+const TAMPER_PAGE = 30;
+
+const formatWait = (ms: number): string => {
+  const secs = Math.ceil(ms / 1000);
+  if (secs < 60) return `${secs}s`;
+  if (secs < 3600) return `${Math.floor(secs / 60)}m ${secs % 60}s`;
+  if (secs < 86400) return `${Math.floor(secs / 3600)}h ${Math.floor((secs % 3600) / 60)}m`;
+  return `${Math.floor(secs / 86400)}d ${Math.floor((secs % 86400) / 3600)}h`;
+};
+
 export default function App(): JSX.Element {
   const [initialized, setInitialized] = useState<boolean | null>(null);
+  // the vault's database would not open: nothing may read or write storage, setup included
+  const [storageFailure, setStorageFailure] = useState<string | null>(null);
   const [locked, setLocked] = useState<boolean>(true);
   const [masterKeyHex, setMasterKeyHex] = useState<string | null>(null);
   const [entries, setEntries] = useState<Entry[]>([]);
-  const [tamperLog, setTamperLog] = useState<TamperLogItem[]>([]);
+  const [tamperLog, setTamperLog] = useState<Block[]>([]);
+  // paging (storage.loadEntriesPage / loadTamperLogPage): totals are of the whole store, the lists hold the loaded pages
+  const [entryTotal, setEntryTotal] = useState<number>(0);
+  const [entryCursor, setEntryCursor] = useState<number | null>(null);
+  const [tamperTotal, setTamperTotal] = useState<number>(0);
+  const [tamperCursor, setTamperCursor] = useState<number | null>(null);
+  // records on screen, so a refresh reloads as many; set while a next page is being read
+  const loadedEntriesRef = useRef<number>(0);
+  const pagingRef = useRef<{ entries: boolean; tamper: boolean }>({ entries: false, tamper: false });
   const [lastVerifiedAt, setLastVerifiedAt] = useState<string | null>(null);
   const [vaultMeta, setVaultMeta] = useState<VaultMeta>({ biometricEnabled: false });
 
@@ -92,43 +168,158 @@ export default function App(): JSX.Element {
   const [setupPassB, setSetupPassB] = useState<string>("");
   const [unlockPass, setUnlockPass] = useState<string>("");
   const [newEntryText, setNewEntryText] = useState<string>("");
-  const [viewingEntryPlain, setViewingEntryPlain] = useState<{ id: string; text: string } | null>(null);
+  const [newEntryTitle, setNewEntryTitle] = useState<string>("");
+  const [newEntryTags, setNewEntryTags] = useState<string>("");
+  const [newEntryLevel, setNewEntryLevel] = useState<string>("unclassified");
+  const [viewingEntry, setViewingEntry] = useState<{ latest: Entry; records: Entry[]; revisions: RevisionView[] } | null>(null);
+  const [pendingFiles, setPendingFiles] = useState<PendingFile[]>([]);
+  const [preview, setPreview] = useState<{ uri: string; name: string } | null>(null);
+  const [revisingEntry, setRevisingEntry] = useState<Entry | null>(null);
   const [showNewModal, setShowNewModal] = useState<boolean>(false);
   const [showAudit, setShowAudit] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(true);
   const [integrityStatus, setIntegrityStatus] = useState<string>("Unknown");
+  const [entryCommits, setEntryCommits] = useState<EntryCommitCheck | null>(null); // entries vs. their chain commitments
   const [showPanicConfirm, setShowPanicConfirm] = useState<boolean>(false);
   const [panicConfirmText, setPanicConfirmText] = useState<string>("");
+  const [showChangePass, setShowChangePass] = useState<boolean>(false);
+  const [showBackup, setShowBackup] = useState<boolean>(false);
+  const [restoreFile, setRestoreFile] = useState<{ uri: string; name: string } | null>(null);
+  const [setupRecoveryCodes, setSetupRecoveryCodes] = useState<boolean>(true);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null); // shown once, then dropped
+  const [recoveryCount, setRecoveryCount] = useState<number | null>(null);
+  const [recoveryMode, setRecoveryMode] = useState<boolean>(false);
+  const [recoveryInput, setRecoveryInput] = useState<string>("");
+  // key opened without the passphrase; held only until a new passphrase is set
+  const [showShares, setShowShares] = useState<boolean>(false);
+  const [issuedShares, setIssuedShares] = useState<IssuedShare[] | null>(null); // shown once, then dropped
+  const [showShareRecovery, setShowShareRecovery] = useState<boolean>(false);
+  const [showDuress, setShowDuress] = useState<boolean>(false);
+  // unlocked with the duress passphrase: storage points at the decoy set until lock
+  const [decoySession, setDecoySession] = useState<boolean>(false);
+  // failed-unlock backoff (src/lockout.js); clock ticks the lock-screen countdown
+  const [lockoutState, setLockoutState] = useState<LockoutState | null>(null);
+  const [clock, setClock] = useState<number>(Date.now());
+  const [deadmanStatus, setDeadmanStatus] = useState<DeadmanStatus | null>(null);
+  const [autoLockSettings, setAutoLockSettings] = useState<AutoLockSettings | null>(null);
+  const [showAutoLock, setShowAutoLock] = useState<boolean>(false);
+  const [pendingRecovery, setPendingRecovery] = useState<{ masterHex: string; via: string; reason: string } | null>(null);
+  const [kdfLabel, setKdfLabel] = useState<string | null>(null);
+  // key derivation on the crypto worker (src/cryptoworker.js); the controller cancels it
+  const [kdfProgress, setKdfProgress] = useState<KdfProgress | null>(null);
+  const kdfAbortRef = useRef<AbortController | null>(null);
+  const [migrationStatus, setMigrationStatus] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState<string>("");
+  const [searchReady, setSearchReady] = useState<boolean>(false);
+  const [entryInfo, setEntryInfo] = useState<Record<string, EntryMeta>>({}); // decrypted titles/tags by root id
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [groupByTag, setGroupByTag] = useState<boolean>(false);
+  // in-memory only; see src/search.js. The generation guards against a build finishing after lock.
+  const searchIndexRef = useRef<SearchIndex | null>(null);
+  const searchGenRef = useRef<number>(0);
 const [modalVisible, setModalVisible] = useState(false);
 
+  // one card per revision chain, showing its latest record
+  const entryChains = useMemo(() => entryFormat.groupRevisions(entries), [entries]);
+
+  // search matches first and highlighted, the rest dimmed
+  const searchMatches: Set<string> | null = useMemo(
+    () => (searchReady && searchIndexRef.current && searchQuery.trim() ? search.search(searchIndexRef.current, searchQuery) : null),
+    [searchQuery, searchReady, entries] // eslint-disable-line react-hooks/exhaustive-deps
+  );
+  const allTags: string[] = useMemo(() => entryFormat.collectTags(entryInfo), [entryInfo]);
+  const listItems: EntryListItem[] = useMemo(() => {
+    let items: EntryListItem[] = entryChains.map((c) => ({ ...c.latest, revisionCount: c.revisions.length, info: entryInfo[c.rootId] || {}, commit: chainCommitStatus(c.revisions, entryCommits) }));
+    // records the chain commits to but storage no longer has, unless they were a revision of a chain still shown
+    const revisedIds = new Set(entries.map((e) => e.prevId).filter(Boolean));
+    for (const m of entryCommits?.missing || []) {
+      if (!revisedIds.has(m.id)) items.push({ id: m.id, timestamp: m.ts, hmac: "", revisionCount: 0, info: {}, commit: "missing" });
+    }
+    if (tagFilter) items = items.filter((it) => (it.info.tags || []).includes(tagFilter));
+    if (!searchMatches) return items;
+    const marked = items.map((it) => ({ ...it, searchMatch: searchMatches.has(entryFormat.rootIdOf(it)), searchDimmed: !searchMatches.has(entryFormat.rootIdOf(it)) }));
+    return [...marked.filter((it) => it.searchMatch), ...marked.filter((it) => !it.searchMatch)];
+  }, [entryChains, entries, searchMatches, entryInfo, tagFilter, entryCommits]);
+  const tagSections = useMemo(() => {
+    if (!groupByTag) return [];
+    const sections = allTags
+      .filter((tag) => !tagFilter || tag === tagFilter)
+      .map((tag) => ({ title: `#${tag}`, data: listItems.filter((it) => (it.info.tags || []).includes(tag)) }));
+    const untagged = listItems.filter((it) => !(it.info.tags || []).length);
+    if (untagged.length) sections.push({ title: "Untagged", data: untagged });
+    return sections.filter((sec) => sec.data.length > 0);
+  }, [groupByTag, allTags, tagFilter, listItems]);
+
+  // search and tags cover every entry, so while they are in use the remaining pages load too
+  useEffect(() => {
+    if ((searchMatches || tagFilter || groupByTag) && entryCursor !== null) loadMoreEntries();
+  }, [searchMatches, tagFilter, groupByTag, entryCursor]); // eslint-disable-line react-hooks/exhaustive-deps
+
 
   useEffect(() => {
     (async () => {
       setLoading(true);
       try {
-        const wrapped = await SecureStore.getItemAsync((storage as any).SECUREKEY_WRAPPED);
-        const salt = await SecureStore.getItemAsync((storage as any).SECUREKEY_SALT);
-        const iter = await SecureStore.getItemAsync((storage as any).SECUREKEY_ITER);
-        const metaJson = await (storage as any).storageGetMeta?.();
+        // finishes a write cut off by a crash and moves older vaults into SQLite, before anything reads entries or chains
+        await storage.openStorage();
+        const slot = await vaultkey.readKeySlot();
+        const metaJson = (await storage.storageGetMeta("vault")) as VaultMeta | null;
         const meta = metaJson ? metaJson : { biometricEnabled: false };
         setVaultMeta(meta);
 
-        if (wrapped && salt && iter) {
+        if (slot) {
+          // dead-man's switch runs before the lock screen is ever shown
+          const dm = await deadman.evaluateSwitch();
+          if (dm.expired) {
+            await performPanicWipe(`dead_man_switch ${dm.reason}`);
+            return;
+          }
+          setDeadmanStatus(dm);
           setInitialized(true);
           setLocked(true);
+          setLockoutState(await lockout.readLockout());
           await refreshData();
         } else {
           setInitialized(false);
         }
-      } catch (e) {
+      } catch (e: unknown) {
         console.warn("Startup error", e);
+        if (errorCode(e) === "BACKEND_UNAVAILABLE") {
+          setStorageFailure(errorMessage(e));
+          return;
+        }
         setInitialized(false);
       } finally {
         setLoading(false);
       }
     })();
     
-  }, []);
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps -- startup runs once
+
+  const lockoutWaitMs: number = lockoutState ? lockout.remainingMs(lockoutState, clock) : 0;
+  useEffect(() => {
+    if (!locked || !lockoutState || !lockoutState.failures) return;
+    setClock(Date.now());
+    const timer = setInterval(() => {
+      const now = Date.now();
+      setClock(now);
+      if (lockout.remainingMs(lockoutState, now) <= 0) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [locked, lockoutState]);
+
+  // auto-lock timers live outside render, so they call the latest handleLock through a ref
+  const handleLockRef = useRef<(reason?: string) => Promise<void>>(async () => {});
+  useEffect(() => {
+    if (locked || !masterKeyHex || !autoLockSettings) return;
+    return autolock.startAutoLock(autoLockSettings, (reason: string) => {
+      handleLockRef.current(reason).catch((e: unknown) => console.warn("Auto-lock failed", e));
+    });
+  }, [locked, masterKeyHex, autoLockSettings]);
+  // typing does not touch the screen, so a long entry counts as activity too
+  useEffect(() => {
+    autolock.noteActivity();
+  }, [newEntryText]);
 
   // dev toggle (safe shortcut visible only in development)
 const DEV_UNLOCK_ENABLED = false; // Set to true to enable dev unlock button
@@ -167,10 +358,47 @@ async function handleDevUnlock(): Promise<void> {
   }, [locked]);
 
   async function refreshData(): Promise<void> {
-    const e = await (storage as any).loadEntries();
-    setEntries(e || []);
-    const t = await (storage as any).loadTamperLog();
-    setTamperLog(t || []);
+    const e = await storage.loadEntriesPage(null, Math.max(ENTRY_PAGE, loadedEntriesRef.current));
+    loadedEntriesRef.current = e.items.length;
+    setEntries(e.items);
+    setEntryCursor(e.nextCursor);
+    setEntryTotal(e.total);
+    const t = await storage.loadTamperLogPage(null, TAMPER_PAGE);
+    setTamperLog(t.items);
+    setTamperCursor(t.nextCursor);
+    setTamperTotal(t.total);
+  }
+
+  // next (older) page of entries; records already listed are skipped in case a refresh got there first
+  async function loadMoreEntries(): Promise<void> {
+    if (entryCursor === null || pagingRef.current.entries) return;
+    pagingRef.current.entries = true;
+    try {
+      const page = await storage.loadEntriesPage(entryCursor, ENTRY_PAGE);
+      setEntries((loaded) => {
+        const ids = new Set(loaded.map((e) => e.id));
+        const next = loaded.concat(page.items.filter((e: Entry) => !ids.has(e.id)));
+        loadedEntriesRef.current = next.length;
+        return next;
+      });
+      setEntryCursor(page.nextCursor);
+      setEntryTotal(page.total);
+    } finally {
+      pagingRef.current.entries = false;
+    }
+  }
+
+  async function loadMoreTamperLog(): Promise<void> {
+    if (tamperCursor === null || pagingRef.current.tamper) return;
+    pagingRef.current.tamper = true;
+    try {
+      const page = await storage.loadTamperLogPage(tamperCursor, TAMPER_PAGE);
+      setTamperLog((loaded) => loaded.concat(page.items));
+      setTamperCursor(page.nextCursor);
+      setTamperTotal(page.total);
+    } finally {
+      pagingRef.current.tamper = false;
+    }
   }
 
   /* ---------------------------
@@ -181,17 +409,17 @@ async function handleHashVerify() {
   try {
     setLoading(true);
     
-    const res = await (blockchain as any).verifyChain();
+    const res = await blockchain.verifyChain();
    
     setIntegrityStatus(res.ok ? "Verified" : "Fail");
     setLastVerifiedAt(new Date().toISOString());
-    await (blockchain as any).appendEvent({ event: "integrity_check", detail: `${res.breaks || 0} breaks` });
+    await blockchain.appendEvent({ event: "integrity_check", detail: `${res.breaks || 0} breaks, ${res.badSignatures || 0} bad signatures` });
     
     
     await refreshData();
   } catch (e) {
     console.warn("Hash verify failed", e);
-    Alert.alert("Verify failed", e?.message || "Unknown error");
+    Alert.alert("Verify failed", errorMessage(e) || "Unknown error");
   } finally {
     setLoading(false);
   }
@@ -212,33 +440,38 @@ async function handleHashVerify() {
     }
     setLoading(true);
     try {
-      const masterHex = await (crypto as any).randomHex(32);
-      const saltHex = await (crypto as any).randomHex(16);
-      const wrapIvHex = await (crypto as any).randomHex(16);
-
-      const wrapKeyWA = (crypto as any).deriveKeyPBKDF2(setupPassA, saltHex, PBKDF2_ITERATIONS);
+      const masterHex = await crypto.randomHex(32);
 
-      const wrapped = (crypto as any).wrapMasterKey(masterHex, wrapKeyWA, wrapIvHex);
-
-      await SecureStore.setItemAsync((storage as any).SECUREKEY_WRAPPED, JSON.stringify({ wrapped, wrapIvHex }));
-      await SecureStore.setItemAsync((storage as any).SECUREKEY_SALT, saltHex);
-      await SecureStore.setItemAsync((storage as any).SECUREKEY_ITER, PBKDF2_ITERATIONS.toString());
-      await SecureStore.setItemAsync((storage as any).SECUREKEY_CREATED, new Date().toISOString());
+      await vaultkey.initializeKeySlot(masterHex, setupPassA);
+      await lockout.resetFailures(); // a count left over from a wiped vault
+      await SecureStore.setItemAsync(storage.SECUREKEY_CREATED, new Date().toISOString());
 
       
-      await (storage as any).saveEntries([]);
-      await AsyncStorage.setItem((storage as any).ASYNC_TAMPERLOG_KEY, JSON.stringify([]));
-      await AsyncStorage.setItem((storage as any).ASYNC_META_KEY, JSON.stringify({ biometricEnabled: false }));
+      await storage.saveEntries([], "primary");
+      await storage.replaceTamperLog([], "primary");
+      await AsyncStorage.setItem(storage.ASYNC_META_KEY, JSON.stringify({ biometricEnabled: false }));
 
-      //await (storage as any).appendTamperLog({ ts: new Date().toISOString(), event: "vault_created" });
+      //await storage.appendTamperLog({ ts: new Date().toISOString(), event: "vault_created" });
+      const signingPub: string = await blockchain.createSigningKey("primary");
+      await blockchain.appendEvent({ event: "signing_key_created", detail: `ed25519=${signingPub}` });
       await blockchain.appendEvent({ event: "vault_created", detail: "initialization" });
+      await duress.resetSecondarySet();
+      await blockchain.appendEvent({ event: duress.SECONDARY_RESET_EVENT });
+      if (setupRecoveryCodes) {
+        try {
+          await issueRecoveryCodes(masterHex, "setup");
+        } catch (e: unknown) {
+          console.warn("Recovery code setup failed", e);
+          Alert.alert("Recovery codes", "Vault created, but recovery codes could not be generated. " + errorMessage(e));
+        }
+      }
 
       setInitialized(true);
       setLocked(true);
       //Alert.alert("Vault created", "Vault initialized. Remember your passphrase.");
-    } catch (e: any) {
+    } catch (e: unknown) {
       console.error("Error creating vault:", e);
-      Alert.alert("Error", "Failed to initialize vault. " + (e.message || ""));
+      Alert.alert("Error", "Failed to initialize vault. " + errorMessage(e));
     } finally {
       setLoading(false);
       setSetupPassA("");
@@ -251,22 +484,18 @@ async function handleHashVerify() {
      Unlock
   --------------------------- */
   async function handleUnlock(): Promise<void> {
+    if (await lockedOut()) return;
     setLoading(true);
     try {
-      const wrappedObjStr = await SecureStore.getItemAsync((storage as any).SECUREKEY_WRAPPED);
-      const saltHex = await SecureStore.getItemAsync((storage as any).SECUREKEY_SALT);
-      const iterStr = await SecureStore.getItemAsync((storage as any).SECUREKEY_ITER);
-      if (!wrappedObjStr || !saltHex || !iterStr) {
+      const slot = await vaultkey.readKeySlot();
+      if (!slot) {
         Alert.alert("Vault not initialized", "No vault data found.");
         setLoading(false);
         return;
       }
-      const iter = parseInt(iterStr, 10);
-      const wrappedObj = JSON.parse(wrappedObjStr);
-      const { wrapped, wrapIvHex } = wrappedObj;
 
       
-      const metaJson = await AsyncStorage.getItem((storage as any).ASYNC_META_KEY);
+      const metaJson = await AsyncStorage.getItem(storage.ASYNC_META_KEY);
       const meta = metaJson ? JSON.parse(metaJson) : { biometricEnabled: false };
       setVaultMeta(meta);
       if (meta.biometricEnabled) {
@@ -275,7 +504,7 @@ async function handleHashVerify() {
           const res = await LocalAuthentication.authenticateAsync({ promptMessage: "Vault biometric" });
           if (!res.success) {
             Alert.alert("Biometric failed", "Biometric authentication failed.");
-           // await (storage as any).appendTamperLog({ ts: new Date().toISOString(), event: "unlock_failed", detail: "biometric_failed" });
+           // await storage.appendTamperLog({ ts: new Date().toISOString(), event: "unlock_failed", detail: "biometric_failed" });
             await blockchain.appendEvent({ event: "unlock_failed", detail: "biometric_failed" });
             setLoading(false);
             return;
@@ -283,48 +512,603 @@ async function handleHashVerify() {
         }
       }
 
-      const wrapKeyWA = (crypto as any).deriveKeyPBKDF2(unlockPass, saltHex, iter);
-      let masterHex: string;
-      try {
-        masterHex = (crypto as any).unwrapMasterKey(wrapped, wrapKeyWA, wrapIvHex);
-        if (!masterHex || masterHex.length !== 64) throw new Error("Master key length mismatch");
-      } catch (e) {
-       // await (storage as any).appendTamperLog({ ts: new Date().toISOString(), event: "unlock_failed", detail: "wrong_passphrase" });
-        await blockchain.appendEvent({ event: "unlock_failed", detail: "wrong_passphrase" });
-        Alert.alert("Unlock failed", "Incorrect passphrase.");
-        setLoading(false);
+      const opened = await vaultkey.unlockWithPassphrase(unlockPass, startKdf());
+      if (!opened) {
+       // await storage.appendTamperLog({ ts: new Date().toISOString(), event: "unlock_failed", detail: "wrong_passphrase" });
         setUnlockPass("");
+        await registerUnlockFailure("wrong_passphrase", "Incorrect passphrase.");
+        setLoading(false);
         return;
       }
-
-      setMasterKeyHex(masterHex);
-      setLocked(false);
-      setUnlockPass("");
-      await refreshData();
-      await verifyIntegrity(masterHex);
-      //await (storage as any).appendTamperLog({ ts: new Date().toISOString(), event: "unlocked", detail: "success" });
-      await blockchain.appendEvent({ event: "unlocked", detail: "success" });
-    } catch (e: any) {
+      const masterHex: string = opened.masterHex;
+      if (opened.duress) {
+        storage.selectVaultSet("secondary");
+        setDecoySession(true);
+        // written to the real chain only; the decoy session reads its own
+        await blockchain.appendEvent({ event: "duress_unlock", detail: opened.wipe ? "silent_wipe" : "decoy_only" }, "primary");
+        if (opened.wipe) duress.silentWipePrimary().catch((e: unknown) => console.warn("Duress wipe failed", e));
+      }
+      if (opened.completedPendingChange) {
+        await blockchain.appendEvent({ event: "passphrase_changed", detail: "completed_on_unlock" });
+      }
+      if (opened.kdfUpgrade) {
+        await blockchain.appendEvent({ event: "kdf_upgraded", detail: `${opened.kdfUpgrade.from} -> ${opened.kdfUpgrade.to}` });
+      }
+      await completeUnlock(masterHex);
+    } catch (e: unknown) {
+      // cancelled from the progress screen: not a failed attempt
+      if (errorCode(e) === "CANCELLED") return;
       console.error("Unlock error", e);
-      Alert.alert("Error", "Failed to unlock vault. " + (e.message || ""));
-      //await (storage as any).appendTamperLog({ ts: new Date().toISOString(), event: "unlock_failed", detail: e.message || "unknown" });
-      await blockchain.appendEvent({ event: "unlock_failed", detail: e.message || "unknown" });
+      Alert.alert("Error", "Failed to unlock vault. " + errorMessage(e));
+      //await storage.appendTamperLog({ ts: new Date().toISOString(), event: "unlock_failed", detail: e.message || "unknown" });
+      await blockchain.appendEvent({ event: "unlock_failed", detail: errorMessage(e) || "unknown" });
+    } finally {
+      endKdf();
+      setLoading(false);
+    }
+  }
+
+  // options for a vaultkey unlock: progress goes to the loading screen, Cancel aborts the controller
+  function startKdf(): { onProgress: (fraction: number, phase?: "unlock" | "upgrade") => void; signal: AbortSignal } {
+    const controller = new AbortController();
+    kdfAbortRef.current = controller;
+    setKdfProgress({ fraction: 0, phase: "unlock" });
+    return {
+      onProgress: (fraction, phase = "unlock") => {
+        if (kdfAbortRef.current === controller) setKdfProgress({ fraction, phase });
+      },
+      signal: controller.signal,
+    };
+  }
+
+  function endKdf(): void {
+    kdfAbortRef.current = null;
+    setKdfProgress(null);
+  }
+
+  function cancelKdf(): void {
+    kdfAbortRef.current?.abort();
+    endKdf();
+  }
+
+  /* ---------------------------
+     Failed-unlock lockout (see src/lockout.js)
+  --------------------------- */
+  // true (after telling the user) while the backoff from earlier failures is still running
+  async function lockedOut(): Promise<boolean> {
+    const state: LockoutState = await lockout.readLockout();
+    setLockoutState(state);
+    const wait: number = lockout.remainingMs(state);
+    if (wait <= 0) return false;
+    Alert.alert("Locked out", `Too many failed attempts. Try again in ${formatWait(wait)}.`);
+    return true;
+  }
+
+  async function registerUnlockFailure(detail: string, message: string): Promise<void> {
+    const res = await lockout.recordFailure();
+    await blockchain.appendEvent({ event: "unlock_failed", detail: `${detail} attempts=${res.failures}` });
+    setLockoutState(await lockout.readLockout());
+    if (res.wipe) {
+      // the chain goes with the wipe; the receipt records why
+      await performPanicWipe(`lockout attempts=${res.failures}`);
+      return;
+    }
+    await blockchain.appendEvent({ event: "lockout_started", detail: `attempts=${res.failures} wait_ms=${res.delayMs}` });
+    Alert.alert("Unlock failed", `${message} Next attempt in ${formatWait(res.delayMs)}.`);
+  }
+
+  async function handleCycleWipeThreshold(): Promise<void> {
+    const choices: (number | null)[] = lockout.WIPE_THRESHOLD_CHOICES;
+    const next = choices[(choices.indexOf(lockoutState?.wipeAfter ?? null) + 1) % choices.length];
+    try {
+      // the threshold is device-wide and guards the real vault: a decoy session only shows its choice
+      if (!decoySession) await lockout.setWipeThreshold(next);
+      await blockchain.appendEvent({ event: "lockout_wipe_threshold", detail: next ? `attempts=${next}` : "off" });
+      setLockoutState(decoySession && lockoutState ? { ...lockoutState, wipeAfter: next } : await lockout.readLockout());
+    } catch (e: unknown) {
+      console.warn("Wipe threshold update failed", e);
+      Alert.alert("Error", errorMessage(e) || "Could not update the wipe threshold.");
+    }
+  }
+
+  // shared tail of every successful unlock path
+  async function completeUnlock(masterHex: string, detail: string = "success"): Promise<void> {
+    const cleared: number = await lockout.resetFailures();
+    // the counter is device-wide, so it is accounted for in the real chain even in a decoy session
+    if (cleared) await blockchain.appendEvent({ event: "lockout_cleared", detail: `attempts=${cleared}` }, "primary");
+    setLockoutState(await lockout.readLockout());
+    // vaults created before audit signing get their key on the first unlock; blocks before it stay unsigned
+    if (!(await blockchain.signingPublicKey())) {
+      const signingPub: string = await blockchain.createSigningKey();
+      await blockchain.appendEvent({ event: "signing_key_created", detail: `ed25519=${signingPub}` });
+    }
+    if (storage.activeVaultSet() === "primary" && (await duress.ensureSecondarySet())) {
+      await blockchain.appendEvent({ event: duress.SECONDARY_RESET_EVENT });
+    }
+    setAutoLockSettings(await autolock.loadAutoLock());
+    setKdfLabel(await vaultkey.describeVaultKdf());
+    setRecoveryCount(await vaultkey.recoveryCodesRemaining());
+
+    setMasterKeyHex(masterHex);
+    setLocked(false);
+    setUnlockPass("");
+    await refreshData();
+    await verifyIntegrity(masterHex);
+    //await storage.appendTamperLog({ ts: new Date().toISOString(), event: "unlocked", detail: "success" });
+    const unlockedBlock = await blockchain.appendEvent({ event: "unlocked", detail });
+    // only a real unlock keeps the dead-man's switch from firing; a duress one does not
+    if (storage.activeVaultSet() === "primary") await deadman.checkIn(unlockedBlock);
+    setDeadmanStatus(await deadman.readStatus());
+    // not awaited: v1 and v2 entries are both readable while these run
+    runEntryMigration(masterHex);
+    buildDecryptedViews(masterHex);
+  }
+
+  /* ---------------------------
+     Recovery codes
+     - each code wraps the master key in its own slot and is spent on use
+     - opening the vault with one forces a new passphrase before anything else
+  --------------------------- */
+  async function issueRecoveryCodes(masterHex: string, reason: string): Promise<void> {
+    const codes: string[] = await vaultkey.generateRecoveryCodes(masterHex, 8, storage.activeVaultSet());
+    setRecoveryCodes(codes);
+    setRecoveryCount(codes.length);
+    await blockchain.appendEvent({ event: "recovery_codes_generated", detail: `${reason} count=${codes.length}` });
+  }
+
+  function handleRegenerateRecoveryCodes(): void {
+    if (!masterKeyHex) return;
+    Alert.alert("New recovery codes?", "Codes you saved earlier will stop working.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Generate",
+        onPress: async () => {
+          setLoading(true);
+          try {
+            await issueRecoveryCodes(masterKeyHex, "regenerated");
+          } catch (e: unknown) {
+            console.warn("Recovery code generation failed", e);
+            Alert.alert("Recovery codes", errorMessage(e) || "Unknown error");
+          } finally {
+            setLoading(false);
+            refreshData();
+          }
+        },
+      },
+    ]);
+  }
+
+  async function handleRecoveryUnlock(): Promise<void> {
+    if (await lockedOut()) return;
+    setLoading(true);
+    try {
+      const opened = await vaultkey.unlockWithRecoveryCode(recoveryInput, startKdf());
+      setRecoveryInput("");
+      if (!opened) {
+        await registerUnlockFailure("bad_recovery_code", "Recovery code not recognised or already used.");
+        return;
+      }
+      await blockchain.appendEvent({ event: "recovery_code_used", detail: `remaining=${opened.remaining}` });
+      setRecoveryCount(opened.remaining);
+      setPendingRecovery({ masterHex: opened.masterHex, via: "recovery_code", reason: `Recovery code accepted (${opened.remaining} left).` });
+    } catch (e: unknown) {
+      if (errorCode(e) === "CANCELLED") return;
+      console.error("Recovery unlock error", e);
+      await blockchain.appendEvent({ event: "unlock_failed", detail: errorMessage(e) || "unknown" });
+      Alert.alert("Error", "Failed to unlock vault. " + errorMessage(e));
+    } finally {
+      endKdf();
+      setLoading(false);
+    }
+  }
+
+  /* ---------------------------
+     Custodian shares (M-of-N Shamir split of the master key, see src/shamir.js)
+  --------------------------- */
+  async function handleCreateShares({ threshold, count, custodians }: { threshold: number; count: number; custodians: string[] }): Promise<boolean> {
+    if (!masterKeyHex) return false;
+    if (!Number.isInteger(threshold) || !Number.isInteger(count) || threshold < 2 || count < threshold || count > 16) {
+      Alert.alert("Invalid split", "Use 2 <= M <= N <= 16.");
+      return false;
+    }
+    if (custodians.length && custodians.length !== count) {
+      Alert.alert("Custodians", `Name all ${count} custodians or none.`);
+      return false;
+    }
+    setLoading(true);
+    try {
+      const split = await shamir.splitSecret(masterKeyHex, threshold, count);
+      const issued = split.shares.map((sh, i) => ({ ...sh, threshold, custodian: custodians[i] || `custodian ${sh.index}` }));
+      await blockchain.appendEvent({ event: "shamir_split_created", id: split.setId, detail: `${threshold}-of-${count}` });
+      for (const sh of issued) {
+        await blockchain.appendEvent({ event: "shamir_share_issued", id: split.setId, custody: sh.custodian, detail: `share ${sh.index}/${count}` });
+      }
+      setIssuedShares(issued);
+      return true;
+    } catch (e: unknown) {
+      console.warn("Share split failed", e);
+      Alert.alert("Split failed", errorMessage(e) || "Unknown error");
+      return false;
+    } finally {
+      setLoading(false);
+      refreshData();
+    }
+  }
+
+  function closeShares(): void {
+    setIssuedShares(null);
+    setShowShares(false);
+  }
+
+  async function handleShareRecovery(lines: string[]): Promise<boolean> {
+    setLoading(true);
+    try {
+      const rebuilt = shamir.combineShares(lines);
+      if (!(await vaultkey.matchesVault(rebuilt.secretHex))) {
+        await blockchain.appendEvent({ event: "shamir_reconstruct_failed", id: rebuilt.setId, detail: "key_mismatch" });
+        Alert.alert("Shares rejected", "The shares are valid but belong to a different vault or an old key.");
+        return false;
+      }
+      await blockchain.appendEvent({ event: "shamir_reconstructed", id: rebuilt.setId, custody: `shares ${rebuilt.indices.join(",")}`, detail: `${rebuilt.indices.length} shares` });
+      setShowShareRecovery(false);
+      setPendingRecovery({ masterHex: rebuilt.secretHex, via: "custodian_shares", reason: "Master key rebuilt from custodian shares." });
+      return true;
+    } catch (e: unknown) {
+      console.warn("Share recovery failed", e);
+      await blockchain.appendEvent({ event: "shamir_reconstruct_failed", detail: errorCode(e) || errorMessage(e) || "unknown" });
+      Alert.alert("Shares rejected", errorMessage(e) || "Unknown error");
+      return false;
     } finally {
       setLoading(false);
     }
   }
 
+  /* ---------------------------
+     Duress passphrase (decoy vault, see src/duress.js)
+  --------------------------- */
+  async function handleConfigureDuress({ passphrase, confirm, wipe, decoyEntries }: { passphrase: string; confirm: string; wipe: boolean; decoyEntries: string[] }): Promise<boolean> {
+    if (!masterKeyHex) return false;
+    if (!passphrase || passphrase !== confirm) {
+      Alert.alert("Passphrase mismatch", "Ensure duress passphrase and confirmation match.");
+      return false;
+    }
+    if (passphrase.length < 12) {
+      Alert.alert("Weak passphrase", "Use 12+ characters.");
+      return false;
+    }
+    setLoading(true);
+    try {
+      // a decoy session has no slot for a decoy of its own, so it writes nothing but the event to its chain
+      const res = decoySession ? { entries: decoyEntries.length } : await duress.configureDecoy(masterKeyHex, passphrase, { wipe, entries: decoyEntries });
+      await blockchain.appendEvent({ event: duress.SECONDARY_RESET_EVENT });
+      setShowDuress(false);
+      Alert.alert("Duress passphrase set", `Decoy vault holds ${res.entries} entries.`);
+      return true;
+    } catch (e: unknown) {
+      console.warn("Duress setup failed", e);
+      Alert.alert("Duress setup failed", errorMessage(e) || "Unknown error");
+      return false;
+    } finally {
+      setLoading(false);
+      refreshData();
+    }
+  }
+
+  async function handleRemoveDuress(): Promise<boolean> {
+    if (!masterKeyHex) return false;
+    setLoading(true);
+    try {
+      if (!decoySession) await duress.removeDecoy();
+      await blockchain.appendEvent({ event: duress.SECONDARY_RESET_EVENT });
+      setShowDuress(false);
+      Alert.alert("Duress passphrase removed", "The decoy vault was cleared.");
+      return true;
+    } catch (e: unknown) {
+      console.warn("Duress removal failed", e);
+      Alert.alert("Removal failed", errorMessage(e) || "Unknown error");
+      return false;
+    } finally {
+      setLoading(false);
+      refreshData();
+    }
+  }
+
+  async function handleResetPassphrase({ next, confirm }: { next: string; confirm: string }): Promise<boolean> {
+    if (!pendingRecovery) return false;
+    if (!next || next !== confirm) {
+      Alert.alert("Passphrase mismatch", "Ensure new passphrase and confirmation match.");
+      return false;
+    }
+    if (next.length < 12) {
+      Alert.alert("Weak passphrase", "Use 12+ characters.");
+      return false;
+    }
+    setLoading(true);
+    try {
+      const { masterHex, via } = pendingRecovery;
+      await vaultkey.resetPassphrase(masterHex, next);
+      await blockchain.appendEvent({ event: "passphrase_reset", detail: via });
+      setPendingRecovery(null);
+      setRecoveryMode(false);
+      await completeUnlock(masterHex, via);
+      return true;
+    } catch (e: unknown) {
+      console.warn("Passphrase reset failed", e);
+      await blockchain.appendEvent({ event: "passphrase_reset_failed", detail: errorMessage(e) || "unknown" });
+      Alert.alert("Reset failed", errorMessage(e) || "Unknown error");
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /* ---------------------------
+     Entry format migration (v1 -> v2)
+     - runs in the background after unlock, progress goes to the audit chain
+  --------------------------- */
+  async function runEntryMigration(masterHex: string): Promise<void> {
+    try {
+      const legacy = await entryFormat.countStoredLegacyEntries();
+      if (!legacy) return;
+      setMigrationStatus(`0/${legacy}`);
+      await blockchain.appendEvent({ event: "entry_migration_started", detail: `${legacy} v1 entries` });
+      const res = await entryFormat.migrateEntries(masterHex, {
+        onProgress: async (p: { done: number; total: number; migrated: number }) => {
+          setMigrationStatus(`${p.done}/${p.total}`);
+          await blockchain.appendEvent({ event: "entry_migration_progress", detail: `${p.done}/${p.total} processed, ${p.migrated} migrated` });
+          refreshData();
+        },
+        // re-sealed records get new content, so each is committed again
+        onResealed: async (records: Entry[]) => {
+          for (const r of records) {
+            await blockchain.appendEvent({ event: "entry_migrated", id: r.id, hash: entryFormat.entryCommitment(r) });
+          }
+        },
+      });
+      for (const id of res.failed) {
+        await blockchain.appendEvent({ event: "entry_migration_skipped", id, detail: "integrity_or_decrypt_fail" });
+      }
+      await blockchain.appendEvent({ event: "entry_migration_complete", detail: `${res.migrated} migrated, ${res.failed.length} failed` });
+    } catch (e: unknown) {
+      console.warn("Entry migration failed", e);
+      await blockchain.appendEvent({ event: "entry_migration_failed", detail: errorMessage(e) || "unknown" });
+    } finally {
+      setMigrationStatus(null);
+      refreshData();
+    }
+  }
+
+  /* ---------------------------
+     Decrypted views: titles/tags and the search index (in memory, dropped on lock)
+  --------------------------- */
+  async function buildDecryptedViews(masterHex: string): Promise<void> {
+    const gen = ++searchGenRef.current;
+    try {
+      const metaMap = await entryFormat.loadStoredMetaMap(masterHex);
+      if (gen !== searchGenRef.current) return;
+      setEntryInfo(metaMap);
+
+      const { index, skipped } = await search.buildStoredIndex(masterHex, metaMap);
+      if (gen !== searchGenRef.current) {
+        search.clearIndex(index);
+        return;
+      }
+      searchIndexRef.current = index;
+      setSearchReady(true);
+      if (skipped.length) console.warn("Search index skipped entries", skipped);
+    } catch (e) {
+      console.warn("Search index build failed", e);
+    }
+  }
+
+  function dropDecryptedViews(): void {
+    searchGenRef.current++;
+    search.clearIndex(searchIndexRef.current);
+    searchIndexRef.current = null;
+    setSearchReady(false);
+    setSearchQuery("");
+    setEntryInfo({});
+    setTagFilter(null);
+  }
+
+  function resetEntryForm(): void {
+    // picked files are plaintext copies in the cache until they are encrypted
+    for (const f of pendingFiles) attachments.discardPickedFile(f.uri).catch(() => {});
+    setPendingFiles([]);
+    setNewEntryText("");
+    setNewEntryTitle("");
+    setNewEntryTags("");
+    setNewEntryLevel("unclassified");
+    setRevisingEntry(null);
+  }
+
+  /* ---------------------------
+     Change passphrase (rewrap master key)
+  --------------------------- */
+  async function handleChangePassphrase({ current, next, confirm }: { current: string; next: string; confirm: string }): Promise<boolean> {
+    if (!masterKeyHex) return false;
+    if (!next || next !== confirm) {
+      Alert.alert("Passphrase mismatch", "Ensure new passphrase and confirmation match.");
+      return false;
+    }
+    if (next.length < 12) {
+      Alert.alert("Weak passphrase", "Use 12+ characters.");
+      return false;
+    }
+    if (next === current) {
+      Alert.alert("Unchanged", "New passphrase must differ from the current one.");
+      return false;
+    }
+    setLoading(true);
+    try {
+      // only the slot this session opened is tried, so a decoy session never touches the real one
+      await vaultkey.changePassphrase(masterKeyHex, current, next, storage.activeVaultSet());
+      await blockchain.appendEvent({ event: "passphrase_changed", detail: "rewrapped" });
+      setShowChangePass(false);
+      Alert.alert("Passphrase changed", "Use the new passphrase from now on.");
+      return true;
+    } catch (e: unknown) {
+      console.warn("Change passphrase failed", e);
+      await blockchain.appendEvent({ event: "passphrase_change_failed", detail: errorMessage(e) || "unknown" });
+      Alert.alert("Change failed", errorMessage(e) || "Unknown error");
+      return false;
+    } finally {
+      setLoading(false);
+      refreshData();
+    }
+  }
+
+  /* ---------------------------
+     Backup / restore (.vaultx bundle, see src/backup.js)
+  --------------------------- */
+  async function handleCreateBackup({ passphrase, confirm }: { passphrase: string; confirm: string }): Promise<boolean> {
+    if (!masterKeyHex) return false;
+    if (!passphrase || passphrase !== confirm) {
+      Alert.alert("Passphrase mismatch", "Ensure backup passphrase and confirmation match.");
+      return false;
+    }
+    if (passphrase.length < 12) {
+      Alert.alert("Weak passphrase", "Use 12+ characters.");
+      return false;
+    }
+    setLoading(true);
+    let uri: string | null = null;
+    try {
+      const made = await backup.createBackup(masterKeyHex, passphrase, storage.activeVaultSet());
+      uri = made.uri;
+      await blockchain.appendEvent({ event: "backup_created", hash: made.digest, detail: `entries=${made.manifest.entryCount} attachments=${made.manifest.attachmentCount}` });
+      setShowBackup(false);
+      if (await Sharing.isAvailableAsync()) {
+        await autolock.whileAway(() => Sharing.shareAsync(uri as string, { mimeType: "application/octet-stream", dialogTitle: "Save vault backup" }));
+      } else {
+        Alert.alert("Unavailable", "No app on this device can receive the backup file.");
+      }
+      return true;
+    } catch (e: unknown) {
+      console.warn("Backup failed", e);
+      await blockchain.appendEvent({ event: "backup_failed", detail: errorCode(e) || errorMessage(e) || "unknown" });
+      Alert.alert("Backup failed", errorMessage(e) || "Unknown error");
+      return false;
+    } finally {
+      // the bundle is encrypted, but it should not linger in the cache once handed off
+      if (uri) await attachments.discardPickedFile(uri).catch(() => {});
+      setLoading(false);
+      refreshData();
+    }
+  }
+
+  async function handlePickBackupFile(): Promise<void> {
+    try {
+      const res: DocumentPicker.DocumentPickerResult = await autolock.whileAway(() => DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true, multiple: false }));
+      if (res.canceled || !res.assets?.length) return;
+      setRestoreFile({ uri: res.assets[0].uri, name: res.assets[0].name });
+    } catch (e: unknown) {
+      console.warn("Backup pick failed", e);
+      Alert.alert("Restore failed", errorMessage(e) || "Unknown error");
+    }
+  }
+
+  function cancelRestore(): void {
+    if (restoreFile) attachments.discardPickedFile(restoreFile.uri).catch(() => {});
+    setRestoreFile(null);
+  }
+
+  function confirmReplaceVault(): Promise<boolean> {
+    return new Promise((resolve) => {
+      Alert.alert("Replace this vault?", "The backup checked out. Restoring replaces every entry, attachment and the audit chain on this device.", [
+        { text: "Cancel", style: "cancel", onPress: () => resolve(false) },
+        { text: "Replace", style: "destructive", onPress: () => resolve(true) },
+      ]);
+    });
+  }
+
+  async function handleRestoreBackup({ passphrase }: { passphrase: string }): Promise<boolean> {
+    if (!restoreFile) return false;
+    setLoading(true);
+    try {
+      const bundle = await backup.readBackup(restoreFile.uri, passphrase);
+      if (initialized && !(await confirmReplaceVault())) return false;
+      // the real vault is never replaced from a decoy session: the bundle is checked, nothing is written
+      if (!decoySession) await backup.applyBackup(bundle);
+      cancelRestore();
+      setMasterKeyHex(null);
+      dropDecryptedViews();
+      setViewingEntry(null);
+      setIntegrityStatus("Unknown");
+      setInitialized(true);
+      setLocked(true);
+      storage.selectVaultSet("primary");
+      setDecoySession(false);
+      Alert.alert("Backup restored", `${bundle.manifest.entryCount} entries restored. Unlock with the vault passphrase in use when the backup was made.`);
+      return true;
+    } catch (e: unknown) {
+      console.warn("Restore failed", e);
+      if (initialized) await blockchain.appendEvent({ event: "backup_restore_rejected", detail: errorCode(e) || errorMessage(e) || "unknown" });
+      Alert.alert("Restore refused", errorMessage(e) || "Unknown error");
+      return false;
+    } finally {
+      setLoading(false);
+      refreshData();
+    }
+  }
+
   /* ---------------------------
      Lock
   --------------------------- */
-  async function handleLock(): Promise<void> {
+  // reason: "user_lock", or the auto-lock trigger ("idle" | "background" | "screen_off")
+  async function handleLock(reason: string = "user_lock"): Promise<void> {
     setMasterKeyHex(null);
     setLocked(true);
-    setViewingEntryPlain(null);
-    setNewEntryText("");
-    //await (storage as any).appendTamperLog({ ts: new Date().toISOString(), event: "locked", detail: "user_lock" });
-    await blockchain.appendEvent({ event: "locked", detail: "user_lock" });
+    dropDecryptedViews();
+    setViewingEntry(null);
+    closePreview().catch(() => {}); // the decrypted preview file too
+    resetEntryForm();
+    closeShares();
+    //await storage.appendTamperLog({ ts: new Date().toISOString(), event: "locked", detail: "user_lock" });
+    if (reason === "user_lock") await blockchain.appendEvent({ event: "locked", detail: "user_lock" });
+    else await blockchain.appendEvent({ event: "auto_locked", detail: reason });
+    storage.selectVaultSet("primary");
+    setDecoySession(false);
+    setEntryCommits(null);
+    setDeadmanStatus(await deadman.readStatus());
   }
+  handleLockRef.current = handleLock;
+
+  async function handleCycleDeadman(): Promise<void> {
+    const choices: (number | null)[] = deadman.DAY_CHOICES;
+    const next = choices[(choices.indexOf(deadmanStatus?.armed ? deadmanStatus.days : null) + 1) % choices.length];
+    try {
+      if (decoySession) {
+        // the switch is anchored in the real chain and wipes the real vault: a decoy session logs
+        // the change in its own chain and only shows it
+        await blockchain.appendEvent(next ? { event: "deadman_armed", detail: `days=${next}` } : { event: "deadman_disarmed", detail: "user" });
+        setDeadmanStatus({ armed: !!next, days: next, remainingMs: next ? next * deadman.DAY_MS : null });
+      } else {
+        if (next) await deadman.armSwitch(next);
+        else await deadman.disarmSwitch("user");
+        setDeadmanStatus(await deadman.readStatus());
+      }
+    } catch (e: unknown) {
+      console.warn("Dead-man's switch update failed", e);
+      Alert.alert("Error", errorMessage(e) || "Could not update the dead-man's switch.");
+    }
+  }
+
+  async function handleSaveAutoLock(next: AutoLockSettings): Promise<void> {
+    try {
+      const saved: AutoLockSettings = await autolock.saveAutoLock(next);
+      setAutoLockSettings(saved);
+      setShowAutoLock(false);
+      await blockchain.appendEvent({
+        event: "autolock_updated",
+        detail: `idle=${saved.idleMinutes ? saved.idleMinutes + "m" : "never"} background=${saved.onBackground ? "on" : "off"} screen_off=${saved.onScreenOff ? "on" : "off"} grace=${saved.graceSeconds}s`,
+      });
+    } catch (e: unknown) {
+      console.warn("Auto-lock settings failed", e);
+      Alert.alert("Error", errorMessage(e) || "Could not save auto-lock settings.");
+    }
+  }
+
   /* ---------------------------
      One-click verify wrapper (UI-friendly)
   --------------------------- */
@@ -339,11 +1123,11 @@ async function handleVerifyNow(): Promise<void> {
     // run the existing verify function (it updates integrityStatus + tamper log)
     await verifyIntegrity(masterKeyHex);
     // small feedback — the status is visible in the header, so no heavy alert needed.
-    //await (storage as any).appendTamperLog({ ts: new Date().toISOString(), event: "manual_integrity_check" });
+    //await storage.appendTamperLog({ ts: new Date().toISOString(), event: "manual_integrity_check" });
     await blockchain.appendEvent({ event: "manual_integrity_check", detail: "user_initiated" });
-  } catch (e: any) {
+  } catch (e: unknown) {
     console.warn("Manual verify failed", e);
-    Alert.alert("Verify failed", e?.message || "Unknown error");
+    Alert.alert("Verify failed", errorMessage(e) || "Unknown error");
   } finally {
     setLoading(false);
   }
@@ -360,19 +1144,35 @@ async function handleVerifyNow(): Promise<void> {
       return;
     }
     try {
-      const loaded: Entry[] = await (storage as any).loadEntries();
-      let okCount = 0,
-        failCount = 0;
-      for (const e of loaded || []) {
-        const ok = (crypto as any).verifyEntryHMAC(masterHex, e);
-        if (ok) okCount++;
-        else failCount++;
+      // records and chain are read a page at a time; records from before commitments are committed
+      // as found once their HMAC checks
+      const check = await entryFormat.checkStoredEntries(masterHex, {
+        onLegacy: (e: Entry) =>
+          blockchain.appendEvent({ event: "entry_committed", id: e.id, detail: "baseline", hash: entryFormat.entryCommitment(e) }),
+      });
+      const okCount = check.ok;
+      let failCount = check.failed.length + check.brokenLinks.length;
+      for (const id of check.brokenLinks) {
+        await blockchain.appendEvent({ event: "revision_link_broken", id });
+      }
+
+      // every record against its latest chain commitment
+      const commits: EntryCommitCheck = check.commits;
+      for (const [id, st] of Object.entries(commits.statuses)) {
+        if (st === "changed" || st === "extra") {
+          failCount++;
+          await blockchain.appendEvent({ event: "entry_commitment_mismatch", id, detail: st });
+        }
       }
+      for (const m of commits.missing) {
+        failCount++;
+        await blockchain.appendEvent({ event: "entry_commitment_mismatch", id: m.id, detail: `missing committed_seq=${m.seq}` });
+      }
+      setEntryCommits(commits);
       const status = failCount === 0 ? "Verified" : "Fail";
       setIntegrityStatus(status);
       const now = new Date().toISOString();
       setLastVerifiedAt(now);
-      await (storage as any).appendTamperLog({ ts: now, event: "integrity_check", detail: `${okCount} ok, ${failCount} fail` });
       await blockchain.appendEvent({ event: "integrity_check", detail: `${okCount} ok, ${failCount} fail` });
       refreshData();
     } catch (err) {
@@ -395,97 +1195,194 @@ async function handleVerifyNow(): Promise<void> {
     }
     setLoading(true);
     try {
-      const { ivHex, ciphertextB64, hmac, ts } = await (crypto as any).encryptEntryWithMaster(masterKeyHex, newEntryText);
-      const id = Date.now().toString() + "-" + ivHex.slice(0, 6);
-      const entry: Entry = { id, iv: ivHex, ciphertext: ciphertextB64, hmac, timestamp: ts };
-      await (storage as any).appendEntry(entry);
-      //await (storage as any).appendTamperLog({ ts: new Date().toISOString(), event: "entry_added", id });
-      await blockchain.appendEvent({ event: "entry_added", detail: `id=${id}` });
+      // revisions keep the previous record's attachments and add any new ones
+      const keptRefs: AttachmentRef[] = revisingEntry?.attachments || [];
+      const keptFiles: FileInfo[] = revisingEntry ? entryInfo[entryFormat.rootIdOf(revisingEntry)]?.files || [] : [];
+      const newRefs: AttachmentRef[] = [];
+      const newFiles: FileInfo[] = [];
+      for (const f of pendingFiles) {
+        const ref: AttachmentRef = await attachments.encryptFile(masterKeyHex, f.uri, f.size);
+        newRefs.push(ref);
+        newFiles.push({ id: ref.id, name: f.name, mime: f.mime, size: f.size });
+      }
+      const refs = [...keptRefs, ...newRefs];
+
+      const meta: EntryMeta = entryFormat.normalizeMeta({
+        title: newEntryTitle,
+        tags: entryFormat.parseTags(newEntryTags),
+        classification: newEntryLevel,
+        files: [...keptFiles, ...newFiles],
+      });
+      let entry: Entry;
+      if (revisingEntry) {
+        entry = await entryFormat.reviseEntry(masterKeyHex, revisingEntry, newEntryText, meta, refs);
+        await storage.appendEntry(entry);
+        await blockchain.appendEvent({ event: "entry_revised", id: entry.id, detail: `prev=${revisingEntry.id} new=${entry.id}`, hash: entryFormat.entryCommitment(entry) });
+      } else {
+        entry = await entryFormat.sealEntry(masterKeyHex, newEntryText, { meta, attachments: refs });
+        const id = entry.id;
+        await storage.appendEntry(entry);
+        //await storage.appendTamperLog({ ts: new Date().toISOString(), event: "entry_added", id });
+        await blockchain.appendEvent({ event: "entry_added", id, detail: `id=${id}`, hash: entryFormat.entryCommitment(entry) });
+      }
+      for (const ref of newRefs) {
+        await blockchain.appendEvent({ event: "attachment_added", id: entry.id, file: ref.id, hash: ref.hash });
+      }
+      const rootId: string = entryFormat.rootIdOf(entry);
+      setEntryInfo((prev) => ({ ...prev, [rootId]: meta }));
+      if (searchIndexRef.current) search.addDocument(searchIndexRef.current, rootId, search.documentText(newEntryText, meta));
       
-      setNewEntryText("");
+      resetEntryForm();
       setShowNewModal(false);
       refreshData();
-    } catch (e: any) {
+    } catch (e: unknown) {
       console.error("Save entry error", e);
-      Alert.alert("Error", "Failed to save entry. " + (e.message || ""));
+      Alert.alert("Error", "Failed to save entry. " + errorMessage(e));
     } finally {
       setLoading(false);
     }
   }
 
   /* ---------------------------
-     View entry
+     View entry (with its revision history)
   --------------------------- */
   async function handleViewEntry(entry: Entry): Promise<void> {
     if (!masterKeyHex) {
       Alert.alert("Locked", "Unlock first.");
       return;
     }
-    const ok = (crypto as any).verifyEntryHMAC(masterKeyHex, entry);
+    const ok = entryFormat.verifyEntry(masterKeyHex, entry);
     if (!ok) {
       Alert.alert("Integrity failed", "Entry integrity check failed.");
-     // await (storage as any).appendTamperLog({ ts: new Date().toISOString(), event: "entry_integrity_fail", id: entry.id });
+     // await storage.appendTamperLog({ ts: new Date().toISOString(), event: "entry_integrity_fail", id: entry.id });
       await blockchain.appendEvent({ event: "entry_integrity_fail", id: entry.id });
       return;
     }
     try {
-      const plain = (crypto as any).decryptEntryWithMaster(masterKeyHex, entry);
-      setViewingEntryPlain({ id: entry.id, text: plain });
-      //await (storage as any).appendTamperLog({ ts: new Date().toISOString(), event: "entry_viewed", id: entry.id });
-      await blockchain.appendEvent({ event: "entry_viewed", id: entry.id });
+      // older revisions may be on pages not loaded yet, so the chain is read from storage
+      const records: Entry[] = await entryFormat.loadRevisions(entry);
+      const revisions: RevisionView[] = [];
+      for (const r of records) {
+        let text: string | null = null;
+        let files: FileInfo[] = [];
+        if (r.id === entry.id || entryFormat.verifyEntry(masterKeyHex, r)) {
+          text = await entryFormat.openEntry(masterKeyHex, r);
+          files = (await entryFormat.openEntryMeta(masterKeyHex, r)).files || [];
+        } else {
+          await blockchain.appendEvent({ event: "entry_integrity_fail", id: r.id });
+        }
+        revisions.push({ id: r.id, timestamp: r.timestamp, text, files });
+      }
+      setViewingEntry({ latest: entry, records, revisions });
+      //await storage.appendTamperLog({ ts: new Date().toISOString(), event: "entry_viewed", id: entry.id });
+      await blockchain.appendEvent({ event: "entry_viewed", id: entry.id, ...(revisions.length > 1 ? { detail: `revisions=${revisions.length}` } : {}) });
     } catch (e) {
       console.error("Decrypt error", e);
       Alert.alert("Error", "Decryption failed.");
-      //await (storage as any).appendTamperLog({ ts: new Date().toISOString(), event: "entry_decrypt_fail", id: entry.id});
+      //await storage.appendTamperLog({ ts: new Date().toISOString(), event: "entry_decrypt_fail", id: entry.id});
       await blockchain.appendEvent({ event: "entry_decrypt_fail", id: entry.id });
     }
   }
 
   /* ---------------------------
-     Panic wipe
-     - do multiple overwrite passes
-     - delete SecureStore keys
-     - verify deletion
+     Attachments
   --------------------------- */
-  async function performPanicWipe(): Promise<void> {
+  async function handlePickAttachment(): Promise<void> {
+    try {
+      const res: DocumentPicker.DocumentPickerResult = await autolock.whileAway(() => DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true, multiple: false }));
+      if (res.canceled || !res.assets?.length) return;
+      const a = res.assets[0];
+      setPendingFiles((prev) => [...prev, { uri: a.uri, name: a.name, mime: a.mimeType || "application/octet-stream", size: a.size || 0 }]);
+    } catch (e: unknown) {
+      console.warn("Attachment pick failed", e);
+      Alert.alert("Attach failed", errorMessage(e) || "Unknown error");
+    }
+  }
+
+  function removePendingFile(uri: string): void {
+    attachments.discardPickedFile(uri).catch(() => {});
+    setPendingFiles((prev) => prev.filter((f) => f.uri !== uri));
+  }
+
+  async function handleOpenAttachment(recordId: string, fileId: string): Promise<void> {
+    if (!masterKeyHex || !viewingEntry) return;
+    const record = viewingEntry.records.find((r) => r.id === recordId);
+    const ref = record?.attachments?.find((a) => a.id === fileId);
+    const info = viewingEntry.revisions.find((r) => r.id === recordId)?.files.find((f) => f.id === fileId);
+    if (!record || !ref || !info) return;
     setLoading(true);
+    let uri: string | null = null;
     try {
-      const current: Entry[] = await (storage as any).loadEntries();
-      const passes = 3;
-      for (let p = 0; p < passes; p++) {
-        const junk: Entry[] = [];
-        for (const e of current || []) {
-          const len = Math.max(32, Math.floor(Math.random() * 128));
-          const junkHex = await (crypto as any).randomHex(len);
-          junk.push({ ...e, ciphertext: junkHex, hmac: junkHex, iv: junkHex.slice(0, 32), timestamp: new Date().toISOString() });
-        }
-        await (storage as any).saveEntries(junk);
-        await new Promise((r) => setTimeout(r, 150));
+      uri = await attachments.decryptToCache(masterKeyHex, ref, info.name);
+      await blockchain.appendEvent({ event: "attachment_viewed", id: record.id, file: ref.id, hash: ref.hash });
+      if (info.mime.startsWith("image/")) {
+        setPreview({ uri: uri as string, name: info.name });
+        uri = null; // discarded when the preview closes
+      } else if (await Sharing.isAvailableAsync()) {
+        await autolock.whileAway(() => Sharing.shareAsync(uri as string, { mimeType: info.mime, dialogTitle: info.name }));
+      } else {
+        Alert.alert("Unavailable", "No app on this device can open this file.");
       }
+    } catch (e: unknown) {
+      console.warn("Attachment open failed", e);
+      await blockchain.appendEvent({ event: "attachment_integrity_fail", id: record.id, file: ref.id, detail: errorMessage(e) || "unknown" });
+      Alert.alert("Attachment failed", errorMessage(e) || "Unknown error");
+    } finally {
+      if (uri) await attachments.discardCachedFile(uri);
+      setLoading(false);
+    }
+  }
 
-      await (storage as any).clearAllEntries();
+  async function closePreview(): Promise<void> {
+    if (preview) await attachments.discardCachedFile(preview.uri);
+    setPreview(null);
+  }
 
-    
-      const checkWrapped = await SecureStore.getItemAsync((storage as any).SECUREKEY_WRAPPED);
-      const checkEntries = await (storage as any).loadEntries();
-      if (checkWrapped !== null || (checkEntries && checkEntries.length > 0)) {
-        console.warn("Panic wipe incomplete", { checkWrapped, entriesLen: checkEntries.length });
-        
-        //await (storage as any).appendTamperLog({ ts: new Date().toISOString(), event: "panic_wipe_failed", detail: "Data still exists after wipe" });
-        await blockchain.appendEvent({ event: "panic_wipe_failed", detail: "Data still exists after wipe" });
+  function handleStartRevision(text: string): void {
+    if (!viewingEntry) return;
+    const info = entryInfo[entryFormat.rootIdOf(viewingEntry.latest)] || {};
+    setRevisingEntry(viewingEntry.latest);
+    setNewEntryText(text);
+    setNewEntryTitle(info.title || "");
+    setNewEntryTags((info.tags || []).join(", "));
+    setNewEntryLevel(info.classification || "unclassified");
+    setViewingEntry(null);
+    setShowNewModal(true);
+  }
 
-      }
+  /* ---------------------------
+     Panic wipe (see src/wipe.js)
+     - keys destroyed first, then data overwritten and removed
+     - every location verified; a "wiped" receipt is all that is left
+  --------------------------- */
+  async function performPanicWipe(reason: string = "panic_button"): Promise<void> {
+    setLoading(true);
+    try {
+      const report = await wipe.wipeVault({ passes: 3, reason });
+      loadedEntriesRef.current = 0;
       setEntries([]);
-      
-    setMasterKeyHex(null);
-    setLocked(true);
-    setInitialized(false);
-      Alert.alert("Panic wipe complete", "All vault data removed.");
-      //await (storage as any).appendTamperLog({ ts: new Date().toISOString(), event: "panic_wiped" });
-      await blockchain.appendEvent({ event: "panic_wiped" });
-    } catch (e: any) {
+      setEntryCursor(null);
+      setEntryTotal(0);
+      setTamperLog([report.receipt]);
+      setTamperCursor(null);
+      setTamperTotal(1);
+      dropDecryptedViews();
+
+      setMasterKeyHex(null);
+      setLocked(true);
+      setInitialized(false);
+      setDecoySession(false);
+      setLockoutState(null);
+      setAutoLockSettings(null);
+      if (report.left.length) {
+        console.warn("Panic wipe incomplete", report.left);
+        Alert.alert("Panic wipe incomplete", `Keys were destroyed, but ${report.left.length} storage location(s) could not be cleared:\n${report.left.join("\n")}`);
+      } else {
+        Alert.alert("Panic wipe complete", `All vault data removed (${report.removed} locations).`);
+      }
+    } catch (e: unknown) {
       console.error("Panic wipe failed", e);
-      Alert.alert("Error", "Panic wipe failed. " + (e.message || ""));
+      Alert.alert("Error", "Panic wipe failed. " + errorMessage(e));
     } finally {
       setLoading(false);
     }
@@ -495,12 +1392,37 @@ async function handleVerifyNow(): Promise<void> {
      UI: render
   --------------------------- */
 
+  if (storageFailure) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <Text style={styles.title}>Vault storage unavailable</Text>
+          <Text style={styles.smallMuted}>{storageFailure}</Text>
+          <Text style={styles.smallMuted}>Nothing was changed. Restart the app to try again.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   if (loading || initialized === null) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.centered}>
           <ActivityIndicator size="large" color="#44ffb0" />
-          <Text style={styles.smallMuted}>Booting Secure Vault...</Text>
+          {kdfProgress ? (
+            <>
+              <Text style={styles.smallMuted}>
+                {kdfProgress.phase === "upgrade" ? "Upgrading key protection…" : "Deriving key…"} {Math.round(kdfProgress.fraction * 100)}%
+              </Text>
+              {kdfProgress.phase === "unlock" && (
+                <TouchableOpacity style={[styles.buttonSecondary, { marginTop: 12 }]} onPress={cancelKdf}>
+                  <Text style={styles.buttonText}>Cancel</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          ) : (
+            <Text style={styles.smallMuted}>Booting Secure Vault...</Text>
+          )}
         </View>
       </SafeAreaView>
     );
@@ -518,11 +1440,18 @@ async function handleVerifyNow(): Promise<void> {
           <TextInput secureTextEntry placeholder="Enter passphrase" placeholderTextColor="#3a6757" value={setupPassA} onChangeText={setSetupPassA} style={styles.input} />
           <Text style={styles.label}>Confirm passphrase</Text>
           <TextInput secureTextEntry placeholder="Confirm passphrase" placeholderTextColor="#3a6757" value={setupPassB} onChangeText={setSetupPassB} style={styles.input} />
-          <Text style={styles.note}>Use a strong passphrase (recommended 12+ characters). No recovery is possible without it.</Text>
+          <Text style={styles.note}>Use a strong passphrase (recommended 12+ characters). Without it, only recovery codes can open the vault.</Text>
+          <TouchableOpacity style={[styles.smallBtn, styles.tagChip, setupRecoveryCodes && styles.tagChipActive, { alignSelf: "flex-start", marginBottom: 12 }]} onPress={() => setSetupRecoveryCodes(!setupRecoveryCodes)}>
+            <Text style={styles.smallBtnText}>{setupRecoveryCodes ? "[x]" : "[ ]"} Generate one-time recovery codes</Text>
+          </TouchableOpacity>
           <TouchableOpacity style={styles.buttonPrimary} onPress={handleCreateVault}>
             <Text style={styles.buttonText}>Initialize Vault</Text>
           </TouchableOpacity>
+          <TouchableOpacity style={[styles.buttonSecondary, { marginTop: 12 }]} onPress={handlePickBackupFile}>
+            <Text style={styles.buttonText}>Restore from Backup</Text>
+          </TouchableOpacity>
         </ScrollView>
+        <BackupModal visible={!!restoreFile} mode="restore" fileName={restoreFile?.name} onCancel={cancelRestore} onConfirm={handleRestoreBackup} />
         <View style={styles.footer}>
           <Text style={styles.smallMuted}>This app stores encrypted data locally. Security depends on passphrase and device integrity.</Text>
         </View>
@@ -578,10 +1507,36 @@ async function handleVerifyNow(): Promise<void> {
           {/* <Text style={styles.smallMuted}>Integrity: {integrityStatus}</Text>
           <Text style={styles.smallMuted}>Offline: Yes</Text> */}
 
-          <TextInput placeholder="Enter passphrase" placeholderTextColor="#3a6757" secureTextEntry value={unlockPass} onChangeText={setUnlockPass} style={[styles.input, { marginTop: 20, width: "90%" }]} />
-
-          <TouchableOpacity style={[styles.buttonPrimary, { marginTop: 12 }]} onPress={handleUnlock}>
-            <Text style={styles.buttonText}>Unlock Vault</Text>
+          {recoveryMode ? (
+            <>
+              <TextInput placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX" placeholderTextColor="#3a6757" autoCapitalize="characters" autoCorrect={false} value={recoveryInput} onChangeText={setRecoveryInput} style={[styles.input, { marginTop: 20, width: "90%" }]} />
+              <TouchableOpacity style={[styles.buttonPrimary, { marginTop: 12 }, lockoutWaitMs > 0 && { opacity: 0.5 }]} disabled={lockoutWaitMs > 0} onPress={handleRecoveryUnlock}>
+                <Text style={styles.buttonText}>Unlock with Recovery Code</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <TextInput placeholder="Enter passphrase" placeholderTextColor="#3a6757" secureTextEntry value={unlockPass} onChangeText={setUnlockPass} style={[styles.input, { marginTop: 20, width: "90%" }]} />
+              <TouchableOpacity style={[styles.buttonPrimary, { marginTop: 12 }, lockoutWaitMs > 0 && { opacity: 0.5 }]} disabled={lockoutWaitMs > 0} onPress={handleUnlock}>
+                <Text style={styles.buttonText}>Unlock Vault</Text>
+              </TouchableOpacity>
+            </>
+          )}
+          {deadmanStatus?.armed && deadmanStatus.remainingMs !== null ? (
+            <Text style={[styles.smallMuted, { color: "#f4d35e", marginTop: 8 }]}>
+              Dead-man&apos;s switch: vault wipes in {formatWait(Math.max(0, deadmanStatus.remainingMs))} unless unlocked.
+            </Text>
+          ) : null}
+          {lockoutWaitMs > 0 ? (
+            <Text style={[styles.smallMuted, { color: "#ff9b9b", marginTop: 8 }]}>
+              {lockoutState?.failures} failed attempts. Try again in {formatWait(lockoutWaitMs)}.
+            </Text>
+          ) : null}
+          <TouchableOpacity style={[styles.linkButton, { marginTop: 8 }]} onPress={() => { setRecoveryMode(!recoveryMode); setRecoveryInput(""); }}>
+            <Text style={styles.smallMuted}>{recoveryMode ? "Use passphrase" : "Use recovery code"}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.linkButton} onPress={() => setShowShareRecovery(true)}>
+            <Text style={styles.smallMuted}>Use custodian shares</Text>
           </TouchableOpacity>
 
           <TouchableOpacity style={[styles.buttonPrimary, { marginTop: 12 }]} onPress={async () => {
@@ -610,6 +1565,9 @@ async function handleVerifyNow(): Promise<void> {
   <Text style={styles.smallMuted}>Meowcript™</Text>
 </TouchableOpacity>
 <MeowDetail visible={modalVisible} onClose={() => setModalVisible(false)} />
+<RecoveryCodesModal visible={!!recoveryCodes} codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+<ShareRecoveryModal visible={showShareRecovery} onCancel={() => setShowShareRecovery(false)} onConfirm={handleShareRecovery} />
+<NewPassphraseModal visible={!!pendingRecovery} reason={pendingRecovery?.reason} onConfirm={handleResetPassphrase} />
 
         </View>
       </SafeAreaView>
@@ -619,7 +1577,7 @@ async function handleVerifyNow(): Promise<void> {
 
   
   return (
-    <SafeAreaView style={styles.container}>
+    <SafeAreaView style={styles.container} onTouchStart={() => autolock.noteActivity()}>
       <View style={styles.headerRow}>
         <View>
           {/* <Text style={styles.title}>VAULT_0xARN∆B</Text> */}
@@ -869,9 +1827,10 @@ async function handleVerifyNow(): Promise<void> {
         <View style={{ alignItems: "flex-end" }}>
           <Text style={styles.smallMuted}>Vault: <Text style={{ color: "#8cffb7" }}>Unlocked</Text></Text>
           <Text style={styles.smallMuted}>Integrity: {integrityStatus}</Text>
-          <Text style={styles.smallMuted}>Entries: {entries.length}</Text>
+          <Text style={styles.smallMuted}>Entries: {entryTotal} records</Text>
+          {migrationStatus ? <Text style={styles.smallMuted}>Migrating entries: {migrationStatus}</Text> : null}
 
-          <TouchableOpacity style={styles.smallAction} onPress={handleLock}>
+          <TouchableOpacity style={styles.smallAction} onPress={() => handleLock()}>
             <Text style={styles.smallActionText}>Lock Vault</Text>
           </TouchableOpacity>
           {/* Add this next to the Lock Vault button (header right column) */}
@@ -906,23 +1865,63 @@ async function handleVerifyNow(): Promise<void> {
 
 
 
+          <TouchableOpacity style={styles.buttonSecondary} onPress={() => setShowChangePass(true)}>
+            <Text style={styles.buttonText}>Change Passphrase</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.buttonSecondary} onPress={() => setShowAutoLock(true)}>
+            <Text style={styles.buttonText}>Auto-Lock</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.buttonSecondary} onPress={handleRegenerateRecoveryCodes}>
+            <Text style={styles.buttonText}>Recovery Codes</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.buttonSecondary} onPress={() => setShowShares(true)}>
+            <Text style={styles.buttonText}>Custodian Shares</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.buttonSecondary} onPress={() => setShowDuress(true)}>
+            <Text style={styles.buttonText}>Duress Passphrase</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.buttonSecondary} onPress={handleCycleWipeThreshold}>
+            <Text style={styles.buttonText}>Wipe After Failed Unlocks: {lockoutState?.wipeAfter ?? "Off"}</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.buttonSecondary} onPress={handleCycleDeadman}>
+            <Text style={styles.buttonText}>Dead-Man&apos;s Switch: {deadmanStatus?.armed ? `${deadmanStatus.days} days` : "Off"}</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.buttonSecondary} onPress={() => setShowBackup(true)}>
+            <Text style={styles.buttonText}>Backup Vault</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.buttonSecondary} onPress={handlePickBackupFile}>
+            <Text style={styles.buttonText}>Restore Backup</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity style={[styles.buttonSecondary, { backgroundColor: "#2a2a2a", borderColor: "#444" }]} onPress={() => setShowPanicConfirm(true)}>
             <Text style={styles.buttonText}>Panic Wipe</Text>
           </TouchableOpacity>
 
           <View style={{ marginTop: 18 }}>
   <Text style={styles.smallMuted}>Last verified: {lastVerifiedAt || "never"}</Text>
-  <Text style={styles.smallMuted}>Tamper log ({tamperLog.length})</Text>
-
-  <ScrollView style={{ maxHeight: 155, marginTop: 6, backgroundColor: "#010a0b", padding: 8, borderRadius: 4 }}>
-    {tamperLog.slice(0, 30).map((log, idx) => {
+  <Text style={styles.smallMuted}>Tamper log ({tamperTotal})</Text>
+
+  <FlatList
+    style={{ maxHeight: 155, marginTop: 6, backgroundColor: "#010a0b", padding: 8, borderRadius: 4 }}
+    data={tamperLog}
+    keyExtractor={(log: Block, idx) => `${log.seq ?? ""}-${idx}`}
+    onEndReached={loadMoreTamperLog}
+    onEndReachedThreshold={0.5}
+    renderItem={({ item: log }) => {
       const { date, time } = rfc3339Parts(log.ts);
       const sev = severityFor(log.event, log.detail);
       const labelColor = colorsBySeverity[sev].label;
 
       return (
         <Text
-          key={idx}
           style={{
             color: "#e1e5e2",
             fontFamily: Platform.select({ ios: "Menlo", android: "monospace" }),
@@ -938,8 +1937,8 @@ async function handleVerifyNow(): Promise<void> {
           {` | ${log.event}${log.id ? ` #${log.id}` : ""}${log.detail ? ` — ${log.detail}` : ""}`}
         </Text>
       );
-    })}
-  </ScrollView>
+    }}
+  />
 </View>
 
           {/* <View style={{ marginTop: 18 }}>
@@ -957,7 +1956,31 @@ async function handleVerifyNow(): Promise<void> {
 
         <View style={styles.colRight}>
           {/* <Text style={styles.sectionTitle}>Entries (append-only)</Text> */}
-            <FlatList data={entries} keyExtractor={(item) => item.id} renderItem={({ item }) => <EntryCard item={item} onView={handleViewEntry} />} />
+            <TextInput
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              editable={searchReady}
+              placeholder={searchReady ? "Search entries" : "Indexing entries…"}
+              placeholderTextColor="#4f6c5a"
+              autoCorrect={false}
+              autoCapitalize="none"
+              style={[styles.input, { marginBottom: 6 }]}
+            />
+            {searchMatches ? <Text style={[styles.smallMuted, { marginBottom: 6 }]}>{searchMatches.size} matching</Text> : null}
+            {entryCursor !== null ? <Text style={[styles.smallMuted, { marginBottom: 6 }]}>{entries.length} of {entryTotal} records loaded</Text> : null}
+            <TagFilterBar tags={allTags} selected={tagFilter} onSelect={setTagFilter} grouped={groupByTag} onToggleGroup={() => setGroupByTag(!groupByTag)} />
+            {groupByTag ? (
+              <SectionList
+                sections={tagSections}
+                onEndReached={loadMoreEntries}
+                onEndReachedThreshold={0.5}
+                keyExtractor={(item, idx) => `${item.id}-${idx}`}
+                renderSectionHeader={({ section }) => <Text style={styles.sectionTitle}>{section.title}</Text>}
+                renderItem={({ item }) => <EntryCard item={item} onView={handleViewEntry} />}
+              />
+            ) : (
+              <FlatList data={listItems} keyExtractor={(item) => item.id} onEndReached={loadMoreEntries} onEndReachedThreshold={0.5} renderItem={({ item }) => <EntryCard item={item} onView={handleViewEntry} />} />
+            )}
         </View>
       </View>
 
@@ -965,10 +1988,33 @@ async function handleVerifyNow(): Promise<void> {
       <Modal visible={showNewModal} animationType="fade" transparent>
         <View style={styles.modalBackdrop}>
           <View style={styles.modalBox}>
-            <Text style={styles.modalTitle}>New Secure Entry</Text>
+            <Text style={styles.modalTitle}>{revisingEntry ? "Revise Entry" : "New Secure Entry"}</Text>
+            {revisingEntry ? <Text style={styles.note}>Saved as a new revision. Earlier versions are kept unchanged.</Text> : null}
+            <TextInput value={newEntryTitle} onChangeText={setNewEntryTitle} placeholder="Title (optional)" placeholderTextColor="#4f6c5a" style={[styles.input, { marginBottom: 8 }]} />
             <TextInput multiline value={newEntryText} onChangeText={setNewEntryText} placeholder="Write your entry" placeholderTextColor="#4f6c5a" style={[styles.input, { height: 70 }]} />
+            <TextInput value={newEntryTags} onChangeText={setNewEntryTags} placeholder="Tags, comma separated" placeholderTextColor="#4f6c5a" autoCapitalize="none" style={[styles.input, { marginTop: 8 }]} />
+            <View style={{ flexDirection: "row", flexWrap: "wrap", marginTop: 8 }}>
+              {entryFormat.CLASSIFICATION_LEVELS.map((level: string) => (
+                <TouchableOpacity key={level} style={[styles.smallBtn, styles.tagChip, newEntryLevel === level && styles.tagChipActive]} onPress={() => setNewEntryLevel(level)}>
+                  <Text style={styles.smallBtnText}>{level}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={{ marginTop: 8 }}>
+              {pendingFiles.map((f) => (
+                <View key={f.uri} style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 4 }}>
+                  <Text style={[styles.smallMuted, { flex: 1 }]} numberOfLines={1}>{f.name}</Text>
+                  <TouchableOpacity style={styles.smallBtn} onPress={() => removePendingFile(f.uri)}>
+                    <Text style={styles.smallBtnText}>Remove</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <TouchableOpacity style={styles.smallBtn} onPress={handlePickAttachment}>
+                <Text style={styles.smallBtnText}>Attach file</Text>
+              </TouchableOpacity>
+            </View>
             <View style={{ flexDirection: "row", justifyContent: "space-between", marginTop: 12 }}>
-              <TouchableOpacity style={[styles.buttonSecondary, { flex: 1, marginRight: 8 }]} onPress={() => { setShowNewModal(false); setNewEntryText(""); }}>
+              <TouchableOpacity style={[styles.buttonSecondary, { flex: 1, marginRight: 8 }]} onPress={() => { setShowNewModal(false); resetEntryForm(); }}>
                 <Text style={styles.buttonText}>Cancel</Text>
               </TouchableOpacity>
               <TouchableOpacity style={[styles.buttonPrimary, { flex: 1 }]} onPress={handleSaveNewEntry}>
@@ -980,22 +2026,22 @@ async function handleVerifyNow(): Promise<void> {
       </Modal>
 
       {/* View Entry Modal */}
-      <Modal visible={!!viewingEntryPlain} animationType="fade" transparent>
-        <View style={styles.modalBackdrop}>
-          <View style={styles.modalBox}>
-            <Text style={styles.modalTitle}>Decrypted Entry</Text>
-            <ScrollView style={{ maxHeight: 320 }}>
-              <Text style={styles.plainText}>{viewingEntryPlain?.text}</Text>
-            </ScrollView>
-            <TouchableOpacity style={[styles.buttonPrimary, { marginTop: 12 }]} onPress={() => setViewingEntryPlain(null)}>
-              <Text style={styles.buttonText}>Close (clear from memory)</Text>
-            </TouchableOpacity>
-          </View>
-        </View>
-      </Modal>
+      <EntryViewer visible={!!viewingEntry} revisions={viewingEntry?.revisions} onClose={() => setViewingEntry(null)} onRevise={handleStartRevision} onOpenAttachment={handleOpenAttachment} />
+      <AttachmentPreview visible={!!preview} uri={preview?.uri} name={preview?.name} onClose={closePreview} />
 
       {/* Audit Modal */}
-      <AuditModal visible={showAudit} onClose={() => setShowAudit(false)} meta={{ pbkdf2Iterations: PBKDF2_ITERATIONS }} tamperLog={tamperLog} lastVerifiedAt={lastVerifiedAt} />
+      <AuditModal visible={showAudit} onClose={() => setShowAudit(false)} meta={{ kdf: kdfLabel, recoveryCodes: recoveryCount }} lastVerifiedAt={lastVerifiedAt} />
+
+      {/* Change Passphrase Modal */}
+      <ChangePassphraseModal visible={showChangePass} onCancel={() => setShowChangePass(false)} onConfirm={handleChangePassphrase} />
+
+      {/* Backup / Restore Modals */}
+      <RecoveryCodesModal visible={!!recoveryCodes} codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+      <AutoLockModal visible={showAutoLock} settings={autoLockSettings} onCancel={() => setShowAutoLock(false)} onSave={handleSaveAutoLock} />
+      <DuressModal visible={showDuress} onCancel={() => setShowDuress(false)} onSave={handleConfigureDuress} onRemove={handleRemoveDuress} />
+      <SharesModal visible={showShares} shares={issuedShares} onCreate={handleCreateShares} onClose={closeShares} />
+      <BackupModal visible={showBackup} mode="create" onCancel={() => setShowBackup(false)} onConfirm={handleCreateBackup} />
+      <BackupModal visible={!!restoreFile} mode="restore" fileName={restoreFile?.name} onCancel={cancelRestore} onConfirm={handleRestoreBackup} />
 
       {/* Panic Modal */}
       <PanicModal visible={showPanicConfirm} onCancel={() => { setShowPanicConfirm(false); setPanicConfirmText(""); }} onConfirm={async () => { setShowPanicConfirm(false); setPanicConfirmText(""); await performPanicWipe(); }} confirmText={panicConfirmText} setConfirmText={setPanicConfirmText} />
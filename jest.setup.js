@@ -0,0 +1,2 @@
+// jest-expo mocks expo-file-system with a stub factory; use the in-memory one in __mocks__ instead
+jest.mock("expo-file-system", () => jest.requireActual("./__mocks__/expo-file-system"));
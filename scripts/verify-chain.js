@@ -0,0 +1,181 @@
+#!/usr/bin/env node
+// scripts/verify-chain.js
+// Offline verifier for audit chain exports (the .jsonl and .manifest.json written by
+// blockchain.exportChainFiles or the Audit view). Uses the app's own canonicalization and
+// verification rules (src/canonical.js) with Node's SHA-256 and Ed25519, so it needs no install.
+//
+//   node scripts/verify-chain.js <export.jsonl> [export.manifest.json] [--key <ed25519 public key hex>] [--quiet]
+//   node scripts/verify-chain.js --proof <event.proof.json> [--root <checkpoint root hex>] [--key <hex>]
+//
+// Exit codes: 0 verified, 1 verification failed, 2 unreadable input or bad usage.
+
+const fs = require("fs");
+const nodeCrypto = require("crypto");
+const { checkBlocks, checkInclusionProof } = require("../src/canonical");
+
+const USAGE = [
+  "usage: node scripts/verify-chain.js <export.jsonl> [export.manifest.json] [--key <hex>] [--quiet]",
+  "       node scripts/verify-chain.js --proof <event.proof.json> [--root <hex>] [--key <hex>]"
+].join("\n");
+
+/* ---------- helpers ---------- */
+
+function fail(message) {
+  console.error(message);
+  process.exit(2);
+}
+
+function parseArgs(argv) {
+  const args = { files: [], key: null, quiet: false, proof: null, root: null };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--key") args.key = (argv[++i] || "").toLowerCase();
+    else if (argv[i] === "--proof") args.proof = argv[++i] || fail(USAGE);
+    else if (argv[i] === "--root") args.root = (argv[++i] || "").toLowerCase();
+    else if (argv[i] === "--quiet") args.quiet = true;
+    else if (argv[i] === "--help" || argv[i] === "-h") {
+      console.log(USAGE);
+      process.exit(0);
+    } else if (argv[i].startsWith("--")) fail(`unknown option ${argv[i]}\n${USAGE}`);
+    else args.files.push(argv[i]);
+  }
+  if (args.proof ? args.files.length > 0 : args.files.length < 1 || args.files.length > 2) fail(USAGE);
+  if (args.key !== null && !/^[0-9a-f]{64}$/.test(args.key)) fail("--key must be a 32-byte Ed25519 public key in hex");
+  if (args.root !== null && !/^[0-9a-f]{64}$/.test(args.root)) fail("--root must be a SHA-256 hash in hex");
+  return args;
+}
+
+function readText(path) {
+  try {
+    return fs.readFileSync(path, "utf8");
+  } catch (e) {
+    return fail(`cannot read ${path}: ${e.message}`);
+  }
+}
+
+function sha256Hex(text) {
+  return nodeCrypto.createHash("sha256").update(String(text), "utf8").digest("hex");
+}
+
+// signatures are over the raw bytes of a hex message (blockHash, or the JSONL hash)
+function verifySignature(signatureHex, messageHex, publicKeyHex) {
+  try {
+    const key = nodeCrypto.createPublicKey({
+      key: { kty: "OKP", crv: "Ed25519", x: Buffer.from(publicKeyHex, "hex").toString("base64url") },
+      format: "jwk"
+    });
+    return nodeCrypto.verify(null, Buffer.from(messageHex, "hex"), key, Buffer.from(signatureHex, "hex"));
+  } catch {
+    return false;
+  }
+}
+
+function readChain(path) {
+  const lines = readText(path).split("\n").filter(l => l.trim().length > 0);
+  const chain = lines.map((line, i) => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      return fail(`${path}: line ${i + 1} is not valid JSON`);
+    }
+  });
+  // the Audit view writes newest-first; exportChainFiles writes oldest-first
+  if (chain.length > 1 && Number(chain[0].seq) > Number(chain[chain.length - 1].seq)) chain.reverse();
+  return chain;
+}
+
+function mark(value) {
+  if (value === null) return "unsigned";
+  return value ? "ok" : "BAD";
+}
+
+// single event exported from the Audit view with its Merkle inclusion proof
+async function verifyProof(args) {
+  let doc = null;
+  try {
+    doc = JSON.parse(readText(args.proof));
+  } catch {
+    fail(`${args.proof} is not valid JSON`);
+  }
+  if (!doc || doc.format !== "vaultx-inclusion-proof") fail(`${args.proof} is not an inclusion proof`);
+  const r = await checkInclusionProof(doc, { sha256Hex, verifySignature, publicKeyHex: args.key, root: args.root });
+  const block = doc.block || {};
+  console.log(`#${block.seq} ${block.ts || "-"} ${block.event || "-"}${block.detail ? ` (${block.detail})` : ""}`);
+  console.log(`block hash:   ${mark(r.blockValid)}`);
+  console.log(`checkpoint:   ${mark(r.checkpointValid)} (#${(doc.checkpoint || {}).seq} ${(doc.checkpoint || {}).detail || ""})`);
+  console.log(`merkle path:  ${mark(r.proofValid)} (${(doc.proof || []).length} step(s))`);
+  console.log(`root:         ${r.root || "none"}${args.root ? (r.rootMatches ? " (matches --root)" : " (DOES NOT match --root)") : " (not compared; pass --root)"}`);
+  console.log(`signatures:   ${r.signaturesValid === null ? "none" : mark(r.signaturesValid)} (key ${args.key || doc.publicKey || "none"})`);
+  console.log(`result:       ${r.ok ? "VERIFIED" : "FAILED"}`);
+  process.exit(r.ok ? 0 : 1);
+}
+
+/* ---------- main ---------- */
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.proof) return verifyProof(args);
+  const jsonlPath = args.files[0];
+  const manifestPath = args.files[1] || jsonlPath.replace(/\.jsonl$/, "") + ".manifest.json";
+
+  const chain = readChain(jsonlPath);
+  let manifest = null;
+  try {
+    manifest = JSON.parse(readText(manifestPath));
+  } catch {
+    fail(`${manifestPath} is not valid JSON`);
+  }
+
+  const publicKeyHex = args.key || (manifest.signing && manifest.signing.publicKey) || null;
+  const result = await checkBlocks(chain, { sha256Hex, verifySignature, publicKeyHex });
+  const problems = [];
+
+  if (!args.quiet) {
+    chain.forEach((b, i) => {
+      const d = result.details[i];
+      const ckpt = "checkpointValid" in d ? ` checkpoint=${d.checkpointValid ? "ok" : "BAD"}` : "";
+      console.log(`#${d.seq} ${b.ts || "-"} ${b.event || "-"}  link=${d.prevMatches ? "ok" : "BAD"} hash=${d.blockMatches ? "ok" : "BAD"} sig=${mark(d.signatureValid)}${ckpt}`);
+      if (!d.blockMatches) console.log(`    stored   ${d.stored}\n    computed ${d.computed}`);
+    });
+  }
+  if (result.breaks) problems.push(`${result.breaks} broken hash link(s)`);
+  if (result.badSignatures) problems.push(`${result.badSignatures} bad or missing signature(s)`);
+  if (result.badCheckpoints) problems.push(`${result.badCheckpoints} checkpoint(s) with a wrong range or Merkle root`);
+  if (!result.signaturesOk && !result.badSignatures) {
+    // publicKey falls back to the expected key when the chain announces none
+    problems.push(result.publicKey === publicKeyHex ? `chain never announces the expected key ${publicKeyHex}` : `chain is signed by ${result.publicKey}, expected ${publicKeyHex}`);
+  }
+
+  if ((manifest.chainHead || null) !== (result.head || null)) problems.push(`manifest chainHead ${manifest.chainHead || "none"} != computed head ${result.head || "none"}`);
+  if (typeof manifest.count === "number" && manifest.count !== chain.length) problems.push(`manifest count ${manifest.count} != ${chain.length} block(s) in the export`);
+
+  // detached signature over the JSONL file, written by the Audit view export
+  const sigPath = `${jsonlPath}.sig`;
+  let detached = "none";
+  if (fs.existsSync(sigPath)) {
+    let sig = null;
+    try {
+      sig = JSON.parse(readText(sigPath));
+    } catch {
+      sig = null;
+    }
+    const jsonlHash = sha256Hex(readText(jsonlPath));
+    const ok = !!sig && sig.jsonlHash === jsonlHash && verifySignature(sig.signature || "", jsonlHash, publicKeyHex || sig.publicKey || "");
+    detached = ok ? "ok" : "BAD";
+    if (!ok) problems.push(`${sigPath} does not match the export`);
+  }
+
+  console.log("");
+  console.log(`blocks:      ${chain.length} (${result.unsigned} unsigned from before signing)`);
+  console.log(`head:        ${result.head || "none"}`);
+  console.log(`signer:      ${result.publicKey || "none"}`);
+  console.log(`checkpoints: ${result.checkpoints}${result.lastCheckpoint ? ` (last #${result.lastCheckpoint.seq})` : ""}`);
+  console.log(`file sig:    ${detached}`);
+  if (problems.length) {
+    console.log(`result:      FAILED`);
+    for (const p of problems) console.log(`  - ${p}`);
+    process.exit(1);
+  }
+  console.log(`result:      VERIFIED`);
+}
+
+main().catch(e => fail(e && e.stack ? e.stack : String(e)));
@@ -0,0 +1,197 @@
+// Backup bundles (backup.js): a bundle restores the vault it was made from, and every kind of damage
+// to the file is refused by readBackup() with its own BackupError code before anything is replaced.
+
+import { beforeAll, beforeEach, describe, expect, jest, test } from "@jest/globals";
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import CryptoJS from "crypto-js";
+
+import * as aead from "../aead";
+import * as attachments from "../attachments";
+import * as backup from "../backup";
+import * as blockchain from "../blockchain";
+import { createInlineWorker, setCryptoWorker } from "../cryptoworker";
+import * as duress from "../duress";
+import * as entryFormat from "../entries";
+import * as kdf from "../kdf";
+import * as storage from "../storage";
+import * as vaultkey from "../vaultkey";
+
+// the production scrypt cost makes every key derivation take seconds; the bundle format is the same
+jest.mock("../kdf", () => ({
+  ...jest.requireActual("../kdf"),
+  CURRENT_KDF_POLICY: { kdf: "scrypt", params: { N: 1024, r: 8, p: 1 } },
+  needsUpgrade: () => false
+}));
+
+const FileSystem = require("expo-file-system");
+const SecureStore = require("expo-secure-store");
+
+const MASTER = "ab".repeat(32);
+const VAULT_PASS = "vault passphrase 123";
+const BACKUP_PASS = "backup passphrase";
+
+let made;
+
+const readLines = async (uri) => (await FileSystem.readAsStringAsync(uri)).split("\n");
+const writeLines = (uri, lines) => FileSystem.writeAsStringAsync(uri, lines.join("\n"));
+const sectionIndex = (lines, name) => lines.findIndex((l) => l.includes(`"name":"${name}"`));
+const sha256Hex = (text) => CryptoJS.SHA256(text).toString(CryptoJS.enc.Hex);
+
+// flips one bit in the middle of base64 data
+function flipBit(b64) {
+  const data = attachments.base64ToBytes(b64);
+  data[Math.floor(data.length / 2)] ^= 0x01;
+  return attachments.bytesToBase64(data);
+}
+
+function flipByte(line) {
+  const record = JSON.parse(line);
+  return JSON.stringify({ ...record, data: flipBit(record.data) });
+}
+
+// what only someone holding the backup passphrase can do: re-seal records, e.g. a manifest with
+// another digest, the way createBackup seals them
+async function resealer(lines) {
+  const header = JSON.parse(lines[0]);
+  const key = Uint8Array.from(await kdf.deriveKeyBytesAsync(BACKUP_PASS, aead.hexToBytes(header.saltHex), header.kdf));
+  const aad = (name) => aead.utf8Encode(`${backup.BACKUP_FORMAT}|${backup.BACKUP_VERSION}|${sha256Hex(lines[0])}|${name}`);
+  const open = (line, name) => {
+    const record = JSON.parse(line);
+    const data = attachments.base64ToBytes(record.data);
+    const tag = data.length - aead.TAG_SIZE;
+    return JSON.parse(aead.utf8Decode(aead.xchacha20Poly1305Decrypt(key, aead.hexToBytes(record.nonce), data.subarray(0, tag), data.subarray(tag), aad(name))));
+  };
+  const seal = (line, name, value) => {
+    const record = JSON.parse(line);
+    const { ciphertext, tag } = aead.xchacha20Poly1305Encrypt(key, aead.hexToBytes(record.nonce), aead.utf8Encode(JSON.stringify(value)), aad(name));
+    const data = new Uint8Array(ciphertext.length + tag.length);
+    data.set(ciphertext, 0);
+    data.set(tag, ciphertext.length);
+    return JSON.stringify({ ...record, data: attachments.bytesToBase64(data) });
+  };
+  return { open, seal };
+}
+
+async function expectRefused(lines, code) {
+  await writeLines(made.uri, lines);
+  const read = backup.readBackup(made.uri, BACKUP_PASS);
+  await expect(read).rejects.toThrow(backup.BackupError);
+  await expect(read).rejects.toMatchObject({ code });
+}
+
+beforeAll(() => {
+  // jest has no worklet runtime
+  setCryptoWorker(createInlineWorker());
+});
+
+beforeEach(async () => {
+  SecureStore.__store.clear();
+  AsyncStorage.__store.clear();
+  FileSystem.__files.clear();
+  await vaultkey.initializeKeySlot(MASTER, VAULT_PASS);
+  await duress.resetSecondarySet();
+
+  const picked = `${FileSystem.cacheDirectory}picked.txt`;
+  await FileSystem.writeAsStringAsync(picked, "attached bytes");
+  const ref = await attachments.encryptFile(MASTER, picked, "attached bytes".length);
+  for (const [text, refs] of [["first", []], ["with attachment", [ref]]]) {
+    const entry = await entryFormat.sealEntry(MASTER, text, { attachments: refs });
+    await storage.appendEntry(entry, "primary");
+    await blockchain.appendEvent({ event: "entry_added", id: entry.id, hash: entryFormat.entryCommitment(entry) }, "primary");
+  }
+  made = await backup.createBackup(MASTER, BACKUP_PASS);
+});
+
+describe("createBackup", () => {
+  test("refuses a short passphrase and a key the stored slot does not hold", async () => {
+    await expect(backup.createBackup(MASTER, "short")).rejects.toMatchObject({ code: "WEAK_PASSPHRASE" });
+    await expect(backup.createBackup("cd".repeat(32), BACKUP_PASS)).rejects.toMatchObject({ code: "KEYSLOT_MISMATCH" });
+  });
+
+  test("restores the vault it was made from", async () => {
+    const entries = await storage.loadEntries("primary");
+    const chain = await blockchain.loadChain("primary");
+    const bundle = await backup.readBackup(made.uri, BACKUP_PASS);
+    expect(bundle.digest).toBe(made.digest);
+    expect(bundle.manifest).toMatchObject({ entryCount: 2, attachmentCount: 1, chainLength: chain.length });
+
+    SecureStore.__store.clear();
+    AsyncStorage.__store.clear();
+    const restored = await backup.applyBackup(bundle);
+    expect(restored).toMatchObject({ event: "backup_restored", hash: made.digest });
+    expect((await vaultkey.unlockWithPassphrase(VAULT_PASS)).masterHex).toBe(MASTER);
+    expect(await storage.loadEntries("primary")).toEqual(entries);
+    expect((await blockchain.loadChain("primary")).slice(0, -1)).toEqual(chain);
+    expect((await blockchain.verifyChain("primary", { full: true })).ok).toBe(true);
+    const [withAttachment] = entries.filter((e) => e.attachments);
+    expect(await attachments.hashStoredAttachment(withAttachment.attachments[0])).toBe(withAttachment.attachments[0].hash);
+  });
+});
+
+describe("readBackup refuses", () => {
+  test("a file that is not a backup, or a newer version", async () => {
+    const lines = await readLines(made.uri);
+    await expectRefused(["not json", ...lines.slice(1)], "NOT_A_BACKUP");
+    await expectRefused([JSON.stringify({ ...JSON.parse(lines[0]), version: backup.BACKUP_VERSION + 1 }), ...lines.slice(1)], "UNSUPPORTED_VERSION");
+  });
+
+  test("a wrong passphrase", async () => {
+    await expect(backup.readBackup(made.uri, "not the backup passphrase")).rejects.toMatchObject({ code: "WRONG_PASSPHRASE" });
+  });
+
+  test("a flipped byte in the manifest or a section", async () => {
+    const lines = await readLines(made.uri);
+    await expectRefused([lines[0], flipByte(lines[1]), ...lines.slice(2)], "MANIFEST_TAMPERED");
+    const i = sectionIndex(lines, "entries");
+    await expectRefused(lines.map((l, n) => (n === i ? flipByte(l) : l)), "SECTION_TAMPERED");
+  });
+
+  test("a section moved under another name, or twice", async () => {
+    const lines = await readLines(made.uri);
+    const i = sectionIndex(lines, "entries");
+    const renamed = JSON.stringify({ ...JSON.parse(lines[i]), name: "chain" });
+    await expectRefused(lines.map((l, n) => (n === i ? renamed : l)), "SECTION_TAMPERED");
+    await expectRefused([...lines.slice(0, i + 1), lines[i], ...lines.slice(i + 1)], "UNEXPECTED_SECTION");
+  });
+
+  test("a truncated file", async () => {
+    const lines = await readLines(made.uri);
+    await expectRefused(lines.slice(0, 1), "TRUNCATED");
+    await expectRefused(lines.slice(0, -1), "TRUNCATED");
+    await expectRefused(lines.slice(0, -2), "TRUNCATED");
+    const last = lines.length - 2;
+    await expectRefused([...lines.slice(0, last), lines[last].slice(0, lines[last].length / 2)], "TRUNCATED");
+  });
+
+  test("a manifest whose digest does not match a section", async () => {
+    const lines = await readLines(made.uri);
+    const { open, seal } = await resealer(lines);
+    const manifest = open(lines[1], "manifest");
+    const altered = {
+      ...manifest,
+      sections: manifest.sections.map((s) => (s.name === "entries" ? { ...s, sha256: sha256Hex("[]") } : s))
+    };
+    await expectRefused([lines[0], seal(lines[1], "manifest", altered), ...lines.slice(2)], "DIGEST_MISMATCH");
+  });
+
+  test("a chain or attachment that does not match, even when re-sealed with matching digests", async () => {
+    const lines = await readLines(made.uri);
+    const { open, seal } = await resealer(lines);
+    const manifest = open(lines[1], "manifest");
+    // replaces a section and the manifest digest for it, as a holder of the passphrase could
+    const replace = (name, value) => {
+      const i = sectionIndex(lines, name);
+      const text = JSON.stringify(value);
+      const sections = manifest.sections.map((s) => (s.name === name ? { ...s, sha256: sha256Hex(text), length: text.length } : s));
+      return lines.map((l, n) => (n === 1 ? seal(l, "manifest", { ...manifest, sections }) : n === i ? seal(l, name, value) : l));
+    };
+
+    const chain = open(lines[sectionIndex(lines, "chain")], "chain");
+    await expectRefused(replace("chain", chain.map((b, n) => (n === 0 ? { ...b, detail: "rewritten" } : b))), "CHAIN_BROKEN");
+
+    const attName = manifest.sections.find((s) => s.name.startsWith("att:")).name;
+    const att = open(lines[sectionIndex(lines, attName)], attName);
+    await expectRefused(replace(attName, { ...att, chunks: att.chunks.map(flipBit) }), "ATTACHMENT_MISMATCH");
+  });
+});
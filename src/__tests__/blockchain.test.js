@@ -0,0 +1,96 @@
+// Audit chain (blockchain.ts): Merkle checkpoints are appended every CHECKPOINT_INTERVAL blocks
+// without reading the whole chain, still verify, and back the inclusion proofs of single blocks.
+
+import { beforeEach, describe, expect, jest, test } from "@jest/globals";
+import { createHash } from "crypto";
+
+import * as backend from "../backend";
+import * as blockchain from "../blockchain";
+import { CHECKPOINT_INTERVAL, checkInclusionProof, parseCheckpoint } from "../canonical";
+import * as ed25519 from "../ed25519";
+import * as storage from "../storage";
+
+const SecureStore = require("expo-secure-store");
+
+let active;
+
+const sha256Hex = async (input) => createHash("sha256").update(input, "utf8").digest("hex");
+const checkProof = (doc, root = null) => checkInclusionProof(doc, { sha256Hex, verifySignature: ed25519.verify, root });
+
+async function appendMany(n, event = "app_opened") {
+  for (let i = 0; i < n; i++) await blockchain.appendEvent({ event, detail: `n=${i}` }, "primary");
+}
+
+async function checkpoints() {
+  return (await blockchain.loadChain("primary")).filter((b) => b.event === "checkpoint").map((b) => {
+    const { from, to } = parseCheckpoint(b);
+    return { seq: b.seq, from, to };
+  });
+}
+
+beforeEach(() => {
+  SecureStore.__store.clear();
+  active = backend.createMemoryBackend();
+  backend.setBackend(active);
+});
+
+describe("checkpoints", () => {
+  test("each covers the blocks since the previous one", async () => {
+    await appendMany(2 * CHECKPOINT_INTERVAL + 1);
+    expect(await checkpoints()).toEqual([
+      { seq: CHECKPOINT_INTERVAL + 1, from: 1, to: CHECKPOINT_INTERVAL },
+      { seq: 2 * CHECKPOINT_INTERVAL + 2, from: CHECKPOINT_INTERVAL + 2, to: 2 * CHECKPOINT_INTERVAL + 1 }
+    ]);
+    expect((await blockchain.verifyChain("primary", { full: true })).ok).toBe(true);
+  });
+
+  test("the first one on an older chain covers it from genesis, read a page at a time", async () => {
+    // blocks from before checkpoints, stored without hashes; the first read rebuilds them
+    const legacy = Array.from({ length: 300 }, (_, i) => ({ event: "app_opened", detail: `n=${i}`, ts: new Date(Date.UTC(2025, 0, 1, 0, i)).toISOString() }));
+    await blockchain.replaceChain(legacy, "primary");
+    expect(await blockchain.getHeadFingerprint("primary")).toMatch(/^[0-9a-f]{64}$/);
+
+    const wholeLog = jest.spyOn(storage, "loadTamperLog");
+    const list = jest.spyOn(active, "list");
+    await appendMany(1, "unlocked");
+    expect(wholeLog).not.toHaveBeenCalled();
+    expect(list).not.toHaveBeenCalled();
+    wholeLog.mockRestore();
+
+    expect(await checkpoints()).toEqual([{ seq: 302, from: 1, to: 301 }]);
+    expect((await blockchain.verifyChain("primary", { full: true })).ok).toBe(true);
+
+    // and the next one follows CHECKPOINT_INTERVAL blocks later
+    await appendMany(CHECKPOINT_INTERVAL);
+    expect((await checkpoints()).slice(1)).toEqual([{ seq: 303 + CHECKPOINT_INTERVAL, from: 303, to: 302 + CHECKPOINT_INTERVAL }]);
+  });
+});
+
+describe("inclusionProof", () => {
+  beforeEach(async () => {
+    const signingPub = await blockchain.createSigningKey("primary");
+    await blockchain.appendEvent({ event: "signing_key_created", detail: `ed25519=${signingPub}` }, "primary");
+  });
+
+  test("proves a covered block against its checkpoint's root", async () => {
+    await appendMany(CHECKPOINT_INTERVAL + 10);
+    const [checkpoint] = await checkpoints();
+    const doc = await blockchain.inclusionProof(37, "primary");
+    expect(doc).toMatchObject({ format: "vaultx-inclusion-proof", block: { seq: 37 }, checkpoint: { seq: checkpoint.seq }, publicKey: await blockchain.signingPublicKey("primary") });
+    expect(doc.block._raw).toBeUndefined();
+
+    const root = doc.checkpoint.hash;
+    expect(await checkProof(doc, root)).toMatchObject({ ok: true, signaturesValid: true, root });
+    expect(await checkProof(doc, "00".repeat(32))).toMatchObject({ ok: false, rootMatches: false });
+    expect(await checkProof({ ...doc, block: { ...doc.block, detail: "rewritten" } })).toMatchObject({ ok: false, blockValid: false });
+    // and the first and last blocks it covers, at the edges of the tree
+    expect((await checkProof(await blockchain.inclusionProof(checkpoint.from, "primary"))).ok).toBe(true);
+    expect((await checkProof(await blockchain.inclusionProof(checkpoint.to, "primary"))).ok).toBe(true);
+  });
+
+  test("refuses blocks that are missing or not yet covered", async () => {
+    await appendMany(CHECKPOINT_INTERVAL + 10);
+    await expect(blockchain.inclusionProof(500, "primary")).rejects.toThrow("No block #500 in the audit chain.");
+    await expect(blockchain.inclusionProof(CHECKPOINT_INTERVAL + 5, "primary")).rejects.toThrow(/is not covered by a checkpoint yet/);
+  });
+});
@@ -0,0 +1,172 @@
+// Chain checks and Merkle proofs shared by the app and scripts/verify-chain.js (canonical.js).
+
+import { describe, expect, test } from "@jest/globals";
+import { createHash } from "crypto";
+
+import { canonicalStringForBlock, checkBlocks, checkInclusionProof, createBlockChecker, merkleProof, merkleRoot, rootFromProof } from "../canonical";
+import * as ed25519 from "../ed25519";
+
+const SEED = "01".repeat(32);
+const PUBLIC_KEY = ed25519.getPublicKey(SEED);
+const OTHER_SEED = "02".repeat(32);
+
+const sha256Hex = (input) => createHash("sha256").update(input, "utf8").digest("hex");
+const options = (publicKeyHex = PUBLIC_KEY) => ({ sha256Hex, verifySignature: ed25519.verify, publicKeyHex });
+
+// builds a linked chain; each spec is { event, detail, seed } and a block is signed when it has a seed
+function buildChain(specs) {
+  const chain = [];
+  let prevHash = null;
+  specs.forEach((spec, i) => {
+    const block = { seq: i + 1, ts: `2026-01-01T00:00:0${i}.000Z`, event: spec.event || "entry_added", detail: spec.detail || "", prevHash };
+    block.blockHash = sha256Hex(canonicalStringForBlock(block));
+    if (spec.seed) block.signature = ed25519.sign(block.blockHash, spec.seed);
+    prevHash = block.blockHash;
+    chain.push(block);
+  });
+  return chain;
+}
+
+const announce = (seed) => ({ event: "signing_key_created", detail: `ed25519=${ed25519.getPublicKey(seed)}`, seed });
+
+describe("checkBlocks with an expected signer", () => {
+  test("a fully unsigned chain with recomputed hashes fails", async () => {
+    const forged = buildChain([{}, {}, {}, {}, {}]);
+    const result = await checkBlocks(forged, options());
+    expect(result.linksOk).toBe(true);
+    expect(result.unsigned).toBe(5);
+    expect(result.signaturesOk).toBe(false);
+    expect(result.ok).toBe(false);
+  });
+
+  test("unsigned blocks before the key's announcement are allowed", async () => {
+    const chain = buildChain([{ event: "vault_created" }, {}, announce(SEED), { seed: SEED }, { seed: SEED }]);
+    const result = await checkBlocks(chain, options());
+    expect(result.ok).toBe(true);
+    expect(result.unsigned).toBe(2);
+    expect(result.publicKey).toBe(PUBLIC_KEY);
+  });
+
+  test("an unsigned block after the announcement fails", async () => {
+    const chain = buildChain([{}, announce(SEED), { seed: SEED }, {}, { seed: SEED }]);
+    const result = await checkBlocks(chain, options());
+    expect(result.badSignatures).toBe(1);
+    expect(result.ok).toBe(false);
+  });
+
+  test("an unsigned announcement of the expected key fails", async () => {
+    const chain = buildChain([{}, { ...announce(SEED), seed: null }, {}]);
+    const result = await checkBlocks(chain, options());
+    expect(result.ok).toBe(false);
+  });
+
+  test("a chain announcing and signed with another key fails", async () => {
+    const chain = buildChain([{}, announce(OTHER_SEED), { seed: OTHER_SEED }]);
+    const result = await checkBlocks(chain, options());
+    expect(result.badSignatures).toBe(0);
+    expect(result.signaturesOk).toBe(false);
+    expect(result.ok).toBe(false);
+  });
+
+  test("a key rotated to the expected one passes", async () => {
+    const chain = buildChain([{}, announce(OTHER_SEED), { seed: OTHER_SEED }, announce(SEED), { seed: SEED }]);
+    expect((await checkBlocks(chain, options())).ok).toBe(true);
+  });
+
+  test("without an expected signer an unsigned chain still passes (vaults without a key)", async () => {
+    const chain = buildChain([{}, {}, {}]);
+    const result = await checkBlocks(chain, options(null));
+    expect(result.ok).toBe(true);
+    expect(result.unsigned).toBe(3);
+  });
+});
+
+describe("createBlockChecker from an anchor", () => {
+  test("continuing after an anchor whose signer is the expected key needs no new announcement", async () => {
+    const chain = buildChain([{}, announce(SEED), { seed: SEED }, { seed: SEED }, { seed: SEED }]);
+    const anchor = { seq: 3, blockHash: chain[2].blockHash, signer: PUBLIC_KEY, seenSigned: true };
+    const checker = createBlockChecker({ ...options(), anchor });
+    for (const block of chain.slice(3)) await checker.push(block);
+    expect(checker.result().ok).toBe(true);
+  });
+
+  test("unsigned blocks after an anchor that never saw the key fail", async () => {
+    const chain = buildChain([{}, {}, {}, {}]);
+    const anchor = { seq: 2, blockHash: chain[1].blockHash, signer: null, seenSigned: false };
+    const checker = createBlockChecker({ ...options(), anchor });
+    for (const block of chain.slice(2)) await checker.push(block);
+    expect(checker.result().ok).toBe(false);
+  });
+});
+
+describe("Merkle proofs", () => {
+  const leaves = (n) => Array.from({ length: n }, (_, i) => sha256Hex(`block ${i}`));
+  const asyncSha = async (input) => sha256Hex(input);
+
+  test("every leaf's proof leads to the root, for odd and even leaf counts", async () => {
+    for (const n of [1, 2, 3, 5, 6, 7, 9, 64, 65]) {
+      const hashes = leaves(n);
+      const root = await merkleRoot(hashes, asyncSha);
+      for (let i = 0; i < n; i++) {
+        expect(await rootFromProof(hashes[i], await merkleProof(hashes, i, asyncSha), asyncSha)).toBe(root);
+      }
+    }
+    expect(await merkleRoot([], asyncSha)).toBeNull();
+  });
+
+  test("the odd node at the end of a level moves up unchanged", async () => {
+    const [a, b, c] = leaves(3).map((h) => sha256Hex(`leaf|${h}`));
+    expect(await merkleRoot(leaves(3), asyncSha)).toBe(sha256Hex(`node|${sha256Hex(`node|${a}|${b}`)}|${c}`));
+    expect(await merkleProof(leaves(3), 2, asyncSha)).toEqual([{ side: "left", hash: sha256Hex(`node|${a}|${b}`) }]);
+  });
+
+  test("a tampered proof leads elsewhere", async () => {
+    const hashes = leaves(7);
+    const root = await merkleRoot(hashes, asyncSha);
+    const proof = await merkleProof(hashes, 3, asyncSha);
+    const tampered = [
+      proof.map((step, i) => (i === 1 ? { ...step, hash: sha256Hex("other") } : step)),
+      proof.map((step, i) => (i === 0 ? { ...step, side: step.side === "left" ? "right" : "left" } : step)),
+      proof.slice(0, -1),
+      [...proof].reverse()
+    ];
+    for (const p of tampered) expect(await rootFromProof(hashes[3], p, asyncSha)).not.toBe(root);
+    expect(await rootFromProof(hashes[4], proof, asyncSha)).not.toBe(root);
+  });
+
+  describe("checkInclusionProof", () => {
+    // a signed chain of seven blocks and the checkpoint over them, and the proof for block #5
+    async function proofDoc() {
+      const chain = buildChain([announce(SEED), ...Array.from({ length: 6 }, () => ({ seed: SEED }))]);
+      const hashes = chain.map((b) => b.blockHash);
+      const checkpoint = { seq: 8, ts: "2026-01-01T00:00:08.000Z", event: "checkpoint", detail: "from=1 to=7", hash: await merkleRoot(hashes, asyncSha), prevHash: hashes[6] };
+      checkpoint.blockHash = sha256Hex(canonicalStringForBlock(checkpoint));
+      checkpoint.signature = ed25519.sign(checkpoint.blockHash, SEED);
+      return { block: chain[4], checkpoint, proof: await merkleProof(hashes, 4, asyncSha), publicKey: PUBLIC_KEY };
+    }
+    const check = (doc, extra = {}) => checkInclusionProof(doc, { sha256Hex: asyncSha, verifySignature: ed25519.verify, ...extra });
+
+    test("accepts a proof, with or without the published root", async () => {
+      const doc = await proofDoc();
+      expect(await check(doc)).toEqual({
+        ok: true,
+        blockValid: true,
+        checkpointValid: true,
+        proofValid: true,
+        rootMatches: true,
+        signaturesValid: true,
+        root: doc.checkpoint.hash
+      });
+      expect((await check(doc, { root: doc.checkpoint.hash })).ok).toBe(true);
+    });
+
+    test("refuses another root, a tampered path, block or checkpoint, and a wrong key", async () => {
+      const doc = await proofDoc();
+      expect(await check(doc, { root: sha256Hex("published elsewhere") })).toMatchObject({ ok: false, rootMatches: false, proofValid: true });
+      expect(await check({ ...doc, proof: doc.proof.slice(1) })).toMatchObject({ ok: false, proofValid: false });
+      expect(await check({ ...doc, block: { ...doc.block, detail: "rewritten" } })).toMatchObject({ ok: false, blockValid: false });
+      expect(await check({ ...doc, checkpoint: { ...doc.checkpoint, detail: "from=1 to=4" } })).toMatchObject({ ok: false, checkpointValid: false });
+      expect(await check(doc, { publicKeyHex: ed25519.getPublicKey(OTHER_SEED) })).toMatchObject({ ok: false, signaturesValid: false });
+    });
+  });
+});
@@ -0,0 +1,29 @@
+// v1 entry encryption and HMACs (crypto.ts).
+
+import { describe, expect, test } from "@jest/globals";
+
+import * as crypto from "../crypto";
+import * as entryFormat from "../entries";
+
+const MASTER = "5a".repeat(32);
+
+async function v1Entry(text) {
+  const { ivHex, ciphertextB64, hmac, ts } = await crypto.encryptEntryWithMaster(MASTER, text);
+  return { id: "v1", iv: ivHex, ciphertext: ciphertextB64, hmac, timestamp: ts };
+}
+
+describe("v1 entries", () => {
+  test("encrypt, verify and decrypt roundtrip", async () => {
+    const entry = await v1Entry("a v1 journal entry ✓");
+    expect(crypto.verifyEntryHMAC(MASTER, entry)).toBe(true);
+    expect(crypto.decryptEntryWithMaster(MASTER, entry)).toBe("a v1 journal entry ✓");
+    expect(crypto.verifyEntryHMAC("00".repeat(32), entry)).toBe(false);
+  });
+
+  test("decryptEntryWithMaster refuses a record that is not v1", async () => {
+    const v2 = await entryFormat.sealEntry(MASTER, "a v2 entry");
+    expect(() => crypto.decryptEntryWithMaster(MASTER, v2)).toThrow("Not a v1 entry.");
+    const { ciphertext: _dropped, ...noCiphertext } = await v1Entry("half a record");
+    expect(() => crypto.decryptEntryWithMaster(MASTER, noCiphertext)).toThrow("Not a v1 entry.");
+  });
+});
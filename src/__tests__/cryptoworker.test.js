@@ -0,0 +1,155 @@
+// Crypto workers (cryptoworker.js, cryptoworker.node.js): every worker must return byte for byte
+// what the synchronous kdf.js functions return, and a cancelled derivation must stop with CANCELLED.
+
+import { afterEach, beforeAll, describe, expect, jest, test } from "@jest/globals";
+import nodeCrypto from "crypto";
+import CryptoJS from "crypto-js";
+
+import { hexToBytes } from "../aead";
+import { createInlineWorker, CryptoWorkerError, setCryptoWorker } from "../cryptoworker";
+import * as kdf from "../kdf";
+import Meowscript from "../meowscript";
+
+const { createNodeWorker } = require("../cryptoworker.node");
+const ExpoCrypto = require("expo-crypto");
+
+// after __countFrom(0), random bytes count up from 0, so two seals can be compared byte for byte
+jest.mock("expo-crypto", () => {
+  const actual = jest.requireActual("../../__mocks__/expo-crypto");
+  let counter = null;
+  return {
+    ...actual,
+    getRandomBytesAsync: async (size) =>
+      counter === null ? actual.getRandomBytesAsync(size) : Uint8Array.from({ length: size }, () => counter++ & 0xff),
+    __countFrom: (start) => {
+      counter = start;
+    }
+  };
+});
+
+const PASSPHRASE = "correct horse battery staple ✓";
+const SALT_HEX = "a0".repeat(16);
+const FAST_SCRYPT = { N: 1024, r: 8, p: 1 };
+
+const utf8Hex = (text) => CryptoJS.enc.Utf8.parse(text).toString(CryptoJS.enc.Hex);
+
+// the kdfcore job spec kdf.js hands to the worker
+function jobSpec(passphrase, saltHex, spec, dkLen) {
+  const { kdf: name, params } = kdf.normalizeSpec(spec);
+  return { kdf: name, params, passwordHex: utf8Hex(passphrase), saltHex, dkLen };
+}
+
+const workers = [
+  ["node", createNodeWorker],
+  ["inline", createInlineWorker]
+];
+
+beforeAll(() => {
+  // jest has no worklet runtime
+  setCryptoWorker(createInlineWorker());
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  jest.useRealTimers();
+  ExpoCrypto.__countFrom(null);
+  setCryptoWorker(createInlineWorker());
+});
+
+describe("known answers", () => {
+  // RFC 7914 section 12 (scrypt) and the PBKDF2-HMAC-SHA256 vector from section 11
+  const vectors = [
+    ["scrypt N=16 r=1 p=1", "", "", { kdf: "scrypt", params: { N: 16, r: 1, p: 1 } }, 64,
+      "77d6576238657b203b19ca42c18a0497f16b4844e3074ae8dfdffa3fede21442fcd0069ded0948f8326a753a0fc81f17e8d3e0fb2e0d3628cf35e20c38d18906"],
+    ["pbkdf2 c=1", "passwd", "salt", { kdf: "pbkdf2-sha256", params: { iterations: 1 } }, 64,
+      "55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783"]
+  ];
+
+  test.each(vectors)("%s", async (_name, passphrase, salt, spec, dkLen, expected) => {
+    const saltHex = utf8Hex(salt);
+    expect(kdf.deriveKey(passphrase, saltHex, spec, dkLen).toString(CryptoJS.enc.Hex)).toBe(expected);
+    for (const [, create] of workers) {
+      expect(await create().derive(jobSpec(passphrase, saltHex, spec, dkLen))).toBe(expected);
+    }
+  });
+});
+
+describe.each(workers)("%s worker", (name, create) => {
+  const specs = [
+    ["pbkdf2 1000 rounds", { kdf: "pbkdf2-sha256", params: { iterations: 1000 } }, 32],
+    ["pbkdf2 legacy iteration count", 2000, 48],
+    ["scrypt N=1024 r=8 p=1", { kdf: "scrypt", params: FAST_SCRYPT }, 32],
+    ["scrypt N=256 r=4 p=2", { kdf: "scrypt", params: { N: 256, r: 4, p: 2 } }, 64]
+  ];
+
+  test.each(specs)("%s matches kdf.deriveKey and node's crypto", async (_label, spec, dkLen) => {
+    const expected = kdf.deriveKey(PASSPHRASE, SALT_HEX, spec, dkLen).toString(CryptoJS.enc.Hex);
+    const { kdf: kind, params } = kdf.normalizeSpec(spec);
+    const salt = hexToBytes(SALT_HEX);
+    const reference = kind === "scrypt"
+      ? nodeCrypto.scryptSync(PASSPHRASE, salt, dkLen, { ...params, maxmem: 64 * 1024 * 1024 })
+      : nodeCrypto.pbkdf2Sync(PASSPHRASE, salt, params.iterations, dkLen, "sha256");
+    expect(expected).toBe(reference.toString("hex"));
+
+    const progress = [];
+    const derived = await create().derive(jobSpec(PASSPHRASE, SALT_HEX, spec, dkLen), { onProgress: (p) => progress.push(p) });
+    expect(derived).toBe(expected);
+    expect(progress[progress.length - 1]).toBe(1);
+    expect([...progress].sort((a, b) => a - b)).toEqual(progress);
+  });
+
+  test("the async kdf.js functions on this worker match the synchronous ones", async () => {
+    setCryptoWorker(create());
+    const spec = { kdf: "scrypt", params: FAST_SCRYPT };
+    const saltBytes = Array.from(hexToBytes(SALT_HEX));
+    expect((await kdf.deriveKeyAsync(PASSPHRASE, SALT_HEX, spec)).toString(CryptoJS.enc.Hex)).toBe(
+      kdf.deriveKey(PASSPHRASE, SALT_HEX, spec).toString(CryptoJS.enc.Hex)
+    );
+    expect(await kdf.deriveKeyBytesAsync(PASSPHRASE, saltBytes, spec)).toEqual(kdf.deriveKeyBytes(PASSPHRASE, saltBytes, spec));
+  });
+
+  test.each([
+    ["scrypt", { kdfParams: FAST_SCRYPT }],
+    ["PBKDF2", { kdfParams: { algorithm: "PBKDF2", iterations: 1000 } }]
+  ])("Meowscript.seal (%s) writes the same blob as with synchronous derivation", async (_label, options) => {
+    // fixed randomness and clock, so two seals of the same text can be compared
+    jest.spyOn(Math, "random").mockReturnValue(0.25);
+    jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00.000Z"), doNotFake: ["setTimeout", "setImmediate", "setInterval", "nextTick", "queueMicrotask"] });
+    setCryptoWorker(create());
+    await Meowscript.seal("warm-up: creates the device key", PASSPHRASE, options);
+
+    ExpoCrypto.__countFrom(0);
+    const { blob } = await Meowscript.seal("same text, same bytes", PASSPHRASE, options);
+
+    ExpoCrypto.__countFrom(0);
+    const sync = [
+      jest.spyOn(kdf, "deriveKeyBytesAsync").mockImplementation(async (p, s, spec, dkLen) => kdf.deriveKeyBytes(p, s, spec, dkLen)),
+      jest.spyOn(kdf, "deriveKeyAsync").mockImplementation(async (p, s, spec, dkLen) => kdf.deriveKey(p, s, spec, dkLen))
+    ];
+    const { blob: reference } = await Meowscript.seal("same text, same bytes", PASSPHRASE, options);
+    expect(sync[0].mock.calls.length + sync[1].mock.calls.length).toBe(1);
+
+    expect(JSON.stringify(blob)).toBe(JSON.stringify(reference));
+    jest.restoreAllMocks();
+    expect((await Meowscript.unseal(blob, PASSPHRASE)).plaintext).toBe("same text, same bytes");
+  });
+
+  test("aborting a derivation rejects with CANCELLED", async () => {
+    const controller = new AbortController();
+    // long enough to still be running when the first progress report arrives
+    const spec = jobSpec(PASSPHRASE, SALT_HEX, { kdf: "scrypt", params: { N: 16384, r: 8, p: 1 } }, 32);
+    const derivation = create().derive(spec, { signal: controller.signal, onProgress: () => controller.abort() });
+    await expect(derivation).rejects.toThrow(CryptoWorkerError);
+    await expect(derivation).rejects.toMatchObject({ code: "CANCELLED" });
+  });
+
+  test(`an already aborted signal never starts the ${name} job`, async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const onProgress = jest.fn();
+    await expect(create().derive(jobSpec(PASSPHRASE, SALT_HEX, 1000, 32), { signal: controller.signal, onProgress })).rejects.toMatchObject({
+      code: "CANCELLED"
+    });
+    expect(onProgress).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,110 @@
+// Dead-man's switch (deadman.js): the record is bound to a block of the real chain, so removing it,
+// pointing it elsewhere or setting the clock back counts as tampering or buys no time.
+
+import { afterEach, beforeEach, describe, expect, jest, test } from "@jest/globals";
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import * as blockchain from "../blockchain";
+import * as deadman from "../deadman";
+import * as storage from "../storage";
+
+const SecureStore = require("expo-secure-store");
+
+const readRecord = async () => JSON.parse(await SecureStore.getItemAsync(storage.SECUREKEY_DEADMAN));
+const writeRecord = (rec) => SecureStore.setItemAsync(storage.SECUREKEY_DEADMAN, JSON.stringify(rec));
+
+beforeEach(async () => {
+  SecureStore.__store.clear();
+  AsyncStorage.__store.clear();
+  await blockchain.appendEvent({ event: "vault_created", detail: "initialization" }, "primary");
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("evaluateSwitch", () => {
+  test("a disarmed switch is settled without reading the chain", async () => {
+    await deadman.armSwitch(7);
+    await deadman.disarmSwitch();
+    const loadChain = jest.spyOn(blockchain, "loadChain");
+    const verifyChain = jest.spyOn(blockchain, "verifyChain");
+
+    expect(await deadman.evaluateSwitch()).toMatchObject({ armed: false, expired: false, tampered: false });
+    expect(loadChain).not.toHaveBeenCalled();
+    expect(verifyChain).not.toHaveBeenCalled();
+  });
+
+  test("an armed switch with its anchor in place is counting down", async () => {
+    await deadman.armSwitch(7);
+    const status = await deadman.evaluateSwitch();
+    expect(status).toMatchObject({ armed: true, days: 7, expired: false, tampered: false, reason: null });
+    expect(status.remainingMs).toBeGreaterThan(6 * deadman.DAY_MS);
+  });
+
+  test("a removed record is tampering while the chain says armed", async () => {
+    await deadman.armSwitch(7);
+    await SecureStore.deleteItemAsync(storage.SECUREKEY_DEADMAN);
+    await blockchain.appendEvent({ event: "unlocked", detail: "passphrase" }, "primary");
+    expect(await deadman.evaluateSwitch()).toMatchObject({ armed: true, expired: true, tampered: true, reason: "record_missing" });
+  });
+
+  test("a record pointing at a block the chain does not hold is tampering", async () => {
+    await deadman.armSwitch(7);
+    const rec = await readRecord();
+
+    await writeRecord({ ...rec, head: "00".repeat(32) });
+    expect(await deadman.evaluateSwitch()).toMatchObject({ expired: true, tampered: true, reason: "anchor_mismatch" });
+
+    // a later unlock time on the real anchor block does not match it either
+    await writeRecord({ ...rec, lastUnlockAt: new Date(Date.now() + deadman.DAY_MS).toISOString() });
+    expect(await deadman.evaluateSwitch()).toMatchObject({ expired: true, tampered: true, reason: "anchor_mismatch" });
+  });
+
+  test("checkIn moves the anchor; records without its seq are still found", async () => {
+    await deadman.armSwitch(3);
+    const unlocked = await blockchain.appendEvent({ event: "unlocked", detail: "passphrase" }, "primary");
+    await deadman.checkIn(unlocked);
+    expect(await readRecord()).toMatchObject({ head: unlocked.blockHash, seq: unlocked.seq, lastUnlockAt: unlocked.ts });
+    expect((await deadman.evaluateSwitch()).tampered).toBe(false);
+
+    const { seq: _seq, ...older } = await readRecord();
+    await writeRecord(older);
+    expect((await deadman.evaluateSwitch()).tampered).toBe(false);
+  });
+
+  test("setting the clock back does not buy time", async () => {
+    await deadman.armSwitch(3);
+    const start = new Date((await readRecord()).lastUnlockAt).getTime();
+    const clock = jest.spyOn(Date, "now");
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    clock.mockReturnValue(start + 2 * deadman.DAY_MS);
+    const later = await deadman.evaluateSwitch();
+    expect(later.remainingMs).toBe(deadman.DAY_MS);
+
+    clock.mockReturnValue(start - 10 * deadman.DAY_MS);
+    const rolledBack = await deadman.evaluateSwitch();
+    expect(rolledBack.remainingMs).toBeLessThanOrEqual(later.remainingMs);
+    expect(rolledBack.expired).toBe(false);
+    expect(warn).toHaveBeenCalledWith("deadman: device clock is behind the last time seen");
+
+    clock.mockReturnValue(start + 4 * deadman.DAY_MS);
+    expect(await deadman.evaluateSwitch()).toMatchObject({ expired: true, tampered: false, reason: "expired" });
+  });
+});
+
+describe("resetAfterRestore", () => {
+  test("logs the disarm so the chain agrees with the missing record", async () => {
+    await deadman.armSwitch(7);
+    await deadman.resetAfterRestore();
+    const last = await blockchain.latestBlockWithId(deadman.SWITCH_EVENT_ID, "primary");
+    expect(last).toMatchObject({ event: "deadman_disarmed", detail: "backup_restored" });
+    expect(await deadman.evaluateSwitch()).toMatchObject({ armed: false, tampered: false });
+
+    // nothing more to log when the switch was already disarmed
+    await deadman.resetAfterRestore();
+    expect((await blockchain.headBlock("primary")).blockHash).toBe(last.blockHash);
+  });
+});
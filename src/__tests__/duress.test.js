@@ -0,0 +1,195 @@
+// Duress passphrase: the secondary key slot (vaultkey.js) and the decoy vault set (duress.js).
+
+import { beforeAll, describe, expect, jest, test } from "@jest/globals";
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import * as backup from "../backup";
+import * as blockchain from "../blockchain";
+import { createInlineWorker, setCryptoWorker } from "../cryptoworker";
+import * as duress from "../duress";
+import * as entryFormat from "../entries";
+import * as storage from "../storage";
+import * as vaultkey from "../vaultkey";
+
+// the production scrypt cost makes every slot take seconds; the slot logic is the same
+jest.mock("../kdf", () => ({
+  ...jest.requireActual("../kdf"),
+  CURRENT_KDF_POLICY: { kdf: "scrypt", params: { N: 1024, r: 8, p: 1 } },
+  needsUpgrade: () => false
+}));
+
+const REAL_KEY = "aa".repeat(32);
+const DECOY_KEY = "dd".repeat(32);
+const REAL_PASS = "real passphrase 123";
+const DURESS_PASS = "duress passphrase 456";
+
+const SecureStore = require("expo-secure-store");
+
+// what someone reading the device's storage sees: key names and the secondary chain's shape
+async function storedShape() {
+  const chain = await blockchain.loadChain("secondary");
+  return {
+    secureKeys: [...SecureStore.__store.keys()].sort(),
+    asyncKeys: [...AsyncStorage.__store.keys()].sort(),
+    secondaryEvents: chain.map((b) => b.event),
+    secondarySigned: chain.every((b) => !!b.signature)
+  };
+}
+
+async function setUpVault() {
+  SecureStore.__store.clear();
+  AsyncStorage.__store.clear();
+  await vaultkey.initializeKeySlot(REAL_KEY, REAL_PASS);
+  await duress.resetSecondarySet();
+}
+
+beforeAll(() => {
+  // jest has no worklet runtime
+  setCryptoWorker(createInlineWorker());
+});
+
+describe("secondary key slot", () => {
+  // the stored slots, to check that a refused change wrote nothing
+  const slots = async () => [await SecureStore.getItemAsync(storage.SECUREKEY_WRAPPED), await SecureStore.getItemAsync(storage.SECUREKEY_WRAPPED_ALT)];
+
+  test("a decoy session can change its passphrase without learning anything about the real one", async () => {
+    await vaultkey.initializeKeySlot(REAL_KEY, REAL_PASS);
+    await vaultkey.setSecondarySlot(DECOY_KEY, DURESS_PASS);
+
+    // the real passphrase as the new decoy one is accepted like any other
+    expect(await vaultkey.changePassphrase(DECOY_KEY, DURESS_PASS, REAL_PASS, "secondary")).toBe(DECOY_KEY);
+    await expect(vaultkey.changePassphrase(DECOY_KEY, DURESS_PASS, "anything else", "secondary")).rejects.toThrow("Current passphrase is incorrect.");
+
+    // and the real vault is untouched: its passphrase still opens it
+    const opened = await vaultkey.unlockWithPassphrase(REAL_PASS);
+    expect(opened.masterHex).toBe(REAL_KEY);
+    expect(opened.duress).toBe(false);
+  });
+
+  test("a decoy session cannot use the real passphrase as its current one", async () => {
+    await vaultkey.initializeKeySlot(REAL_KEY, REAL_PASS);
+    await vaultkey.setSecondarySlot(DECOY_KEY, DURESS_PASS, vaultkey.SECONDARY_FLAG_WIPE);
+    const before = await slots();
+
+    await expect(vaultkey.changePassphrase(DECOY_KEY, REAL_PASS, "chosen by someone else", "secondary")).rejects.toThrow("Current passphrase is incorrect.");
+    expect(await slots()).toEqual(before);
+    expect(await vaultkey.unlockWithPassphrase("chosen by someone else")).toBeNull();
+    expect((await vaultkey.unlockWithPassphrase(REAL_PASS)).masterHex).toBe(REAL_KEY);
+    expect(await vaultkey.unlockWithPassphrase(DURESS_PASS)).toMatchObject({ masterHex: DECOY_KEY, duress: true, wipe: true });
+  });
+
+  test("a real session cannot use the duress passphrase as its current one", async () => {
+    await vaultkey.initializeKeySlot(REAL_KEY, REAL_PASS);
+    await vaultkey.setSecondarySlot(DECOY_KEY, DURESS_PASS);
+    const before = await slots();
+
+    await expect(vaultkey.changePassphrase(REAL_KEY, DURESS_PASS, "new passphrase 789", "primary")).rejects.toThrow("Current passphrase is incorrect.");
+    expect(await slots()).toEqual(before);
+    expect((await vaultkey.unlockWithPassphrase(DURESS_PASS)).duress).toBe(true);
+  });
+
+  test("the current passphrase must open the session's own key", async () => {
+    await vaultkey.initializeKeySlot(REAL_KEY, REAL_PASS);
+    await vaultkey.setSecondarySlot(DECOY_KEY, DURESS_PASS);
+    const before = await slots();
+
+    await expect(vaultkey.changePassphrase(DECOY_KEY, REAL_PASS, "new passphrase 789")).rejects.toThrow("Current passphrase is incorrect.");
+    await expect(vaultkey.changePassphrase(REAL_KEY, DURESS_PASS, "new passphrase 789", "secondary")).rejects.toThrow("Current passphrase is incorrect.");
+    expect(await slots()).toEqual(before);
+  });
+
+  test("the real session still refuses a new passphrase that opens the decoy", async () => {
+    await vaultkey.initializeKeySlot(REAL_KEY, REAL_PASS);
+    await vaultkey.setSecondarySlot(DECOY_KEY, DURESS_PASS);
+    await expect(vaultkey.changePassphrase(REAL_KEY, REAL_PASS, DURESS_PASS)).rejects.toThrow("Choose a different passphrase.");
+    expect((await vaultkey.unlockWithPassphrase(DURESS_PASS)).duress).toBe(true);
+
+    expect(await vaultkey.changePassphrase(REAL_KEY, REAL_PASS, "new passphrase 789")).toBe(REAL_KEY);
+    expect((await vaultkey.unlockWithPassphrase("new passphrase 789")).masterHex).toBe(REAL_KEY);
+  });
+});
+
+describe("secondary vault set", () => {
+  test("vault setup leaves a signed placeholder chain in the secondary set", async () => {
+    await setUpVault();
+    expect(await blockchain.signingPublicKey("secondary")).toMatch(/^[0-9a-f]{64}$/);
+    const shape = await storedShape();
+    expect(shape.secureKeys).toContain(storage.SECUREKEY_WRAPPED_ALT);
+    expect(shape.secureKeys).toContain(storage.SECUREKEY_AUDIT_SIGNING_ALT);
+    expect(shape.secondaryEvents).toEqual(["signing_key_created", "vault_created"]);
+    expect(shape.secondarySigned).toBe(true);
+    expect((await blockchain.verifyChain("secondary", { full: true })).ok).toBe(true);
+  });
+
+  test("configuring and removing a decoy leave storage shaped as before", async () => {
+    await setUpVault();
+    const placeholder = await storedShape();
+
+    await duress.configureDecoy(REAL_KEY, DURESS_PASS);
+    expect(await storedShape()).toEqual(placeholder);
+    const opened = await vaultkey.unlockWithPassphrase(DURESS_PASS);
+    expect(opened.duress).toBe(true);
+
+    await duress.removeDecoy();
+    expect(await storedShape()).toEqual(placeholder);
+    expect(await vaultkey.unlockWithPassphrase(DURESS_PASS)).toBeNull();
+    expect((await blockchain.verifyChain("secondary", { full: true })).ok).toBe(true);
+  });
+
+  test("ensureSecondarySet() fills in the placeholder for older vaults only", async () => {
+    SecureStore.__store.clear();
+    AsyncStorage.__store.clear();
+    await vaultkey.initializeKeySlot(REAL_KEY, REAL_PASS);
+    expect(await duress.ensureSecondarySet()).toBe(true);
+    expect((await storedShape()).secondaryEvents).toEqual(["signing_key_created", "vault_created"]);
+    expect(await duress.ensureSecondarySet()).toBe(false);
+
+    // a decoy chain from before audit signing keeps its blocks and gets a key
+    await SecureStore.deleteItemAsync(storage.SECUREKEY_AUDIT_SIGNING_ALT);
+    await blockchain.replaceChain([], "secondary");
+    await blockchain.appendEvent({ event: "vault_created", detail: "initialization" }, "secondary");
+    expect(await duress.ensureSecondarySet()).toBe(true);
+    expect((await storedShape()).secondaryEvents).toEqual(["vault_created", "signing_key_created"]);
+  });
+});
+
+describe("decoy session settings", () => {
+  test("recovery codes for the decoy are shown but stored nowhere", async () => {
+    await setUpVault();
+    await duress.configureDecoy(REAL_KEY, DURESS_PASS);
+    const { masterHex: decoyHex } = await vaultkey.unlockWithPassphrase(DURESS_PASS);
+    const before = await storedShape();
+    expect(await vaultkey.generateRecoveryCodes(decoyHex, 8, "secondary")).toHaveLength(8);
+    expect(await storedShape()).toEqual(before);
+    expect(await vaultkey.recoveryCodesRemaining()).toBe(0);
+    await expect(vaultkey.generateRecoveryCodes(decoyHex)).rejects.toThrow("Master key does not match this vault.");
+  });
+
+  test("a decoy backup holds only the decoy set and restores as a vault the duress passphrase opens", async () => {
+    await setUpVault();
+    await storage.appendEntry(await entryFormat.sealEntry(REAL_KEY, "real secret"));
+    await vaultkey.generateRecoveryCodes(REAL_KEY, 2);
+    await duress.configureDecoy(REAL_KEY, DURESS_PASS, { wipe: true, entries: ["groceries", "dentist"] });
+    const { masterHex: decoyHex } = await vaultkey.unlockWithPassphrase(DURESS_PASS);
+
+    const made = await backup.createBackup(decoyHex, "backup passphrase", "secondary");
+    const bundle = await backup.readBackup(made.uri, "backup passphrase");
+    expect(bundle.entries).toEqual(await storage.loadEntries("secondary"));
+    expect(bundle.chain).toEqual(await blockchain.loadChain("secondary"));
+    expect(bundle.secondary).toEqual({ entries: [], chain: [] });
+    expect(bundle.keys).toMatchObject({ recovery: null, secondarySlot: null, secondarySigningKey: null });
+    expect(bundle.keys.signingKey).toBe(await SecureStore.getItemAsync(storage.SECUREKEY_AUDIT_SIGNING_ALT));
+
+    SecureStore.__store.clear();
+    AsyncStorage.__store.clear();
+    await backup.applyBackup(bundle);
+    const opened = await vaultkey.unlockWithPassphrase(DURESS_PASS);
+    expect(opened).toMatchObject({ masterHex: decoyHex, duress: false });
+    expect(await vaultkey.unlockWithPassphrase(REAL_PASS)).toBeNull();
+    const texts = [];
+    for (const e of await storage.loadEntries("primary")) texts.push(await entryFormat.openEntry(decoyHex, e));
+    expect(texts.sort()).toEqual(["dentist", "groceries"]);
+    expect((await blockchain.verifyChain("primary", { full: true })).ok).toBe(true);
+  });
+});
@@ -0,0 +1,186 @@
+// Stored-entry checks run on unlock (entries.js): integrity, revision links, chain commitments,
+// the decrypted views and the v1 migration, read page by page. Each is compared with the
+// whole-list function it replaces on the same vault.
+
+import { beforeAll, beforeEach, describe, expect, jest, test } from "@jest/globals";
+
+import * as backend from "../backend";
+import * as blockchain from "../blockchain";
+import * as crypto from "../crypto";
+import { createInlineWorker, setCryptoWorker } from "../cryptoworker";
+import * as entryFormat from "../entries";
+import * as search from "../search";
+import * as storage from "../storage";
+
+const MASTER = "ab".repeat(32);
+
+// more records and blocks than one page of each
+const FILLER_ENTRIES = 130;
+const FILLER_BLOCKS = 200;
+
+let active;
+
+async function sealV1(text) {
+  const { ivHex, ciphertextB64, hmac, ts } = await crypto.encryptEntryWithMaster(MASTER, text);
+  return { id: `v1-${text.replace(/\s/g, "-")}`, iv: ivHex, ciphertext: ciphertextB64, hmac, timestamp: ts };
+}
+
+async function store(entry, commit = "hash") {
+  await storage.appendEntry(entry);
+  if (commit === "hash") await blockchain.appendEvent({ event: "entry_added", id: entry.id, hash: entryFormat.entryCommitment(entry) });
+  if (commit === "legacy") await blockchain.appendEvent({ event: "entry_added", detail: `id=${entry.id}` });
+  return entry;
+}
+
+// whole-list reads are counted from here on
+function watchWholeReads() {
+  active.list = jest.fn(active.list);
+  return active.list;
+}
+
+function indexShape(index) {
+  return [...index.docs].map(([id, terms]) => [id, [...terms].sort()]).sort(([a], [b]) => (a < b ? -1 : 1));
+}
+
+beforeAll(() => {
+  // jest has no worklet runtime
+  setCryptoWorker(createInlineWorker());
+});
+
+beforeEach(() => {
+  active = backend.createMemoryBackend();
+  backend.setBackend(active);
+});
+
+describe("checkStoredEntries", () => {
+  test("reports what the whole-list checks report, without loading either list", async () => {
+    const wiped = await entryFormat.sealEntry(MASTER, "wiped by duress");
+    await blockchain.appendEvent({ event: "entry_added", id: wiped.id, hash: entryFormat.entryCommitment(wiped) });
+    await blockchain.appendEvent({ event: "duress_wipe" });
+
+    const first = await store(await entryFormat.sealEntry(MASTER, "first draft", { id: "root", timestamp: "2026-01-01T00:00:00.000Z" }));
+    const links = { rootId: first.id, prevId: first.id, prevHmac: first.hmac };
+    await store(await entryFormat.sealEntry(MASTER, "second draft", { id: "rev", timestamp: "2026-01-02T00:00:00.000Z", links }));
+    for (let i = 0; i < FILLER_ENTRIES; i++) await store(await entryFormat.sealEntry(MASTER, `note ${i}`, { id: `n${i}` }));
+    for (let i = 0; i < FILLER_BLOCKS; i++) await blockchain.appendEvent({ event: "app_opened", detail: `n=${i}` });
+    await store(await entryFormat.sealEntry(MASTER, "spliced", { id: "fork", links }));
+    await store(await entryFormat.sealEntry(MASTER, "never committed", { id: "extra" }), null);
+    const legacy = await store(await entryFormat.sealEntry(MASTER, "committed by id", { id: "legacy" }), "legacy");
+    const changed = await store(await entryFormat.sealEntry(MASTER, "swapped", { id: "changed" }), null);
+    await blockchain.appendEvent({ event: "entry_added", id: changed.id, hash: "00".repeat(32) });
+    await blockchain.appendEvent({ event: "entry_added", id: "gone", hash: "11".repeat(32) });
+    const tampered = await store({ ...(await sealV1("tampered")), hmac: "00".repeat(32) });
+
+    const all = await storage.loadEntries();
+    const expected = entryFormat.crossCheckEntries(all, await blockchain.loadChain());
+    const expectedLinks = entryFormat.verifyRevisionLinks(all);
+    expect(await storage.countTamperLog()).toBeGreaterThan(256);
+    // "fork" and "rev" revise the same record
+    expect(expectedLinks).toHaveLength(1);
+
+    const list = watchWholeReads();
+    const onLegacy = jest.fn(async () => {});
+    const check = await entryFormat.checkStoredEntries(MASTER, { onLegacy });
+    expect(list).not.toHaveBeenCalled();
+
+    expect(check.ok).toBe(all.length - 1);
+    expect(check.failed).toEqual([tampered.id]);
+    expect(check.brokenLinks).toEqual(expectedLinks);
+    expect(check.commits.missing).toEqual(expected.missing);
+    expect(check.commits.missing.map((m) => m.id)).toEqual(["gone"]);
+    expect(expected.statuses.legacy).toBe("legacy");
+    expect(onLegacy.mock.calls).toEqual([[legacy]]);
+    expect(check.commits.statuses).toEqual({ ...expected.statuses, legacy: "committed" });
+    expect(check.commits.statuses).toMatchObject({ extra: "extra", changed: "changed", root: "committed", n0: "committed" });
+  });
+
+  test("an empty vault checks clean", async () => {
+    const check = await entryFormat.checkStoredEntries(MASTER);
+    expect(check).toEqual({ ok: 0, failed: [], brokenLinks: [], commits: { statuses: {}, missing: [] } });
+  });
+});
+
+describe("decrypted views", () => {
+  test("the paged meta map and search index match the whole-list ones", async () => {
+    const first = await store(await entryFormat.sealEntry(MASTER, "orange cat", { id: "root", timestamp: "2026-01-01T00:00:00.000Z", meta: { title: "Old", tags: ["a"] } }));
+    const links = { rootId: first.id, prevId: first.id, prevHmac: first.hmac };
+    await store(await entryFormat.sealEntry(MASTER, "grey cat", { id: "rev", timestamp: "2026-01-02T00:00:00.000Z", links, meta: { title: "New", tags: ["b"] } }));
+    for (let i = 0; i < FILLER_ENTRIES; i++) {
+      await store(await entryFormat.sealEntry(MASTER, `note number${i}`, { id: `n${i}`, meta: { tags: [`t${i % 3}`] } }));
+    }
+    await store({ ...(await entryFormat.sealEntry(MASTER, "tampered", { id: "bad" })), hmac: "00".repeat(32) });
+    await store(await sealV1("plain v1"));
+
+    const all = await storage.loadEntries();
+    const metaMap = await entryFormat.loadMetaMap(MASTER, all);
+    const whole = await search.buildIndex(MASTER, all, metaMap);
+
+    const list = watchWholeReads();
+    const storedMeta = await entryFormat.loadStoredMetaMap(MASTER);
+    const paged = await search.buildStoredIndex(MASTER, storedMeta);
+    expect(list).not.toHaveBeenCalled();
+
+    expect(storedMeta).toEqual(metaMap);
+    expect(storedMeta.root).toEqual({ title: "New", tags: ["b"] });
+    expect(indexShape(paged.index)).toEqual(indexShape(whole.index));
+    expect(paged.skipped).toEqual(["bad"]);
+    expect(search.search(paged.index, "orange").size).toBe(0);
+    expect([...search.search(paged.index, "grey new")]).toEqual(["root"]);
+  });
+});
+
+describe("migrateEntries", () => {
+  test("re-seals every v1 record page by page and keeps the rest", async () => {
+    for (let i = 0; i < FILLER_ENTRIES; i++) {
+      await store(i % 5 === 0 ? await sealV1(`old ${i}`) : await entryFormat.sealEntry(MASTER, `new ${i}`, { id: `n${i}` }));
+    }
+    const tampered = await store({ ...(await sealV1("tampered")), hmac: "00".repeat(32) });
+    const before = await storage.loadEntries();
+    const legacyCount = entryFormat.countLegacyEntries(before);
+    expect(legacyCount).toBe(FILLER_ENTRIES / 5 + 1);
+
+    const list = watchWholeReads();
+    expect(await entryFormat.countStoredLegacyEntries()).toBe(legacyCount);
+    const progress = [];
+    const resealed = [];
+    const res = await entryFormat.migrateEntries(MASTER, {
+      batchSize: 10,
+      onProgress: (p) => progress.push(p.done),
+      onResealed: (records) => resealed.push(...records)
+    });
+    expect(list).not.toHaveBeenCalled();
+
+    expect(res).toEqual({ total: legacyCount, migrated: legacyCount - 1, failed: [tampered.id] });
+    expect(progress).toEqual([10, 20, legacyCount]);
+    expect(resealed.map((e) => e.id).sort()).toEqual(before.filter((e) => !e.v && e.id !== tampered.id).map((e) => e.id).sort());
+
+    const after = await storage.loadEntries();
+    expect(after.map((e) => e.id)).toEqual(before.map((e) => e.id));
+    expect(entryFormat.countLegacyEntries(after)).toBe(1);
+    for (const e of after.filter((r) => r.id !== tampered.id)) {
+      expect(entryFormat.verifyEntry(MASTER, e)).toBe(true);
+      const original = before.find((r) => r.id === e.id);
+      expect(e.timestamp).toBe(original.timestamp);
+      expect(await entryFormat.openEntry(MASTER, e)).toBe(await entryFormat.openEntry(MASTER, original));
+    }
+  });
+});
+
+describe("reviseEntry", () => {
+  test("refuses a record that was already revised, reading only the records after it", async () => {
+    for (let i = 0; i < FILLER_ENTRIES; i++) await store(await entryFormat.sealEntry(MASTER, `note ${i}`, { id: `n${i}` }));
+    const first = await store(await entryFormat.sealEntry(MASTER, "first draft", { id: "root" }));
+    await store(await entryFormat.sealEntry(MASTER, "unrelated", { id: "later" }));
+
+    const list = watchWholeReads();
+    active.slice = jest.fn(active.slice);
+    const second = await store(await entryFormat.reviseEntry(MASTER, first, "second draft"));
+    expect(second).toMatchObject({ rootId: "root", prevId: "root", prevHmac: first.hmac });
+    await expect(entryFormat.reviseEntry(MASTER, first, "spliced")).rejects.toThrow("Only the latest revision can be revised.");
+    expect(await entryFormat.reviseEntry(MASTER, second, "third draft")).toMatchObject({ rootId: "root", prevId: second.id });
+
+    expect(list).not.toHaveBeenCalled();
+    // every scan stopped within the newest page
+    expect(active.slice.mock.calls.filter(([collection]) => collection === storage.ASYNC_ENTRIES_KEY)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,90 @@
+// Failed-unlock throttling (lockout.js): the wait doubles with each failure up to the cap, setting
+// the clock back cannot skip it, and the wipe threshold is reported once it is reached.
+
+import { afterEach, beforeEach, describe, expect, jest, test } from "@jest/globals";
+
+import * as lockout from "../lockout";
+import * as storage from "../storage";
+
+const SecureStore = require("expo-secure-store");
+
+const NOW = Date.UTC(2026, 0, 1);
+
+beforeEach(() => {
+  SecureStore.__store.clear();
+  jest.spyOn(Date, "now").mockReturnValue(NOW);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("backoff", () => {
+  test("doubles from two seconds and stops at an hour", () => {
+    expect([0, 1, 2, 3, 4].map(lockout.backoffDelayMs)).toEqual([0, 2000, 4000, 8000, 16000]);
+    expect(lockout.backoffDelayMs(12)).toBe(lockout.MAX_DELAY_MS);
+    expect(lockout.backoffDelayMs(1000)).toBe(lockout.MAX_DELAY_MS);
+  });
+
+  test("each failure is stored and locks until its delay has passed", async () => {
+    expect(await lockout.recordFailure()).toEqual({ failures: 1, delayMs: 2000, lockedUntil: NOW + 2000, wipe: false });
+    expect(await lockout.recordFailure()).toEqual({ failures: 2, delayMs: 4000, lockedUntil: NOW + 4000, wipe: false });
+
+    const state = await lockout.readLockout();
+    expect(state).toEqual({ failures: 2, lastFailureAt: NOW, lockedUntil: NOW + 4000, wipeAfter: null });
+    expect(lockout.remainingMs(state, NOW + 1000)).toBe(3000);
+    expect(lockout.remainingMs(state, NOW + 5000)).toBe(0);
+  });
+
+  test("a success clears the count but keeps the threshold", async () => {
+    await lockout.setWipeThreshold(5);
+    await lockout.recordFailure();
+    await lockout.recordFailure();
+    expect(await lockout.resetFailures()).toBe(2);
+    expect(await lockout.readLockout()).toEqual({ failures: 0, lastFailureAt: 0, lockedUntil: 0, wipeAfter: 5 });
+    expect(lockout.remainingMs(await lockout.readLockout())).toBe(0);
+    expect(await lockout.resetFailures()).toBe(0);
+  });
+
+  test("an unreadable state counts as no failures", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    await SecureStore.setItemAsync(storage.SECUREKEY_LOCKOUT, "{not json");
+    expect(await lockout.readLockout()).toEqual({ failures: 0, lastFailureAt: 0, lockedUntil: 0, wipeAfter: null });
+  });
+});
+
+describe("clock rollback", () => {
+  test("a clock set back before the last failure waits the full delay", async () => {
+    for (let i = 0; i < 3; i++) await lockout.recordFailure();
+    const state = await lockout.readLockout();
+    expect(lockout.remainingMs(state, NOW - 1)).toBe(8000);
+    expect(lockout.remainingMs(state, NOW - 365 * 24 * 60 * 60 * 1000)).toBe(8000);
+    // and moving it forward only skips what really is past
+    expect(lockout.remainingMs(state, NOW + 8000)).toBe(0);
+  });
+});
+
+describe("wipe threshold", () => {
+  test("reports a wipe on the failure that reaches it, and not before", async () => {
+    await lockout.setWipeThreshold(3);
+    expect((await lockout.recordFailure()).wipe).toBe(false);
+    expect((await lockout.recordFailure()).wipe).toBe(false);
+    expect((await lockout.recordFailure()).wipe).toBe(true);
+    expect((await lockout.recordFailure()).wipe).toBe(true);
+  });
+
+  test("is never reported while turned off", async () => {
+    await lockout.setWipeThreshold(3);
+    await lockout.setWipeThreshold(null);
+    for (let i = 0; i < 25; i++) expect((await lockout.recordFailure()).wipe).toBe(false);
+  });
+
+  test("lowering it takes effect on the next failure; values below three are refused", async () => {
+    for (let i = 0; i < 4; i++) await lockout.recordFailure();
+    await lockout.setWipeThreshold(3);
+    expect((await lockout.recordFailure()).wipe).toBe(true);
+
+    for (const n of [0, 2, 4.5, "5"]) await expect(lockout.setWipeThreshold(n)).rejects.toThrow("Wipe threshold must be at least 3 attempts.");
+    expect((await lockout.readLockout()).wipeAfter).toBe(3);
+  });
+});
@@ -0,0 +1,140 @@
+// Meowscript seal/unseal, including MEOW1 blobs written by the v1 module.
+//
+// fixtures/meow1.json was produced by the v1 meowscript.js (MEOW1, PBKDF2 at 1000 rounds) with
+// CryptoJS.HMAC aliased to CryptoJS.HmacSHA256: v1 called CryptoJS.HMAC, which crypto-js never
+// had, so that alias is the only way v1 could have produced a blob. deviceKey is the device key
+// exactly as v1 left it in SecureStore.
+
+import { beforeAll, beforeEach, describe, expect, test } from "@jest/globals";
+import * as SecureStore from "expo-secure-store";
+
+import * as aead from "../aead";
+import { createInlineWorker, setCryptoWorker } from "../cryptoworker";
+import Meowscript from "../meowscript";
+import fixture from "./fixtures/meow1.json";
+
+const DEVICE_KEY_ALIAS = "meowscript_device_key_v1";
+const FAST_KDF = { N: 1024, r: 8, p: 1 };
+
+async function unsealError(promise) {
+  try {
+    await promise;
+  } catch (e) {
+    return e;
+  }
+  throw new Error("expected unseal to fail");
+}
+
+beforeAll(() => {
+  // jest has no worklet runtime
+  setCryptoWorker(createInlineWorker());
+});
+
+beforeEach(async () => {
+  await SecureStore.deleteItemAsync(DEVICE_KEY_ALIAS);
+});
+
+describe("AEAD known-answer tests", () => {
+  const aeads = {
+    "AES-256-GCM": [aead.aesGcmEncrypt, aead.aesGcmDecrypt],
+    "ChaCha20-Poly1305": [aead.chacha20Poly1305Encrypt, aead.chacha20Poly1305Decrypt],
+    "XChaCha20-Poly1305": [aead.xchacha20Poly1305Encrypt, aead.xchacha20Poly1305Decrypt]
+  };
+  const h = aead.hexToBytes;
+  const vectors = aead.KNOWN_ANSWER_TESTS.filter((v) => aeads[v.alg]);
+
+  test.each(vectors.map((v) => [v.name, v]))("%s", (_name, v) => {
+    const [encrypt, decrypt] = aeads[v.alg];
+    const sealed = encrypt(h(v.key), h(v.nonce), h(v.plaintext), h(v.aad));
+    expect(aead.bytesToHex(sealed.ciphertext)).toBe(v.ciphertext);
+    expect(aead.bytesToHex(sealed.tag)).toBe(v.tag);
+    expect(aead.bytesToHex(decrypt(h(v.key), h(v.nonce), h(v.ciphertext), h(v.tag), h(v.aad)))).toBe(v.plaintext);
+
+    const badTag = h(v.tag);
+    badTag[0] ^= 1;
+    expect(() => decrypt(h(v.key), h(v.nonce), h(v.ciphertext), badTag, h(v.aad))).toThrow(
+      expect.objectContaining({ code: "AUTH_ERROR" })
+    );
+  });
+
+  test("Poly1305 and HChaCha20 vectors", () => {
+    const poly = aead.KNOWN_ANSWER_TESTS.find((v) => v.alg === "Poly1305");
+    expect(aead.bytesToHex(aead.poly1305(h(poly.key), h(poly.plaintext)))).toBe(poly.tag);
+    const hchacha = aead.KNOWN_ANSWER_TESTS.find((v) => v.alg === "HChaCha20");
+    expect(aead.bytesToHex(aead.hchacha20(h(hchacha.key), h(hchacha.nonce)))).toBe(hchacha.ciphertext);
+  });
+
+  test("runKnownAnswerTests() passes every vector", () => {
+    const { ok, results } = aead.runKnownAnswerTests();
+    expect(results.filter((r) => !r.ok)).toEqual([]);
+    expect(ok).toBe(true);
+  });
+});
+
+describe("MEOW1 blobs", () => {
+  beforeEach(async () => {
+    await SecureStore.setItemAsync(DEVICE_KEY_ALIAS, fixture.deviceKey);
+  });
+
+  test.each([["AES-256-GCM", "plain"], ["XChaCha20-Poly1305 label", "plainXChaCha"]])(
+    "a v1 %s blob decrypts",
+    async (_label, name) => {
+      const { text, blob } = fixture[name];
+      expect(Meowscript.getBlobInfo(blob).legacy).toBe(true);
+      expect(Meowscript.verifyClawMark(blob)).toBe(true);
+      const result = await Meowscript.unseal(blob, fixture.passphrase);
+      expect(result.plaintext).toBe(text);
+      expect(result.watermark).toBe(blob.header.watermark);
+    }
+  );
+
+  test("a wrong passphrase is rejected", async () => {
+    const error = await unsealError(Meowscript.unseal(fixture.plain.blob, "wrong horse battery"));
+    expect(error.code).toBe("UNSEAL_ERROR");
+    expect(error.message).toBe("Unable to decrypt - invalid credentials or corrupted data");
+  });
+
+  test("a tampered v1 blob fails its claw mark", async () => {
+    const blob = JSON.parse(JSON.stringify(fixture.plain.blob));
+    blob.content = blob.content.replace(/^AAAA./, (m) => (m[4] === "A" ? "AAAAB" : "AAAAA"));
+    expect(Meowscript.verifyClawMark(blob)).toBe(false);
+    const error = await unsealError(Meowscript.unseal(blob, fixture.passphrase));
+    expect(error.details.code).toBe("CLAW_ERROR");
+  });
+
+  test("an obfuscated v1 blob is refused instead of returning garbled text", async () => {
+    const error = await unsealError(Meowscript.unseal(fixture.obfuscated.blob, fixture.passphrase));
+    expect(error.details.code).toBe("LEGACY_OBFUSCATED");
+  });
+});
+
+describe("MEOW2 seal/unseal", () => {
+  test.each([["XChaCha20-Poly1305"], ["AES-256-GCM"]])("%s roundtrip with obfuscation", async (algorithm) => {
+    const text = "Meowscript™ roundtrip: the quick brown fox jumps over the lazy cat 🐈 =^.^=";
+    const { blob } = await Meowscript.seal(text, "test-passphrase-12345", { algorithm, kdfParams: FAST_KDF });
+    expect(blob.header.magic).toBe("MEOW2");
+    expect(blob.metadata.obfuscated).toBe(true);
+    expect(Meowscript.verifyClawMark(blob)).toBe(true);
+    expect((await Meowscript.unseal(blob, "test-passphrase-12345")).plaintext).toBe(text);
+  });
+
+  test("isValidBlob() accepts a sealed blob and rejects partial ones", async () => {
+    const { blob } = await Meowscript.sealWithKey("shape check", "33".repeat(32));
+    expect(Meowscript.isValidBlob(blob)).toBe(true);
+    const { claw: _claw, ...noClaw } = blob;
+    const partial = [null, "MEOW2", {}, { header: blob.header }, noClaw, { ...blob, header: { ...blob.header, magic: "MEOW3" } },
+      { ...blob, header: { ...blob.header, alg: "ROT13" } }];
+    for (const candidate of partial) {
+      expect(Meowscript.isValidBlob(candidate)).toBe(false);
+      expect(Meowscript.verifyClawMark(candidate)).toBe(false);
+    }
+  });
+
+  test("a blob sealed to a key only opens with that key", async () => {
+    const key = "11".repeat(32);
+    const { blob } = await Meowscript.sealWithKey("keyed secret", key);
+    expect((await Meowscript.unsealWithKey(blob, key)).plaintext).toBe("keyed secret");
+    const error = await unsealError(Meowscript.unsealWithKey(blob, "22".repeat(32)));
+    expect(error.code).toBe("UNSEAL_ERROR");
+  });
+});
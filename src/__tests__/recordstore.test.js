@@ -0,0 +1,174 @@
+// Journaled writes (recordstore.js) under crashes and concurrent callers. A crash is simulated by
+// making an AsyncStorage call throw part way through a commit, then reloading the modules over the
+// same stored keys as a restarted app would.
+
+import { beforeEach, describe, expect, jest, test } from "@jest/globals";
+
+let AsyncStorage;
+let storage;
+let blockchain;
+let recordstore;
+
+function load() {
+  AsyncStorage = require("@react-native-async-storage/async-storage");
+  storage = require("../storage");
+  blockchain = require("../blockchain");
+  recordstore = require("../recordstore");
+}
+
+function restart() {
+  const saved = new Map(AsyncStorage.__store);
+  jest.resetModules();
+  load();
+  for (const [key, value] of saved) AsyncStorage.__store.set(key, value);
+}
+
+// makes the nth call of AsyncStorage[method] (optionally only for `key`) throw once
+function crashOn(method, n = 1, key = null) {
+  const original = AsyncStorage[method];
+  let calls = 0;
+  AsyncStorage[method] = async (...args) => {
+    if ((key === null || args[0] === key) && ++calls === n) {
+      AsyncStorage[method] = original;
+      throw new Error("simulated crash");
+    }
+    return original(...args);
+  };
+}
+
+function snapshot() {
+  return JSON.stringify([...AsyncStorage.__store].sort(([a], [b]) => (a < b ? -1 : 1)));
+}
+
+const entryIds = async () => (await storage.loadEntries()).map((e) => e.id);
+
+beforeEach(() => {
+  jest.resetModules();
+  load();
+});
+
+describe("interrupted writes", () => {
+  test("a crash between the journal write and the record write is finished on restart", async () => {
+    await storage.appendEntry({ id: "a", timestamp: 1 });
+    crashOn("multiSet", 1);
+    await expect(storage.appendEntry({ id: "b", timestamp: 2 })).rejects.toThrow("simulated crash");
+    expect(AsyncStorage.__store.has(recordstore.JOURNAL_KEY)).toBe(true);
+    expect(AsyncStorage.__store.has("vault_entries:r:b")).toBe(false);
+
+    restart();
+    expect(await recordstore.recoverJournal()).toBe(true);
+    expect(AsyncStorage.__store.has(recordstore.JOURNAL_KEY)).toBe(false);
+    expect(await entryIds()).toEqual(["b", "a"]);
+  });
+
+  test("a torn apply (records written, index not) is finished on restart", async () => {
+    await storage.appendEntry({ id: "a", timestamp: 1 });
+    crashOn("multiSet", 2);
+    await expect(storage.appendEntry({ id: "b", timestamp: 2 })).rejects.toThrow("simulated crash");
+    expect(AsyncStorage.__store.has("vault_entries:r:b")).toBe(true);
+    // the index is written last, so the half-applied record is not visible yet
+    expect(JSON.parse(AsyncStorage.__store.get("vault_entries:index")).ids).toEqual(["a"]);
+
+    restart();
+    expect(await entryIds()).toEqual(["b", "a"]);
+    expect(AsyncStorage.__store.has(recordstore.JOURNAL_KEY)).toBe(false);
+  });
+
+  test("a failed journal write changes nothing", async () => {
+    await storage.appendEntry({ id: "a", timestamp: 1 });
+    const before = snapshot();
+    crashOn("setItem", 1, recordstore.JOURNAL_KEY);
+    await expect(storage.appendEntry({ id: "lost", timestamp: 2 })).rejects.toThrow("simulated crash");
+    expect(snapshot()).toBe(before);
+
+    restart();
+    expect(await entryIds()).toEqual(["a"]);
+  });
+
+  test("a truncated journal is discarded before the next read", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    await storage.appendEntry({ id: "a", timestamp: 1 });
+    AsyncStorage.__store.set(recordstore.JOURNAL_KEY, '{"set":[["vault_entries:r:zz"');
+
+    restart();
+    expect(await entryIds()).toEqual(["a"]);
+    expect(AsyncStorage.__store.has(recordstore.JOURNAL_KEY)).toBe(false);
+    expect(AsyncStorage.__store.has("vault_entries:r:zz")).toBe(false);
+    warn.mockRestore();
+  });
+
+  test("replaying a journal that was already applied is harmless", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    await storage.saveEntries([{ id: "c", timestamp: 3 }, { id: "b", timestamp: 2 }, { id: "a", timestamp: 1 }]);
+    crashOn("removeItem", 1, recordstore.JOURNAL_KEY);
+    // saveEntries reports the failure instead of throwing
+    expect(await storage.saveEntries([{ id: "c", timestamp: 3 }, { id: "a", timestamp: 1 }])).toBe(false);
+    expect(AsyncStorage.__store.has(recordstore.JOURNAL_KEY)).toBe(true);
+
+    restart();
+    await recordstore.recoverJournal();
+    await recordstore.recoverJournal();
+    expect(await entryIds()).toEqual(["c", "a"]);
+    const recordKeys = [...AsyncStorage.__store.keys()].filter((k) => k.startsWith("vault_entries:r:"));
+    expect(recordKeys.sort()).toEqual(["vault_entries:r:a", "vault_entries:r:c"]);
+    warn.mockRestore();
+  });
+
+  test("an interrupted chain append leaves a chain that verifies", async () => {
+    for (let i = 0; i < 3; i++) await blockchain.appendEvent({ event: "entry_created", detail: `n=${i}` });
+    crashOn("multiSet", 1);
+    await expect(blockchain.appendEvent({ event: "entry_created", detail: "n=3" })).rejects.toThrow("simulated crash");
+
+    restart();
+    const chain = await blockchain.loadChain();
+    expect(chain.map((b) => b.seq)).toEqual([1, 2, 3, 4]);
+    expect((await blockchain.verifyChain(undefined, { full: true })).ok).toBe(true);
+    await blockchain.appendEvent({ event: "entry_created", detail: "n=4" });
+    expect((await blockchain.verifyChain(undefined, { full: true })).ok).toBe(true);
+  });
+});
+
+describe("concurrent writes", () => {
+  async function expectLinearChain(count) {
+    const chain = await blockchain.loadChain();
+    expect(chain.map((b) => b.seq)).toEqual(Array.from({ length: count }, (_, i) => i + 1));
+    for (let i = 1; i < chain.length; i++) expect(chain[i].prevHash).toBe(chain[i - 1].blockHash);
+    const result = await blockchain.verifyChain(undefined, { full: true });
+    expect(result.ok).toBe(true);
+  }
+
+  test("concurrent appendEvent calls do not fork the chain", async () => {
+    const blocks = await Promise.all(
+      Array.from({ length: 25 }, (_, i) => blockchain.appendEvent({ event: "entry_created", detail: `n=${i}` }))
+    );
+    expect(new Set(blocks.map((b) => b.seq)).size).toBe(25);
+    await expectLinearChain(25);
+  });
+
+  test("appends, entry writes and read-modify-writes interleaved lose nothing", async () => {
+    await storage.appendEntry({ id: "first", timestamp: 0 });
+    await Promise.all([
+      ...Array.from({ length: 15 }, (_, i) => blockchain.appendEvent({ event: "entry_created", detail: `n=${i}` })),
+      ...Array.from({ length: 15 }, (_, i) => storage.appendEntry({ id: `p${i}`, timestamp: i + 1 })),
+      storage.updateEntries((list) => list.map((e) => ({ ...e, touched: true }))),
+      ...Array.from({ length: 10 }, (_, i) => storage.appendTamperLog({ seq: 100 + i, event: "raw" }, "secondary")),
+    ]);
+    const entries = await storage.loadEntries();
+    expect(entries).toHaveLength(16);
+    expect(entries.find((e) => e.id === "first").touched).toBe(true);
+    expect(await storage.loadTamperLog("secondary")).toHaveLength(10);
+    await expectLinearChain(15);
+  });
+
+  test("the memory backend keeps the same guarantees", async () => {
+    const backend = require("../backend");
+    backend.setBackend(backend.createMemoryBackend());
+    await Promise.all([
+      ...Array.from({ length: 20 }, (_, i) => blockchain.appendEvent({ event: "entry_created", detail: `n=${i}` })),
+      ...Array.from({ length: 10 }, (_, i) => storage.appendEntry({ id: `m${i}`, timestamp: i })),
+    ]);
+    expect(await storage.loadEntries()).toHaveLength(10);
+    await expectLinearChain(20);
+    expect(AsyncStorage.__store.size).toBe(0);
+  });
+});
@@ -0,0 +1,121 @@
+// Shamir secret sharing (shamir.js): any M of N shares give back the secret, a share whose checksum
+// fails is refused before anything is reconstructed, and both printed forms decode to the same share.
+
+import { describe, expect, test } from "@jest/globals";
+import CryptoJS from "crypto-js";
+
+import * as aead from "../aead";
+import * as shamir from "../shamir";
+
+const SECRET = "00ff10203040506070809aabbccddeef1122334455667788990a0b0c0d0e0f7e";
+
+// GF(256) multiplication written out (shift and reduce by x^8 + x^4 + x^3 + x + 1), to check the
+// table-based field arithmetic against
+function gfMulSlow(a, b) {
+  let product = 0;
+  for (; b; b >>= 1) {
+    if (b & 1) product ^= a;
+    a = (a << 1) ^ (a & 0x80 ? 0x11b : 0);
+  }
+  return product;
+}
+
+function subsets(items, size) {
+  if (size === 0) return [[]];
+  return items.flatMap((item, i) => subsets(items.slice(i + 1), size - 1).map((rest) => [item, ...rest]));
+}
+
+// a share payload with its checksum, for headers encodeShare() would not write
+function rawShare(bytes) {
+  const sum = CryptoJS.SHA256(CryptoJS.enc.Hex.parse(aead.bytesToHex(Uint8Array.from(bytes)))).toString(CryptoJS.enc.Hex).slice(0, 8);
+  return `VXS1-${aead.bytesToHex(Uint8Array.from(bytes))}${sum}`;
+}
+
+// changes one hex digit of the printed text form
+function typo(text) {
+  const at = text.length - 12;
+  return text.slice(0, at) + (text[at] === "0" ? "1" : "0") + text.slice(at + 1);
+}
+
+describe("splitSecret and combineShares", () => {
+  test("any M of N shares give back the secret, in any order and either printed form", async () => {
+    const { setId, threshold, shares } = await shamir.splitSecret(SECRET, 3, 5);
+    expect(threshold).toBe(3);
+    expect(shares.map((s) => s.index)).toEqual([1, 2, 3, 4, 5]);
+    for (const picked of subsets(shares, 3)) {
+      const printed = picked.map((s, i) => (i % 2 ? s.mnemonic : s.text)).reverse();
+      expect(shamir.combineShares(printed)).toEqual({ secretHex: SECRET, setId, indices: picked.map((s) => s.index).reverse() });
+    }
+    // more than M are fine too
+    expect(shamir.combineShares(shares.map((s) => s.text)).secretHex).toBe(SECRET);
+  });
+
+  test("reconstructs shares computed with independent GF(256) arithmetic", () => {
+    const secret = aead.hexToBytes(SECRET);
+    // f(x) = secret + 0x53·x + 0xca·x², per byte with a varying offset
+    const at = (x, b) => secret[b] ^ gfMulSlow((0x53 + b) & 0xff, x) ^ gfMulSlow((0xca + b) & 0xff, gfMulSlow(x, x));
+    const shares = [7, 130, 255].map((x) => shamir.encodeShare({ setId: "abcdef", threshold: 3, index: x, y: Uint8Array.from(secret, (_, b) => at(x, b)) }));
+    expect(shamir.combineShares(shares.map((s) => s.text)).secretHex).toBe(SECRET);
+  });
+
+  test("refuses too few, repeated or mixed shares", async () => {
+    const a = await shamir.splitSecret(SECRET, 3, 5);
+    const b = await shamir.splitSecret(SECRET, 3, 5);
+    expect(() => shamir.combineShares([])).toThrow(expect.objectContaining({ code: "NOT_ENOUGH_SHARES" }));
+    expect(() => shamir.combineShares(a.shares.slice(0, 2).map((s) => s.text))).toThrow(expect.objectContaining({ code: "NOT_ENOUGH_SHARES" }));
+    expect(() => shamir.combineShares([a.shares[0].text, a.shares[1].text, a.shares[0].mnemonic])).toThrow(
+      expect.objectContaining({ code: "DUPLICATE_SHARE" })
+    );
+    expect(() => shamir.combineShares([a.shares[0].text, a.shares[1].text, b.shares[2].text])).toThrow(expect.objectContaining({ code: "MIXED_SETS" }));
+  });
+
+  test("refuses thresholds and counts it cannot split into", async () => {
+    for (const [threshold, count] of [[1, 3], [4, 3], [2, shamir.MAX_SHARES + 1], [2.5, 3]]) {
+      await expect(shamir.splitSecret(SECRET, threshold, count)).rejects.toMatchObject({ code: "BAD_PARAMS" });
+    }
+  });
+});
+
+describe("share checksum", () => {
+  test("a mistyped share is refused before reconstruction, naming the share", async () => {
+    const { shares } = await shamir.splitSecret(SECRET, 2, 3);
+    expect(() => shamir.decodeShare(typo(shares[1].text))).toThrow(expect.objectContaining({ code: "BAD_CHECKSUM" }));
+    expect(() => shamir.combineShares([shares[0].text, typo(shares[1].text)])).toThrow(
+      expect.objectContaining({ code: "BAD_CHECKSUM", message: expect.stringMatching(/^Share 2: /) })
+    );
+
+    // a swapped mnemonic word is caught the same way
+    const words = shares[2].mnemonic.split("-");
+    [words[3], words[4]] = [words[4], words[3]];
+    expect(() => shamir.combineShares([shares[0].mnemonic, words.join("-")])).toThrow(expect.objectContaining({ code: "BAD_CHECKSUM" }));
+  });
+
+  test("a share with a valid checksum but an unknown version or bad header is refused", () => {
+    const y = Array.from({ length: 32 }, (_, i) => i);
+    expect(() => shamir.decodeShare(rawShare([2, 0xab, 0xcd, 0xef, 2, 1, ...y]))).toThrow(expect.objectContaining({ code: "UNSUPPORTED_VERSION" }));
+    expect(() => shamir.decodeShare(rawShare([1, 0xab, 0xcd, 0xef, 2, 0, ...y]))).toThrow(expect.objectContaining({ code: "BAD_FORMAT" }));
+    expect(() => shamir.decodeShare(rawShare([1, 0xab, 0xcd, 0xef, 1, 1, ...y]))).toThrow(expect.objectContaining({ code: "BAD_FORMAT" }));
+  });
+});
+
+describe("printed forms", () => {
+  test("text and mnemonic decode to the share that was encoded", () => {
+    const share = { setId: "0a1b2c", threshold: 2, index: 9, y: aead.hexToBytes(SECRET) };
+    const { index, text, mnemonic } = shamir.encodeShare(share);
+    expect(index).toBe(9);
+    expect(text).toMatch(/^VXS1(-[0-9a-f]{1,4})+$/);
+    expect(mnemonic).toMatch(/^[a-z]{5}(-[a-z]{5})+$/);
+    expect(shamir.decodeShare(text)).toEqual(share);
+    expect(shamir.decodeShare(mnemonic)).toEqual(share);
+
+    // case, spacing and separators do not matter
+    expect(shamir.decodeShare(`  ${text.toUpperCase().replace(/-/g, " ")} `)).toEqual(share);
+    expect(shamir.decodeShare(mnemonic.toUpperCase().replace(/-/g, "\n"))).toEqual(share);
+  });
+
+  test("malformed text is refused as such", () => {
+    expect(() => shamir.decodeShare("VXS1-abc")).toThrow(expect.objectContaining({ code: "BAD_FORMAT" }));
+    expect(() => shamir.decodeShare("VXS1-abcd")).toThrow(expect.objectContaining({ code: "BAD_FORMAT" }));
+    expect(() => shamir.decodeShare("lusab-babad-gutih-qwxyz")).toThrow(expect.objectContaining({ code: "BAD_FORMAT" }));
+  });
+});
@@ -0,0 +1,172 @@
+// Vault metadata and the other AsyncStorage-only helpers of storage.ts, and the switch to SQLite
+// (openStorage, migrateStorage): it happens once, and a launch cut off partway leaves nothing behind.
+
+import { beforeEach, describe, expect, jest, test } from "@jest/globals";
+
+import * as backend from "../backend";
+import * as storage from "../storage";
+
+const AsyncStorage = require("@react-native-async-storage/async-storage");
+const SecureStore = require("expo-secure-store");
+const sqlitestore = require("../sqlitestore");
+
+// SQLite is a memory backend that keeps its records across opens; set `failure` to make opening throw
+jest.mock("../sqlitestore", () => {
+  const { createMemoryBackend } = jest.requireActual("../backend");
+  const state = { db: null, failure: null };
+  return {
+    createSQLiteBackend: async () => {
+      if (state.failure) throw state.failure;
+      state.db = state.db || { ...createMemoryBackend(), name: "sqlite" };
+      return state.db;
+    },
+    __state: state
+  };
+});
+
+beforeEach(() => {
+  AsyncStorage.__store.clear();
+  SecureStore.__store.clear();
+  sqlitestore.__state.db = null;
+  sqlitestore.__state.failure = null;
+  backend.setBackend(backend.createAsyncStorageBackend());
+});
+
+describe("storageGetMeta", () => {
+  test('"vault" reads the vault meta the app writes under ASYNC_META_KEY', async () => {
+    await AsyncStorage.setItem(storage.ASYNC_META_KEY, JSON.stringify({ biometricEnabled: true }));
+    expect(storage.ASYNC_META_KEY).toBe("vault_meta");
+    expect(await storage.storageGetMeta("vault")).toEqual({ biometricEnabled: true });
+  });
+
+  test("a missing or unreadable meta is null", async () => {
+    expect(await storage.storageGetMeta("vault")).toBeNull();
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    await AsyncStorage.setItem(storage.ASYNC_META_KEY, "{not json");
+    expect(await storage.storageGetMeta("vault")).toBeNull();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
+
+describe("openStorage", () => {
+  test("a vault already moved to SQLite fails closed when the database will not open", async () => {
+    await storage.appendEntry({ id: "a", hmac: "00", timestamp: "2026-01-01T00:00:00.000Z" });
+    expect(await storage.openStorage()).toBe("sqlite");
+    expect((await storage.loadEntries()).map((e) => e.id)).toEqual(["a"]);
+
+    sqlitestore.__state.failure = new backend.StorageBackendError("Could not open vault.db: file is not a database", "OPEN_FAILED");
+    backend.setBackend(backend.createAsyncStorageBackend());
+    await expect(storage.openStorage()).rejects.toMatchObject({ name: "StorageBackendError", code: "BACKEND_UNAVAILABLE" });
+    expect(JSON.parse(await AsyncStorage.getItem(storage.ASYNC_BACKEND_KEY))).toMatchObject({ backend: "sqlite" });
+    expect(await sqlitestore.__state.db.count(storage.ASYNC_ENTRIES_KEY)).toBe(1);
+  });
+
+  test("a vault not yet moved stays on AsyncStorage when SQLite will not open", async () => {
+    await storage.appendEntry({ id: "a", hmac: "00", timestamp: "2026-01-01T00:00:00.000Z" });
+    sqlitestore.__state.failure = new backend.StorageBackendError("SQLCipher is not available in this build.", "NO_CIPHER");
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    expect(await storage.openStorage()).toBe("asyncstorage");
+    warn.mockRestore();
+    expect(await AsyncStorage.getItem(storage.ASYNC_BACKEND_KEY)).toBeNull();
+    expect((await storage.loadEntries()).map((e) => e.id)).toEqual(["a"]);
+  });
+});
+
+describe("migrateStorage", () => {
+  const entry = (id) => ({ id, hmac: "00", timestamp: "2026-01-01T00:00:00.000Z" });
+  const block = (seq) => ({ seq, ts: `2026-01-01T00:00:0${seq}.000Z`, event: "app_opened", blockHash: `${seq}`.repeat(64).slice(0, 64) });
+
+  // every collection openStorage moves, with something in it
+  async function fillAsyncStorage() {
+    for (const set of ["primary", "secondary"]) {
+      await storage.appendEntry(entry(`${set}-a`), set);
+      await storage.appendEntry(entry(`${set}-b`), set);
+      await storage.appendTamperLog(block(1), set);
+      await storage.appendTamperLog(block(2), set);
+    }
+  }
+
+  async function snapshot(b) {
+    const out = {};
+    for (const keys of Object.values(storage.VAULT_SETS)) {
+      for (const collection of [keys.entries, keys.tamperLog]) out[collection] = await b.list(collection);
+    }
+    return out;
+  }
+
+  const sqliteDb = () => {
+    sqlitestore.__state.db = { ...backend.createMemoryBackend(), name: "sqlite" };
+    return sqlitestore.__state.db;
+  };
+
+  test("runs once: the copy matches, the marker records it and AsyncStorage no longer holds the data", async () => {
+    await fillAsyncStorage();
+    const before = await snapshot(backend.createAsyncStorageBackend());
+    expect(await storage.openStorage()).toBe("sqlite");
+
+    const db = sqlitestore.__state.db;
+    expect(await snapshot(db)).toEqual(before);
+    const marker = JSON.parse(await AsyncStorage.getItem(storage.ASYNC_BACKEND_KEY));
+    expect(marker.counts).toEqual(Object.fromEntries(Object.keys(before).map((c) => [c, 2])));
+    for (const key of Object.keys(before)) expect([...AsyncStorage.__store.keys()].some((k) => k.startsWith(key))).toBe(false);
+
+    // a later launch opens the database without copying anything again
+    await storage.appendEntry(entry("after"), "primary");
+    db.update = jest.fn(db.update);
+    expect(await storage.openStorage()).toBe("sqlite");
+    expect(db.update).not.toHaveBeenCalled();
+    expect((await storage.loadEntries("primary")).map((e) => e.id)).toEqual(["after", "primary-b", "primary-a"]);
+  });
+
+  test("a copy cut off midway is redone in full on the next launch", async () => {
+    await fillAsyncStorage();
+    const before = await snapshot(backend.createAsyncStorageBackend());
+    const db = sqliteDb();
+    const update = db.update;
+    db.update = jest.fn(async (collection, fn) => {
+      if (collection === storage.ASYNC_TAMPERLOG_KEY_ALT) throw new Error("disk full");
+      return update(collection, fn);
+    });
+
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    expect(await storage.openStorage()).toBe("asyncstorage");
+    warn.mockRestore();
+    expect(await AsyncStorage.getItem(storage.ASYNC_BACKEND_KEY)).toBeNull();
+    expect(await snapshot(backend.createAsyncStorageBackend())).toEqual(before);
+    expect(await db.count(storage.ASYNC_ENTRIES_KEY)).toBe(2);
+
+    db.update = update;
+    expect(await storage.openStorage()).toBe("sqlite");
+    expect(await snapshot(db)).toEqual(before);
+  });
+
+  test("copies left in AsyncStorage by a launch cut off after the marker are removed, not copied again", async () => {
+    await fillAsyncStorage();
+    await storage.openStorage();
+    const migrated = await snapshot(sqlitestore.__state.db);
+
+    backend.setBackend(backend.createAsyncStorageBackend());
+    await storage.appendEntry(entry("stale"), "primary");
+    expect(await storage.openStorage()).toBe("sqlite");
+    expect(await snapshot(sqlitestore.__state.db)).toEqual(migrated);
+    expect(await backend.createAsyncStorageBackend().count(storage.ASYNC_ENTRIES_KEY)).toBe(0);
+  });
+
+  test("a copy that reads back differently is refused and the source is left as it was", async () => {
+    await fillAsyncStorage();
+    const from = backend.createAsyncStorageBackend();
+    const before = await snapshot(from);
+    const to = sqliteDb();
+    const list = to.list;
+    to.list = async (collection) => (await list(collection)).map((r, i) => (i === 0 ? { ...r, hmac: "ff" } : r));
+
+    await expect(storage.migrateStorage(from, to)).rejects.toMatchObject({ code: "MIGRATION_MISMATCH" });
+    expect(await snapshot(from)).toEqual(before);
+
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    expect(await storage.openStorage()).toBe("asyncstorage");
+    warn.mockRestore();
+    expect(await AsyncStorage.getItem(storage.ASYNC_BACKEND_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+// Offline verifier (scripts/verify-chain.js), run as a separate node process on a real export:
+// exit 0 when verified, 1 when verification fails, 2 for unreadable input or bad usage.
+
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import * as backend from "../backend";
+import * as blockchain from "../blockchain";
+import { CHECKPOINT_INTERVAL } from "../canonical";
+
+const FileSystem = require("expo-file-system");
+const SecureStore = require("expo-secure-store");
+
+const SCRIPT = path.join(__dirname, "..", "..", "scripts", "verify-chain.js");
+
+let dir;
+let exported;
+
+function run(...args) {
+  const res = spawnSync(process.execPath, [SCRIPT, ...args], { encoding: "utf8", timeout: 30000 });
+  return { code: res.status, out: res.stdout, err: res.stderr };
+}
+
+// writes a file next to the export and returns its path
+function write(name, text) {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, text);
+  return file;
+}
+
+const jsonl = () => fs.readFileSync(exported.jsonl, "utf8");
+const manifest = () => JSON.parse(fs.readFileSync(exported.manifest, "utf8"));
+
+beforeAll(async () => {
+  SecureStore.__store.clear();
+  backend.setBackend(backend.createMemoryBackend());
+  const signingPub = await blockchain.createSigningKey("primary");
+  await blockchain.appendEvent({ event: "signing_key_created", detail: `ed25519=${signingPub}` }, "primary");
+  for (let i = 0; i < CHECKPOINT_INTERVAL + 5; i++) await blockchain.appendEvent({ event: "app_opened", detail: `n=${i}` }, "primary");
+  const files = await blockchain.exportChainFiles();
+  const proof = await blockchain.inclusionProof(10, "primary");
+
+  // the export lives in the mocked file system; the script reads real files
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "verify-chain-"));
+  exported = {
+    jsonl: write("audit.jsonl", FileSystem.__files.get(files.jsonlPath).toString("utf8")),
+    manifest: write("audit.manifest.json", FileSystem.__files.get(files.manifestPath).toString("utf8")),
+    proof: write("event.proof.json", JSON.stringify(proof)),
+    root: proof.checkpoint.hash,
+    key: signingPub
+  };
+});
+
+afterAll(() => {
+  if (dir) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("chain exports", () => {
+  test("exit 0 for an untouched export", () => {
+    const res = run(exported.jsonl);
+    expect(res.code).toBe(0);
+    expect(res.out).toContain("result:      VERIFIED");
+    expect(run(exported.jsonl, exported.manifest, "--key", exported.key, "--quiet").code).toBe(0);
+  });
+
+  test("exit 1 for a rewritten block, a head the manifest does not name or another key", () => {
+    const lines = jsonl().split("\n");
+    const block = JSON.parse(lines[5]);
+    lines[5] = JSON.stringify({ ...block, detail: "rewritten" });
+    const rewritten = run(write("rewritten.jsonl", lines.join("\n")), exported.manifest, "--quiet");
+    expect(rewritten.code).toBe(1);
+    expect(rewritten.out).toContain("broken hash link");
+
+    const dropped = run(write("dropped.jsonl", jsonl().split("\n").slice(0, -1).join("\n")), exported.manifest, "--quiet");
+    expect(dropped.code).toBe(1);
+    expect(dropped.out).toMatch(/manifest chainHead .* != computed head/);
+
+    expect(run(exported.jsonl, exported.manifest, "--key", "ab".repeat(32), "--quiet").code).toBe(1);
+  });
+
+  test("exit 2 for unreadable input and bad usage", () => {
+    expect(run().code).toBe(2);
+    expect(run(path.join(dir, "missing.jsonl")).code).toBe(2);
+    expect(run(write("garbled.jsonl", `${jsonl()}\n{not json`), exported.manifest).code).toBe(2);
+    expect(run(exported.jsonl, write("garbled.manifest.json", "{")).code).toBe(2);
+    expect(run(exported.jsonl, "--key", "not-a-key").code).toBe(2);
+    expect(run(exported.jsonl, "--frobnicate").code).toBe(2);
+  });
+});
+
+describe("inclusion proofs", () => {
+  test("exit 0 for a proof, with its checkpoint's root as --root", () => {
+    expect(run("--proof", exported.proof).code).toBe(0);
+    const res = run("--proof", exported.proof, "--root", exported.root, "--key", exported.key);
+    expect(res.code).toBe(0);
+    expect(res.out).toContain("(matches --root)");
+  });
+
+  test("exit 1 for a different --root or a tampered proof", () => {
+    const res = run("--proof", exported.proof, "--root", "cd".repeat(32));
+    expect(res.code).toBe(1);
+    expect(res.out).toContain("(DOES NOT match --root)");
+
+    const doc = JSON.parse(fs.readFileSync(exported.proof, "utf8"));
+    const tampered = write("tampered.proof.json", JSON.stringify({ ...doc, proof: doc.proof.map((s, i) => (i === 0 ? { ...s, hash: "ef".repeat(32) } : s)) }));
+    expect(run("--proof", tampered).code).toBe(1);
+  });
+
+  test("exit 2 for a file that is not a proof and a malformed --root", () => {
+    expect(run("--proof", write("broken.proof.json", "{")).code).toBe(2);
+    expect(run("--proof", exported.manifest).code).toBe(2);
+    expect(run("--proof", exported.proof, "--root", "xyz").code).toBe(2);
+    expect(run("--proof", exported.proof, exported.jsonl).code).toBe(2);
+  });
+});
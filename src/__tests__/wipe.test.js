@@ -0,0 +1,171 @@
+// Panic wipe (wipe.js): the inventory names every place the vault stores something, keys are
+// destroyed before data, whatever survives is reported as "left", and a single signed "wiped"
+// receipt is all that remains of the chain.
+
+import { afterEach, beforeAll, beforeEach, describe, expect, jest, test } from "@jest/globals";
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import * as attachments from "../attachments";
+import * as backup from "../backup";
+import * as blockchain from "../blockchain";
+import { createInlineWorker, setCryptoWorker } from "../cryptoworker";
+import * as deadman from "../deadman";
+import * as duress from "../duress";
+import * as entryFormat from "../entries";
+import * as lockout from "../lockout";
+import Meowscript from "../meowscript";
+import { DATABASE_NAME } from "../sqlitestore";
+import * as storage from "../storage";
+import * as vaultkey from "../vaultkey";
+import * as wipe from "../wipe";
+
+// the production scrypt cost makes every slot take seconds; what gets stored is the same
+jest.mock("../kdf", () => ({
+  ...jest.requireActual("../kdf"),
+  CURRENT_KDF_POLICY: { kdf: "scrypt", params: { N: 1024, r: 8, p: 1 } },
+  needsUpgrade: () => false
+}));
+
+// the deletes are wrapped so a test can watch or fail them; wipe.js holds its own copy of each module
+jest.mock("expo-secure-store", () => {
+  const actual = jest.requireActual("../../__mocks__/expo-secure-store");
+  return { ...actual, deleteItemAsync: jest.fn(actual.deleteItemAsync) };
+});
+jest.mock("@react-native-async-storage/async-storage", () => {
+  const actual = jest.requireActual("../../__mocks__/@react-native-async-storage/async-storage");
+  return { ...actual, removeItem: jest.fn(actual.removeItem) };
+});
+jest.mock("expo-file-system", () => {
+  const actual = jest.requireActual("../../__mocks__/expo-file-system");
+  return { ...actual, deleteAsync: jest.fn(actual.deleteAsync) };
+});
+
+const FileSystem = require("expo-file-system");
+const SecureStore = require("expo-secure-store");
+const { deleteItemAsync: deleteSecureItem } = jest.requireActual("../../__mocks__/expo-secure-store");
+
+const MASTER = "ab".repeat(32);
+const PASS = "vault passphrase 123";
+
+// whether an inventory item's key (possibly a "prefix*" pattern) names this key
+const covers = (item, key) => (item.key.endsWith("*") ? key.startsWith(item.key.slice(0, -1)) : item.key.endsWith("/") ? key.startsWith(item.key) : key === item.key);
+
+// a vault with something in every kind of location
+async function fillVault() {
+  await vaultkey.initializeKeySlot(MASTER, PASS);
+  const signingPub = await blockchain.createSigningKey("primary");
+  await blockchain.appendEvent({ event: "signing_key_created", detail: `ed25519=${signingPub}` }, "primary");
+  await duress.resetSecondarySet();
+  await duress.configureDecoy(MASTER, "duress passphrase 456", { entries: ["decoy"] });
+  await vaultkey.generateRecoveryCodes(MASTER, 2);
+  await lockout.recordFailure();
+
+  const picked = `${FileSystem.cacheDirectory}DocumentPicker/picked.txt`;
+  await FileSystem.writeAsStringAsync(picked, "attached bytes");
+  const ref = await attachments.encryptFile(MASTER, picked, "attached bytes".length);
+  const entry = await entryFormat.sealEntry(MASTER, "secret", { attachments: [ref] });
+  await storage.appendEntry(entry, "primary");
+  await blockchain.appendEvent({ event: "entry_added", id: entry.id, hash: entryFormat.entryCommitment(entry) }, "primary");
+  await blockchain.verifyChain("primary");
+  await deadman.armSwitch(7);
+  await backup.createBackup(MASTER, "backup passphrase");
+  await FileSystem.writeAsStringAsync(`${FileSystem.documentDirectory}SQLite/${DATABASE_NAME}`, "db");
+  await FileSystem.writeAsStringAsync(`${FileSystem.documentDirectory}SQLite/${DATABASE_NAME}-wal`, "wal");
+  await FileSystem.writeAsStringAsync(`${FileSystem.documentDirectory}audit_export.json`, "{}");
+  await AsyncStorage.setItem(storage.ASYNC_BACKEND_KEY, JSON.stringify({ backend: "sqlite" }));
+}
+
+beforeAll(() => {
+  // jest has no worklet runtime
+  setCryptoWorker(createInlineWorker());
+});
+
+beforeEach(async () => {
+  SecureStore.__store.clear();
+  AsyncStorage.__store.clear();
+  FileSystem.__files.clear();
+  await fillVault();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  SecureStore.deleteItemAsync.mockImplementation(deleteSecureItem);
+});
+
+describe("wipeInventory", () => {
+  test("names every key the storage module defines and every place a filled vault writes to", async () => {
+    const inventory = wipe.wipeInventory();
+    const of = (store) => inventory.filter((i) => i.store === store);
+    for (const [name, key] of Object.entries(storage)) {
+      if (name.startsWith("SECUREKEY_")) expect(of("secure").map((i) => i.key)).toContain(key);
+      if (name.startsWith("ASYNC_")) expect(of("async").map((i) => i.key)).toContain(key);
+    }
+
+    for (const key of SecureStore.__store.keys()) expect(of("secure").some((i) => covers(i, key))).toBe(true);
+    for (const key of AsyncStorage.__store.keys()) expect(of("async").some((i) => covers(i, key))).toBe(true);
+    for (const path of FileSystem.__files.keys()) expect(of("file").some((i) => covers(i, path))).toBe(true);
+  });
+});
+
+describe("wipeVault", () => {
+  test("destroys every key before any data", async () => {
+    const roles = new Map(wipe.wipeInventory().map((i) => [i.key, i.role]));
+    SecureStore.deleteItemAsync.mockClear();
+    AsyncStorage.removeItem.mockClear();
+    FileSystem.deleteAsync.mockClear();
+
+    await wipe.wipeVault({ passes: 1 });
+    // mock call order across the three stores
+    const destroyed = [
+      ...SecureStore.deleteItemAsync.mock.calls.map(([key], n) => [SecureStore.deleteItemAsync.mock.invocationCallOrder[n], roles.get(key)]),
+      ...AsyncStorage.removeItem.mock.invocationCallOrder.map((order) => [order, "data"]),
+      ...FileSystem.deleteAsync.mock.invocationCallOrder.map((order) => [order, "data"])
+    ]
+      .sort(([a], [b]) => a - b)
+      .map(([, role]) => role);
+    const firstData = destroyed.indexOf("data");
+    expect(destroyed.slice(0, firstData).filter((r) => r === "key").length).toBeGreaterThanOrEqual(5);
+    expect(destroyed.slice(firstData)).not.toContain("key");
+    expect(destroyed[destroyed.length - 1]).toBe("signing");
+  });
+
+  test("leaves nothing but the receipt, which is the only block and verifies", async () => {
+    const priorHead = await blockchain.getHeadFingerprint("primary");
+    const signer = await blockchain.signingPublicKey("primary");
+    const res = await wipe.wipeVault({ passes: 1, reason: "lockout attempts=10" });
+
+    expect(res.left).toEqual([]);
+    expect(res.priorHead).toBe(priorHead);
+    expect(res.items.every((i) => i.status !== "left")).toBe(true);
+    expect(res.items.find((i) => i.key === storage.SECUREKEY_WRAPPED)).toMatchObject({ existed: true, status: "removed" });
+    expect(res.items.find((i) => i.key === storage.SECUREKEY_WRAPPED_PENDING)).toMatchObject({ existed: false, status: "absent" });
+
+    expect([...SecureStore.__store.keys()]).toEqual([]);
+    expect([...FileSystem.__files.keys()]).toEqual([]);
+    const chain = await blockchain.loadChain("primary");
+    expect(chain).toHaveLength(1);
+    expect(chain[0]).toEqual(res.receipt);
+    expect(res.receipt).toMatchObject({ seq: 1, prevHash: null, event: "wiped" });
+    expect(res.receipt.detail).toBe(`reason=lockout attempts=10 removed=${res.items.filter((i) => i.role !== "signing" && i.status === "removed").length} left=0 prior_head=${priorHead} ed25519=${signer}`);
+    expect((await blockchain.verifyBlocks(chain, signer)).ok).toBe(true);
+    expect(await storage.loadEntries("primary")).toEqual([]);
+    expect(await blockchain.loadChain("secondary")).toEqual([]);
+    expect(await vaultkey.unlockWithPassphrase(PASS)).toBeNull();
+    expect(await Meowscript.exportDeviceKey().catch(() => null)).toBeFalsy();
+  });
+
+  test("reports what it could not remove as left, and still writes the receipt", async () => {
+    SecureStore.deleteItemAsync.mockImplementation(async (key) => {
+      if (key === storage.SECUREKEY_LOCKOUT) throw new Error("keychain locked");
+      return deleteSecureItem(key);
+    });
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const res = await wipe.wipeVault({ passes: 1 });
+    expect(res.left).toEqual([storage.SECUREKEY_LOCKOUT]);
+    expect(res.items.find((i) => i.key === storage.SECUREKEY_LOCKOUT)).toMatchObject({ existed: true, status: "left" });
+    expect(res.receipt.detail).toContain(" left=1 ");
+    expect(await blockchain.loadChain("primary")).toEqual([res.receipt]);
+  });
+});
@@ -0,0 +1,462 @@
+// src/aead.js
+// Pure-JS AEAD primitives used by Meowscript v2:
+//   - AES-256-GCM (NIST SP 800-38D), AES block function from crypto-js
+//   - ChaCha20-Poly1305 (RFC 8439) and XChaCha20-Poly1305 (draft-irtf-cfrg-xchacha)
+// All inputs/outputs are byte arrays (Array or Uint8Array); results are Uint8Array.
+// KNOWN_ANSWER_TESTS holds the published vectors; runKnownAnswerTests() checks them.
+
+import CryptoJS from "crypto-js";
+
+export const TAG_SIZE = 16;
+
+/**
+ * AeadError - thrown on malformed input or a failed tag check (code AUTH_ERROR)
+ */
+export class AeadError extends Error {
+  constructor(message, code) {
+    super(message);
+    this.name = "AeadError";
+    this.code = code;
+  }
+}
+
+/* ---------- helpers ---------- */
+
+export function hexToBytes(hex) {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.substr(i * 2, 2), 16);
+  return out;
+}
+
+export function bytesToHex(bytes) {
+  return Array.from(bytes).map(b => ("00" + b.toString(16)).slice(-2)).join("");
+}
+
+export function utf8Encode(str) {
+  const wa = CryptoJS.enc.Utf8.parse(str);
+  const out = new Uint8Array(wa.sigBytes);
+  for (let i = 0; i < wa.sigBytes; i++) out[i] = (wa.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+  return out;
+}
+
+export function utf8Decode(bytes) {
+  const words = [];
+  for (let i = 0; i < bytes.length; i++) words[i >>> 2] |= bytes[i] << (24 - (i % 4) * 8);
+  return CryptoJS.enc.Utf8.stringify(CryptoJS.lib.WordArray.create(words, bytes.length));
+}
+
+function toBytes(data) {
+  if (data == null) return new Uint8Array(0);
+  if (typeof data === "string") return utf8Encode(data);
+  return data instanceof Uint8Array ? data : Uint8Array.from(data);
+}
+
+function constantTimeEqual(a, b) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+function checkLength(name, bytes, len) {
+  if (bytes.length !== len) throw new AeadError(`${name} must be ${len} bytes`, "INVALID_INPUT");
+}
+
+/* ---------- AES-256-GCM ---------- */
+
+function aesBlockEncryptor(key) {
+  const words = [];
+  for (let i = 0; i < key.length; i++) words[i >>> 2] |= key[i] << (24 - (i % 4) * 8);
+  const cipher = CryptoJS.algo.AES.createEncryptor(CryptoJS.lib.WordArray.create(words, key.length));
+  // encrypts a 4-word (big-endian) block in place
+  return (block) => cipher.encryptBlock(block, 0);
+}
+
+function bytesToWords4(bytes, offset) {
+  const w = [0, 0, 0, 0];
+  for (let i = 0; i < 16; i++) {
+    const b = offset + i < bytes.length ? bytes[offset + i] : 0;
+    w[i >>> 2] |= b << (24 - (i % 4) * 8);
+  }
+  return w.map(x => x >>> 0);
+}
+
+function words4ToBytes(w, out, offset, len = 16) {
+  for (let i = 0; i < len; i++) out[offset + i] = (w[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+}
+
+// GF(2^128) multiply, bit-reflected per SP 800-38D (X and Y as 4 big-endian words)
+function gfMul(X, Y) {
+  const Z = [0, 0, 0, 0];
+  const V = Y.slice();
+  for (let i = 0; i < 128; i++) {
+    if ((X[i >>> 5] >>> (31 - (i % 32))) & 1) {
+      Z[0] ^= V[0]; Z[1] ^= V[1]; Z[2] ^= V[2]; Z[3] ^= V[3];
+    }
+    const lsb = V[3] & 1;
+    V[3] = (V[3] >>> 1) | ((V[2] & 1) << 31);
+    V[2] = (V[2] >>> 1) | ((V[1] & 1) << 31);
+    V[1] = (V[1] >>> 1) | ((V[0] & 1) << 31);
+    V[0] = V[0] >>> 1;
+    if (lsb) V[0] ^= 0xe1000000;
+  }
+  return Z.map(x => x >>> 0);
+}
+
+function ghash(H, aad, ciphertext) {
+  let Y = [0, 0, 0, 0];
+  const absorb = (bytes) => {
+    for (let off = 0; off < bytes.length; off += 16) {
+      const X = bytesToWords4(bytes, off);
+      Y = gfMul([Y[0] ^ X[0], Y[1] ^ X[1], Y[2] ^ X[2], Y[3] ^ X[3]], H);
+    }
+  };
+  absorb(aad);
+  absorb(ciphertext);
+  // bit lengths as two 64-bit big-endian integers (inputs stay far below 2^32 bytes)
+  const lenBlock = [Math.floor(aad.length / 0x20000000), (aad.length * 8) >>> 0, Math.floor(ciphertext.length / 0x20000000), (ciphertext.length * 8) >>> 0];
+  return gfMul([Y[0] ^ lenBlock[0], Y[1] ^ lenBlock[1], Y[2] ^ lenBlock[2], Y[3] ^ lenBlock[3]], H);
+}
+
+function gcmCore(key, iv, input, aad) {
+  checkLength("AES-256-GCM key", key, 32);
+  checkLength("AES-256-GCM IV", iv, 12);
+  const encryptBlock = aesBlockEncryptor(key);
+  const H = [0, 0, 0, 0];
+  encryptBlock(H);
+  const J0 = bytesToWords4(iv, 0);
+  J0[3] = 1;
+
+  const out = new Uint8Array(input.length);
+  const counter = J0.slice();
+  for (let off = 0; off < input.length; off += 16) {
+    counter[3] = (counter[3] + 1) >>> 0;
+    const ks = counter.slice();
+    encryptBlock(ks);
+    const ksBytes = new Uint8Array(16);
+    words4ToBytes(ks, ksBytes, 0);
+    const n = Math.min(16, input.length - off);
+    for (let i = 0; i < n; i++) out[off + i] = input[off + i] ^ ksBytes[i];
+  }
+
+  const tagMask = J0.slice();
+  encryptBlock(tagMask);
+  return { out, H, tagMask };
+}
+
+function gcmTag(H, tagMask, aad, ciphertext) {
+  const S = ghash(H, aad, ciphertext);
+  const tag = new Uint8Array(16);
+  words4ToBytes(S.map((w, i) => (w ^ tagMask[i]) >>> 0), tag, 0);
+  return tag;
+}
+
+/**
+ * aesGcmEncrypt(key, iv, plaintext, aad) -> { ciphertext, tag }
+ * - key 32 bytes, iv 12 bytes; plaintext/aad may be strings (UTF-8) or bytes
+ */
+export function aesGcmEncrypt(key, iv, plaintext, aad) {
+  const k = toBytes(key), n = toBytes(iv), a = toBytes(aad);
+  const { out, H, tagMask } = gcmCore(k, n, toBytes(plaintext), a);
+  return { ciphertext: out, tag: gcmTag(H, tagMask, a, out) };
+}
+
+/**
+ * aesGcmDecrypt(key, iv, ciphertext, tag, aad) -> plaintext bytes, throws AeadError(AUTH_ERROR)
+ */
+export function aesGcmDecrypt(key, iv, ciphertext, tag, aad) {
+  const k = toBytes(key), n = toBytes(iv), a = toBytes(aad), c = toBytes(ciphertext);
+  const { out, H, tagMask } = gcmCore(k, n, c, a);
+  if (!constantTimeEqual(gcmTag(H, tagMask, a, c), toBytes(tag))) {
+    out.fill(0);
+    throw new AeadError("Authentication tag verification failed", "AUTH_ERROR");
+  }
+  return out;
+}
+
+/* ---------- ChaCha20 / Poly1305 ---------- */
+
+const SIGMA = [0x61707865, 0x3320646e, 0x79622d32, 0x6b206574];
+
+function readLE32(b, o) {
+  return (b[o] | (b[o + 1] << 8) | (b[o + 2] << 16) | (b[o + 3] << 24)) >>> 0;
+}
+
+function writeLE32(b, o, v) {
+  b[o] = v & 0xff; b[o + 1] = (v >>> 8) & 0xff; b[o + 2] = (v >>> 16) & 0xff; b[o + 3] = (v >>> 24) & 0xff;
+}
+
+function chachaRounds(x) {
+  const R = (v, c) => (v << c) | (v >>> (32 - c));
+  const qr = (a, b, c, d) => {
+    x[a] = (x[a] + x[b]) >>> 0; x[d] = R(x[d] ^ x[a], 16) >>> 0;
+    x[c] = (x[c] + x[d]) >>> 0; x[b] = R(x[b] ^ x[c], 12) >>> 0;
+    x[a] = (x[a] + x[b]) >>> 0; x[d] = R(x[d] ^ x[a], 8) >>> 0;
+    x[c] = (x[c] + x[d]) >>> 0; x[b] = R(x[b] ^ x[c], 7) >>> 0;
+  };
+  for (let i = 0; i < 10; i++) {
+    qr(0, 4, 8, 12); qr(1, 5, 9, 13); qr(2, 6, 10, 14); qr(3, 7, 11, 15);
+    qr(0, 5, 10, 15); qr(1, 6, 11, 12); qr(2, 7, 8, 13); qr(3, 4, 9, 14);
+  }
+}
+
+function chachaInitState(key, words12to15) {
+  const s = new Uint32Array(16);
+  s.set(SIGMA, 0);
+  for (let i = 0; i < 8; i++) s[4 + i] = readLE32(key, i * 4);
+  s.set(words12to15, 12);
+  return s;
+}
+
+/**
+ * hchacha20(key, nonce16) -> 32-byte subkey
+ */
+export function hchacha20(key, nonce16) {
+  const k = toBytes(key), n = toBytes(nonce16);
+  checkLength("HChaCha20 key", k, 32);
+  checkLength("HChaCha20 nonce", n, 16);
+  const x = chachaInitState(k, [readLE32(n, 0), readLE32(n, 4), readLE32(n, 8), readLE32(n, 12)]);
+  chachaRounds(x);
+  const out = new Uint8Array(32);
+  for (let i = 0; i < 4; i++) writeLE32(out, i * 4, x[i]);
+  for (let i = 0; i < 4; i++) writeLE32(out, 16 + i * 4, x[12 + i]);
+  return out;
+}
+
+// RFC 8439 ChaCha20 with a 12-byte nonce, XOR-ing `input` from block `counter`
+function chacha20Xor(key, nonce12, counter, input) {
+  const base = chachaInitState(key, [counter, readLE32(nonce12, 0), readLE32(nonce12, 4), readLE32(nonce12, 8)]);
+  const out = new Uint8Array(input.length);
+  const ks = new Uint8Array(64);
+  for (let off = 0; off < input.length; off += 64) {
+    const x = base.slice();
+    chachaRounds(x);
+    for (let i = 0; i < 16; i++) writeLE32(ks, i * 4, (x[i] + base[i]) >>> 0);
+    const n = Math.min(64, input.length - off);
+    for (let i = 0; i < n; i++) out[off + i] = input[off + i] ^ ks[i];
+    base[12] = (base[12] + 1) >>> 0;
+  }
+  return out;
+}
+
+const P1305 = (1n << 130n) - 5n;
+
+function leBytesToBigInt(bytes, off, len) {
+  let v = 0n;
+  for (let i = len - 1; i >= 0; i--) v = (v << 8n) | BigInt(bytes[off + i]);
+  return v;
+}
+
+/**
+ * poly1305(key32, message) -> 16-byte tag
+ */
+export function poly1305(key, message) {
+  const k = toBytes(key), m = toBytes(message);
+  checkLength("Poly1305 key", k, 32);
+  const r = leBytesToBigInt(k, 0, 16) & 0x0ffffffc0ffffffc0ffffffc0fffffffn;
+  const s = leBytesToBigInt(k, 16, 16);
+  let acc = 0n;
+  for (let off = 0; off < m.length; off += 16) {
+    const n = Math.min(16, m.length - off);
+    const block = leBytesToBigInt(m, off, n) | (1n << BigInt(8 * n));
+    acc = ((acc + block) * r) % P1305;
+  }
+  acc = (acc + s) & ((1n << 128n) - 1n);
+  const tag = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) {
+    tag[i] = Number(acc & 0xffn);
+    acc >>= 8n;
+  }
+  return tag;
+}
+
+function pad16(len) {
+  return new Uint8Array((16 - (len % 16)) % 16);
+}
+
+function le64(n) {
+  const b = new Uint8Array(8);
+  writeLE32(b, 0, n >>> 0);
+  writeLE32(b, 4, Math.floor(n / 0x100000000) >>> 0);
+  return b;
+}
+
+function concatBytes(...parts) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) {
+    out.set(p, off);
+    off += p.length;
+  }
+  return out;
+}
+
+function chachaPolyTag(key, nonce12, aad, ciphertext) {
+  const otk = chacha20Xor(key, nonce12, 0, new Uint8Array(32));
+  return poly1305(otk, concatBytes(aad, pad16(aad.length), ciphertext, pad16(ciphertext.length), le64(aad.length), le64(ciphertext.length)));
+}
+
+/**
+ * chacha20Poly1305Encrypt / Decrypt - RFC 8439 AEAD (12-byte nonce)
+ */
+export function chacha20Poly1305Encrypt(key, nonce, plaintext, aad) {
+  const k = toBytes(key), n = toBytes(nonce), a = toBytes(aad);
+  checkLength("ChaCha20-Poly1305 key", k, 32);
+  checkLength("ChaCha20-Poly1305 nonce", n, 12);
+  const ciphertext = chacha20Xor(k, n, 1, toBytes(plaintext));
+  return { ciphertext, tag: chachaPolyTag(k, n, a, ciphertext) };
+}
+
+export function chacha20Poly1305Decrypt(key, nonce, ciphertext, tag, aad) {
+  const k = toBytes(key), n = toBytes(nonce), a = toBytes(aad), c = toBytes(ciphertext);
+  checkLength("ChaCha20-Poly1305 key", k, 32);
+  checkLength("ChaCha20-Poly1305 nonce", n, 12);
+  if (!constantTimeEqual(chachaPolyTag(k, n, a, c), toBytes(tag))) {
+    throw new AeadError("Authentication tag verification failed", "AUTH_ERROR");
+  }
+  return chacha20Xor(k, n, 1, c);
+}
+
+function xchachaSubkey(key, nonce) {
+  const k = toBytes(key), n = toBytes(nonce);
+  checkLength("XChaCha20-Poly1305 nonce", n, 24);
+  const nonce12 = new Uint8Array(12);
+  nonce12.set(n.subarray(16, 24), 4);
+  return { subkey: hchacha20(k, n.subarray(0, 16)), nonce12 };
+}
+
+/**
+ * xchacha20Poly1305Encrypt / Decrypt - 24-byte nonce variant (HChaCha20 subkey + RFC 8439 AEAD)
+ */
+export function xchacha20Poly1305Encrypt(key, nonce, plaintext, aad) {
+  const { subkey, nonce12 } = xchachaSubkey(key, nonce);
+  return chacha20Poly1305Encrypt(subkey, nonce12, plaintext, aad);
+}
+
+export function xchacha20Poly1305Decrypt(key, nonce, ciphertext, tag, aad) {
+  const { subkey, nonce12 } = xchachaSubkey(key, nonce);
+  return chacha20Poly1305Decrypt(subkey, nonce12, ciphertext, tag, aad);
+}
+
+/* ---------- known-answer tests ---------- */
+
+const SUNSCREEN =
+  "4c616469657320616e642047656e746c656d656e206f662074686520636c617373206f66202739393a204966204920636f756c64206f6666657220796f75206f6e6c79206f6e652074697020666f7220746865206675747572652c2073756e73637265656e20776f756c642062652069742e";
+
+/**
+ * Published vectors:
+ *  - AES-256-GCM: GCM spec (McGrew/Viega) test cases 13, 14, 16, as used in NIST CAVP
+ *  - Poly1305, HChaCha20, ChaCha20-Poly1305: RFC 8439 sections 2.5.2, 2.8.2 and draft-irtf-cfrg-xchacha 2.2.1
+ *  - XChaCha20-Poly1305: draft-irtf-cfrg-xchacha appendix A.3.1
+ */
+export const KNOWN_ANSWER_TESTS = [
+  {
+    name: "AES-256-GCM #13 (empty)",
+    alg: "AES-256-GCM",
+    key: "0000000000000000000000000000000000000000000000000000000000000000",
+    nonce: "000000000000000000000000",
+    aad: "",
+    plaintext: "",
+    ciphertext: "",
+    tag: "530f8afbc74536b9a963b4f1c4cb738b"
+  },
+  {
+    name: "AES-256-GCM #14",
+    alg: "AES-256-GCM",
+    key: "0000000000000000000000000000000000000000000000000000000000000000",
+    nonce: "000000000000000000000000",
+    aad: "",
+    plaintext: "00000000000000000000000000000000",
+    ciphertext: "cea7403d4d606b6e074ec5d3baf39d18",
+    tag: "d0d1c8a799996bf0265b98b5d48ab919"
+  },
+  {
+    name: "AES-256-GCM #16 (AAD, partial block)",
+    alg: "AES-256-GCM",
+    key: "feffe9928665731c6d6a8f9467308308feffe9928665731c6d6a8f9467308308",
+    nonce: "cafebabefacedbaddecaf888",
+    aad: "feedfacedeadbeeffeedfacedeadbeefabaddad2",
+    plaintext:
+      "d9313225f88406e5a55909c5aff5269a86a7a9531534f7da2e4c303d8a318a721c3c0c95956809532fcf0e2449a6b525b16aedf5aa0de657ba637b39",
+    ciphertext:
+      "522dc1f099567d07f47f37a32a84427d643a8cdcbfe5c0c97598a2bd2555d1aa8cb08e48590dbb3da7b08b1056828838c5f61e6393ba7a0abcc9f662",
+    tag: "76fc6ece0f4e1768cddf8853bb2d551b"
+  },
+  {
+    name: "Poly1305 RFC 8439 2.5.2",
+    alg: "Poly1305",
+    key: "85d6be7857556d337f4452fe42d506a80103808afb0db2fd4abff6af4149f51b",
+    plaintext: "43727970746f6772617068696320466f72756d2052657365617263682047726f7570",
+    tag: "a8061dc1305136c6c22b8baf0c0127a9"
+  },
+  {
+    name: "HChaCha20 draft-irtf-cfrg-xchacha 2.2.1",
+    alg: "HChaCha20",
+    key: "000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f",
+    nonce: "000000090000004a0000000031415927",
+    ciphertext: "82413b4227b27bfed30e42508a877d73a0f9e4d58a74a853c12ec41326d3ecdc"
+  },
+  {
+    name: "ChaCha20-Poly1305 RFC 8439 2.8.2",
+    alg: "ChaCha20-Poly1305",
+    key: "808182838485868788898a8b8c8d8e8f909192939495969798999a9b9c9d9e9f",
+    nonce: "070000004041424344454647",
+    aad: "50515253c0c1c2c3c4c5c6c7",
+    plaintext: SUNSCREEN,
+    ciphertext:
+      "d31a8d34648e60db7b86afbc53ef7ec2a4aded51296e08fea9e2b5a736ee62d63dbea45e8ca9671282fafb69da92728b1a71de0a9e060b2905d6a5b67ecd3b3692ddbd7f2d778b8c9803aee328091b58fab324e4fad675945585808b4831d7bc3ff4def08e4b7a9de576d26586cec64b6116",
+    tag: "1ae10b594f09e26a7e902ecbd0600691"
+  },
+  {
+    name: "XChaCha20-Poly1305 draft-irtf-cfrg-xchacha A.3.1",
+    alg: "XChaCha20-Poly1305",
+    key: "808182838485868788898a8b8c8d8e8f909192939495969798999a9b9c9d9e9f",
+    nonce: "404142434445464748494a4b4c4d4e4f5051525354555657",
+    aad: "50515253c0c1c2c3c4c5c6c7",
+    plaintext: SUNSCREEN,
+    ciphertext:
+      "bd6d179d3e83d43b9576579493c0e939572a1700252bfaccbed2902c21396cbb731c7f1b0b4aa6440bf3a82f4eda7e39ae64c6708c54c216cb96b72e1213b4522f8c9ba40db5d945b11b69b982c1bb9e3f3fac2bc369488f76b2383565d3fff921f9664c97637da9768812f615c68b13b52e",
+    tag: "c0875924c1c7987947deafd8780acf49"
+  }
+];
+
+const AEADS = {
+  "AES-256-GCM": { encrypt: aesGcmEncrypt, decrypt: aesGcmDecrypt },
+  "ChaCha20-Poly1305": { encrypt: chacha20Poly1305Encrypt, decrypt: chacha20Poly1305Decrypt },
+  "XChaCha20-Poly1305": { encrypt: xchacha20Poly1305Encrypt, decrypt: xchacha20Poly1305Decrypt }
+};
+
+function runVector(v) {
+  const h = hexToBytes;
+  if (v.alg === "Poly1305") return bytesToHex(poly1305(h(v.key), h(v.plaintext))) === v.tag;
+  if (v.alg === "HChaCha20") return bytesToHex(hchacha20(h(v.key), h(v.nonce))) === v.ciphertext;
+
+  const impl = AEADS[v.alg];
+  const sealed = impl.encrypt(h(v.key), h(v.nonce), h(v.plaintext), h(v.aad));
+  if (bytesToHex(sealed.ciphertext) !== v.ciphertext || bytesToHex(sealed.tag) !== v.tag) return false;
+  if (bytesToHex(impl.decrypt(h(v.key), h(v.nonce), h(v.ciphertext), h(v.tag), h(v.aad))) !== v.plaintext) return false;
+
+  // a flipped tag bit must be rejected
+  const badTag = h(v.tag);
+  badTag[0] ^= 1;
+  try {
+    impl.decrypt(h(v.key), h(v.nonce), h(v.ciphertext), badTag, h(v.aad));
+    return false;
+  } catch (e) {
+    return e.code === "AUTH_ERROR";
+  }
+}
+
+/**
+ * runKnownAnswerTests() -> { ok, results: [{ name, ok, error? }] }
+ */
+export function runKnownAnswerTests() {
+  const results = KNOWN_ANSWER_TESTS.map(v => {
+    try {
+      return { name: v.name, ok: runVector(v) };
+    } catch (e) {
+      return { name: v.name, ok: false, error: e.message };
+    }
+  });
+  return { ok: results.every(r => r.ok), results };
+}
@@ -0,0 +1,297 @@
+// src/attachments.js
+// Encrypted attachments. A file is read in chunks, each chunk sealed with XChaCha20-Poly1305 under
+// a per-attachment subkey of the master key, and written as an opaque numbered file under
+// documentDirectory/vault_att/<attId>/. Entries only hold references ({ id, chunks, size, hash });
+// names and MIME types live in the encrypted entry meta.
+
+import CryptoJS from "crypto-js";
+import * as FileSystem from "expo-file-system";
+import * as aead from "./aead";
+import { randomHex } from "./crypto";
+
+export const CHUNK_SIZE = 192 * 1024; // plaintext bytes per chunk (multiple of 3, so chunks are whole base64 groups)
+const NONCE_SIZE = 24;
+const ATTACHMENT_DIR = "vault_att/";
+
+/**
+ * Reference shape (stored on the entry, covered by the entry HMAC):
+ * { id, chunks, size, hash }  // hash = SHA-256 over the stored (encrypted) chunk files, in order
+ *
+ * Chunk file: nonce(24) || ciphertext || tag(16), AAD = "vaultx-att|<id>|<index>|<last ? 1 : 0>"
+ * so chunks cannot be reordered, moved between attachments or truncated.
+ */
+
+/* ---------- helpers ---------- */
+
+const B64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const B64_LOOKUP = (() => {
+  const t = new Int16Array(128).fill(-1);
+  for (let i = 0; i < B64.length; i++) t[B64.charCodeAt(i)] = i;
+  return t;
+})();
+
+export function bytesToBase64(bytes) {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+    out += B64[(n >>> 18) & 63] + B64[(n >>> 12) & 63];
+    out += i + 1 < bytes.length ? B64[(n >>> 6) & 63] : "=";
+    out += i + 2 < bytes.length ? B64[n & 63] : "=";
+  }
+  return out;
+}
+
+export function base64ToBytes(b64) {
+  const clean = String(b64).replace(/[^A-Za-z0-9+/]/g, "");
+  const out = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let o = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const n =
+      (B64_LOOKUP[clean.charCodeAt(i)] << 18) |
+      (B64_LOOKUP[clean.charCodeAt(i + 1)] << 12) |
+      ((i + 2 < clean.length ? B64_LOOKUP[clean.charCodeAt(i + 2)] : 0) << 6) |
+      (i + 3 < clean.length ? B64_LOOKUP[clean.charCodeAt(i + 3)] : 0);
+    out[o++] = (n >>> 16) & 255;
+    if (i + 2 < clean.length) out[o++] = (n >>> 8) & 255;
+    if (i + 3 < clean.length) out[o++] = n & 255;
+  }
+  return out.subarray(0, o);
+}
+
+function bytesToWordArray(bytes) {
+  const words = [];
+  for (let i = 0; i < bytes.length; i++) words[i >>> 2] |= bytes[i] << (24 - (i % 4) * 8);
+  return CryptoJS.lib.WordArray.create(words, bytes.length);
+}
+
+// expo-crypto caps a single random request at 1024 bytes, so overwrite junk is a ChaCha20
+// keystream under a fresh random key instead
+async function junkBytes(length) {
+  const key = aead.hexToBytes(await randomHex(32));
+  const nonce = aead.hexToBytes(await randomHex(NONCE_SIZE));
+  return aead.xchacha20Poly1305Encrypt(key, nonce, new Uint8Array(length), new Uint8Array(0)).ciphertext;
+}
+
+async function overwriteFiles(files, passes) {
+  for (let p = 0; p < passes; p++) {
+    for (const f of files) {
+      const junk = await junkBytes(Math.max(1, f.size));
+      await FileSystem.writeAsStringAsync(f.path, bytesToBase64(junk), { encoding: FileSystem.EncodingType.Base64 });
+    }
+  }
+}
+
+function attachmentKey(masterHex, attId) {
+  return aead.hexToBytes(CryptoJS.HmacSHA256("vaultx-attachment|" + attId, CryptoJS.enc.Hex.parse(masterHex)).toString(CryptoJS.enc.Hex));
+}
+
+function chunkAad(attId, index, last) {
+  return aead.utf8Encode(`vaultx-att|${attId}|${index}|${last ? 1 : 0}`);
+}
+
+function attachmentsRoot() {
+  const dir = FileSystem.documentDirectory;
+  if (!dir) throw new Error("No document directory available for attachments.");
+  return dir + ATTACHMENT_DIR;
+}
+
+function chunkPath(attId, index) {
+  return `${attachmentsRoot()}${attId}/${index}.bin`;
+}
+
+/* ---------- main API ---------- */
+
+/**
+ * encryptFile(masterHex, sourceUri, size, onProgress)
+ * - streams the source in CHUNK_SIZE pieces; nothing but ciphertext is written
+ * - returns the reference to store on the entry
+ */
+export async function encryptFile(masterHex, sourceUri, size, onProgress) {
+  const id = await randomHex(16);
+  const key = attachmentKey(masterHex, id);
+  const chunks = Math.max(1, Math.ceil(size / CHUNK_SIZE));
+  const hasher = CryptoJS.algo.SHA256.create();
+  await FileSystem.makeDirectoryAsync(`${attachmentsRoot()}${id}/`, { intermediates: true });
+
+  try {
+    for (let i = 0; i < chunks; i++) {
+      const plainB64 = size === 0 ? "" : await FileSystem.readAsStringAsync(sourceUri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: i * CHUNK_SIZE,
+        length: Math.min(CHUNK_SIZE, size - i * CHUNK_SIZE)
+      });
+      const nonce = aead.hexToBytes(await randomHex(NONCE_SIZE));
+      const { ciphertext, tag } = aead.xchacha20Poly1305Encrypt(key, nonce, base64ToBytes(plainB64), chunkAad(id, i, i === chunks - 1));
+      const stored = new Uint8Array(NONCE_SIZE + ciphertext.length + tag.length);
+      stored.set(nonce, 0);
+      stored.set(ciphertext, NONCE_SIZE);
+      stored.set(tag, NONCE_SIZE + ciphertext.length);
+      hasher.update(bytesToWordArray(stored));
+      await FileSystem.writeAsStringAsync(chunkPath(id, i), bytesToBase64(stored), { encoding: FileSystem.EncodingType.Base64 });
+      if (onProgress) onProgress((i + 1) / chunks);
+    }
+  } catch (e) {
+    await FileSystem.deleteAsync(`${attachmentsRoot()}${id}/`, { idempotent: true });
+    throw e;
+  } finally {
+    key.fill(0);
+  }
+  return { id, chunks, size, hash: hasher.finalize().toString(CryptoJS.enc.Hex) };
+}
+
+/**
+ * hashChunks(chunksB64) - the reference hash for a list of stored chunks (base64, in order)
+ */
+export function hashChunks(chunksB64) {
+  const hasher = CryptoJS.algo.SHA256.create();
+  for (const b64 of chunksB64) hasher.update(CryptoJS.enc.Base64.parse(b64));
+  return hasher.finalize().toString(CryptoJS.enc.Hex);
+}
+
+/**
+ * readStoredChunks(ref) - the stored (encrypted) chunk files as base64, in order
+ */
+export async function readStoredChunks(ref) {
+  const out = [];
+  for (let i = 0; i < ref.chunks; i++) {
+    out.push(await FileSystem.readAsStringAsync(chunkPath(ref.id, i), { encoding: FileSystem.EncodingType.Base64 }));
+  }
+  return out;
+}
+
+/**
+ * writeStoredChunks(attId, chunksB64) - puts already-encrypted chunks back in place (backup restore)
+ */
+export async function writeStoredChunks(attId, chunksB64) {
+  await FileSystem.makeDirectoryAsync(`${attachmentsRoot()}${attId}/`, { intermediates: true });
+  for (let i = 0; i < chunksB64.length; i++) {
+    await FileSystem.writeAsStringAsync(chunkPath(attId, i), chunksB64[i], { encoding: FileSystem.EncodingType.Base64 });
+  }
+}
+
+/**
+ * hashStoredAttachment(ref) - SHA-256 over the stored chunk files (no key needed)
+ */
+export async function hashStoredAttachment(ref) {
+  return hashChunks(await readStoredChunks(ref));
+}
+
+/**
+ * decryptToCache(masterHex, ref, fileName)
+ * - checks the stored hash, then decrypts chunk by chunk into cacheDirectory
+ * - returns the plaintext uri; the caller must discardCachedFile() it when done
+ */
+export async function decryptToCache(masterHex, ref, fileName = "attachment") {
+  if ((await hashStoredAttachment(ref)) !== ref.hash) throw new Error("Attachment hash mismatch.");
+  const dir = FileSystem.cacheDirectory;
+  if (!dir) throw new Error("No cache directory available.");
+  const safeName = String(fileName).replace(/[^A-Za-z0-9._-]/g, "_").slice(-80) || "attachment";
+  const outDir = `${dir}vault_view_${await randomHex(8)}/`;
+  const outUri = outDir + safeName;
+  await FileSystem.makeDirectoryAsync(outDir, { intermediates: true });
+
+  const key = attachmentKey(masterHex, ref.id);
+  try {
+    // chunks are whole base64 groups (CHUNK_SIZE % 3 === 0), so the parts concatenate cleanly;
+    // the legacy FileSystem API has no append, so the plaintext is assembled before one write
+    const parts = [];
+    for (let i = 0; i < ref.chunks; i++) {
+      const stored = base64ToBytes(await FileSystem.readAsStringAsync(chunkPath(ref.id, i), { encoding: FileSystem.EncodingType.Base64 }));
+      const nonce = stored.subarray(0, NONCE_SIZE);
+      const ciphertext = stored.subarray(NONCE_SIZE, stored.length - aead.TAG_SIZE);
+      const tag = stored.subarray(stored.length - aead.TAG_SIZE);
+      parts.push(bytesToBase64(aead.xchacha20Poly1305Decrypt(key, nonce, ciphertext, tag, chunkAad(ref.id, i, i === ref.chunks - 1))));
+    }
+    await FileSystem.writeAsStringAsync(outUri, parts.join(""), { encoding: FileSystem.EncodingType.Base64 });
+  } catch (e) {
+    await FileSystem.deleteAsync(outDir, { idempotent: true });
+    throw e;
+  } finally {
+    key.fill(0);
+  }
+  return outUri;
+}
+
+/**
+ * discardCachedFile(uri) - removes a decrypted copy (and its private folder)
+ */
+export async function discardCachedFile(uri) {
+  if (!uri) return;
+  await FileSystem.deleteAsync(uri.slice(0, uri.lastIndexOf("/") + 1), { idempotent: true });
+}
+
+/**
+ * discardPickedFile(uri) - removes the plaintext copy a document picker left in the cache
+ */
+export async function discardPickedFile(uri) {
+  if (!uri) return;
+  await FileSystem.deleteAsync(uri, { idempotent: true });
+}
+
+/**
+ * shredPath(path, passes)
+ * - overwrites every file at or under path `passes` times with random bytes of the same size,
+ *   then deletes it (a directory path ends with "/")
+ * - returns { files, remaining } (remaining > 0 means something survived)
+ */
+export async function shredPath(path, passes = 3) {
+  const files = [];
+  const walk = async (p) => {
+    const info = await FileSystem.getInfoAsync(p);
+    if (!info.exists) return;
+    if (!info.isDirectory) {
+      files.push({ path: p, size: info.size || 0 });
+      return;
+    }
+    const dir = p.endsWith("/") ? p : p + "/";
+    for (const name of await FileSystem.readDirectoryAsync(dir)) await walk(dir + name);
+  };
+  await walk(path);
+
+  await overwriteFiles(files, passes);
+  await FileSystem.deleteAsync(path, { idempotent: true });
+  const left = await FileSystem.getInfoAsync(path);
+  return { files: files.length, remaining: left.exists ? 1 : 0 };
+}
+
+/**
+ * wipeAllAttachments(passes)
+ * - shreds the whole attachment root; also clears leftover decrypted copies in the cache
+ * - returns { files, remaining }
+ */
+export async function wipeAllAttachments(passes = 3) {
+  const res = await shredPath(attachmentsRoot(), passes);
+
+  const cache = FileSystem.cacheDirectory;
+  if (cache) {
+    for (const name of await FileSystem.readDirectoryAsync(cache).catch(() => [])) {
+      if (name.startsWith("vault_view_")) await FileSystem.deleteAsync(cache + name, { idempotent: true });
+    }
+  }
+  return res;
+}
+
+/**
+ * wipeAttachments(refs, passes)
+ * - same overwrite-then-delete as shredPath, limited to the given references
+ *   (one vault set's attachments, leaving the other set's files alone)
+ * - returns { files, remaining }
+ */
+export async function wipeAttachments(refs, passes = 3) {
+  const files = [];
+  for (const ref of refs) {
+    for (let i = 0; i < ref.chunks; i++) {
+      const info = await FileSystem.getInfoAsync(chunkPath(ref.id, i));
+      if (info.exists) files.push({ path: chunkPath(ref.id, i), size: info.size || 0 });
+    }
+  }
+  await overwriteFiles(files, passes);
+
+  let remaining = 0;
+  for (const ref of refs) {
+    const dir = `${attachmentsRoot()}${ref.id}/`;
+    await FileSystem.deleteAsync(dir, { idempotent: true });
+    if ((await FileSystem.getInfoAsync(dir)).exists) remaining++;
+  }
+  return { files: files.length, remaining };
+}
@@ -0,0 +1,142 @@
+// src/autolock.js
+// Auto-lock while the vault is unlocked: after a stretch with no touches, when the app leaves the
+// foreground, and when the screen turns off. Settings live in the vault meta next to biometricEnabled.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { AppState } from "react-native";
+import * as storage from "./storage";
+
+export const IDLE_CHOICES = [1, 5, 15, null]; // minutes, null = never
+export const GRACE_CHOICES = [0, 15, 60]; // seconds
+export const DEFAULT_AUTOLOCK = { idleMinutes: 5, onBackground: true, onScreenOff: true, graceSeconds: 15 };
+const IDLE_CHECK_MS = 10 * 1000;
+
+/**
+ * Auto-lock settings (vault meta `autoLock`):
+ * {
+ *   idleMinutes: number|null,  // lock after this long without a touch
+ *   onBackground: boolean,     // lock once the app has been in the background for graceSeconds
+ *   onScreenOff: boolean,      // lock as soon as the system takes the app out of the foreground
+ *   graceSeconds: number       // allowance for quick app switches, 0 = immediately
+ * }
+ *
+ * React Native has no screen-off event. A screen turning off shows up as AppState "inactive" on
+ * iOS (which also covers the app switcher and control centre) and as "background" on Android, so
+ * onScreenOff locks on "inactive" without waiting for the grace period.
+ */
+
+let lastActivity = Date.now();
+let holds = 0;
+
+/* ---------- helpers ---------- */
+
+export function normalizeAutoLock(cfg) {
+  const c = { ...DEFAULT_AUTOLOCK, ...(cfg || {}) };
+  return {
+    idleMinutes: IDLE_CHOICES.includes(c.idleMinutes) ? c.idleMinutes : DEFAULT_AUTOLOCK.idleMinutes,
+    onBackground: !!c.onBackground,
+    onScreenOff: !!c.onScreenOff,
+    graceSeconds: GRACE_CHOICES.includes(c.graceSeconds) ? c.graceSeconds : DEFAULT_AUTOLOCK.graceSeconds
+  };
+}
+
+async function readMeta() {
+  try {
+    const json = await AsyncStorage.getItem(storage.ASYNC_META_KEY);
+    return json ? JSON.parse(json) : { biometricEnabled: false };
+  } catch (e) {
+    console.warn("autolock.readMeta failed", e);
+    return { biometricEnabled: false };
+  }
+}
+
+/* ---------- main API ---------- */
+
+export async function loadAutoLock() {
+  return normalizeAutoLock((await readMeta()).autoLock);
+}
+
+/**
+ * saveAutoLock(cfg) - merges into the vault meta, returns the normalized settings
+ */
+export async function saveAutoLock(cfg) {
+  const autoLock = normalizeAutoLock(cfg);
+  const meta = await readMeta();
+  await AsyncStorage.setItem(storage.ASYNC_META_KEY, JSON.stringify({ ...meta, autoLock }));
+  return autoLock;
+}
+
+/**
+ * noteActivity() - a touch or keystroke; restarts the idle clock
+ */
+export function noteActivity() {
+  lastActivity = Date.now();
+}
+
+/**
+ * whileAway(task)
+ * - runs task() (a document picker, a share sheet) with auto-lock suspended, since those take the
+ *   app out of the foreground on purpose; the idle clock restarts when it returns
+ */
+export async function whileAway(task) {
+  holds++;
+  try {
+    return await task();
+  } finally {
+    holds--;
+    noteActivity();
+  }
+}
+
+/**
+ * startAutoLock(settings, onExpire)
+ * - onExpire(reason) is called at most once, reason "idle" | "background" | "screen_off"
+ * - returns stop(); call it on lock or when the settings change
+ */
+export function startAutoLock(settings, onExpire) {
+  const cfg = normalizeAutoLock(settings);
+  let stopped = false;
+  let awayAt = null;
+  let graceTimer = null;
+
+  const expire = (reason) => {
+    if (stopped) return;
+    stop();
+    onExpire(reason);
+  };
+
+  noteActivity();
+  const idleTimer = cfg.idleMinutes
+    ? setInterval(() => {
+        if (holds === 0 && Date.now() - lastActivity >= cfg.idleMinutes * 60 * 1000) expire("idle");
+      }, IDLE_CHECK_MS)
+    : null;
+
+  const sub = AppState.addEventListener("change", (state) => {
+    if (holds > 0) return;
+    if (state === "inactive" && cfg.onScreenOff) {
+      expire("screen_off");
+    } else if (state === "background" && cfg.onBackground) {
+      if (!cfg.graceSeconds) return expire("background");
+      if (awayAt === null) awayAt = Date.now();
+      clearTimeout(graceTimer);
+      graceTimer = setTimeout(() => expire("background"), cfg.graceSeconds * 1000);
+    } else if (state === "active" && awayAt !== null) {
+      // timers may not run while backgrounded, so the elapsed time is checked on return too
+      const away = Date.now() - awayAt;
+      awayAt = null;
+      clearTimeout(graceTimer);
+      if (away >= cfg.graceSeconds * 1000) expire("background");
+      else noteActivity();
+    }
+  });
+
+  function stop() {
+    if (stopped) return;
+    stopped = true;
+    if (idleTimer) clearInterval(idleTimer);
+    clearTimeout(graceTimer);
+    sub.remove();
+  }
+  return stop;
+}
@@ -0,0 +1,167 @@
+// src/backend.js
+// Storage backends for entries and audit blocks. storage.ts and blockchain.ts keep them in named
+// collections (the AsyncStorage keys in storage.VAULT_SETS) through the backend in use: SQLite
+// (sqlitestore.js, chosen by storage.openStorage once the data has been migrated), the journaled
+// AsyncStorage record store (recordstore.js, used until then) or memory.
+
+import * as records from "./recordstore";
+
+/**
+ * StorageBackend:
+ * {
+ *   name: "sqlite" | "asyncstorage" | "memory",
+ *   list(collection)                   -> records, oldest-first
+ *   find(collection, { id } | { seq }) -> latest record with that id / seq, or null
+ *   range(collection, from, to)        -> records whose ts is within [from, to] (ISO strings, null = open), oldest-first
+ *   tail(collection, n)                -> last n records, oldest-first
+ *   slice(collection, start, end)      -> records at positions [start, end) (0 = oldest), oldest-first
+ *   seqRange(collection, from, to)     -> records whose seq is within [from, to], oldest-first
+ *   count(collection)                  -> number of records
+ *   append(collection, records)
+ *   update(collection, fn)             -> fn(records oldest-first) returns the new list; read and write are one
+ *                                         transaction, nothing written meanwhile is lost; returns the new list
+ *   remove(collection)                 -> drops every record
+ *   close()
+ * }
+ *
+ * Writes are serialized and atomic: after a crash a collection is as it was before or after a
+ * write. Records are plain JSON objects; indexFields() gives the indexed id, seq and ts. Only SQLite
+ * keeps real indexes, the others scan.
+ */
+
+export class StorageBackendError extends Error {
+  constructor(message, code) {
+    super(message);
+    this.name = "StorageBackendError";
+    this.code = code;
+  }
+}
+
+/* ---------- helpers ---------- */
+
+/**
+ * indexFields(record) - { id, seq, ts }: entry or referenced entry id, block seq, block ts or entry timestamp
+ */
+export function indexFields(record) {
+  const r = record || {};
+  return {
+    id: r.id === undefined || r.id === null ? null : String(r.id),
+    seq: typeof r.seq === "number" ? r.seq : null,
+    ts: r.ts || r.timestamp || null
+  };
+}
+
+function findIn(list, query) {
+  for (let i = list.length - 1; i >= 0; i--) {
+    const f = indexFields(list[i]);
+    if ("seq" in query ? f.seq === query.seq : f.id === String(query.id)) return list[i];
+  }
+  return null;
+}
+
+function rangeIn(list, from, to) {
+  return list.filter(r => {
+    const ts = indexFields(r).ts;
+    return !!ts && (!from || ts >= from) && (!to || ts <= to);
+  });
+}
+
+function seqRangeIn(list, from, to) {
+  return list.filter(r => {
+    const seq = indexFields(r).seq;
+    return seq !== null && seq >= from && seq <= to;
+  });
+}
+
+// record store key: block seq, else entry id
+const recordKeyOf = r => (r && typeof r.seq === "number" ? r.seq : r ? r.id : null);
+
+/* ---------- implementations ---------- */
+
+/**
+ * createAsyncStorageBackend() - the journaled record store (recordstore.js)
+ * @returns {import("./types").StorageBackend}
+ */
+export function createAsyncStorageBackend() {
+  return {
+    name: "asyncstorage",
+    list: collection => records.readCollection(collection, recordKeyOf),
+    find: async (collection, query) => findIn(await records.readCollection(collection, recordKeyOf), query),
+    range: async (collection, from, to) => rangeIn(await records.readCollection(collection, recordKeyOf), from, to),
+    tail: async (collection, n) => (n > 0 ? records.readTail(collection, n, recordKeyOf) : []),
+    slice: (collection, start, end) => records.readSlice(collection, start, end, recordKeyOf),
+    seqRange: async (collection, from, to) => {
+      // block n normally sits at position n - 1; read just those unless some seq is elsewhere
+      const guess = seqRangeIn(await records.readSlice(collection, Math.max(0, from - 1), Math.max(0, to), recordKeyOf), from, to);
+      const aligned = guess.length === Math.max(0, to - from + 1) && guess.every((r, i) => r.seq === from + i);
+      return aligned ? guess : seqRangeIn(await records.readCollection(collection, recordKeyOf), from, to);
+    },
+    count: collection => records.countRecords(collection, recordKeyOf),
+    append: async (collection, list) => {
+      await records.appendRecords(collection, list, recordKeyOf);
+    },
+    update: (collection, fn) => records.updateCollection(collection, fn, recordKeyOf),
+    remove: collection => records.removeCollection(collection),
+    close: async () => {}
+  };
+}
+
+/**
+ * createMemoryBackend() - nothing is persisted; records are kept as JSON so callers cannot alias them
+ * @returns {import("./types").StorageBackend}
+ */
+export function createMemoryBackend() {
+  const data = new Map();
+  let queue = Promise.resolve();
+  const serialized = fn => {
+    const run = queue.then(fn);
+    queue = run.catch(() => {});
+    return run;
+  };
+  const read = collection => (data.get(collection) || []).map(json => JSON.parse(json));
+  return {
+    name: "memory",
+    list: collection => serialized(() => read(collection)),
+    find: (collection, query) => serialized(() => findIn(read(collection), query)),
+    range: (collection, from, to) => serialized(() => rangeIn(read(collection), from, to)),
+    tail: (collection, n) => serialized(() => (n > 0 ? read(collection).slice(-n) : [])),
+    slice: (collection, start, end) => serialized(() => read(collection).slice(start, end)),
+    seqRange: (collection, from, to) => serialized(() => seqRangeIn(read(collection), from, to)),
+    count: collection => serialized(() => (data.get(collection) || []).length),
+    append: (collection, list) =>
+      serialized(() => {
+        data.set(collection, [...(data.get(collection) || []), ...list.map(r => JSON.stringify(r))]);
+      }),
+    update: (collection, fn) =>
+      serialized(async () => {
+        const next = ((await fn(read(collection))) || []).map(r => JSON.stringify(r));
+        data.set(collection, next);
+        return next.map(json => JSON.parse(json));
+      }),
+    remove: collection =>
+      serialized(() => {
+        data.delete(collection);
+      }),
+    close: async () => {}
+  };
+}
+
+/* ---------- main API ---------- */
+
+let backend = null;
+
+/**
+ * setBackend(backend) - every storage call from now on goes to this backend
+ */
+export function setBackend(next) {
+  backend = next;
+}
+
+/**
+ * currentBackend() - the backend in use; AsyncStorage until storage.openStorage() picks one
+ * @returns {import("./types").StorageBackend}
+ */
+export function currentBackend() {
+  if (!backend) backend = createAsyncStorageBackend();
+  return backend;
+}
@@ -0,0 +1,320 @@
+// src/backup.js
+// Full-vault backup bundle (.vaultx): the wrapped master key slots and Meowscript device key, every
+// entry record, the stored attachment chunks and the tamper chain, sealed under a separate backup
+// passphrase. Restore checks the whole bundle before anything on the device is replaced.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import CryptoJS from "crypto-js";
+import * as FileSystem from "expo-file-system";
+import * as SecureStore from "expo-secure-store";
+import * as aead from "./aead";
+import * as attachments from "./attachments";
+import * as blockchain from "./blockchain";
+import * as crypto from "./crypto";
+import * as deadman from "./deadman";
+import * as kdf from "./kdf";
+import Meowscript from "./meowscript";
+import * as storage from "./storage";
+import * as vaultkey from "./vaultkey";
+
+export const BACKUP_FORMAT = "vaultx-backup";
+export const BACKUP_VERSION = 1;
+export const BACKUP_EXTENSION = ".vaultx";
+const MIN_PASSPHRASE_LENGTH = 8;
+const NONCE_SIZE = 24;
+
+/**
+ * File layout (UTF-8, one JSON record per line):
+ *   header   { format, version, createdAt, kdf: { kdf, params }, saltHex, kcv }   // clear
+ *   manifest { type: "manifest", nonce, data }                                    // sealed
+ *   section  { type: "section", name, nonce, data }  // "keys", "entries", "chain", "secondary", "att:<id>"
+ *   end      { type: "end", sections }
+ *
+ * Records are XChaCha20-Poly1305 under scrypt(backup passphrase, salt). The AAD binds the header
+ * digest and the record name, so records cannot be renamed or spliced in from another bundle.
+ *
+ * Manifest: { createdAt, entryCount, attachmentCount, chainLength, chainHead,
+ *             sections: [{ name, sha256, length }] }   // sha256 over each section's plaintext
+ */
+
+export class BackupError extends Error {
+  constructor(message, code) {
+    super(message);
+    this.name = "BackupError";
+    this.code = code;
+  }
+}
+
+/* ---------- helpers ---------- */
+
+function sha256Hex(text) {
+  return CryptoJS.SHA256(text).toString(CryptoJS.enc.Hex);
+}
+
+async function deriveBackupKey(passphrase, saltHex, spec) {
+  return Uint8Array.from(await kdf.deriveKeyBytesAsync(passphrase, aead.hexToBytes(saltHex), spec));
+}
+
+// lets restore tell a wrong passphrase apart from a tampered manifest
+function backupKcv(key) {
+  return CryptoJS.HmacSHA256("vaultx-backup-kcv", CryptoJS.enc.Hex.parse(aead.bytesToHex(key))).toString(CryptoJS.enc.Hex).slice(0, 16);
+}
+
+function recordAad(headerDigest, name) {
+  return aead.utf8Encode(`${BACKUP_FORMAT}|${BACKUP_VERSION}|${headerDigest}|${name}`);
+}
+
+async function sealRecord(key, headerDigest, name, plaintext) {
+  const nonce = aead.hexToBytes(await crypto.randomHex(NONCE_SIZE));
+  const { ciphertext, tag } = aead.xchacha20Poly1305Encrypt(key, nonce, aead.utf8Encode(plaintext), recordAad(headerDigest, name));
+  const data = new Uint8Array(ciphertext.length + tag.length);
+  data.set(ciphertext, 0);
+  data.set(tag, ciphertext.length);
+  return { nonce: aead.bytesToHex(nonce), data: attachments.bytesToBase64(data) };
+}
+
+function openRecord(key, headerDigest, name, record) {
+  const data = attachments.base64ToBytes(record.data || "");
+  if (data.length < aead.TAG_SIZE) throw new Error("record too short");
+  const plain = aead.xchacha20Poly1305Decrypt(
+    key,
+    aead.hexToBytes(record.nonce || ""),
+    data.subarray(0, data.length - aead.TAG_SIZE),
+    data.subarray(data.length - aead.TAG_SIZE),
+    recordAad(headerDigest, name)
+  );
+  return aead.utf8Decode(plain);
+}
+
+function parseLine(line, what) {
+  try {
+    return JSON.parse(line);
+  } catch {
+    throw new BackupError(`Backup is truncated or corrupt (${what} record unreadable).`, "TRUNCATED");
+  }
+}
+
+/* ---------- main API ---------- */
+
+/**
+ * createBackup(masterHex, backupPassphrase, set)
+ * - collects the current vault, seals it and writes <cacheDirectory>/vault_<ts>.vaultx
+ * - masterHex is only used to confirm the stored key slot belongs to the unlocked vault
+ * - set "secondary" (a decoy session) backs up the decoy set alone, as a vault of its own: its
+ *   slot is the primary one in the bundle and the bundle's secondary set is empty, so restoring it
+ *   gives a vault the duress passphrase opens; nothing of the real set goes in
+ * - returns { uri, manifest, digest }  // digest = SHA-256 of the manifest, for the audit chain
+ * - the caller shares the file and then deletes it (attachments.discardPickedFile)
+ */
+export async function createBackup(masterHex, backupPassphrase, set = "primary") {
+  if (typeof backupPassphrase !== "string" || backupPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new BackupError(`Backup passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`, "WEAK_PASSPHRASE");
+  }
+  const decoy = set === "secondary";
+  const slot = decoy ? await vaultkey.readSecondarySlot() : await vaultkey.readKeySlot();
+  if (!slot) throw new BackupError("Vault is not initialized.", "NO_VAULT");
+  if (slot.kcv && slot.kcv !== crypto.keyCheckValue(masterHex)) {
+    throw new BackupError("Stored key slot does not match the unlocked vault.", "KEYSLOT_MISMATCH");
+  }
+
+  const entries = (await storage.loadEntries(set)) || [];
+  const chain = await blockchain.loadChain(set);
+  const secondary = decoy ? { entries: [], chain: [] } : { entries: (await storage.loadEntries("secondary")) || [], chain: await blockchain.loadChain("secondary") };
+  const verification = await blockchain.verifyBlocks(chain, await blockchain.signingPublicKey(set));
+  if (!verification.ok) {
+    throw new BackupError(`Tamper chain has ${verification.breaks} break(s) and ${verification.badSignatures} bad signature(s); not backing up.`, "CHAIN_BROKEN");
+  }
+
+  const sections = [
+    {
+      name: "keys",
+      text: JSON.stringify({
+        slot,
+        created: await SecureStore.getItemAsync(storage.SECUREKEY_CREATED),
+        deviceKey: await Meowscript.exportDeviceKey(),
+        recovery: decoy ? null : await SecureStore.getItemAsync(storage.SECUREKEY_RECOVERY),
+        secondarySlot: decoy ? null : await SecureStore.getItemAsync(storage.SECUREKEY_WRAPPED_ALT),
+        signingKey: await SecureStore.getItemAsync(decoy ? storage.SECUREKEY_AUDIT_SIGNING_ALT : storage.SECUREKEY_AUDIT_SIGNING),
+        secondarySigningKey: decoy ? null : await SecureStore.getItemAsync(storage.SECUREKEY_AUDIT_SIGNING_ALT),
+        vaultMeta: await AsyncStorage.getItem(storage.ASYNC_META_KEY)
+      })
+    },
+    { name: "entries", text: JSON.stringify(entries) },
+    { name: "chain", text: JSON.stringify(chain) },
+    { name: "secondary", text: JSON.stringify(secondary) }
+  ];
+  const refs = new Map();
+  for (const e of [...entries, ...secondary.entries]) for (const ref of e.attachments || []) refs.set(ref.id, ref);
+  for (const ref of refs.values()) {
+    sections.push({ name: `att:${ref.id}`, text: JSON.stringify({ id: ref.id, chunks: await attachments.readStoredChunks(ref) }) });
+  }
+
+  const createdAt = new Date().toISOString();
+  const spec = kdf.CURRENT_KDF_POLICY;
+  const saltHex = await crypto.randomHex(16);
+  const key = await deriveBackupKey(backupPassphrase, saltHex, spec);
+  try {
+    const headerLine = JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt, kdf: spec, saltHex, kcv: backupKcv(key) });
+    const headerDigest = sha256Hex(headerLine);
+    const manifest = {
+      createdAt,
+      entryCount: entries.length,
+      attachmentCount: refs.size,
+      chainLength: chain.length,
+      chainHead: verification.head,
+      sections: sections.map(s => ({ name: s.name, sha256: sha256Hex(s.text), length: s.text.length }))
+    };
+    const manifestText = JSON.stringify(manifest);
+
+    const lines = [headerLine, JSON.stringify({ type: "manifest", ...(await sealRecord(key, headerDigest, "manifest", manifestText)) })];
+    for (const s of sections) {
+      lines.push(JSON.stringify({ type: "section", name: s.name, ...(await sealRecord(key, headerDigest, s.name, s.text)) }));
+    }
+    lines.push(JSON.stringify({ type: "end", sections: sections.length }));
+
+    const dir = FileSystem.cacheDirectory;
+    if (!dir) throw new BackupError("No cache directory available for the backup file.", "NO_FILESYSTEM");
+    const uri = `${dir}vault_${createdAt.replace(/[:.]/g, "-")}${BACKUP_EXTENSION}`;
+    await FileSystem.writeAsStringAsync(uri, lines.join("\n"), { encoding: FileSystem.EncodingType.UTF8 });
+    return { uri, manifest, digest: sha256Hex(manifestText) };
+  } finally {
+    key.fill(0);
+  }
+}
+
+/**
+ * readBackup(uri, backupPassphrase)
+ * - decrypts and checks the whole bundle; touches nothing on the device
+ * - throws BackupError with code NOT_A_BACKUP | UNSUPPORTED_VERSION | WRONG_PASSPHRASE |
+ *   MANIFEST_TAMPERED | TRUNCATED | SECTION_TAMPERED | DIGEST_MISMATCH | UNEXPECTED_SECTION |
+ *   CHAIN_BROKEN | ATTACHMENT_MISMATCH | KEYSLOT_INVALID
+ * - returns the bundle for applyBackup(): { manifest, digest, keys, entries, chain, secondary, attachments: Map<id, chunks> }
+ */
+export async function readBackup(uri, backupPassphrase) {
+  const text = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.UTF8 });
+  const lines = String(text || "").split("\n").filter(l => l.length > 0);
+
+  let header;
+  try {
+    header = JSON.parse(lines[0] || "");
+  } catch {
+    header = null;
+  }
+  if (!header || header.format !== BACKUP_FORMAT) throw new BackupError("Not a VaultX backup file.", "NOT_A_BACKUP");
+  if (header.version !== BACKUP_VERSION) throw new BackupError(`Unsupported backup version ${header.version}.`, "UNSUPPORTED_VERSION");
+  if (lines.length < 2) throw new BackupError("Backup is truncated (no manifest).", "TRUNCATED");
+
+  const headerDigest = sha256Hex(lines[0]);
+  const key = await deriveBackupKey(String(backupPassphrase || ""), header.saltHex, header.kdf);
+  try {
+    if (backupKcv(key) !== header.kcv) throw new BackupError("Wrong backup passphrase.", "WRONG_PASSPHRASE");
+
+    const manifestRecord = parseLine(lines[1], "manifest");
+    let manifestText;
+    let manifest;
+    try {
+      manifestText = openRecord(key, headerDigest, "manifest", manifestRecord);
+      manifest = JSON.parse(manifestText);
+    } catch {
+      throw new BackupError("Backup manifest failed authentication.", "MANIFEST_TAMPERED");
+    }
+
+    const expected = new Map(manifest.sections.map(s => [s.name, s]));
+    const opened = new Map();
+    let ended = false;
+    for (let i = 2; i < lines.length; i++) {
+      const record = parseLine(lines[i], `line ${i + 1}`);
+      if (record.type === "end") {
+        ended = record.sections === manifest.sections.length && i === lines.length - 1;
+        break;
+      }
+      const want = expected.get(record.name);
+      if (record.type !== "section" || !want || opened.has(record.name)) {
+        throw new BackupError(`Unexpected record "${record.name || record.type}" in backup.`, "UNEXPECTED_SECTION");
+      }
+      let plain;
+      try {
+        plain = openRecord(key, headerDigest, record.name, record);
+      } catch {
+        throw new BackupError(`Section "${record.name}" failed authentication.`, "SECTION_TAMPERED");
+      }
+      if (plain.length !== want.length || sha256Hex(plain) !== want.sha256) {
+        throw new BackupError(`Section "${record.name}" does not match the manifest digest.`, "DIGEST_MISMATCH");
+      }
+      opened.set(record.name, JSON.parse(plain));
+    }
+    const missing = manifest.sections.filter(s => !opened.has(s.name)).map(s => s.name);
+    if (missing.length || !ended) {
+      throw new BackupError(`Backup is truncated${missing.length ? ` (missing ${missing.join(", ")})` : ""}.`, "TRUNCATED");
+    }
+
+    const keys = opened.get("keys");
+    if (!keys || !keys.slot || !keys.slot.wrapped || !keys.slot.saltHex || !keys.slot.kdf) {
+      throw new BackupError("Backup key slot is missing or incomplete.", "KEYSLOT_INVALID");
+    }
+
+    const chain = opened.get("chain") || [];
+    const verification = await blockchain.verifyBlocks(chain);
+    if (!verification.ok || (verification.head || null) !== (manifest.chainHead || null) || chain.length !== manifest.chainLength) {
+      throw new BackupError(`Backup tamper chain does not verify (${verification.breaks} break(s), ${verification.badSignatures} bad signature(s)).`, "CHAIN_BROKEN");
+    }
+
+    const entries = opened.get("entries") || [];
+    if (entries.length !== manifest.entryCount) throw new BackupError("Entry count does not match the manifest.", "DIGEST_MISMATCH");
+    const secondary = opened.get("secondary") || { entries: [], chain: [] };
+    const stored = new Map();
+    for (const [name, section] of opened) if (name.startsWith("att:")) stored.set(section.id, section.chunks);
+    for (const e of [...entries, ...secondary.entries]) {
+      for (const ref of e.attachments || []) {
+        const chunks = stored.get(ref.id);
+        if (!chunks || chunks.length !== ref.chunks || attachments.hashChunks(chunks) !== ref.hash) {
+          throw new BackupError(`Attachment ${ref.id} in the backup does not match its entry.`, "ATTACHMENT_MISMATCH");
+        }
+      }
+    }
+
+    return { manifest, digest: sha256Hex(manifestText), keys, entries, chain, secondary, attachments: stored };
+  } finally {
+    key.fill(0);
+  }
+}
+
+/**
+ * applyBackup(bundle)
+ * - replaces the vault on this device with a bundle from readBackup(); the key slot goes last,
+ *   since its presence is what marks the vault as initialized
+ * - the dead-man's switch is disarmed (see deadman.resetAfterRestore)
+ * - logs "backup_restored" as the next block of the restored chain and returns that block
+ */
+export async function applyBackup(bundle) {
+  await attachments.wipeAllAttachments(1);
+  for (const [id, chunks] of bundle.attachments) await attachments.writeStoredChunks(id, chunks);
+
+  if (!(await storage.saveEntries(bundle.entries, "primary"))) throw new BackupError("Could not write restored entries.", "WRITE_FAILED");
+  await blockchain.replaceChain(bundle.chain, "primary");
+  await storage.saveEntries(bundle.secondary.entries, "secondary");
+  await blockchain.replaceChain(bundle.secondary.chain, "secondary");
+  if (bundle.keys.vaultMeta) await AsyncStorage.setItem(storage.ASYNC_META_KEY, bundle.keys.vaultMeta);
+  else await AsyncStorage.removeItem(storage.ASYNC_META_KEY);
+
+  if (bundle.keys.deviceKey) await Meowscript.importDeviceKey(bundle.keys.deviceKey);
+  if (bundle.keys.created) await SecureStore.setItemAsync(storage.SECUREKEY_CREATED, bundle.keys.created);
+  // recovery codes spent since the backup was made work again after a restore
+  if (bundle.keys.recovery) await SecureStore.setItemAsync(storage.SECUREKEY_RECOVERY, bundle.keys.recovery);
+  else await SecureStore.deleteItemAsync(storage.SECUREKEY_RECOVERY);
+  if (bundle.keys.secondarySlot) await SecureStore.setItemAsync(storage.SECUREKEY_WRAPPED_ALT, bundle.keys.secondarySlot);
+  else await vaultkey.clearSecondarySlot();
+  // signing keys come back with their chains, so the restored chains keep one signer
+  for (const [name, value] of [[storage.SECUREKEY_AUDIT_SIGNING, bundle.keys.signingKey], [storage.SECUREKEY_AUDIT_SIGNING_ALT, bundle.keys.secondarySigningKey]]) {
+    if (value) await SecureStore.setItemAsync(name, value);
+    else await SecureStore.deleteItemAsync(name);
+  }
+  await vaultkey.restoreKeySlot(bundle.keys.slot);
+  await deadman.resetAfterRestore();
+
+  return blockchain.appendEvent({
+    event: "backup_restored",
+    detail: `entries=${bundle.entries.length} attachments=${bundle.attachments.size} created=${bundle.manifest.createdAt}`,
+    hash: bundle.digest
+  }, "primary");
+}
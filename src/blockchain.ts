@@ -0,0 +1,510 @@
+// src/blockchain.ts
+// Blockchain helper to produce hash-chained tamper-log entries (blocks)
+// Works with your existing storage.ts (appendTamperLog, loadTamperLog, etc.) and reads the head and
+// single blocks straight from the storage backend (backend.js)
+
+import * as ExpoCrypto from "expo-crypto";
+import * as storage from "./storage"; // your storage.ts
+import { currentBackend } from "./backend";
+import { CHECKPOINT_INTERVAL, canonicalStringForBlock, checkBlocks, createBlockChecker, merkleProof, merkleRoot, parseCheckpoint } from "./canonical"; // shared with scripts/verify-chain.js
+import { ed25519PublicKey, randomHex, signEd25519, verifyEd25519 } from "./crypto"; // your crypto.ts helper
+import * as FileSystem from "expo-file-system";
+import * as SecureStore from "expo-secure-store";
+import type { Block, ChainAnchor, VaultSetName, VerifyResult } from "./types";
+
+export type { Block, BlockCheck, ChainAnchor, VerifyResult } from "./types";
+
+/**
+ * Block (types.ts): { seq, ts, event, detail?, id?, file?, hash?, custody?, signature?, prevHash?,
+ * blockHash?, nonce? }
+ *
+ * signature: Ed25519 over blockHash with the vault set's signing key (VAULT_SETS[set].signingKey).
+ * It signs the hash, so its slot in the hashed string is always empty. A key is announced in the
+ * chain by a "signing_key_created" block, or by the "wiped" receipt that starts a chain over (detail
+ * contains "ed25519=<hex>"); that block and the ones after it are signed with it.
+ *
+ * Every CHECKPOINT_INTERVAL blocks a "checkpoint" block commits to the blocks before it with a
+ * Merkle root (hash field). verifyChain() continues from the last checkpoint it has verified, and
+ * inclusionProof() proves a single block against a checkpoint root.
+ *
+ * The canonical string, checkpoint format and verification rules live in canonical.js.
+ */
+
+/** ChainEvent - what appendEvent() takes; type and message are the pre-chain names of event and detail */
+export type ChainEvent = {
+  event?: string;
+  type?: string;
+  detail?: string;
+  message?: string;
+  id?: string;
+  file?: string;
+  hash?: string;
+  custody?: string;
+  signature?: string;
+};
+
+/** InclusionProof - see inclusionProof(); proof steps name the side of the sibling hash */
+export type InclusionProof = {
+  format: "vaultx-inclusion-proof";
+  version: 1;
+  block: Block;
+  checkpoint: Block;
+  proof: { side: "left" | "right"; hash: string }[];
+  publicKey: string | null;
+  createdAt: string;
+};
+
+// tamper log items written before the chain existed
+type LegacyLogItem = Partial<Block> & { timestamp?: string; type?: string; message?: string };
+
+/* ---------- helpers ---------- */
+
+// sha256 hex using ExpoCrypto (returns lowercase hex)
+async function sha256Hex(input: string): Promise<string> {
+  return await ExpoCrypto.digestStringAsync(ExpoCrypto.CryptoDigestAlgorithm.SHA256, String(input));
+}
+
+// backend collection holding the set's chain (the set's tamperLog key)
+function chainCollection(set?: VaultSetName): string {
+  return storage.VAULT_SETS[set || storage.activeVaultSet()].tamperLog;
+}
+
+// blocks read per page when walking the chain, so a long chain is never held in memory at once
+const CHAIN_PAGE = 256;
+
+// calls fn(block) for the blocks from position `start` on, oldest-first; fn returns false to stop
+async function forEachBlock(
+  set: VaultSetName | undefined,
+  start: number,
+  fn: (block: Block) => boolean | void | Promise<boolean | void>
+): Promise<void> {
+  for (let pos = start; ; pos += CHAIN_PAGE) {
+    const page = await currentBackend().slice<Block>(chainCollection(set), pos, pos + CHAIN_PAGE);
+    for (const block of page) {
+      if ((await fn(block)) === false) return;
+    }
+    if (page.length < CHAIN_PAGE) return;
+  }
+}
+
+async function signingSeed(set?: VaultSetName): Promise<string | null> {
+  return SecureStore.getItemAsync(storage.VAULT_SETS[set || storage.activeVaultSet()].signingKey);
+}
+
+/* ---------- migration helper ---------- */
+
+/**
+ * ensureMigrated()
+ * - If stored tamper log items are missing seq/prevHash/blockHash, rebuild a canonical
+ *   chain (chronological order), compute seq/prevHash/blockHash consistently and write back.
+ * - The rebuilt log replaces the stored one (storage keeps one record per block).
+ * - A chain found canonical is not checked again this session; everything appended since is a block.
+ */
+const canonicalChains = new Set<string>();
+
+async function ensureMigrated(set?: VaultSetName): Promise<void> {
+  if (canonicalChains.has(chainCollection(set))) return;
+  try {
+    // If every item already has blockHash and prevHash defined, no migration required.
+    let seen = 0;
+    let needMigration = false;
+    await forEachBlock(set, 0, item => {
+      seen++;
+      needMigration = !item || !item.blockHash || (typeof item.prevHash === "undefined");
+      return !needMigration;
+    });
+    if (seen === 0) return;
+    if (!needMigration) {
+      canonicalChains.add(chainCollection(set));
+      return;
+    }
+    const raw: LegacyLogItem[] = (await storage.loadTamperLog(set)) || [];
+
+    // Convert to chronological (oldest-first)
+    const chronological = [...raw].reverse();
+
+    const rebuilt: Block[] = [];
+    let prevHash: string | null = null;
+    for (let i = 0; i < chronological.length; i++) {
+      const item: LegacyLogItem = chronological[i] || {};
+      // prefer existing ISO ts fields: ts or timestamp
+      const tsISO = (() => {
+        try {
+          const d = new Date(item.ts || item.timestamp || "");
+          return isNaN(d.getTime()) ? (item.ts || item.timestamp || new Date().toISOString()) : d.toISOString();
+        } catch {
+          return item.ts || item.timestamp || new Date().toISOString();
+        }
+      })();
+
+      const block: Block = {
+        // re-sequence cleanly
+        seq: i + 1,
+        ts: tsISO,
+        nonce: item.nonce || (await randomHex(8)),
+        event: item.event || item.type || "event",
+        detail: (item.detail || item.message || "") + "",
+        id: item.id,
+        file: item.file,
+        hash: item.hash,
+        custody: item.custody,
+        signature: item.signature,
+        // prevHash set from previous rebuilt block
+        prevHash: prevHash || null
+      };
+
+      // compute blockHash for canonical block
+      const canon = canonicalStringForBlock(block);
+      const computed = await sha256Hex(canon);
+      block.blockHash = computed;
+
+      // preserve any other raw fields (so we don't drop unexpected metadata)
+      block._raw = item._raw || item;
+
+      // set prevHash for next iteration
+      prevHash = block.blockHash;
+
+      rebuilt.push(block);
+    }
+
+    // Convert rebuilt (chronological) into newest-first (storage format)
+    const newestFirst = [...rebuilt].reverse();
+
+    // Persist: replace the stored log with the rebuilt array (newest-first)
+    await storage.replaceTamperLog(newestFirst, set);
+  } catch (e) {
+    // migration should not crash app; log and continue
+    console.warn("blockchain.ensureMigrated failed", e);
+  }
+}
+
+/* ---------- main API ---------- */
+
+// an append reads the head and then writes the block after it; concurrent callers
+// (e.g. a background entry migration) would otherwise fork the chain on the same seq
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * appendEvent(ev, set)
+ * - ev: partial block object (event, detail, id, file, hash, custody, signature optional)
+ * - set: vault set whose chain gets the block (storage.VAULT_SETS); defaults to the active one,
+ *   resolved at call time so a queued append cannot land in a set selected later
+ * Creates seq/ts/nonce/prevHash/blockHash and stores via storage.appendTamperLog()
+ * Returns the saved block object (with blockHash). Calls are serialized.
+ */
+export function appendEvent(ev: ChainEvent = {}, set?: VaultSetName): Promise<Block> {
+  const target = set || storage.activeVaultSet();
+  const run = appendQueue.then(async () => {
+    const block = await appendEventNow(ev, target);
+    await checkpointIfDue(target);
+    return block;
+  });
+  appendQueue = run.catch(() => {});
+  return run;
+}
+
+async function appendEventNow(ev: ChainEvent, set: VaultSetName): Promise<Block> {
+  // ensure all existing logs have canonical hashes / prev links
+  await ensureMigrated(set);
+
+  // appends are serialized, so the last stored block is the head (highest seq)
+  const [head] = await currentBackend().tail<Block>(chainCollection(set), 1);
+  const lastSeq = head && typeof head.seq === "number" ? head.seq : 0;
+  const lastBlockHash = head && head.blockHash ? head.blockHash : null;
+
+  const seq = lastSeq + 1;
+  const ts = new Date().toISOString();
+  const nonce = await randomHex(8);
+
+  const block: Block = {
+    seq,
+    ts,
+    nonce,
+    event: ev.event || ev.type || "event",
+    detail: ev.detail || ev.message || "",
+    id: ev.id,
+    file: ev.file,
+    hash: ev.hash,
+    custody: ev.custody,
+    signature: ev.signature,
+    prevHash: lastBlockHash || null,
+  };
+
+  // compute canonical block hash
+  const canon = canonicalStringForBlock(block);
+  const computed = await sha256Hex(canon);
+
+  block.blockHash = computed;
+  const seed = await signingSeed(set);
+  if (seed) block.signature = signEd25519(computed, seed);
+
+  // Persist block -> storage.appendTamperLog writes it as a record of its own
+  await storage.appendTamperLog(block, set);
+
+  return block;
+}
+
+// appends a "checkpoint" block once CHECKPOINT_INTERVAL blocks follow the previous one
+async function checkpointIfDue(set: VaultSetName): Promise<Block | null> {
+  // read newest-first until the previous checkpoint (or genesis for older chains): the last
+  // CHECKPOINT_INTERVAL blocks usually settle it, a longer run goes back a page at a time and keeps
+  // only the hashes
+  const backend = currentBackend();
+  const collection = chainCollection(set);
+  let hashes: string[] = [];
+  let from = 0;
+  let to = 0;
+  for (let end = await backend.count(collection), size = CHECKPOINT_INTERVAL; end > 0; size = CHAIN_PAGE) {
+    const start = Math.max(0, end - size);
+    const page = await backend.slice<Block>(collection, start, end);
+    const since = page.map(b => b.event).lastIndexOf("checkpoint");
+    const pending = page.slice(since + 1);
+    if (pending.length) {
+      hashes = [...pending.map(b => b.blockHash as string), ...hashes];
+      from = pending[0].seq;
+      if (!to) to = pending[pending.length - 1].seq;
+    }
+    if (since !== -1) break;
+    end = start;
+  }
+  if (hashes.length < CHECKPOINT_INTERVAL) return null;
+  const root = await merkleRoot(hashes, sha256Hex);
+  return appendEventNow({ event: "checkpoint", detail: `from=${from} to=${to}`, hash: root }, set);
+}
+
+async function readTrustedCheckpoint(set?: VaultSetName): Promise<ChainAnchor | null> {
+  try {
+    const json = await SecureStore.getItemAsync(storage.VAULT_SETS[set || storage.activeVaultSet()].chainTrust);
+    return json ? JSON.parse(json) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * loadChain()
+ * returns normalized array of blocks (chronological order oldest-first)
+ */
+export async function loadChain(set?: VaultSetName): Promise<Block[]> {
+  // ensure migration before returning chain
+  await ensureMigrated(set);
+  const raw = (await storage.loadTamperLog(set)) || [];
+  // storage returns newest-first (unshift), so reverse to chronological
+  const chronological = Array.isArray(raw) ? [...raw].reverse() : [];
+  return chronological;
+}
+
+/**
+ * computeBlockHash(block)
+ * - returns SHA-256 hex computed from canonical string
+ * - does NOT change storage
+ */
+export async function computeBlockHash(block: Block): Promise<string> {
+  return await sha256Hex(canonicalStringForBlock(block));
+}
+
+/**
+ * createSigningKey(set)
+ * - new Ed25519 seed for the vault set's chain (setup, decoy reset); returns the public key hex.
+ *   Callers log a "signing_key_created" block with detail "ed25519=<public key>".
+ */
+export async function createSigningKey(set?: VaultSetName): Promise<string> {
+  const seed = await randomHex(32);
+  await SecureStore.setItemAsync(storage.VAULT_SETS[set || storage.activeVaultSet()].signingKey, seed);
+  return ed25519PublicKey(seed);
+}
+
+/**
+ * signingPublicKey(set) - public key hex of the set's signing key, or null if it has none
+ */
+export async function signingPublicKey(set?: VaultSetName): Promise<string | null> {
+  const seed = await signingSeed(set);
+  return seed ? ed25519PublicKey(seed) : null;
+}
+
+/**
+ * verifyChain(set, { full })
+ * - recomputes block hashes and prev relationships and checks signatures against this device's
+ *   signing key and checkpoint roots, returns verification details (see verifyBlocks; details is
+ *   left empty, the chain is read and checked a page at a time)
+ * - starts after the last checkpoint a previous run verified (kept in SecureStore), as long as that
+ *   checkpoint is still in the chain unchanged; full: true, or no usable checkpoint, starts at genesis
+ * - result also has { incremental, verifiedFrom } (seq of the first block checked)
+ */
+export async function verifyChain(set?: VaultSetName, { full = false }: { full?: boolean } = {}): Promise<VerifyResult> {
+  // ensure migration first (so fields exist)
+  await ensureMigrated(set);
+  const publicKeyHex = await signingPublicKey(set);
+  const trusted = full ? null : await readTrustedCheckpoint(set);
+  // block n sits at position n - 1 unless the chain has gaps or forks; those are checked in full
+  const [atTrusted] = trusted ? await currentBackend().slice<Block>(chainCollection(set), trusted.seq - 1, trusted.seq) : [];
+  const anchored = !!trusted && !!atTrusted && atTrusted.seq === trusted.seq && atTrusted.blockHash === trusted.blockHash && atTrusted.event === "checkpoint";
+
+  const checker = createBlockChecker({ sha256Hex, verifySignature: verifyEd25519, publicKeyHex, anchor: anchored ? trusted : null, keepDetails: false });
+  let verifiedFrom: number | null = null;
+  await forEachBlock(set, anchored && trusted ? trusted.seq : 0, async block => {
+    if (verifiedFrom === null) verifiedFrom = block.seq;
+    await checker.push(block);
+  });
+  const res = checker.result();
+  if (res.ok && res.lastCheckpoint) {
+    await SecureStore.setItemAsync(storage.VAULT_SETS[set || storage.activeVaultSet()].chainTrust, JSON.stringify(res.lastCheckpoint));
+  }
+  return { ...res, incremental: anchored, verifiedFrom };
+}
+
+/**
+ * verifyBlocks(chain, publicKeyHex)
+ * - same checks as verifyChain() over a chronological array that is not (yet) in storage,
+ *   e.g. the chain inside a backup bundle
+ * - publicKeyHex is the expected signer; rules and result shape in canonical.checkBlocks
+ */
+export async function verifyBlocks(chain: Block[], publicKeyHex?: string | null): Promise<VerifyResult> {
+  return checkBlocks(chain || [], { sha256Hex, verifySignature: verifyEd25519, publicKeyHex: publicKeyHex || null });
+}
+
+/**
+ * replaceChain(chain)
+ * - overwrites the stored log with a chronological array (backup restore); callers verify it first
+ */
+export async function replaceChain(chain: Block[], set?: VaultSetName): Promise<void> {
+  const keys = storage.VAULT_SETS[set || storage.activeVaultSet()];
+  canonicalChains.delete(keys.tamperLog);
+  await storage.replaceTamperLog([...chain].reverse(), set);
+  // a checkpoint verified in the old chain says nothing about this one
+  await SecureStore.deleteItemAsync(keys.chainTrust);
+}
+
+/**
+ * inclusionProof(seq, set)
+ * - proves block #seq is in the chain without handing over the rest: the block, the checkpoint
+ *   covering it and the Merkle path to that checkpoint's root (check with canonical.checkInclusionProof
+ *   or scripts/verify-chain.js --proof)
+ * - only blocks covered by a checkpoint have a proof; throws for the others
+ * - returns { format, version, block, checkpoint, proof, publicKey, createdAt }
+ */
+export async function inclusionProof(seq: number, set?: VaultSetName): Promise<InclusionProof> {
+  await ensureMigrated(set);
+  const block = await currentBackend().find<Block>(chainCollection(set), { seq });
+  if (!block) throw new Error(`No block #${seq} in the audit chain.`);
+  // the covering checkpoint normally follows within CHECKPOINT_INTERVAL blocks; the first one of
+  // a chain older than checkpoints covers everything before it, so look further if needed
+  const covers = (b: Block) => {
+    const cp = parseCheckpoint(b);
+    return !!cp && cp.from <= seq && seq <= cp.to;
+  };
+  let checkpoint: Block | null = (await storage.loadChainRange(seq + 1, seq + CHECKPOINT_INTERVAL + 1, set)).find(covers) || null;
+  if (!checkpoint) {
+    await forEachBlock(set, 0, b => {
+      if (covers(b)) checkpoint = b;
+      return !checkpoint;
+    });
+  }
+  if (!checkpoint) {
+    throw new Error(`Block #${seq} is not covered by a checkpoint yet; one is written every ${CHECKPOINT_INTERVAL} blocks.`);
+  }
+  const cp = parseCheckpoint(checkpoint)!; // covers() parsed it
+  const covered = (await storage.loadChainRange(cp.from, cp.to, set)).map(b => b.blockHash || "");
+  const proof = await merkleProof(covered, covered.indexOf(block.blockHash || ""), sha256Hex);
+  const strip = (b: Block): Block => {
+    const copy = { ...b };
+    delete copy._raw;
+    return copy;
+  };
+  return {
+    format: "vaultx-inclusion-proof",
+    version: 1,
+    block: strip(block),
+    checkpoint: strip(checkpoint),
+    proof,
+    publicKey: await signingPublicKey(set),
+    createdAt: new Date().toISOString()
+  };
+}
+
+/**
+ * getHeadFingerprint()
+ * - returns last block's blockHash (or null)
+ */
+export async function getHeadFingerprint(set?: VaultSetName): Promise<string | null> {
+  const last = await headBlock(set);
+  return last ? last.blockHash || null : null;
+}
+
+/**
+ * headBlock(set) - the newest block, or null for an empty chain
+ */
+export async function headBlock(set?: VaultSetName): Promise<Block | null> {
+  await ensureMigrated(set);
+  const [last] = await currentBackend().tail<Block>(chainCollection(set), 1);
+  return last || null;
+}
+
+/**
+ * findBlock(blockHash, seq, set)
+ * - the block with that hash, or null when the chain does not hold it
+ * - with its seq it is one indexed lookup; without, the chain is searched a page at a time
+ */
+export async function findBlock(blockHash: string, seq?: number | null, set?: VaultSetName): Promise<Block | null> {
+  await ensureMigrated(set);
+  if (typeof seq === "number") {
+    const block = await currentBackend().find<Block>(chainCollection(set), { seq });
+    return block && block.blockHash === blockHash ? block : null;
+  }
+  let found: Block | null = null;
+  await forEachBlock(set, 0, b => {
+    if (b.blockHash === blockHash) found = b;
+    return !found;
+  });
+  return found;
+}
+
+/**
+ * latestBlockWithId(id, set) - the newest block whose `id` is id (an indexed field), or null
+ */
+export async function latestBlockWithId(id: string, set?: VaultSetName): Promise<Block | null> {
+  await ensureMigrated(set);
+  return currentBackend().find<Block>(chainCollection(set), { id });
+}
+
+/**
+ * exportChainFiles(outputDir)
+ * - writes JSONL and manifest to FileSystem.documentDirectory or cacheDirectory
+ * - returns { jsonlPath, manifestPath, chainHead }
+ */
+export async function exportChainFiles(): Promise<{ jsonlPath: string; manifestPath: string; chainHead: string | null }> {
+  const now = new Date().toISOString();
+  const base = `audit_${now.replace(/[:.]/g, "-")}`;
+  const dir = FileSystem.documentDirectory || FileSystem.cacheDirectory;
+  if (!dir) throw new Error("No filesystem directory available for export.");
+
+  const chain = await loadChain();
+  const lines = chain.map((r) => JSON.stringify(r));
+  const jsonlPath = `${dir}${base}.jsonl`;
+  await FileSystem.writeAsStringAsync(jsonlPath, lines.join("\n"), {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+
+  const verification = await verifyChain(undefined, { full: true });
+  const lastCheckpoint = [...chain].reverse().find(b => parseCheckpoint(b));
+  const manifest = {
+    exportedAt: now,
+    timezone: "UTC",
+    algorithms: { hash: "SHA-256", encryption: "Meowscript XChaCha20-Poly1305 (v2 entries), AES-256-CBC (v1 entries)", hmac: "HMAC-SHA256", signature: "Ed25519" },
+    count: chain.length,
+    chainHead: verification.head || null,
+    signing: { algorithm: "Ed25519", signs: "blockHash", publicKey: verification.publicKey || null },
+    verify: { ok: verification.ok, breaks: verification.breaks, badSignatures: verification.badSignatures, unsigned: verification.unsigned },
+    checkpoints: {
+      interval: CHECKPOINT_INTERVAL,
+      last: lastCheckpoint ? { seq: lastCheckpoint.seq, root: lastCheckpoint.hash, blockHash: lastCheckpoint.blockHash } : null
+    },
+  };
+
+  const manifestPath = `${dir}${base}.manifest.json`;
+  await FileSystem.writeAsStringAsync(manifestPath, JSON.stringify(manifest, null, 2), {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+
+  return { jsonlPath, manifestPath, chainHead: verification.head || null };
+}
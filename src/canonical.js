@@ -0,0 +1,275 @@
+// src/canonical.js
+// Block canonicalization, chain checks and Merkle checkpoints, shared by the app (src/blockchain.ts)
+// and the offline verifier (scripts/verify-chain.js) so the two cannot drift apart. CommonJS with
+// no imports, so plain Node can require it without a build step; hashing and signature checks are
+// passed in.
+
+/**
+ * Block fields that are hashed, in order: seq|ts|event|detail|id|file|hash|signature|prevHash.
+ * The signature slot is always empty: the signature is made over blockHash.
+ */
+function canonicalStringForBlock(b) {
+  const parts = [
+    String(b.seq || ""),
+    b.ts || "",
+    b.event || "",
+    b.detail || "",
+    b.id || "",
+    b.file || "",
+    b.hash || "",
+    "",
+    b.prevHash || ""
+  ];
+  return parts.join("|");
+}
+
+// events whose detail may carry "ed25519=<public key hex>": that block and the ones after it are signed with it
+const KEY_ANNOUNCING_EVENTS = ["signing_key_created", "wiped"];
+
+/**
+ * announcedKey(block) - public key hex announced by this block, or null
+ */
+function announcedKey(b) {
+  if (!KEY_ANNOUNCING_EVENTS.includes(b.event)) return null;
+  const m = /ed25519=([0-9a-f]{64})/.exec(b.detail || "");
+  return m ? m[1] : null;
+}
+
+/* ---------- Merkle checkpoints ---------- */
+
+/**
+ * Every CHECKPOINT_INTERVAL blocks the chain gets a "checkpoint" block whose hash field is the
+ * Merkle root over the blockHashes it covers (detail "from=<seq> to=<seq>": every block after the
+ * previous checkpoint, up to the one right before it). Leaves and nodes are domain-separated
+ * ("leaf|" / "node|"); an odd node at the end of a level moves up unchanged.
+ *
+ * Proof step: { side: "left" | "right", hash }  // side of the sibling
+ */
+const CHECKPOINT_INTERVAL = 64;
+
+function parseCheckpoint(b) {
+  if (!b || b.event !== "checkpoint") return null;
+  const m = /from=(\d+) to=(\d+)/.exec(b.detail || "");
+  return m ? { seq: b.seq, from: Number(m[1]), to: Number(m[2]), root: b.hash || null } : null;
+}
+
+async function merkleLevels(blockHashes, sha256Hex) {
+  let level = [];
+  for (const h of blockHashes) level.push(await sha256Hex(`leaf|${h}`));
+  const levels = [level];
+  while (level.length > 1) {
+    const next = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? await sha256Hex(`node|${level[i]}|${level[i + 1]}`) : level[i]);
+    }
+    levels.push(next);
+    level = next;
+  }
+  return levels;
+}
+
+/**
+ * merkleRoot(blockHashes, sha256Hex) - root hex, or null for no blocks
+ */
+async function merkleRoot(blockHashes, sha256Hex) {
+  if (!blockHashes.length) return null;
+  const levels = await merkleLevels(blockHashes, sha256Hex);
+  return levels[levels.length - 1][0];
+}
+
+/**
+ * merkleProof(blockHashes, index, sha256Hex) - sibling path from leaf `index` up to the root
+ * @returns {Promise<{ side: "left" | "right", hash: string }[]>}
+ */
+async function merkleProof(blockHashes, index, sha256Hex) {
+  const levels = await merkleLevels(blockHashes, sha256Hex);
+  const proof = [];
+  let i = index;
+  for (let l = 0; l < levels.length - 1; l++) {
+    const sibling = i % 2 ? i - 1 : i + 1;
+    if (sibling < levels[l].length) proof.push({ side: i % 2 ? "left" : "right", hash: levels[l][sibling] });
+    i = Math.floor(i / 2);
+  }
+  return proof;
+}
+
+/**
+ * rootFromProof(blockHash, proof, sha256Hex) - the root a proof leads to from one blockHash
+ */
+async function rootFromProof(blockHash, proof, sha256Hex) {
+  let h = await sha256Hex(`leaf|${blockHash}`);
+  for (const step of proof || []) {
+    h = step.side === "left" ? await sha256Hex(`node|${step.hash}|${h}`) : await sha256Hex(`node|${h}|${step.hash}`);
+  }
+  return h;
+}
+
+/**
+ * checkInclusionProof(doc, { sha256Hex, verifySignature, publicKeyHex, root })
+ * - doc: { block, checkpoint, proof, publicKey } as written by blockchain.inclusionProof
+ * - the block and checkpoint must hash to their blockHash, the checkpoint must cover the block and
+ *   the proof must lead to its root; root (a published checkpoint root), when given, must match too
+ * - signatures are checked with publicKeyHex, else doc.publicKey; null when there is none
+ * - returns { ok, blockValid, checkpointValid, proofValid, rootMatches, signaturesValid, root }
+ */
+async function checkInclusionProof(doc, { sha256Hex, verifySignature, publicKeyHex = null, root = null }) {
+  const block = (doc && doc.block) || {};
+  const checkpoint = (doc && doc.checkpoint) || {};
+  const cp = parseCheckpoint(checkpoint);
+  const blockValid = !!block.blockHash && (await sha256Hex(canonicalStringForBlock(block))) === block.blockHash;
+  const checkpointValid = !!cp && !!checkpoint.blockHash && (await sha256Hex(canonicalStringForBlock(checkpoint))) === checkpoint.blockHash &&
+    block.seq >= cp.from && block.seq <= cp.to;
+  const proofValid = !!cp && !!block.blockHash && (await rootFromProof(block.blockHash, doc.proof, sha256Hex)) === cp.root;
+  const rootMatches = !root || (!!cp && cp.root === root);
+
+  const key = publicKeyHex || (doc && doc.publicKey) || null;
+  let signaturesValid = null;
+  if (key && (block.signature || checkpoint.signature)) {
+    signaturesValid = [block, checkpoint].every(b => !!b.signature && !!verifySignature(b.signature, b.blockHash, key));
+  }
+  return {
+    ok: blockValid && checkpointValid && proofValid && rootMatches && signaturesValid !== false,
+    blockValid,
+    checkpointValid,
+    proofValid,
+    rootMatches,
+    signaturesValid,
+    root: cp ? cp.root : null
+  };
+}
+
+/* ---------- chain checks ---------- */
+
+/**
+ * checkBlocks(chain, { sha256Hex, verifySignature, publicKeyHex, anchor })
+ * - chain: blocks oldest-first
+ * - anchor: a trusted checkpoint the chain continues from ({ seq, blockHash, signer, seenSigned },
+ *   as returned in lastCheckpoint); without it the chain is checked from genesis
+ * - sha256Hex(string) -> hex (may be async); verifySignature(signatureHex, messageHex, publicKeyHex) -> bool
+ * - each signature is checked against the key last announced at or before its block; publicKeyHex
+ *   (the expected signer) covers signed blocks before any announcement and, when given, must be the
+ *   key the chain announces last, so a chain re-signed with someone else's key does not pass
+ * - blocks before the first signed one may be unsigned (chains older than signing); after it, a
+ *   missing signature counts as bad, so signatures cannot be stripped and hashes recomputed
+ * - with publicKeyHex, the chain must announce that key (or continue from an anchor that did):
+ *   only the blocks before its announcement may be unsigned, so a chain rebuilt without any
+ *   signatures does not pass
+ * - every checkpoint must cover the blocks since the previous one with the right Merkle root
+ * - returns { ok, linksOk, signaturesOk, checkpointsOk, breaks, badSignatures, unsigned,
+ *   checkpoints, badCheckpoints, publicKey, head, lastCheckpoint,
+ *   details: [{ seq, computed, stored, prevStored, prevMatches, blockMatches, signatureValid, checkpointValid? }] }
+ *   signatureValid is null for an allowed unsigned block; publicKey is the current signer;
+ *   lastCheckpoint is { seq, blockHash, signer, seenSigned } of the last checkpoint (or the anchor)
+ */
+async function checkBlocks(chain, options) {
+  const checker = createBlockChecker(options);
+  for (const r of chain || []) await checker.push(r);
+  return checker.result();
+}
+
+/**
+ * createBlockChecker({ sha256Hex, verifySignature, publicKeyHex, anchor, keepDetails })
+ * - checkBlocks() a block at a time, for chains read page by page: push(block) in chain order,
+ *   then result(); only the hashes since the last checkpoint are held, plus the details unless
+ *   keepDetails is false (details is then empty)
+ * @param {{ sha256Hex: (input: string) => string | Promise<string>,
+ *   verifySignature: (signatureHex: string, messageHex: string, publicKeyHex: string) => boolean,
+ *   publicKeyHex?: string | null, anchor?: import("./types").ChainAnchor | null, keepDetails?: boolean }} options
+ */
+function createBlockChecker({ sha256Hex, verifySignature, publicKeyHex = null, anchor = null, keepDetails = true }) {
+  let prev = anchor ? anchor.blockHash : null;
+  let breaks = 0;
+  let badSignatures = 0;
+  let unsigned = 0;
+  let signer = anchor ? anchor.signer || null : null;
+  let seenSigned = anchor ? !!anchor.seenSigned : false;
+  let checkpoints = 0;
+  let badCheckpoints = 0;
+  let lastCheckpoint = anchor || null;
+  let firstSeq = null;
+  const hashesBySeq = new Map(); // blocks since the last checkpoint
+  const details = [];
+
+  async function push(r) {
+    if (firstSeq === null) firstSeq = r.seq;
+    const computed = await sha256Hex(canonicalStringForBlock(r));
+    const prevMatches = ((r.prevHash || "") === (prev || ""));
+    const blockMatches = ((r.blockHash || "") === (computed || ""));
+    if (!prevMatches || !blockMatches) breaks++;
+
+    signer = announcedKey(r) || signer;
+    const key = signer || publicKeyHex || null;
+    let signatureValid = null;
+    if (r.signature) {
+      seenSigned = true;
+      signatureValid = !!key && !!verifySignature(r.signature, computed, key);
+    } else if (seenSigned || signer) {
+      signatureValid = false;
+    } else {
+      unsigned++;
+    }
+    if (signatureValid === false) badSignatures++;
+
+    const detail = {
+      seq: r.seq,
+      computed,
+      stored: r.blockHash || null,
+      prevStored: r.prevHash || null,
+      prevMatches,
+      blockMatches,
+      signatureValid
+    };
+    const cp = r.event === "checkpoint" ? parseCheckpoint(r) : null;
+    if (r.event === "checkpoint") {
+      checkpoints++;
+      const covered = [];
+      for (let s = cp ? cp.from : 1; cp && s <= cp.to; s++) covered.push(hashesBySeq.get(s));
+      detail.checkpointValid = !!cp && cp.to === r.seq - 1 && cp.from === (lastCheckpoint ? lastCheckpoint.seq + 1 : firstSeq) &&
+        covered.length > 0 && covered.every(Boolean) && (await merkleRoot(covered, sha256Hex)) === cp.root;
+      if (!detail.checkpointValid) badCheckpoints++;
+    }
+    if (keepDetails) details.push(detail);
+    prev = r.blockHash || computed || null;
+    hashesBySeq.set(r.seq, prev);
+    if (cp) {
+      lastCheckpoint = { seq: r.seq, blockHash: prev, signer, seenSigned };
+      hashesBySeq.clear();
+    }
+  }
+
+  function result() {
+    const keyMatches = !publicKeyHex || signer === publicKeyHex;
+    const signaturesOk = badSignatures === 0 && keyMatches;
+    return {
+      ok: breaks === 0 && signaturesOk && badCheckpoints === 0,
+      linksOk: breaks === 0,
+      signaturesOk,
+      checkpointsOk: badCheckpoints === 0,
+      breaks,
+      badSignatures,
+      unsigned,
+      checkpoints,
+      badCheckpoints,
+      publicKey: signer || publicKeyHex || null,
+      head: prev,
+      lastCheckpoint,
+      details
+    };
+  }
+
+  return { push, result };
+}
+
+module.exports = {
+  CHECKPOINT_INTERVAL,
+  KEY_ANNOUNCING_EVENTS,
+  canonicalStringForBlock,
+  announcedKey,
+  parseCheckpoint,
+  merkleRoot,
+  merkleProof,
+  rootFromProof,
+  checkInclusionProof,
+  checkBlocks,
+  createBlockChecker
+};
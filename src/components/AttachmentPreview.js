@@ -0,0 +1,23 @@
+// src/components/AttachmentPreview.js
+import React from "react";
+import { View, Text, Modal, TouchableOpacity, Image } from "react-native";
+import styles from "../styles";
+
+/**
+ * AttachmentPreview - shows a decrypted image from the cache; onClose must discard the file
+ */
+export default function AttachmentPreview({ visible, uri, name, onClose }) {
+  return (
+    <Modal visible={visible} animationType="fade" transparent>
+      <View style={styles.modalBackdrop}>
+        <View style={styles.modalBoxLarge}>
+          <Text style={styles.modalTitle} numberOfLines={1}>{name || "Attachment"}</Text>
+          {uri ? <Image source={{ uri }} style={{ width: "100%", height: 360 }} resizeMode="contain" /> : null}
+          <TouchableOpacity style={[styles.buttonPrimary, { marginTop: 12 }]} onPress={onClose}>
+            <Text style={styles.buttonText}>Close (delete decrypted copy)</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -5,7 +5,7 @@ import {
   Modal,
   Text,
   TouchableOpacity,
-  ScrollView,
+  FlatList,
   Alert,
   Platform,
 } from "react-native";
@@ -13,8 +13,9 @@ import * as SecureStore from "expo-secure-store";
 import * as FileSystem from "expo-file-system";
 import * as ExpoCrypto from "expo-crypto";
 import styles from "../styles";
-import { loadTamperLog } from "../storage";
+import { VAULT_SETS, activeVaultSet, loadTamperLogPage } from "../storage";
 import { shortHex } from "../crypto";
+import { whileAway } from "../autolock";
 import * as blockchain from "../blockchain";
 // const result = await blockchain.verifyChain();
 
@@ -27,30 +28,72 @@ try {
   Sharing = null;
 }
 
+// events loaded per page of the log list
+const LOG_PAGE = 100;
+
+/**
+ * normalizeBlock(r) - a tamper log entry in canonical form (pre-chain items use timestamp / message)
+ * @returns {import("../types").Block}
+ */
+function normalizeBlock(r) {
+  const tsISO = (() => {
+    try {
+      const d = new Date(r.ts || r.timestamp || "");
+      return isNaN(d.getTime()) ? (r.ts || r.timestamp || "") : d.toISOString();
+    } catch (e) {
+      return r.ts || r.timestamp || "";
+    }
+  })();
+
+  return {
+    seq: r.seq,
+    ts: tsISO,
+    event: r.event || "event",
+    detail: r.detail || r.message || "",
+    id: r.id,
+    file: r.file,
+    hash: r.hash,
+    custody: r.custody,
+    signature: r.signature,
+    prevHash: r.prevHash,
+    blockHash: r.blockHash,
+    _raw: r,
+  };
+}
+
 /**
  * AuditModal
  * Props:
  *  - visible (bool)
  *  - onClose (fn)
- *  - meta (object) - { pbkdf2Iterations, created, saltTruncated, ... }
+ *  - meta (object) - { kdf, pbkdf2Iterations (legacy), created, saltTruncated, recoveryCodes, ... }
  *  - lastVerifiedAt (string)
  *
- * Expected tamper log entries (best-effort):
+ * The log is read a page at a time (newest first) as it is scrolled; verification and export read
+ * the chain themselves.
+ *
+ * Tamper log entries are Blocks (types.ts), read best-effort:
  * {
  *   seq, ts (ISO), event, detail?, id?, file?, hash?, custody?, signature?, prevHash?, blockHash?
  * }
  */
 export default function AuditModal({ visible, onClose, meta = {}, lastVerifiedAt }) {
-  const [tamperLog, setTamperLog] = useState([]);
+  const [tamperLog, setTamperLog] = useState([]); // loaded pages, newest-first
+  const [logTotal, setLogTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [verifying, setVerifying] = useState(false);
-  const [verifyStatus, setVerifyStatus] = useState(null); // { ok: bool, breaks: number, head: string | null }
+  const [verifyStatus, setVerifyStatus] = useState(/** @type {import("../types").VerifyResult | null} */ (null));
   const [showFull, setShowFull] = useState(false);
   const [headFingerprint, setHeadFingerprint] = useState("n/a");
 
+  // real KDF + parameters from the vault's stored spec; pbkdf2Iterations is the legacy prop
+  const kdfLabel = (meta && meta.kdf) || (meta && meta.pbkdf2Iterations ? `PBKDF2(${meta.pbkdf2Iterations})` : "stored");
+
   // Try to optionally load app crypto helpers (you don't require a sign function).
   let appCrypto = null;
   try {
-    // from src/crypto.js - available helpers: shortHex, hexToWordArray, etc.
+    // from src/crypto.ts - available helpers: shortHex, hexToWordArray, etc.
     // dynamic require path: component is at src/components -> crypto at ../crypto
     // eslint-disable-next-line global-require
     appCrypto = require("../crypto");
@@ -69,65 +112,27 @@ export default function AuditModal({ visible, onClose, meta = {}, lastVerifiedAt
     }
   };
 
-  // optional signing if you later add signEd25519 to crypto.js and store private key in SecureStore
-  const ed25519SignIfAvailable = async (msgHex) => {
+  // Ed25519 seed of the open vault set's chain (hex), or null for vaults from before signing
+  const readSigningSeed = async () => {
     try {
-      if (appCrypto && typeof appCrypto.signEd25519 === "function") {
-        const priv = await SecureStore.getItemAsync("AUDIT_SIGNING_PRIV"); // hex/base64 private key
-        if (!priv) return null;
-        // expect signEd25519(msgHex, priv) -> signature hex or base64
-        const sig = await appCrypto.signEd25519(msgHex, priv);
-        return sig || null;
-      }
+      return await SecureStore.getItemAsync(VAULT_SETS[activeVaultSet()].signingKey);
     } catch (e) {
-      // ignore
+      return null;
     }
-    return null;
   };
 
-  // Normalize tamper log entries to a canonical form
-  const normalized = useMemo(() => {
-    return (tamperLog || []).map((r, i) => {
-      const tsISO = (() => {
-        try {
-          const d = new Date(r.ts || r.timestamp || "");
-          return isNaN(d.getTime()) ? (r.ts || r.timestamp || "") : d.toISOString();
-        } catch (e) {
-          return r.ts || r.timestamp || "";
-        }
-      })();
-
-      return {
-        seq: typeof r.seq === "number" ? r.seq : i + 1,
-        ts: tsISO,
-        event: r.event || "event",
-        detail: r.detail || r.message || "",
-        id: r.id,
-        file: r.file,
-        hash: r.hash,
-        custody: r.custody,
-        signature: r.signature,
-        prevHash: r.prevHash,
-        blockHash: r.blockHash,
-        _raw: r,
-      };
-    });
-  }, [tamperLog]);
-
-  // chain head from normalized array (last item blockHash)
-  const chainHead = useMemo(() => {
-    if (!normalized || normalized.length === 0) return null;
-    return normalized[normalized.length - 1].blockHash || null;
-  }, [normalized]);
+  const normalized = useMemo(() => (tamperLog || []).map(normalizeBlock), [tamperLog]);
 
   // Refresh log when modal shows
     useEffect(() => {
       if (!visible) return;
       (async () => {
         try {
-          // Load raw tamper log (existing storage)
-          const log = await loadTamperLog();
-          setTamperLog(Array.isArray(log) ? log : []);
+          // First page of the tamper log; the rest loads as the list is scrolled
+          const page = await loadTamperLogPage(null, LOG_PAGE);
+          setTamperLog(page.items);
+          setLogTotal(page.total);
+          setNextCursor(page.nextCursor);
           // Reset verification status on open
           setVerifyStatus(null);
   
@@ -137,14 +142,16 @@ export default function AuditModal({ visible, onClose, meta = {}, lastVerifiedAt
               const head = await blockchain.getHeadFingerprint();
               setHeadFingerprint(head || "n/a");
             } catch (e) {
-              // fallback to computed chainHead (may be "n/a")
-              setHeadFingerprint(chainHead || "n/a");
+              // fallback to the newest loaded block (may be "n/a")
+              setHeadFingerprint((page.items[0] && page.items[0].blockHash) || "n/a");
             }
           } else {
-            setHeadFingerprint(chainHead || "n/a");
+            setHeadFingerprint((page.items[0] && page.items[0].blockHash) || "n/a");
           }
         } catch (e) {
           setTamperLog([]);
+          setLogTotal(0);
+          setNextCursor(null);
           setHeadFingerprint("n/a");
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -152,72 +159,45 @@ export default function AuditModal({ visible, onClose, meta = {}, lastVerifiedAt
     }, [visible]);
   
 
-  // Compute the canonical block hash for an entry using the same blueprint
-  // blueprint: seq|ts|event|detail|id|file|hash|signature|prevHash
-  const computeBlockHash = async (r) => {
-    const mat = [
-      String(r.seq),
-      r.ts || "",
-      r.event || "",
-      r.detail || "",
-      r.id || "",
-      r.file || "",
-      r.hash || "",
-      r.signature || "",
-      r.prevHash || "",
-    ].join("|");
-    return await sha256Hex(mat);
+  // Next (older) page of the log, when the list nears its end
+  const loadMore = async () => {
+    if (nextCursor === null || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await loadTamperLogPage(nextCursor, LOG_PAGE);
+      setTamperLog((loaded) => loaded.concat(page.items));
+      setLogTotal(page.total);
+      setNextCursor(page.nextCursor);
+    } finally {
+      setLoadingMore(false);
+    }
   };
 
-  // Verify chain function
-    // Verify chain function - prefer blockchain.verifyChain() if available
-    const verifyChain = async () => {
-      setVerifying(true);
-      try {
-        // If blockchain module present, use its verifyChain (reads storage internally)
-        if (blockchain && typeof blockchain.verifyChain === "function") {
-          const res = await blockchain.verifyChain();
-          // res: { ok, breaks, head, details }
-          setVerifyStatus({ ok: !!res.ok, breaks: res.breaks || 0, head: res.head || null });
-          setHeadFingerprint(res.head || "n/a");
-          return;
-        }
-  
-        // Fallback: verify using normalized array (your previous logic)
-        if (!normalized || normalized.length === 0) {
-          setVerifyStatus({ ok: true, breaks: 0, head: null });
-          setHeadFingerprint(null);
-          return;
-        }
-  
-        // Check SHA-256 availability via ExpoCrypto
-        const test = await sha256Hex("");
-        if (!test) {
-          setVerifyStatus({ ok: false, breaks: normalized.length, head: chainHead });
-          Alert.alert("Verification unavailable", "SHA-256 is not available.");
-          return;
-        }
-  
-        let breaks = 0;
-        let prev = null;
-        for (let i = 0; i < normalized.length; i++) {
-          const r = normalized[i];
-          const computed = await computeBlockHash(r);
-          const prevMatches = (r.prevHash || "") === (prev || "");
-          const blockMatches = (r.blockHash || "") === (computed || "");
-          if (!prevMatches || !blockMatches) breaks++;
-          prev = r.blockHash || computed || null;
-        }
-        setVerifyStatus({ ok: breaks === 0, breaks, head: prev });
-        setHeadFingerprint(prev || null);
-      } catch (e) {
-        setVerifyStatus({ ok: false, breaks: normalized.length, head: chainHead });
-        Alert.alert("Verification error", e?.message || String(e));
-      } finally {
-        setVerifying(false);
-      }
-    };
-  
+  // Verify chain - blockchain.verifyChain() reads the chain from storage a page at a time
+  const verifyChain = async () => {
+    setVerifying(true);
+    try {
+      const res = await blockchain.verifyChain();
+      // res: { ok, breaks, badSignatures, unsigned, badCheckpoints, head, publicKey, verifiedFrom }
+      setVerifyStatus({
+        ok: !!res.ok,
+        breaks: res.breaks || 0,
+        head: res.head || null,
+        signaturesOk: res.signaturesOk !== false,
+        badSignatures: res.badSignatures || 0,
+        unsigned: res.unsigned || 0,
+        publicKey: res.publicKey || null,
+        badCheckpoints: res.badCheckpoints || 0,
+        verifiedFrom: res.incremental ? res.verifiedFrom : null,
+      });
+      setHeadFingerprint(res.head || "n/a");
+    } catch (e) {
+      setVerifyStatus({ ok: false, breaks: logTotal, head: null });
+      Alert.alert("Verification error", e?.message || String(e));
+    } finally {
+      setVerifying(false);
+    }
+  };
 
   // Export evidence (JSONL + manifest + optional signature file)
   const exportEvidence = async () => {
@@ -227,8 +207,10 @@ export default function AuditModal({ visible, onClose, meta = {}, lastVerifiedAt
       const dir = FileSystem.cacheDirectory || FileSystem.documentDirectory;
       if (!dir) throw new Error("No writable directory available on this platform.");
 
-      // JSONL: one JSON object per line
-      const lines = normalized.map((r) =>
+      // JSONL: one JSON object per line, newest-first like the list; the whole chain, not just the loaded pages
+      const chain = await blockchain.loadChain();
+      const head = chain.length ? chain[chain.length - 1].blockHash || null : null;
+      const lines = [...chain].reverse().map(normalizeBlock).map((r) =>
         JSON.stringify({
           seq: r.seq,
           ts: r.ts,
@@ -256,19 +238,22 @@ export default function AuditModal({ visible, onClose, meta = {}, lastVerifiedAt
         algorithms: {
           encryption: "AES-256-CBC",
           hmac: "HMAC-SHA256",
-          kdf: `PBKDF2(${(meta && meta.pbkdf2Iterations) || "stored"})`,
+          kdf: kdfLabel,
           hash: "SHA-256",
-          signature: "Ed25519 (optional)",
+          signature: "Ed25519 over blockHash",
         },
         created: (meta && meta.created) || "stored",
         saltTruncated: (meta && meta.saltTruncated) || "stored",
         lastVerifiedAt: lastVerifiedAt || "never",
       };
 
+      const seed = await readSigningSeed();
+      const publicKey = seed && appCrypto ? appCrypto.ed25519PublicKey(seed) : null;
       const manifest = {
         header,
-        count: normalized.length,
-        chainHead: (verifyStatus && verifyStatus.head) || chainHead || null,
+        count: chain.length,
+        chainHead: head,
+        signing: { algorithm: "Ed25519", signs: "blockHash", publicKey },
       };
 
       const manifestPath = `${dir}${baseName}.manifest.json`;
@@ -276,27 +261,22 @@ export default function AuditModal({ visible, onClose, meta = {}, lastVerifiedAt
         encoding: FileSystem.EncodingType.UTF8,
       });
 
-      // Optional detached signature: hash JSONL and attempt to sign (if signEd25519 exists)
+      // Detached signature over the JSONL hash with the chain's signing key (vaults from before signing have none)
       let sigPath = null;
       const jsonlData = await FileSystem.readAsStringAsync(jsonlPath, { encoding: FileSystem.EncodingType.UTF8 });
       const jsonlHash = await sha256Hex(jsonlData || "");
-      // try to sign via appCrypto.signEd25519 if present
-      if (appCrypto && typeof appCrypto.signEd25519 === "function") {
-        const priv = await SecureStore.getItemAsync("AUDIT_SIGNING_PRIV");
-        if (priv) {
-          try {
-            const sig = await appCrypto.signEd25519(jsonlHash, priv);
-            if (sig) {
-              sigPath = `${dir}${baseName}.jsonl.sig`;
-              await FileSystem.writeAsStringAsync(
-                sigPath,
-                JSON.stringify({ algo: "Ed25519", hashAlgo: "SHA-256", jsonlHash, signature: sig }, null, 2),
-                { encoding: FileSystem.EncodingType.UTF8 }
-              );
-            }
-          } catch (e) {
-            // signing failed; continue without signature
-          }
+      if (seed && appCrypto && jsonlHash) {
+        try {
+          const sig = appCrypto.signEd25519(jsonlHash, seed);
+          sigPath = `${dir}${baseName}.jsonl.sig`;
+          await FileSystem.writeAsStringAsync(
+            sigPath,
+            JSON.stringify({ algo: "Ed25519", hashAlgo: "SHA-256", jsonlHash, publicKey, signature: sig }, null, 2),
+            { encoding: FileSystem.EncodingType.UTF8 }
+          );
+        } catch (e) {
+          // signing failed; continue without signature
+          sigPath = null;
         }
       }
 
@@ -307,7 +287,7 @@ export default function AuditModal({ visible, onClose, meta = {}, lastVerifiedAt
         const available = await Sharing.isAvailableAsync();
         if (available) {
           // share the primary JSONL file; user can access manifest/sig from same folder
-          await Sharing.shareAsync(jsonlPath, { mimeType: "text/plain" });
+          await whileAway(() => Sharing.shareAsync(jsonlPath, { mimeType: "text/plain" }));
         } else {
           Alert.alert("Export saved", `Files saved to: ${dir}\n${baseName}.jsonl\n${baseName}.manifest.json${sigPath ? `\n${baseName}.jsonl.sig` : ""}`);
         }
@@ -319,6 +299,24 @@ export default function AuditModal({ visible, onClose, meta = {}, lastVerifiedAt
     }
   };
 
+  // Export one event with its Merkle inclusion proof (checked by scripts/verify-chain.js --proof)
+  const exportEventProof = async (seq) => {
+    try {
+      const doc = await blockchain.inclusionProof(seq);
+      const dir = FileSystem.cacheDirectory || FileSystem.documentDirectory;
+      if (!dir) throw new Error("No writable directory available on this platform.");
+      const path = `${dir}audit_event_${seq}_${doc.createdAt.replace(/[:.]/g, "-")}.proof.json`;
+      await FileSystem.writeAsStringAsync(path, JSON.stringify(doc, null, 2), { encoding: FileSystem.EncodingType.UTF8 });
+      if (Platform.OS !== "web" && Sharing && typeof Sharing.isAvailableAsync === "function" && (await Sharing.isAvailableAsync())) {
+        await whileAway(() => Sharing.shareAsync(path, { mimeType: "application/json" }));
+      } else {
+        Alert.alert("Proof saved", `Event #${seq} and its proof saved to:\n${path}\nCheckpoint root: ${doc.checkpoint.hash}`);
+      }
+    } catch (e) {
+      Alert.alert("Proof export failed", e?.message || "Unknown error");
+    }
+  };
+
   // short helper for display
   const short = (v, left = 10, right = 10) =>
     !v ? "n/a" : (v.length <= left + right + 3 ? v : `${v.slice(0, left)}...${v.slice(-right)}`);
@@ -345,8 +343,13 @@ export default function AuditModal({ visible, onClose, meta = {}, lastVerifiedAt
               ENC: AES-256-CBC | MAC: HMAC-SHA256
             </Text>
             <Text style={{ color: "#9ad4a5", fontFamily: "monospace", marginTop: 2 }}>
-              KDF: PBKDF2({(meta && meta.pbkdf2Iterations) || "stored"})
+              KDF: {kdfLabel}
             </Text>
+            {meta && typeof meta.recoveryCodes === "number" ? (
+              <Text style={{ color: meta.recoveryCodes > 0 ? "#9ad4a5" : "#ff9b9b", fontFamily: "monospace", marginTop: 2 }}>
+                Recovery codes: {meta.recoveryCodes} remaining
+              </Text>
+            ) : null}
             <Text style={{ color: "#9ad4a5", fontFamily: "monospace", marginTop: 2 }}>
               Created: {(meta && meta.created) || "stored"} | Salt: {(meta && meta.saltTruncated) || "stored"}
             </Text>
@@ -357,22 +360,38 @@ export default function AuditModal({ visible, onClose, meta = {}, lastVerifiedAt
               Chain Head: {displayHead}
             </Text>
             {verifyStatus && (
-              <Text style={{ color: verifyStatus.ok ? "#8cffb7" : "#ff6262", fontFamily: "monospace", marginTop: 2 }}>
-                Chain Status: {verifyStatus.ok ? "OK" : `BREAKS: ${verifyStatus.breaks}`}
+              <Text style={{ color: verifyStatus.breaks === 0 ? "#8cffb7" : "#ff6262", fontFamily: "monospace", marginTop: 2 }}>
+                Chain Status: {verifyStatus.breaks === 0 ? "OK" : `BREAKS: ${verifyStatus.breaks}`}
+                {verifyStatus.badCheckpoints ? ` | BAD CHECKPOINTS: ${verifyStatus.badCheckpoints}` : ""}
+                {verifyStatus.verifiedFrom ? ` (from checkpoint, #${verifyStatus.verifiedFrom} on)` : ""}
+              </Text>
+            )}
+            {verifyStatus && typeof verifyStatus.signaturesOk === "boolean" && (
+              <Text style={{ color: verifyStatus.signaturesOk ? "#8cffb7" : "#ff6262", fontFamily: "monospace", marginTop: 2 }}>
+                Signatures: {verifyStatus.signaturesOk ? "OK" : verifyStatus.badSignatures ? `BAD: ${verifyStatus.badSignatures}` : "SIGNER MISMATCH"}
+                {verifyStatus.unsigned ? ` (${verifyStatus.unsigned} unsigned, pre-signing)` : ""}
+                {verifyStatus.publicKey ? ` | Key: ${short(verifyStatus.publicKey, 8, 8)}` : ""}
               </Text>
             )}
           </View>
 
-          <ScrollView style={{ maxHeight: 380, backgroundColor: "#0d0d0d", padding: 10, marginTop: 10 }}>
+          <View style={{ backgroundColor: "#0d0d0d", padding: 10, marginTop: 10 }}>
             <Text style={{ color: "#6cff82", fontFamily: "monospace" }}>
-              LOG ({normalized.length})
+              LOG ({logTotal})
             </Text>
 
-            <View style={{ marginTop: 6 }}>
-              {normalized.map((log) => {
+            <FlatList
+              style={{ maxHeight: 360, marginTop: 6 }}
+              data={normalized}
+              keyExtractor={(log, i) => `${log.seq}-${log.ts}-${i}`}
+              initialNumToRender={20}
+              windowSize={7}
+              onEndReached={loadMore}
+              onEndReachedThreshold={0.5}
+              renderItem={({ item: log }) => {
                 const c = colorForEvent(log.event);
                 return (
-                  <View key={`${log.seq}-${log.ts}`} style={{ marginBottom: 8 }}>
+                  <TouchableOpacity style={{ marginBottom: 8 }} onLongPress={() => exportEventProof(log.seq)}>
                     <Text style={{ fontFamily: "monospace", color: c }}>
                       [{log.seq}] {log.ts} • {log.event}
                       {log.detail ? ` (${log.detail})` : ""}{log.id ? ` • id=${log.id}` : ""}
@@ -388,11 +407,14 @@ export default function AuditModal({ visible, onClose, meta = {}, lastVerifiedAt
                         {log.custody ? `custody="${log.custody}"  ` : ""}{log.signature ? `sig=${showFull ? log.signature : short(log.signature, 8, 8)}` : ""}
                       </Text>
                     ) : null}
-                  </View>
+                  </TouchableOpacity>
                 );
-              })}
-            </View>
-          </ScrollView>
+              }}
+              ListFooterComponent={
+                loadingMore ? <Text style={{ color: "#7f8c8d", fontFamily: "monospace" }}>loading…</Text> : null
+              }
+            />
+          </View>
 
           <View style={{ flexDirection: "row", marginTop: 12 }}>
             <TouchableOpacity
@@ -420,7 +442,7 @@ export default function AuditModal({ visible, onClose, meta = {}, lastVerifiedAt
 
           <View style={{ marginTop: 10 }}>
             <Text style={{ color: "#7f8c8d", fontSize: 12 }}>
-              Tip: Record the Chain Head fingerprint externally to strengthen provenance (email it to yourself or print).
+              Tip: Record the Chain Head fingerprint externally to strengthen provenance (email it to yourself or print). Long-press an event to export it with a proof against its checkpoint.
             </Text>
           </View>
 
@@ -0,0 +1,61 @@
+// src/components/AutoLockModal.js
+import React, { useEffect, useState } from "react";
+import { View, Text, Modal, TouchableOpacity } from "react-native";
+import { GRACE_CHOICES, IDLE_CHOICES } from "../autolock";
+import styles from "../styles";
+
+/**
+ * AutoLockModal
+ * - settings: current auto-lock settings (see src/autolock.js), edited locally until Save
+ * - onSave(settings)
+ */
+export default function AutoLockModal({ visible, settings, onCancel, onSave }) {
+  const [draft, setDraft] = useState(settings);
+
+  useEffect(() => {
+    if (visible) setDraft(settings);
+  }, [visible, settings]);
+
+  if (!draft) return null;
+  const set = (patch) => setDraft({ ...draft, ...patch });
+  const chip = (active, label, onPress) => (
+    <TouchableOpacity key={label} style={[styles.smallBtn, styles.tagChip, active && styles.tagChipActive]} onPress={onPress}>
+      <Text style={styles.smallBtnText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent>
+      <View style={styles.modalBackdrop}>
+        <View style={styles.modalBox}>
+          <Text style={styles.modalTitle}>Auto-Lock</Text>
+
+          <Text style={{ color: "#bfe", marginBottom: 6 }}>Lock after no touches for</Text>
+          <View style={{ flexDirection: "row", flexWrap: "wrap" }}>
+            {IDLE_CHOICES.map(m => chip(draft.idleMinutes === m, m ? `${m} min` : "Never", () => set({ idleMinutes: m })))}
+          </View>
+
+          <Text style={{ color: "#bfe", marginTop: 12, marginBottom: 6 }}>When the app leaves the foreground</Text>
+          <View style={{ flexDirection: "row", flexWrap: "wrap" }}>
+            {chip(draft.onBackground, `${draft.onBackground ? "[x]" : "[ ]"} Lock in background`, () => set({ onBackground: !draft.onBackground }))}
+            {chip(draft.onScreenOff, `${draft.onScreenOff ? "[x]" : "[ ]"} Lock on screen off`, () => set({ onScreenOff: !draft.onScreenOff }))}
+          </View>
+
+          <Text style={{ color: "#bfe", marginTop: 12, marginBottom: 6 }}>Grace period for quick app switches</Text>
+          <View style={{ flexDirection: "row", flexWrap: "wrap" }}>
+            {GRACE_CHOICES.map(s => chip(draft.graceSeconds === s, s ? `${s}s` : "None", () => set({ graceSeconds: s })))}
+          </View>
+
+          <View style={{ flexDirection: "row", marginTop: 12 }}>
+            <TouchableOpacity style={[styles.buttonSecondary, { flex: 1, marginRight: 8 }]} onPress={onCancel}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.buttonPrimary, { flex: 1 }]} onPress={() => onSave(draft)}>
+              <Text style={styles.buttonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
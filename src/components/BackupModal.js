@@ -0,0 +1,57 @@
+// src/components/BackupModal.js
+import React, { useState } from "react";
+import { View, Text, Modal, TouchableOpacity, TextInput } from "react-native";
+import styles from "../styles";
+
+/**
+ * BackupModal
+ * - mode "create": backup passphrase + confirmation, onConfirm({ passphrase, confirm })
+ * - mode "restore": passphrase for the picked bundle (fileName), onConfirm({ passphrase })
+ * - onConfirm resolves true when done, which clears the fields
+ */
+export default function BackupModal({ visible, mode, fileName = "", onCancel, onConfirm }) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const restoring = mode === "restore";
+
+  const reset = () => {
+    setPassphrase("");
+    setConfirm("");
+  };
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent>
+      <View style={styles.modalBackdrop}>
+        <View style={styles.modalBox}>
+          <Text style={styles.modalTitle}>{restoring ? "Restore Backup" : "Backup Vault"}</Text>
+          <Text style={{ color: "#bfe", marginBottom: 8 }}>
+            {restoring
+              ? `${fileName || "Backup"} is checked in full before anything on this device is replaced. The vault passphrase will be the one in use when the backup was made.`
+              : "Entries, attachments, the key slot and the audit chain are sealed into one .vaultx file under a separate backup passphrase."}
+          </Text>
+
+          <TextInput secureTextEntry value={passphrase} onChangeText={setPassphrase} placeholder="Backup passphrase" placeholderTextColor="#4f6c5a" style={styles.input} />
+          {!restoring ? (
+            <TextInput secureTextEntry value={confirm} onChangeText={setConfirm} placeholder="Confirm backup passphrase" placeholderTextColor="#4f6c5a" style={[styles.input, { marginTop: 8 }]} />
+          ) : null}
+
+          <View style={{ flexDirection: "row", marginTop: 12 }}>
+            <TouchableOpacity style={[styles.buttonSecondary, { flex: 1, marginRight: 8 }]} onPress={() => { reset(); onCancel(); }}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.buttonPrimary, { flex: 1 }]}
+              onPress={async () => {
+                const done = await onConfirm(restoring ? { passphrase } : { passphrase, confirm });
+                if (done) reset();
+              }}
+            >
+              <Text style={styles.buttonText}>{restoring ? "Verify & Restore" : "Create Backup"}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
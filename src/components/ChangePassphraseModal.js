@@ -0,0 +1,49 @@
+// src/components/ChangePassphraseModal.js
+import React, { useState } from "react";
+import { View, Text, Modal, TouchableOpacity, TextInput } from "react-native";
+import styles from "../styles";
+
+export default function ChangePassphraseModal({ visible, onCancel, onConfirm }) {
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirm, setConfirm] = useState("");
+
+  const reset = () => {
+    setCurrent("");
+    setNext("");
+    setConfirm("");
+  };
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent>
+      <View style={styles.modalBackdrop}>
+        <View style={styles.modalBox}>
+          <Text style={styles.modalTitle}>Change Passphrase</Text>
+          <Text style={{ color: "#bfe", marginBottom: 8 }}>
+            The master key is rewrapped under the new passphrase. Entries are not re-encrypted.
+          </Text>
+
+          <TextInput secureTextEntry value={current} onChangeText={setCurrent} placeholder="Current passphrase" placeholderTextColor="#4f6c5a" style={styles.input} />
+          <TextInput secureTextEntry value={next} onChangeText={setNext} placeholder="New passphrase" placeholderTextColor="#4f6c5a" style={[styles.input, { marginTop: 8 }]} />
+          <TextInput secureTextEntry value={confirm} onChangeText={setConfirm} placeholder="Confirm new passphrase" placeholderTextColor="#4f6c5a" style={[styles.input, { marginTop: 8 }]} />
+
+          <View style={{ flexDirection: "row", marginTop: 12 }}>
+            <TouchableOpacity style={[styles.buttonSecondary, { flex: 1, marginRight: 8 }]} onPress={() => { reset(); onCancel(); }}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.buttonPrimary, { flex: 1 }]}
+              onPress={async () => {
+                const done = await onConfirm({ current, next, confirm });
+                if (done) reset();
+              }}
+            >
+              <Text style={styles.buttonText}>Rewrap Key</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
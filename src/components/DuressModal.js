@@ -0,0 +1,78 @@
+// src/components/DuressModal.js
+import React, { useState } from "react";
+import { View, Text, Modal, TouchableOpacity, TextInput } from "react-native";
+import styles from "../styles";
+
+/**
+ * DuressModal
+ * - onSave({ passphrase, confirm, wipe, decoyEntries }) - decoyEntries: texts split on blank lines
+ * - onRemove() - drops the decoy; storage looks the same either way
+ * - both resolve true when done, which clears the fields
+ */
+export default function DuressModal({ visible, onCancel, onSave, onRemove }) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [wipe, setWipe] = useState(false);
+  const [decoyText, setDecoyText] = useState("");
+
+  const reset = () => {
+    setPassphrase("");
+    setConfirm("");
+    setWipe(false);
+    setDecoyText("");
+  };
+  const finish = async (action) => {
+    if (await action()) reset();
+  };
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent>
+      <View style={styles.modalBackdrop}>
+        <View style={styles.modalBox}>
+          <Text style={styles.modalTitle}>Duress Passphrase</Text>
+          <Text style={{ color: "#bfe", marginBottom: 8 }}>
+            Unlocking with this passphrase opens a separate decoy vault. Saving replaces any earlier decoy.
+          </Text>
+
+          <TextInput secureTextEntry value={passphrase} onChangeText={setPassphrase} placeholder="Duress passphrase" placeholderTextColor="#4f6c5a" style={styles.input} />
+          <TextInput secureTextEntry value={confirm} onChangeText={setConfirm} placeholder="Confirm duress passphrase" placeholderTextColor="#4f6c5a" style={[styles.input, { marginTop: 8 }]} />
+          <TextInput
+            multiline
+            value={decoyText}
+            onChangeText={setDecoyText}
+            placeholder={"Decoy entries, separated by a blank line"}
+            placeholderTextColor="#4f6c5a"
+            style={[styles.input, { marginTop: 8, minHeight: 100, textAlignVertical: "top" }]}
+          />
+          <TouchableOpacity style={[styles.smallBtn, styles.tagChip, wipe && styles.tagChipActive, { alignSelf: "flex-start", marginTop: 8 }]} onPress={() => setWipe(!wipe)}>
+            <Text style={styles.smallBtnText}>{wipe ? "[x]" : "[ ]"} Silently wipe the real vault on duress unlock</Text>
+          </TouchableOpacity>
+
+          <View style={{ flexDirection: "row", marginTop: 12 }}>
+            <TouchableOpacity style={[styles.buttonSecondary, { flex: 1, marginRight: 8 }]} onPress={() => { reset(); onCancel(); }}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.buttonSecondary, { flex: 1, marginRight: 8 }]} onPress={() => finish(onRemove)}>
+              <Text style={styles.buttonText}>Remove</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.buttonPrimary, { flex: 1 }]}
+              onPress={() =>
+                finish(() =>
+                  onSave({
+                    passphrase,
+                    confirm,
+                    wipe,
+                    decoyEntries: decoyText.split(/\n\s*\n/).map(t => t.trim()).filter(Boolean),
+                  })
+                )
+              }
+            >
+              <Text style={styles.buttonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
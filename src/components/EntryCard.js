@@ -3,22 +3,50 @@ import React from "react";
 import { View, Text, TouchableOpacity } from "react-native";
 import styles from "../styles";
 
+// item.commit: the record's chain commitment check (entries.crossCheckEntries), null until the first integrity check
+const COMMIT_LABELS = {
+  committed: ["CHAIN OK", styles.entryCommitOk],
+  changed: ["CHANGED SINCE COMMIT", styles.entryCommitBad],
+  extra: ["NOT IN CHAIN", styles.entryCommitBad],
+  missing: ["MISSING FROM STORAGE", styles.entryCommitBad],
+  legacy: ["UNCOMMITTED (LEGACY)", styles.entryCommitMuted]
+};
 
+/**
+ * EntryCard - the latest record of an entry chain, as listed in app/index.tsx
+ * @param {{ item: import("../types").EntryListItem, onView: (entry: import("../types").Entry) => void }} props
+ */
 export default function EntryCard({ item, onView }) {
+  const commit = item.commit ? COMMIT_LABELS[item.commit] : null;
   return (
-    <View style={styles.entryCard}>
+    <View style={[styles.entryCard, item.searchMatch && styles.entryCardMatch, item.searchDimmed && styles.entryCardDimmed]}>
       <View style={{ flexDirection: "row", justifyContent: "space-between" }}>
         <Text style={styles.entryMeta}>{new Date(item.timestamp).toLocaleString()}</Text>
         <Text style={styles.entryMetaSmall}>ID: {item.id?.slice(0, 10)}</Text>
       </View>
+      {item.info?.title || item.info?.classification ? (
+        <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center" }}>
+          <Text style={styles.entryTitle} numberOfLines={1}>{item.info.title || "Untitled"}</Text>
+          {item.info.classification ? <Text style={styles.entryLevel}>{item.info.classification.toUpperCase()}</Text> : null}
+        </View>
+      ) : null}
+      {item.info?.tags?.length ? (
+        <View style={{ flexDirection: "row", flexWrap: "wrap", marginTop: 4 }}>
+          {item.info.tags.map(tag => <Text key={tag} style={styles.entryTag}>#{tag}</Text>)}
+        </View>
+      ) : null}
       <View style={{ marginTop: 6 }}>
-        <Text style={styles.entryHash}>HMAC: {item.hmac?.slice(0, 16)}...</Text>
-      </View>
-      <View style={{ flexDirection: "row", marginTop: 8, justifyContent: "flex-end" }}>
-        <TouchableOpacity style={styles.smallBtn} onPress={() => onView(item)}>
-          <Text style={styles.smallBtnText}>Decrypt & View</Text>
-        </TouchableOpacity>
+        {item.hmac ? <Text style={styles.entryHash}>HMAC: {item.hmac.slice(0, 16)}...</Text> : null}
+        {item.revisionCount > 1 ? <Text style={styles.entryMetaSmall}>Revisions: {item.revisionCount}</Text> : null}
+        {commit ? <Text style={commit[1]}>{commit[0]}</Text> : null}
       </View>
+      {item.commit !== "missing" ? (
+        <View style={{ flexDirection: "row", marginTop: 8, justifyContent: "flex-end" }}>
+          <TouchableOpacity style={styles.smallBtn} onPress={() => onView(item)}>
+            <Text style={styles.smallBtnText}>Decrypt & View</Text>
+          </TouchableOpacity>
+        </View>
+      ) : null}
     </View>
   );
 }
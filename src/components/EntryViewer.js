@@ -0,0 +1,100 @@
+// src/components/EntryViewer.js
+import React, { useEffect, useMemo, useState } from "react";
+import { View, Text, Modal, TouchableOpacity, ScrollView } from "react-native";
+import styles from "../styles";
+import { diffLines } from "../textdiff";
+
+const diffColors = { add: "#8cffb7", del: "#ff9b9b", same: "#7aa78f" };
+const diffPrefix = { add: "+ ", del: "- ", same: "  " };
+
+/**
+ * EntryViewer
+ * - revisions: [{ id, timestamp, text, files }] oldest first; text is null when that revision failed to open
+ * - files: [{ id, name, mime, size }] attachments of that revision, opened through onOpenAttachment(revisionId, fileId)
+ * - opens on the latest revision; older ones can be stepped through and diffed against their predecessor
+ */
+export default function EntryViewer({ visible, revisions, onClose, onRevise, onOpenAttachment }) {
+  const list = revisions || [];
+  const [index, setIndex] = useState(0);
+  const [showDiff, setShowDiff] = useState(false);
+
+  useEffect(() => {
+    setIndex(Math.max(0, list.length - 1));
+    setShowDiff(false);
+  }, [revisions]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const current = list[index];
+  const previous = index > 0 ? list[index - 1] : null;
+  const isLatest = index === list.length - 1;
+
+  const diff = useMemo(() => {
+    if (!showDiff || !current || !previous || current.text == null || previous.text == null) return null;
+    return diffLines(previous.text, current.text);
+  }, [showDiff, current, previous]);
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent>
+      <View style={styles.modalBackdrop}>
+        <View style={styles.modalBox}>
+          <Text style={styles.modalTitle}>Decrypted Entry</Text>
+          {list.length > 1 ? (
+            <Text style={styles.smallMuted}>
+              Revision {index + 1} of {list.length}
+              {current ? ` — ${new Date(current.timestamp).toLocaleString()}` : ""}
+            </Text>
+          ) : null}
+
+          <ScrollView style={{ maxHeight: 320, marginTop: 6 }}>
+            {diff ? (
+              diff.map((d, i) => (
+                <Text key={i} style={[styles.plainText, { color: diffColors[d.type] }]}>
+                  {diffPrefix[d.type] + d.text}
+                </Text>
+              ))
+            ) : (
+              <Text style={styles.plainText}>{current?.text ?? "[revision failed integrity or decryption]"}</Text>
+            )}
+          </ScrollView>
+
+          {current?.files?.length ? (
+            <View style={{ marginTop: 8 }}>
+              <Text style={styles.smallMuted}>Attachments</Text>
+              {current.files.map(f => (
+                <TouchableOpacity key={f.id} style={[styles.smallBtn, { marginTop: 4 }]} onPress={() => onOpenAttachment(current.id, f.id)}>
+                  <Text style={styles.smallBtnText} numberOfLines={1}>
+                    {f.name} ({Math.max(1, Math.round(f.size / 1024))} KB)
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ) : null}
+
+          {list.length > 1 ? (
+            <View style={{ flexDirection: "row", justifyContent: "space-between", marginTop: 10 }}>
+              <TouchableOpacity style={styles.smallBtn} disabled={index === 0} onPress={() => setIndex(index - 1)}>
+                <Text style={styles.smallBtnText}>‹ Older</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.smallBtn} disabled={!previous} onPress={() => setShowDiff(!showDiff)}>
+                <Text style={styles.smallBtnText}>{showDiff ? "Show text" : "Diff vs previous"}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.smallBtn} disabled={isLatest} onPress={() => setIndex(index + 1)}>
+                <Text style={styles.smallBtnText}>Newer ›</Text>
+              </TouchableOpacity>
+            </View>
+          ) : null}
+
+          <View style={{ flexDirection: "row", marginTop: 12 }}>
+            {isLatest && current?.text != null ? (
+              <TouchableOpacity style={[styles.buttonSecondary, { flex: 1, marginRight: 8 }]} onPress={() => onRevise(current.text)}>
+                <Text style={styles.buttonText}>Revise</Text>
+              </TouchableOpacity>
+            ) : null}
+            <TouchableOpacity style={[styles.buttonPrimary, { flex: 1 }]} onPress={onClose}>
+              <Text style={styles.buttonText}>Close (clear from memory)</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
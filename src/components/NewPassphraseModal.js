@@ -0,0 +1,44 @@
+// src/components/NewPassphraseModal.js
+import React, { useState } from "react";
+import { View, Text, Modal, TouchableOpacity, TextInput } from "react-native";
+import styles from "../styles";
+
+/**
+ * NewPassphraseModal
+ * - shown after the vault was opened without the passphrase (recovery code); it cannot be
+ *   dismissed, the only way out is setting a new passphrase
+ * - onConfirm({ next, confirm }) resolves true when the key was rewrapped
+ */
+export default function NewPassphraseModal({ visible, reason, onConfirm }) {
+  const [next, setNext] = useState("");
+  const [confirm, setConfirm] = useState("");
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent>
+      <View style={styles.modalBackdrop}>
+        <View style={styles.modalBox}>
+          <Text style={styles.modalTitle}>Set New Passphrase</Text>
+          <Text style={{ color: "#bfe", marginBottom: 8 }}>
+            {reason || "The vault was opened without its passphrase."} Choose a new passphrase before continuing.
+          </Text>
+
+          <TextInput secureTextEntry value={next} onChangeText={setNext} placeholder="New passphrase" placeholderTextColor="#4f6c5a" style={styles.input} />
+          <TextInput secureTextEntry value={confirm} onChangeText={setConfirm} placeholder="Confirm new passphrase" placeholderTextColor="#4f6c5a" style={[styles.input, { marginTop: 8 }]} />
+
+          <TouchableOpacity
+            style={[styles.buttonPrimary, { marginTop: 12 }]}
+            onPress={async () => {
+              const done = await onConfirm({ next, confirm });
+              if (done) {
+                setNext("");
+                setConfirm("");
+              }
+            }}
+          >
+            <Text style={styles.buttonText}>Set Passphrase & Unlock</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
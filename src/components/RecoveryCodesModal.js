@@ -0,0 +1,35 @@
+// src/components/RecoveryCodesModal.js
+import React from "react";
+import { View, Text, Modal, TouchableOpacity, ScrollView } from "react-native";
+import styles from "../styles";
+
+/**
+ * RecoveryCodesModal
+ * - codes: freshly generated codes, shown once; each one unlocks the vault a single time
+ */
+export default function RecoveryCodesModal({ visible, codes, onDone }) {
+  return (
+    <Modal visible={visible} animationType="fade" transparent>
+      <View style={styles.modalBackdrop}>
+        <View style={styles.modalBox}>
+          <Text style={styles.modalTitle}>Recovery Codes</Text>
+          <Text style={{ color: "#bfe", marginBottom: 8 }}>
+            Write these down and keep them offline. Each code unlocks the vault once and then requires a new passphrase. They will not be shown again.
+          </Text>
+
+          <ScrollView style={{ maxHeight: 280 }}>
+            {(codes || []).map((code, i) => (
+              <Text key={code} selectable style={[styles.plainText, { marginBottom: 4 }]}>
+                {String(i + 1).padStart(2, " ")}. {code}
+              </Text>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity style={[styles.buttonPrimary, { marginTop: 12 }]} onPress={onDone}>
+            <Text style={styles.buttonText}>I have saved these codes</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
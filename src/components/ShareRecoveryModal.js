@@ -0,0 +1,53 @@
+// src/components/ShareRecoveryModal.js
+import React, { useState } from "react";
+import { View, Text, Modal, TouchableOpacity, TextInput } from "react-native";
+import styles from "../styles";
+
+/**
+ * ShareRecoveryModal
+ * - one custodian share per line, in either printed form
+ * - onConfirm(lines) resolves true when the key was rebuilt, which clears the field
+ */
+export default function ShareRecoveryModal({ visible, onCancel, onConfirm }) {
+  const [text, setText] = useState("");
+  const lines = text.split("\n").map(l => l.trim()).filter(Boolean);
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent>
+      <View style={styles.modalBackdrop}>
+        <View style={styles.modalBox}>
+          <Text style={styles.modalTitle}>Recover from Shares</Text>
+          <Text style={{ color: "#bfe", marginBottom: 8 }}>
+            Enter the shares from your custodians, one per line (VXS1 text or words). Every share is checked before the key is rebuilt.
+          </Text>
+
+          <TextInput
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            value={text}
+            onChangeText={setText}
+            placeholder={"VXS1-...\nbajuj-jufir-..."}
+            placeholderTextColor="#4f6c5a"
+            style={[styles.input, { minHeight: 140, textAlignVertical: "top" }]}
+          />
+          <Text style={styles.smallMuted}>{lines.length} share(s) entered</Text>
+
+          <View style={{ flexDirection: "row", marginTop: 12 }}>
+            <TouchableOpacity style={[styles.buttonSecondary, { flex: 1, marginRight: 8 }]} onPress={() => { setText(""); onCancel(); }}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.buttonPrimary, { flex: 1 }]}
+              onPress={async () => {
+                if (await onConfirm(lines)) setText("");
+              }}
+            >
+              <Text style={styles.buttonText}>Rebuild Key</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,77 @@
+// src/components/SharesModal.js
+import React, { useState } from "react";
+import { View, Text, Modal, TouchableOpacity, TextInput, ScrollView } from "react-native";
+import styles from "../styles";
+
+/**
+ * SharesModal - splits the master key into custodian shares (src/shamir.js)
+ * - onCreate({ threshold, count, custodians }) resolves true when `shares` has been filled in
+ * - shares: [{ index, custodian, text, mnemonic }] from the last split, shown once
+ */
+export default function SharesModal({ visible, shares, onCreate, onClose }) {
+  const [threshold, setThreshold] = useState("3");
+  const [count, setCount] = useState("5");
+  const [custodians, setCustodians] = useState("");
+
+  const close = () => {
+    setCustodians("");
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent>
+      <View style={styles.modalBackdrop}>
+        <View style={styles.modalBox}>
+          <Text style={styles.modalTitle}>Custodian Shares</Text>
+          {shares && shares.length ? (
+            <>
+              <Text style={{ color: "#bfe", marginBottom: 8 }}>
+                Give each custodian only their own share, as text or words. Any {shares[0].threshold} of them rebuild the master key.
+              </Text>
+              <ScrollView style={{ maxHeight: 320 }}>
+                {shares.map(s => (
+                  <View key={s.index} style={{ marginBottom: 10 }}>
+                    <Text style={styles.smallMuted}>#{s.index} — {s.custodian}</Text>
+                    <Text selectable style={styles.plainText}>{s.text}</Text>
+                    <Text selectable style={[styles.plainText, { color: "#7aa78f" }]}>{s.mnemonic}</Text>
+                  </View>
+                ))}
+              </ScrollView>
+            </>
+          ) : (
+            <>
+              <Text style={{ color: "#bfe", marginBottom: 8 }}>
+                Split the master key so that any M of N custodians together can recover the vault. Fewer than M learn nothing.
+              </Text>
+              <View style={{ flexDirection: "row" }}>
+                <TextInput keyboardType="number-pad" value={threshold} onChangeText={setThreshold} placeholder="M" placeholderTextColor="#4f6c5a" style={[styles.input, { flex: 1, marginRight: 8 }]} />
+                <TextInput keyboardType="number-pad" value={count} onChangeText={setCount} placeholder="N" placeholderTextColor="#4f6c5a" style={[styles.input, { flex: 1 }]} />
+              </View>
+              <TextInput value={custodians} onChangeText={setCustodians} placeholder="Custodian names, comma separated (optional)" placeholderTextColor="#4f6c5a" style={[styles.input, { marginTop: 8 }]} />
+            </>
+          )}
+
+          <View style={{ flexDirection: "row", marginTop: 12 }}>
+            <TouchableOpacity style={[styles.buttonSecondary, { flex: 1, marginRight: shares && shares.length ? 0 : 8 }]} onPress={close}>
+              <Text style={styles.buttonText}>{shares && shares.length ? "Done (clear from screen)" : "Cancel"}</Text>
+            </TouchableOpacity>
+            {!(shares && shares.length) ? (
+              <TouchableOpacity
+                style={[styles.buttonPrimary, { flex: 1 }]}
+                onPress={() =>
+                  onCreate({
+                    threshold: parseInt(threshold, 10),
+                    count: parseInt(count, 10),
+                    custodians: custodians.split(",").map(c => c.trim()).filter(Boolean),
+                  })
+                }
+              >
+                <Text style={styles.buttonText}>Split Key</Text>
+              </TouchableOpacity>
+            ) : null}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
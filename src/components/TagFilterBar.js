@@ -0,0 +1,34 @@
+// src/components/TagFilterBar.js
+import React from "react";
+import { View, Text, TouchableOpacity, ScrollView } from "react-native";
+import styles from "../styles";
+
+/**
+ * TagFilterBar
+ * - tags: all known tags; selected: tag or null (= all)
+ * - grouped: list is sectioned by tag
+ */
+export default function TagFilterBar({ tags, selected, onSelect, grouped, onToggleGroup }) {
+  if (!tags || tags.length === 0) return null;
+  return (
+    <View style={{ flexDirection: "row", alignItems: "center", marginBottom: 6 }}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ flex: 1 }}>
+        <TouchableOpacity style={[styles.smallBtn, styles.tagChip, !selected && styles.tagChipActive]} onPress={() => onSelect(null)}>
+          <Text style={styles.smallBtnText}>All</Text>
+        </TouchableOpacity>
+        {tags.map(tag => (
+          <TouchableOpacity
+            key={tag}
+            style={[styles.smallBtn, styles.tagChip, selected === tag && styles.tagChipActive]}
+            onPress={() => onSelect(selected === tag ? null : tag)}
+          >
+            <Text style={styles.smallBtnText}>#{tag}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+      <TouchableOpacity style={[styles.smallBtn, styles.tagChip, grouped && styles.tagChipActive, { marginLeft: 6 }]} onPress={onToggleGroup}>
+        <Text style={styles.smallBtnText}>Group</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
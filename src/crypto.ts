@@ -0,0 +1,195 @@
+// src/crypto.ts
+import * as ExpoCrypto from "expo-crypto";
+import CryptoJS from "crypto-js";
+import * as ed25519 from "./ed25519";
+import type { AttachmentRef, Entry } from "./types";
+
+type WordArray = CryptoJS.lib.WordArray;
+
+/**
+ * bytesToHex - convert Uint8Array => hex string
+ */
+export function bytesToHex(bytes: ArrayLike<number>): string {
+  return Array.from(bytes).map(b => ("00" + b.toString(16)).slice(-2)).join("");
+}
+
+/**
+ * randomHex - request secure random bytes from expo-crypto.
+ * returns hex string of length bytes * 2.
+ */
+export async function randomHex(bytes: number): Promise<string> {
+  // expo-crypto returns Uint8Array in modern runtimes
+  const arr = await ExpoCrypto.getRandomBytesAsync(bytes);
+  if (!(arr instanceof Uint8Array)) {
+    // fallback: if expo returned base64 (older) decode - try safe fallback
+    // but in modern SDK you should get Uint8Array
+    const b64 = String(arr);
+    const raw = atob(b64);
+    const u8 = new Uint8Array(raw.split("").map(c => c.charCodeAt(0)));
+    return bytesToHex(u8);
+  }
+  return bytesToHex(arr);
+}
+
+/**
+ * hex <-> CryptoJS WordArray helpers
+ */
+export function hexToWordArray(hex: string): WordArray {
+  return CryptoJS.enc.Hex.parse(hex);
+}
+export function wordArrayToHex(wordArray: WordArray): string {
+  return wordArray.toString(CryptoJS.enc.Hex);
+}
+
+/**
+ * deriveKeyPBKDF2 - returns CryptoJS WordArray derived key
+ * - passphrase: string
+ * - saltHex: hex string
+ */
+export function deriveKeyPBKDF2(passphrase: string, saltHex: string, iterations = 100000, keyWords = 256 / 32): WordArray {
+  const saltWA = hexToWordArray(saltHex);
+  return CryptoJS.PBKDF2(passphrase, saltWA, {
+    keySize: keyWords,
+    iterations,
+    hasher: CryptoJS.algo.SHA256
+  });
+}
+
+/**
+ * wrapMasterKey / unwrapMasterKey
+ * - masterKeyHex is hex representation
+ * - wrapKeyWA is CryptoJS WordArray
+ * - wrapIvHex is hex iv
+ */
+export function wrapMasterKey(masterKeyHex: string, wrapKeyWA: WordArray, wrapIvHex: string): string {
+  const ivWA = hexToWordArray(wrapIvHex);
+  const plaintextWA = hexToWordArray(masterKeyHex);
+  const wrapped = CryptoJS.AES.encrypt(plaintextWA, wrapKeyWA, {
+    iv: ivWA,
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.Pkcs7
+  });
+  return wrapped.toString(); // base64
+}
+
+export function unwrapMasterKey(wrappedBase64: string, wrapKeyWA: WordArray, wrapIvHex: string): string {
+  const ivWA = hexToWordArray(wrapIvHex);
+  const decryptedWA = CryptoJS.AES.decrypt(wrappedBase64, wrapKeyWA, {
+    iv: ivWA,
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.Pkcs7
+  });
+  return decryptedWA.toString(CryptoJS.enc.Hex);
+}
+
+/**
+ * keyCheckValue - short HMAC fingerprint of the master key
+ * - stored next to the wrapped key so a wrong passphrase is rejected
+ *   even when CBC unpadding happens to yield 64 hex chars
+ */
+export function keyCheckValue(masterKeyHex: string): string {
+  return CryptoJS.HmacSHA256("vaultx-kcv", hexToWordArray(masterKeyHex)).toString(CryptoJS.enc.Hex).slice(0, 16);
+}
+
+/**
+ * encryptEntryWithMaster / decryptEntryWithMaster
+ * - masterKeyHex: hex string
+ */
+export async function encryptEntryWithMaster(
+  masterKeyHex: string,
+  plaintext: string
+): Promise<{ ivHex: string; ciphertextB64: string; hmac: string; ts: string }> {
+  // generate IV securely
+  const ivHex = await randomHex(16);
+  const keyWA = hexToWordArray(masterKeyHex);
+  const ivWA = hexToWordArray(ivHex);
+
+  const cipherParams = CryptoJS.AES.encrypt(plaintext, keyWA, {
+    iv: ivWA,
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.Pkcs7
+  });
+  const ciphertextB64 = cipherParams.toString();
+
+  // HMAC key derived from master (not for secrecy but for integrity)
+  const hmacKeyWA = CryptoJS.SHA256(hexToWordArray(masterKeyHex));
+  const ts = new Date().toISOString();
+  const hmacInput = ivHex + "|" + ciphertextB64 + "|" + ts;
+  const hmac = CryptoJS.HmacSHA256(hmacInput, hmacKeyWA).toString(CryptoJS.enc.Hex);
+
+  return { ivHex, ciphertextB64, hmac, ts };
+}
+
+// Optional v2 fields covered by the HMAC, appended as |key=value only when present so
+// entries written before a field existed keep verifying. Append new fields at the end.
+// The meta envelope is covered through its claw mark, which commits to the whole blob.
+const V2_HMAC_OPTIONAL_FIELDS: [string, (e: Entry) => string | undefined][] = [
+  ["rootId", e => e.rootId],
+  ["prevId", e => e.prevId],
+  ["prevHmac", e => e.prevHmac],
+  ["meta", e => e.meta && e.meta.claw],
+  ["attachments", e => (e.attachments && e.attachments.length ? e.attachments.map((a: AttachmentRef) => `${a.id}:${a.chunks}:${a.size}:${a.hash}`).join(",") : undefined)]
+];
+
+/**
+ * entryHmacInput - the string an entry's HMAC covers
+ * - v1: iv|ciphertext|timestamp
+ * - v2: v2|id|timestamp|claw[|key=value...] (the Meowscript claw mark already commits to header, wrapped CEK and ciphertext)
+ */
+export function entryHmacInput(entry: Entry): string {
+  if (entry.v === 2) {
+    const parts = ["v2", entry.id, entry.timestamp, entry.blob && entry.blob.claw];
+    for (const [key, valueOf] of V2_HMAC_OPTIONAL_FIELDS) {
+      const value = valueOf(entry);
+      if (value !== undefined && value !== null) parts.push(`${key}=${value}`);
+    }
+    return parts.join("|");
+  }
+  return entry.iv + "|" + entry.ciphertext + "|" + entry.timestamp;
+}
+
+export function computeEntryHMAC(masterKeyHex: string, entry: Entry): string {
+  const hmacKeyWA = CryptoJS.SHA256(hexToWordArray(masterKeyHex));
+  return CryptoJS.HmacSHA256(entryHmacInput(entry), hmacKeyWA).toString(CryptoJS.enc.Hex);
+}
+
+export function verifyEntryHMAC(masterKeyHex: string, entry: Entry): boolean {
+  try {
+    return computeEntryHMAC(masterKeyHex, entry) === entry.hmac;
+  } catch (e) {
+    return false;
+  }
+}
+
+export function decryptEntryWithMaster(masterKeyHex: string, entry: Entry): string {
+  if (!entry.iv || !entry.ciphertext) throw new Error("Not a v1 entry.");
+  const keyWA = hexToWordArray(masterKeyHex);
+  const ivWA = hexToWordArray(entry.iv);
+  const decryptedWA = CryptoJS.AES.decrypt(entry.ciphertext, keyWA, {
+    iv: ivWA,
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.Pkcs7
+  });
+  return decryptedWA.toString(CryptoJS.enc.Utf8);
+}
+
+/**
+ * shortHex - helper for display
+ */
+export function shortHex(hex: string | null | undefined, len = 8): string {
+  return hex ? hex.slice(0, len) : "";
+}
+
+/**
+ * Ed25519 over hex (see ed25519.js): seeds and public keys are 32 bytes, signatures 64.
+ * Used for audit blocks (blockHash) and exported evidence (SHA-256 of the JSONL).
+ */
+export function signEd25519(msgHex: string, seedHex: string): string {
+  return ed25519.sign(msgHex, seedHex);
+}
+export function verifyEd25519(signatureHex: string, msgHex: string, publicKeyHex: string): boolean {
+  return ed25519.verify(signatureHex, msgHex, publicKeyHex);
+}
+export function ed25519PublicKey(seedHex: string): string {
+  return ed25519.getPublicKey(seedHex);
+}
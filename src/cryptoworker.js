@@ -0,0 +1,167 @@
+// src/cryptoworker.js
+// Runs key derivations (kdfcore.js jobs) without blocking the JS thread, so the UI and its
+// animations keep going while a vault unlocks. On device the work runs on a Reanimated worklet
+// runtime, a JS runtime on a thread of its own; where there is none (web, plain Node) it runs on
+// the JS thread in short slices with a yield in between. cryptoworker.node.js is the
+// worker_threads version for Node.
+
+import { CryptoWorkerError, createJob, runJob } from "./kdfcore";
+
+// Reanimated is absent outside React Native; guard the require like expo-sharing in AuditModal
+let Reanimated = null;
+try {
+  Reanimated = require("react-native-reanimated");
+} catch {
+  Reanimated = null;
+}
+
+export { CryptoWorkerError };
+
+/**
+ * CryptoWorker:
+ * {
+ *   name: "worklet" | "inline" | "node",
+ *   derive(spec, { onProgress, signal }) -> Promise<derived key hex>
+ * }
+ * spec is a kdfcore job spec; the result is byte for byte what kdf.deriveKey() returns.
+ * onProgress(fraction) is called between slices. Aborting signal (an AbortController's) rejects
+ * with CryptoWorkerError CANCELLED right away and drops the job.
+ */
+
+// units per runJob() call; a slice repeats calls until its time is up
+const STEP_UNITS = 64;
+const INLINE_SLICE_MS = 12; // under a frame, so the JS thread still renders in between
+const WORKLET_SLICE_MS = 50; // per round trip to the worklet runtime
+
+/* ---------- helpers ---------- */
+
+function cancelledError() {
+  return new CryptoWorkerError("Key derivation cancelled.", "CANCELLED");
+}
+
+/* ---------- implementations ---------- */
+
+/**
+ * createInlineWorker() - slices on the JS thread; the UI stays responsive but runs slower meanwhile
+ */
+export function createInlineWorker() {
+  return {
+    name: "inline",
+    derive: async (spec, { onProgress, signal } = {}) => {
+      let job;
+      try {
+        job = createJob(spec);
+      } catch (e) {
+        throw new CryptoWorkerError(String((e && e.message) || e), "FAILED");
+      }
+      for (;;) {
+        if (signal && signal.aborted) throw cancelledError();
+        const started = Date.now();
+        let finished = false;
+        while (!finished && Date.now() - started < INLINE_SLICE_MS) finished = runJob(job, STEP_UNITS);
+        if (onProgress) onProgress(job.progress);
+        if (finished) return job.resultHex;
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+  };
+}
+
+/**
+ * createWorkletWorker() - runs jobs on a Reanimated worklet runtime; throws where Reanimated
+ * cannot create one
+ * - a job lives on that runtime between slices; each slice reports back to the JS thread, which
+ *   starts the next one unless the job was cancelled
+ */
+export function createWorkletWorker() {
+  if (!Reanimated || typeof Reanimated.createWorkletRuntime !== "function") {
+    throw new CryptoWorkerError("Reanimated worklet runtimes are not available.", "FAILED");
+  }
+  const { createWorkletRuntime, runOnRuntime, runOnJS } = Reanimated;
+  const runtime = createWorkletRuntime("vaultx-crypto");
+  let nextId = 1;
+
+  return {
+    name: "worklet",
+    derive: (spec, { onProgress, signal } = {}) =>
+      new Promise((resolve, reject) => {
+        const id = nextId++;
+        let settled = false;
+
+        const slice = (start) => {
+          "worklet";
+          const jobs = globalThis.__vaultxKdfJobs || (globalThis.__vaultxKdfJobs = {});
+          try {
+            if (start) jobs[id] = createJob(spec);
+            const job = jobs[id];
+            const started = Date.now();
+            let finished = false;
+            while (!finished && Date.now() - started < WORKLET_SLICE_MS) finished = runJob(job, STEP_UNITS);
+            if (finished) delete jobs[id];
+            runOnJS(onSlice)(job.progress, finished ? job.resultHex : null, null);
+          } catch (e) {
+            delete jobs[id];
+            runOnJS(onSlice)(0, null, String((e && e.message) || e));
+          }
+        };
+        const drop = () => {
+          "worklet";
+          if (globalThis.__vaultxKdfJobs) delete globalThis.__vaultxKdfJobs[id];
+        };
+
+        function onSlice(progress, resultHex, error) {
+          if (settled) {
+            if (!resultHex && !error) runOnRuntime(runtime, drop)();
+            return;
+          }
+          if (error) {
+            settled = true;
+            reject(new CryptoWorkerError(error, "FAILED"));
+          } else if (resultHex) {
+            settled = true;
+            if (onProgress) onProgress(1);
+            resolve(resultHex);
+          } else {
+            if (onProgress) onProgress(progress);
+            runOnRuntime(runtime, slice)(false);
+          }
+        }
+
+        if (signal) {
+          if (signal.aborted) return reject(cancelledError());
+          signal.addEventListener("abort", () => {
+            if (settled) return;
+            settled = true;
+            reject(cancelledError());
+          });
+        }
+        runOnRuntime(runtime, slice)(true);
+      })
+  };
+}
+
+/* ---------- main API ---------- */
+
+let worker = null;
+
+/**
+ * setCryptoWorker(worker) - every derivation from now on goes to this worker
+ */
+export function setCryptoWorker(next) {
+  worker = next;
+}
+
+/**
+ * currentCryptoWorker() - the worklet worker where Reanimated can make a runtime, else inline
+ */
+export function currentCryptoWorker() {
+  if (!worker) {
+    try {
+      worker = createWorkletWorker();
+    } catch (e) {
+      if (Reanimated) console.warn("cryptoworker: no worklet runtime, deriving keys on the JS thread", e);
+      worker = createInlineWorker();
+    }
+  }
+  return worker;
+}
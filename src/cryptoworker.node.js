@@ -0,0 +1,63 @@
+// src/cryptoworker.node.js
+// worker_threads CryptoWorker (see cryptoworker.js) for Node: runs kdfcore.js jobs on a worker
+// thread, so tests and scripts derive keys through the same interface as the app. Cancelling
+// terminates the thread. CommonJS like kdfcore.js; the app never loads this file.
+//
+//   const { setCryptoWorker } = require("./cryptoworker");
+//   setCryptoWorker(require("./cryptoworker.node").createNodeWorker());
+
+const { Worker, isMainThread, parentPort } = require("worker_threads");
+const { CryptoWorkerError, createJob, runJob } = require("./kdfcore");
+
+// units between progress messages
+const PROGRESS_UNITS = 4096;
+
+/* ---------- worker thread ---------- */
+
+if (!isMainThread && parentPort) {
+  parentPort.on("message", (spec) => {
+    try {
+      const job = createJob(spec);
+      while (!runJob(job, PROGRESS_UNITS)) parentPort.postMessage({ progress: job.progress });
+      parentPort.postMessage({ progress: 1, resultHex: job.resultHex });
+    } catch (e) {
+      parentPort.postMessage({ error: String((e && e.message) || e) });
+    }
+  });
+}
+
+/* ---------- main API ---------- */
+
+/**
+ * createNodeWorker() - a CryptoWorker with one worker thread per derivation
+ */
+function createNodeWorker() {
+  return {
+    name: "node",
+    derive: (spec, { onProgress, signal } = {}) =>
+      new Promise((resolve, reject) => {
+        if (signal && signal.aborted) return reject(new CryptoWorkerError("Key derivation cancelled.", "CANCELLED"));
+        const thread = new Worker(require.resolve("./cryptoworker.node"));
+        let settled = false;
+        const settle = (fn, value) => {
+          if (settled) return;
+          settled = true;
+          thread.terminate();
+          fn(value);
+        };
+        if (signal) signal.addEventListener("abort", () => settle(reject, new CryptoWorkerError("Key derivation cancelled.", "CANCELLED")));
+        thread.on("message", (msg) => {
+          if (msg.error) return settle(reject, new CryptoWorkerError(msg.error, "FAILED"));
+          if (onProgress && !settled) onProgress(msg.progress);
+          if (msg.resultHex) settle(resolve, msg.resultHex);
+        });
+        thread.on("error", (e) => settle(reject, new CryptoWorkerError(String((e && e.message) || e), "FAILED")));
+        thread.on("exit", () => settle(reject, new CryptoWorkerError("Worker thread exited early.", "FAILED")));
+        thread.postMessage(spec);
+      })
+  };
+}
+
+module.exports = {
+  createNodeWorker
+};
@@ -0,0 +1,142 @@
+// src/deadman.js
+// Dead-man's switch: if the real vault is not unlocked for a set number of days, the next launch
+// runs the panic wipe before the lock screen appears. The last unlock is bound to a block of the
+// real audit chain, so rolling back the clock, the chain or the stored record does not quietly
+// disarm it; a record that no longer matches the chain counts as expired.
+
+import * as SecureStore from "expo-secure-store";
+import * as blockchain from "./blockchain";
+import * as storage from "./storage";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const DAY_CHOICES = [null, 3, 7, 14, 30]; // null = disarmed
+// arm and disarm blocks carry this id, so the last of them is one indexed lookup
+export const SWITCH_EVENT_ID = "deadman_switch";
+
+/**
+ * Switch record (JSON in SECUREKEY_DEADMAN, present only while armed):
+ * {
+ *   days: number,
+ *   lastUnlockAt: string,   // ts of the anchor block
+ *   head: string,           // blockHash of the anchor ("deadman_armed" or the latest "unlocked")
+ *   seq: number,            // seq of the anchor
+ *   seenAt: number          // latest time this device has seen (ms); never moves backwards
+ * }
+ *
+ * Status: { armed, days, remainingMs, expired, tampered, reason }
+ */
+
+/* ---------- helpers ---------- */
+
+async function readRecord() {
+  try {
+    const json = await SecureStore.getItemAsync(storage.SECUREKEY_DEADMAN);
+    return json ? JSON.parse(json) : null;
+  } catch (e) {
+    console.warn("deadman.readRecord failed", e);
+    return null;
+  }
+}
+
+async function writeRecord(rec) {
+  await SecureStore.setItemAsync(storage.SECUREKEY_DEADMAN, JSON.stringify(rec));
+}
+
+function lastSwitchEvent() {
+  return blockchain.latestBlockWithId(SWITCH_EVENT_ID, "primary");
+}
+
+function remainingFor(rec, now) {
+  return new Date(rec.lastUnlockAt).getTime() + rec.days * DAY_MS - now;
+}
+
+/* ---------- main API ---------- */
+
+/**
+ * armSwitch(days) - (re)arms from now; logged as "deadman_armed" in the real chain
+ */
+export async function armSwitch(days) {
+  if (!Number.isInteger(days) || days < 1) throw new Error("Dead-man's switch needs a whole number of days.");
+  const block = await blockchain.appendEvent({ event: "deadman_armed", id: SWITCH_EVENT_ID, detail: `days=${days}` }, "primary");
+  await writeRecord({ days, lastUnlockAt: block.ts, head: block.blockHash, seq: block.seq, seenAt: Date.now() });
+}
+
+/**
+ * disarmSwitch(reason) - logged as "deadman_disarmed"; no-op when not armed
+ */
+export async function disarmSwitch(reason = "user") {
+  if (!(await readRecord())) return;
+  await SecureStore.deleteItemAsync(storage.SECUREKEY_DEADMAN);
+  await blockchain.appendEvent({ event: "deadman_disarmed", id: SWITCH_EVENT_ID, detail: reason }, "primary");
+}
+
+/**
+ * checkIn(unlockedBlock)
+ * - called with the "unlocked" block of a real (primary) unlock; moves the anchor to it
+ */
+export async function checkIn(unlockedBlock) {
+  const rec = await readRecord();
+  if (!rec || !unlockedBlock) return;
+  if ((await blockchain.getHeadFingerprint("primary")) !== unlockedBlock.blockHash) return;
+  await writeRecord({ ...rec, lastUnlockAt: unlockedBlock.ts, head: unlockedBlock.blockHash, seq: unlockedBlock.seq, seenAt: Math.max(rec.seenAt || 0, Date.now()) });
+}
+
+/**
+ * resetAfterRestore()
+ * - a restored chain cannot hold this device's anchor, so the switch is disarmed; if the backup
+ *   itself was made while armed, the disarm is logged so the chain and the (absent) record agree
+ */
+export async function resetAfterRestore() {
+  await SecureStore.deleteItemAsync(storage.SECUREKEY_DEADMAN);
+  const last = await lastSwitchEvent();
+  if (last && last.event === "deadman_armed") {
+    await blockchain.appendEvent({ event: "deadman_disarmed", id: SWITCH_EVENT_ID, detail: "backup_restored" }, "primary");
+  }
+}
+
+/**
+ * readStatus() - for display; no checks against the chain
+ */
+export async function readStatus() {
+  const rec = await readRecord();
+  if (!rec) return { armed: false, days: null, remainingMs: null, expired: false, tampered: false, reason: null };
+  const remainingMs = remainingFor(rec, Math.max(Date.now(), rec.seenAt || 0));
+  return { armed: true, days: rec.days, remainingMs, expired: remainingMs <= 0, tampered: false, reason: null };
+}
+
+/**
+ * evaluateSwitch() - run at launch, before the lock screen
+ * - without a record only the last switch event is looked up: a chain whose last switch event is
+ *   "deadman_armed" must have a record, otherwise tampered
+ * - while armed, the real chain must verify (blockchain.verifyChain, paged from the last verified
+ *   checkpoint) and still hold the anchor block with the recorded timestamp; otherwise tampered
+ * - "now" is the latest of the device clock, the last time seen and the newest block, so setting
+ *   the clock back does not buy time
+ * - expired when the deadline has passed or anything was tampered with
+ */
+export async function evaluateSwitch() {
+  const rec = await readRecord();
+  if (!rec) {
+    const last = await lastSwitchEvent();
+    if (last && last.event === "deadman_armed") {
+      return { armed: true, days: null, remainingMs: 0, expired: true, tampered: true, reason: "record_missing" };
+    }
+    return { armed: false, days: null, remainingMs: null, expired: false, tampered: false, reason: null };
+  }
+
+  const verification = await blockchain.verifyChain("primary");
+  const anchor = await blockchain.findBlock(rec.head, rec.seq, "primary");
+  let reason = null;
+  if (!verification.ok) reason = "chain_broken";
+  else if (!anchor || anchor.ts !== rec.lastUnlockAt) reason = "anchor_mismatch";
+
+  const head = await blockchain.headBlock("primary");
+  const newestBlock = head ? new Date(head.ts).getTime() || 0 : 0;
+  const clock = Date.now();
+  const now = Math.max(clock, rec.seenAt || 0, newestBlock);
+  if (now !== clock) console.warn("deadman: device clock is behind the last time seen");
+  await writeRecord({ ...rec, seenAt: now });
+
+  const remainingMs = remainingFor(rec, now);
+  return { armed: true, days: rec.days, remainingMs, expired: !!reason || remainingMs <= 0, tampered: !!reason, reason: reason || (remainingMs <= 0 ? "expired" : null) };
+}
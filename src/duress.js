@@ -0,0 +1,130 @@
+// src/duress.js
+// Duress passphrase support. The duress passphrase opens the secondary vault set (a decoy with its
+// own key, entries and tamper chain) instead of the real one, and can start a silent wipe of the
+// real set. See storage.VAULT_SETS and the secondary slot in vaultkey.js.
+//
+// Every vault has a secondary set, decoy or not: setup and removeDecoy() leave a placeholder (a
+// slot nothing opens, a signing key and a fresh chain), so stored data looks the same either way.
+// Configuring, removing and setting up the placeholder are all logged in the real chain as the
+// same SECONDARY_RESET_EVENT with no detail.
+
+import * as attachments from "./attachments";
+import * as blockchain from "./blockchain";
+import * as crypto from "./crypto";
+import * as entryFormat from "./entries";
+import * as storage from "./storage";
+import * as vaultkey from "./vaultkey";
+
+export const SECONDARY_RESET_EVENT = "key_slot_reset";
+
+/* ---------- helpers ---------- */
+
+function attachmentRefs(entries) {
+  const refs = new Map();
+  for (const e of entries || []) for (const ref of e.attachments || []) refs.set(ref.id, ref);
+  return [...refs.values()];
+}
+
+async function clearSecondarySet() {
+  await attachments.wipeAttachments(attachmentRefs(await storage.loadEntries("secondary")), 1);
+  await storage.saveEntries([], "secondary");
+  await blockchain.replaceChain([], "secondary");
+}
+
+// opens the secondary chain the way vault setup opens the real one
+async function startSecondaryChain() {
+  const signingPub = await blockchain.createSigningKey("secondary");
+  await blockchain.appendEvent({ event: "signing_key_created", detail: `ed25519=${signingPub}` }, "secondary");
+  await blockchain.appendEvent({ event: "vault_created", detail: "initialization" }, "secondary");
+}
+
+/* ---------- main API ---------- */
+
+/**
+ * configureDecoy(realMasterHex, duressPassphrase, { wipe, entries })
+ * - replaces any previous decoy: fresh keys, the given texts as its entries (oldest first) and a
+ *   new decoy chain that looks like an ordinary vault's
+ * - wipe: a duress unlock also starts silentWipePrimary()
+ * - returns { entries: count }
+ * @param {string} realMasterHex
+ * @param {string} duressPassphrase
+ * @param {{ wipe?: boolean, entries?: string[] }} [options]
+ */
+export async function configureDecoy(realMasterHex, duressPassphrase, { wipe = false, entries = [] } = {}) {
+  if (!(await vaultkey.matchesVault(realMasterHex))) throw new Error("Only the real vault can configure a duress passphrase.");
+  const decoyHex = await crypto.randomHex(32);
+  // written first: it rejects a duress passphrase equal to the real one before anything is cleared
+  await vaultkey.setSecondarySlot(decoyHex, duressPassphrase, wipe ? vaultkey.SECONDARY_FLAG_WIPE : 0);
+  await clearSecondarySet();
+  await startSecondaryChain();
+
+  const sealed = [];
+  for (const text of entries) {
+    const entry = await entryFormat.sealEntry(decoyHex, text);
+    sealed.unshift(entry);
+    await storage.saveEntries(sealed, "secondary");
+    await blockchain.appendEvent({ event: "entry_added", id: entry.id, detail: `id=${entry.id}`, hash: entryFormat.entryCommitment(entry) }, "secondary");
+  }
+  return { entries: sealed.length };
+}
+
+/**
+ * removeDecoy() - clears the decoy set and puts the placeholder back (slot, signing key and chain)
+ */
+export async function removeDecoy() {
+  await clearSecondarySet();
+  await vaultkey.clearSecondarySlot();
+  await startSecondaryChain();
+}
+
+/**
+ * resetSecondarySet() - vault setup: the placeholder secondary set (vaultkey.initializeKeySlot
+ * writes the placeholder slot)
+ */
+export async function resetSecondarySet() {
+  await clearSecondarySet();
+  await startSecondaryChain();
+}
+
+/**
+ * ensureSecondarySet()
+ * - vaults set up before the placeholder existed get it on a real unlock; a decoy configured
+ *   before audit signing keeps its chain and is signed from here on
+ * - returns true when something was written
+ */
+export async function ensureSecondarySet() {
+  if (await blockchain.signingPublicKey("secondary")) return false;
+  if (!(await storage.countTamperLog("secondary"))) {
+    await startSecondaryChain();
+    return true;
+  }
+  const signingPub = await blockchain.createSigningKey("secondary");
+  await blockchain.appendEvent({ event: "signing_key_created", detail: `ed25519=${signingPub}` }, "secondary");
+  return true;
+}
+
+/**
+ * silentWipePrimary(passes)
+ * - runs in the background of a duress session: overwrites and removes the real entries and their
+ *   attachments, then scrambles the real key slot (it still exists, nothing opens it)
+ * - the event lands in the real chain only; the decoy session never sees it
+ * - returns { entries, attachments, remaining }
+ */
+export async function silentWipePrimary(passes = 3) {
+  const current = await storage.loadEntries("primary");
+  const refs = attachmentRefs(current);
+  for (let p = 0; p < passes; p++) {
+    const junk = [];
+    for (const e of current) {
+      const junkHex = await crypto.randomHex(64);
+      junk.push({ id: e.id, v: e.v, blob: junkHex, meta: e.meta ? junkHex : undefined, hmac: junkHex, timestamp: e.timestamp });
+    }
+    await storage.saveEntries(junk, "primary");
+  }
+  await storage.saveEntries([], "primary");
+  const attWipe = await attachments.wipeAttachments(refs, passes);
+  await vaultkey.scramblePrimarySlot();
+
+  await blockchain.appendEvent({ event: "duress_wipe", detail: `entries=${current.length} attachments=${attWipe.files} remaining=${attWipe.remaining}` }, "primary");
+  return { entries: current.length, attachments: attWipe.files, remaining: attWipe.remaining };
+}
@@ -0,0 +1,213 @@
+// src/ed25519.js
+// Pure-JS Ed25519 (RFC 8032) on BigInt, for signing audit blocks. Keys are 32-byte seeds, public
+// keys and signatures use the standard encodings, so any Ed25519 library can check the output.
+// Not constant-time; it signs hashes of audit data, not secrets an attacker can time remotely.
+
+import CryptoJS from "crypto-js";
+import * as aead from "./aead";
+
+const P = 2n ** 255n - 19n;
+const L = 2n ** 252n + 27742317777372353535851937790883648493n;
+const D = mod(-121665n * inv(121666n));
+const D2 = mod(2n * D);
+const SQRT_M1 = pow(2n, (P - 1n) / 4n);
+
+/* ---------- field / scalar helpers ---------- */
+
+function mod(a, m = P) {
+  const r = a % m;
+  return r >= 0n ? r : r + m;
+}
+
+function pow(base, exp, m = P) {
+  let result = 1n;
+  let b = mod(base, m);
+  let e = exp;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % m;
+    b = (b * b) % m;
+    e >>= 1n;
+  }
+  return result;
+}
+
+function inv(a) {
+  return pow(a, P - 2n);
+}
+
+function bytesToNumberLE(bytes) {
+  let n = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) n = (n << 8n) | BigInt(bytes[i]);
+  return n;
+}
+
+function numberToBytesLE(n, len = 32) {
+  const out = new Uint8Array(len);
+  let v = n;
+  for (let i = 0; i < len; i++) {
+    out[i] = Number(v & 0xffn);
+    v >>= 8n;
+  }
+  return out;
+}
+
+function sha512(...parts) {
+  const all = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) {
+    all.set(p, off);
+    off += p.length;
+  }
+  const hex = CryptoJS.SHA512(CryptoJS.enc.Hex.parse(aead.bytesToHex(all))).toString(CryptoJS.enc.Hex);
+  return aead.hexToBytes(hex);
+}
+
+function toBytes(msg) {
+  return msg instanceof Uint8Array ? msg : aead.hexToBytes(msg);
+}
+
+/* ---------- points (extended coordinates, a = -1) ---------- */
+
+const ZERO = { X: 0n, Y: 1n, Z: 1n, T: 0n };
+const BASE = (() => {
+  const y = mod(4n * inv(5n));
+  return decodePoint(numberToBytesLE(y));
+})();
+
+function add(p, q) {
+  const A = mod((p.Y - p.X) * (q.Y - q.X));
+  const B = mod((p.Y + p.X) * (q.Y + q.X));
+  const C = mod(p.T * D2 * q.T);
+  const Dd = mod(2n * p.Z * q.Z);
+  const E = B - A;
+  const F = Dd - C;
+  const G = Dd + C;
+  const H = B + A;
+  return { X: mod(E * F), Y: mod(G * H), Z: mod(F * G), T: mod(E * H) };
+}
+
+function double(p) {
+  const A = mod(p.X * p.X);
+  const B = mod(p.Y * p.Y);
+  const C = mod(2n * p.Z * p.Z);
+  const H = A + B;
+  const E = mod(H - (p.X + p.Y) * (p.X + p.Y));
+  const G = A - B;
+  const F = C + G;
+  return { X: mod(E * F), Y: mod(G * H), Z: mod(F * G), T: mod(E * H) };
+}
+
+// 4-bit fixed window
+function multiply(point, scalar) {
+  const table = [ZERO, point];
+  for (let i = 2; i < 16; i++) table.push(add(table[i - 1], point));
+  let acc = ZERO;
+  for (let shift = 252n; shift >= 0n; shift -= 4n) {
+    acc = double(double(double(double(acc))));
+    acc = add(acc, table[Number((scalar >> shift) & 15n)]);
+  }
+  return acc;
+}
+
+let baseTable = null;
+function multiplyBase(scalar) {
+  // the base point table is built once and reused for every signature
+  if (!baseTable) {
+    baseTable = [ZERO, BASE];
+    for (let i = 2; i < 16; i++) baseTable.push(add(baseTable[i - 1], BASE));
+  }
+  let acc = ZERO;
+  for (let shift = 252n; shift >= 0n; shift -= 4n) {
+    acc = double(double(double(double(acc))));
+    acc = add(acc, baseTable[Number((scalar >> shift) & 15n)]);
+  }
+  return acc;
+}
+
+function encodePoint(p) {
+  const zInv = inv(p.Z);
+  const x = mod(p.X * zInv);
+  const y = mod(p.Y * zInv);
+  const bytes = numberToBytesLE(y);
+  bytes[31] |= Number(x & 1n) << 7;
+  return bytes;
+}
+
+function decodePoint(bytes) {
+  if (bytes.length !== 32) return null;
+  const b = Uint8Array.from(bytes);
+  const sign = b[31] >> 7;
+  b[31] &= 0x7f;
+  const y = bytesToNumberLE(b);
+  if (y >= P) return null;
+  // x^2 = (y^2 - 1) / (d y^2 + 1)
+  const u = mod(y * y - 1n);
+  const v = mod(D * y * y + 1n);
+  let x = mod(u * pow(v, 3n) * pow(u * pow(v, 7n), (P - 5n) / 8n));
+  if (mod(v * x * x) !== u) {
+    if (mod(v * x * x) !== mod(-u)) return null;
+    x = mod(x * SQRT_M1);
+  }
+  if (x === 0n && sign === 1) return null;
+  if (Number(x & 1n) !== sign) x = mod(-x);
+  return { X: x, Y: y, Z: 1n, T: mod(x * y) };
+}
+
+function equals(p, q) {
+  return mod(p.X * q.Z) === mod(q.X * p.Z) && mod(p.Y * q.Z) === mod(q.Y * p.Z);
+}
+
+function expandSeed(seed) {
+  const h = sha512(seed);
+  const a = Uint8Array.from(h.subarray(0, 32));
+  a[0] &= 248;
+  a[31] &= 127;
+  a[31] |= 64;
+  return { scalar: bytesToNumberLE(a), prefix: h.subarray(32) };
+}
+
+/* ---------- main API ---------- */
+
+/**
+ * getPublicKey(seedHex) - 32-byte public key (hex) for a 32-byte seed
+ */
+export function getPublicKey(seedHex) {
+  const seed = aead.hexToBytes(seedHex);
+  if (seed.length !== 32) throw new Error("Ed25519 seed must be 32 bytes.");
+  return aead.bytesToHex(encodePoint(multiplyBase(expandSeed(seed).scalar)));
+}
+
+/**
+ * sign(message, seedHex) - message as hex or bytes; returns the 64-byte signature as hex
+ */
+export function sign(message, seedHex) {
+  const seed = aead.hexToBytes(seedHex);
+  if (seed.length !== 32) throw new Error("Ed25519 seed must be 32 bytes.");
+  const msg = toBytes(message);
+  const { scalar, prefix } = expandSeed(seed);
+  const A = encodePoint(multiplyBase(scalar));
+  const r = mod(bytesToNumberLE(sha512(prefix, msg)), L);
+  const R = encodePoint(multiplyBase(r));
+  const k = mod(bytesToNumberLE(sha512(R, A, msg)), L);
+  const S = mod(r + k * scalar, L);
+  return aead.bytesToHex(R) + aead.bytesToHex(numberToBytesLE(S));
+}
+
+/**
+ * verify(signatureHex, message, publicKeyHex) - false for anything malformed
+ */
+export function verify(signatureHex, message, publicKeyHex) {
+  try {
+    const sig = aead.hexToBytes(signatureHex);
+    const pub = aead.hexToBytes(publicKeyHex);
+    if (sig.length !== 64 || pub.length !== 32) return false;
+    const A = decodePoint(pub);
+    const R = decodePoint(sig.subarray(0, 32));
+    const S = bytesToNumberLE(sig.subarray(32));
+    if (!A || !R || S >= L) return false;
+    const k = mod(bytesToNumberLE(sha512(sig.subarray(0, 32), pub, toBytes(message))), L);
+    return equals(multiplyBase(S), add(R, multiply(A, k)));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,539 @@
+// src/entries.js
+// Entry formats. v1 entries are AES-CBC + HMAC straight under the master key (crypto.ts);
+// v2 entries are Meowscript blobs with a per-entry CEK, wrapped under a key derived from the master key.
+// Both formats are readable; only v2 is written.
+
+import CryptoJS from "crypto-js";
+import * as crypto from "./crypto";
+import Meowscript from "./meowscript";
+import * as storage from "./storage";
+
+export const ENTRY_VERSION = 2;
+
+// lowest first; "unclassified" is the default and is not stored
+export const CLASSIFICATION_LEVELS = ["unclassified", "confidential", "secret", "top-secret"];
+
+/**
+ * Entry shapes:
+ * v1: { id, iv, ciphertext, hmac, timestamp }
+ * v2: { v: 2, id, blob, hmac, timestamp }   // blob = Meowscript.sealWithKey() output
+ *     + { rootId, prevId, prevHmac } on revisions
+ *     + { meta } - a second Meowscript blob holding { title, tags, classification, files }, sealed
+ *       separately so the list can show titles without opening bodies; its claw is in the HMAC
+ *     + { attachments: [{ id, chunks, size, hash }] } - references to attachments.js files; names
+ *       and MIME types are only in meta.files
+ *
+ * Revisions are separate records linked to the previous record's id and HMAC; nothing is
+ * ever rewritten in place. rootId is the id of the first record in the chain.
+ *
+ * Every record written is committed to the audit chain: a block in ENTRY_COMMIT_EVENTS with the
+ * record's id and entryCommitment() as its hash. crossCheckEntries() compares the stored records
+ * with the latest commitment per id.
+ */
+
+export const ENTRY_COMMIT_EVENTS = ["entry_added", "entry_revised", "entry_migrated", "entry_committed"];
+
+/**
+ * entryCommitment(entry) - SHA-256 hex the audit chain holds for a stored record
+ * - v1: iv|ciphertext|hmac|timestamp
+ * - v2: v2|blob|meta|hmac|timestamp, blob and meta as stored (JSON); they carry the IV and ciphertext
+ * @param {import("./types").Entry} entry
+ * @returns {string}
+ */
+export function entryCommitment(entry) {
+  const input = entryVersion(entry) === 1
+    ? [entry.iv, entry.ciphertext, entry.hmac, entry.timestamp].join("|")
+    : ["v2", JSON.stringify(entry.blob), entry.meta ? JSON.stringify(entry.meta) : "", entry.hmac, entry.timestamp].join("|");
+  return CryptoJS.SHA256(input).toString(CryptoJS.enc.Hex);
+}
+
+// entry id a commit block refers to; blocks from before commitments only had "id=<id>" in detail
+function committedId(block) {
+  if (block.id) return block.id;
+  const m = /(?:^|\s)id=(\S+)/.exec(block.detail || "");
+  return m ? m[1] : null;
+}
+
+/**
+ * crossCheckEntries(entries, chain)
+ * - chain oldest-first; only blocks after the last "duress_wipe" count, since that wipe empties the set
+ * - per stored record: "committed" (matches its latest commitment), "changed" (does not), "extra"
+ *   (never recorded in the chain) or "legacy" (recorded by id only, before commitments existed)
+ * - missing: records the chain commits to that are no longer stored
+ * - returns { statuses: { [id]: status }, missing: [{ id, seq, ts }] }
+ * @param {import("./types").Entry[]} entries
+ * @param {import("./types").Block[]} chain
+ * @returns {import("./types").EntryCommitCheck}
+ */
+export function crossCheckEntries(entries, chain) {
+  const latest = new Map();
+  addCommitments(latest, chain || []);
+  const statuses = {};
+  for (const e of entries || []) statuses[e.id] = commitStatus(latest, e);
+  return { statuses, missing: missingCommits(latest, statuses) };
+}
+
+// keeps the latest commit block per id in `latest`; a "duress_wipe" empties the set, so it drops them all
+function addCommitments(latest, blocks) {
+  for (const b of blocks) {
+    if (b.event === "duress_wipe") {
+      latest.clear();
+      continue;
+    }
+    if (!ENTRY_COMMIT_EVENTS.includes(b.event)) continue;
+    const id = committedId(b);
+    if (id) latest.set(id, { seq: b.seq, ts: b.ts, hash: b.hash });
+  }
+}
+
+function commitStatus(latest, entry) {
+  const block = latest.get(entry.id);
+  if (!block) return "extra";
+  if (!block.hash) return "legacy";
+  return block.hash === entryCommitment(entry) ? "committed" : "changed";
+}
+
+function missingCommits(latest, statuses) {
+  return [...latest.entries()].filter(([id]) => !(id in statuses)).map(([id, b]) => ({ id, seq: b.seq, ts: b.ts }));
+}
+
+/*
+ * The checks that run on unlock read the stored records and the chain a page at a time instead of
+ * loading either whole, so their memory use does not grow with the vault. What they keep across
+ * pages is per id (statuses, HMACs, latest commitments), never the records or blocks themselves.
+ */
+const ENTRY_PAGE = 100;
+const CHAIN_PAGE = 256;
+
+/**
+ * forEachStoredEntry(fn, set) - awaits fn(record) for every stored record, newest-first
+ * - cursors are positions, so records appended meanwhile are not visited and none is visited twice
+ * - stops early once fn returns false
+ * @param {(record: import("./types").Entry) => unknown} fn
+ * @param {import("./types").VaultSetName} [set]
+ * @returns {Promise<void>}
+ */
+export async function forEachStoredEntry(fn, set) {
+  for (let cursor = null; ; ) {
+    const page = await storage.loadEntriesPage(cursor, ENTRY_PAGE, set);
+    for (const e of page.items) if ((await fn(e)) === false) return;
+    if (page.nextCursor === null) return;
+    cursor = page.nextCursor;
+  }
+}
+
+/**
+ * loadCommitments(set)
+ * - latest commitment per entry id as crossCheckEntries() reads it, from storage.loadChainRange pages
+ * - returns Map<id, { seq, ts, hash }>
+ * @param {import("./types").VaultSetName} [set]
+ * @returns {Promise<Map<string, { seq: number, ts: string, hash?: string }>>}
+ */
+export async function loadCommitments(set) {
+  const latest = new Map();
+  const total = await storage.countTamperLog(set);
+  for (let from = 1; from <= total; from += CHAIN_PAGE) {
+    addCommitments(latest, await storage.loadChainRange(from, Math.min(from + CHAIN_PAGE - 1, total), set));
+  }
+  return latest;
+}
+
+/**
+ * checkStoredEntries(masterHex, { onLegacy, set })
+ * - the unlock integrity check over storage: verifyEntry(), verifyRevisionLinks() and
+ *   crossCheckEntries() for every stored record, paged
+ * - onLegacy(record) is awaited for each "legacy" record whose HMAC checks; the caller commits it
+ *   to the chain there, and it is reported as "committed"
+ * - returns { ok: number, failed: [ids], brokenLinks: [ids], commits: { statuses, missing } }
+ * @param {string} masterHex
+ * @param {{ onLegacy?: (record: import("./types").Entry) => unknown, set?: import("./types").VaultSetName }} [options]
+ * @returns {Promise<{ ok: number, failed: string[], brokenLinks: string[], commits: import("./types").EntryCommitCheck }>}
+ */
+export async function checkStoredEntries(masterHex, { onLegacy, set } = {}) {
+  const latest = await loadCommitments(set);
+  const records = new Map();
+  const links = [];
+  const statuses = {};
+  const result = { ok: 0, failed: [], brokenLinks: [] };
+  await forEachStoredEntry(async e => {
+    const valid = verifyEntry(masterHex, e);
+    if (valid) result.ok++;
+    else result.failed.push(e.id);
+    records.set(e.id, linkTarget(e));
+    if (e.prevId) links.push(linkOf(e));
+
+    let status = commitStatus(latest, e);
+    if (status === "legacy" && valid && onLegacy) {
+      await onLegacy(e);
+      status = "committed";
+    }
+    statuses[e.id] = status;
+  }, set);
+  result.brokenLinks = brokenLinks(records, links);
+  return { ...result, commits: { statuses, missing: missingCommits(latest, statuses) } };
+}
+
+/**
+ * @param {import("./types").Entry} entry
+ * @returns {number}
+ */
+export function entryVersion(entry) {
+  return entry && entry.v ? entry.v : 1;
+}
+
+/**
+ * @param {import("./types").Entry} entry
+ * @returns {string}
+ */
+export function rootIdOf(entry) {
+  return entry.rootId || entry.id;
+}
+
+/**
+ * normalizeMeta(meta) - trimmed title, lowercase unique tags, known classification; empty fields dropped
+ * @param {Partial<import("./types").EntryMeta> | null} [meta]
+ * @returns {import("./types").EntryMeta}
+ */
+export function normalizeMeta(meta) {
+  const out = {};
+  const title = String((meta && meta.title) || "").trim().slice(0, 120);
+  if (title) out.title = title;
+  const tags = [...new Set(((meta && meta.tags) || []).map(t => String(t).trim().toLowerCase().replace(/^#/, "")).filter(Boolean))];
+  if (tags.length) out.tags = tags.slice(0, 16);
+  const level = meta && meta.classification;
+  if (CLASSIFICATION_LEVELS.includes(level) && level !== CLASSIFICATION_LEVELS[0]) out.classification = level;
+  const files = ((meta && meta.files) || [])
+    .filter(f => f && f.id)
+    .map(f => ({ id: String(f.id), name: String(f.name || "attachment"), mime: String(f.mime || "application/octet-stream"), size: Number(f.size) || 0 }));
+  if (files.length) out.files = files;
+  return out;
+}
+
+/**
+ * parseTags("work, #travel  ideas") -> ["work", "travel", "ideas"]
+ * @param {string} text
+ * @returns {string[]}
+ */
+export function parseTags(text) {
+  return normalizeMeta({ tags: String(text || "").split(/[,\s]+/) }).tags || [];
+}
+
+/**
+ * sealEntry(masterHex, plaintext, { id, timestamp, links, meta, attachments })
+ * - id / timestamp are only passed when re-sealing an existing entry (migration)
+ * - links = { rootId, prevId, prevHmac } for revisions
+ * - meta = { title, tags, classification, files }; omitted when empty
+ * - attachments = refs from attachments.encryptFile()
+ * @param {string} masterHex
+ * @param {string} plaintext
+ * @param {{ id?: string, timestamp?: string, links?: { rootId: string, prevId: string, prevHmac: string },
+ *   meta?: Partial<import("./types").EntryMeta>, attachments?: import("./types").AttachmentRef[] }} [options]
+ * @returns {Promise<import("./types").Entry>}
+ */
+export async function sealEntry(masterHex, plaintext, { id, timestamp, links, meta, attachments } = {}) {
+  const { blob } = await Meowscript.sealWithKey(plaintext, masterHex, { enableObfuscation: false });
+  const entryId = id || Date.now().toString() + "-" + (await crypto.randomHex(3));
+  const cleanMeta = normalizeMeta(meta);
+  const metaBlob = Object.keys(cleanMeta).length
+    ? (await Meowscript.sealWithKey(JSON.stringify(cleanMeta), masterHex, { enableObfuscation: false, context: { entryId, part: "meta" } })).blob
+    : undefined;
+  const entry = {
+    v: ENTRY_VERSION,
+    id: entryId,
+    blob,
+    timestamp: timestamp || new Date().toISOString(),
+    ...(links || {}),
+    ...(metaBlob ? { meta: metaBlob } : {}),
+    ...(attachments && attachments.length ? { attachments: attachments.map(({ id, chunks, size, hash }) => ({ id, chunks, size, hash })) } : {})
+  };
+  return { ...entry, hmac: crypto.computeEntryHMAC(masterHex, entry) };
+}
+
+/**
+ * reviseEntry(masterHex, previous, plaintext, meta, attachments)
+ * - seals a new record linked to `previous`, which must be the latest v2 record of its chain
+ * - meta and attachments are stored as given (not inherited), so pass the previous ones to keep them
+ * - returns the new record; the caller appends it
+ * @param {string} masterHex
+ * @param {import("./types").Entry} previous
+ * @param {string} plaintext
+ * @param {Partial<import("./types").EntryMeta>} [meta]
+ * @param {import("./types").AttachmentRef[]} [attachments]
+ * @returns {Promise<import("./types").Entry>}
+ */
+export async function reviseEntry(masterHex, previous, plaintext, meta, attachments) {
+  if (entryVersion(previous) < ENTRY_VERSION) throw new Error("Entry is still being migrated; try again shortly.");
+  if (!verifyEntry(masterHex, previous)) throw new Error("Previous revision failed its integrity check.");
+  // a revision is appended after the record it revises, so the scan stops at `previous`
+  let revised = false;
+  await forEachStoredEntry(e => {
+    revised = e.prevId === previous.id;
+    return !revised && e.id !== previous.id;
+  });
+  if (revised) throw new Error("Only the latest revision can be revised.");
+  return sealEntry(masterHex, plaintext, {
+    links: { rootId: rootIdOf(previous), prevId: previous.id, prevHmac: previous.hmac },
+    meta,
+    attachments
+  });
+}
+
+/**
+ * groupRevisions(entries)
+ * - returns [{ rootId, latest, revisions: [oldest ... newest] }], most recently changed first
+ * @param {import("./types").Entry[]} entries
+ * @returns {import("./types").EntryChain[]}
+ */
+export function groupRevisions(entries) {
+  const chains = new Map();
+  for (const e of entries || []) {
+    const root = rootIdOf(e);
+    if (!chains.has(root)) chains.set(root, []);
+    chains.get(root).push(e);
+  }
+  const out = [];
+  for (const [rootId, list] of chains) {
+    const revisions = [...list].sort((a, b) => (a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0));
+    out.push({ rootId, latest: revisions[revisions.length - 1], revisions });
+  }
+  return out.sort((a, b) => (a.latest.timestamp < b.latest.timestamp ? 1 : -1));
+}
+
+/**
+ * loadRevisions(entry)
+ * - the records of entry's revision chain up to entry, oldest first, read from storage by following
+ *   prevId (the entry list only holds the pages loaded so far); stops at a link storage cannot resolve
+ * @param {import("./types").Entry} entry
+ * @returns {Promise<import("./types").Entry[]>}
+ */
+export async function loadRevisions(entry) {
+  const revisions = [entry];
+  const seen = new Set([entry.id]);
+  for (let prevId = entry.prevId; prevId && !seen.has(prevId); ) {
+    const prev = await storage.getEntry(prevId);
+    if (!prev) break;
+    seen.add(prevId);
+    revisions.unshift(prev);
+    prevId = prev.prevId;
+  }
+  return revisions;
+}
+
+/**
+ * verifyRevisionLinks(entries)
+ * - every prevId must point at an existing record of the same chain whose HMAC matches prevHmac,
+ *   and no record may be revised twice (a fork means a revision was spliced in)
+ * - returns ids of the records with broken links
+ * @param {import("./types").Entry[]} entries
+ * @returns {string[]}
+ */
+export function verifyRevisionLinks(entries) {
+  const records = new Map((entries || []).map(e => [e.id, linkTarget(e)]));
+  return brokenLinks(records, (entries || []).filter(e => e.prevId).map(linkOf));
+}
+
+// what a revision link is checked against, so the paged check only keeps this per record
+function linkTarget(entry) {
+  return { hmac: entry.hmac, rootId: rootIdOf(entry) };
+}
+
+function linkOf(entry) {
+  return { id: entry.id, prevId: entry.prevId, prevHmac: entry.prevHmac, rootId: entry.rootId };
+}
+
+function brokenLinks(records, links) {
+  const seenPrev = new Set();
+  const broken = [];
+  for (const l of links) {
+    const prev = records.get(l.prevId);
+    const ok = prev && prev.hmac === l.prevHmac && prev.rootId === l.rootId && !seenPrev.has(l.prevId);
+    seenPrev.add(l.prevId);
+    if (!ok) broken.push(l.id);
+  }
+  return broken;
+}
+
+/**
+ * verifyEntry(masterHex, entry) - HMAC check, plus the claw mark for v2 (binds the HMAC to the blob contents)
+ * @param {string} masterHex
+ * @param {import("./types").Entry} entry
+ * @returns {boolean}
+ */
+export function verifyEntry(masterHex, entry) {
+  if (!crypto.verifyEntryHMAC(masterHex, entry)) return false;
+  if (entryVersion(entry) === 1) return true;
+  return Meowscript.verifyClawMark(entry.blob) && (!entry.meta || Meowscript.verifyClawMark(entry.meta));
+}
+
+/**
+ * openEntry(masterHex, entry) - plaintext for either format; throws on decrypt failure
+ * - callers check verifyEntry() first
+ * @param {string} masterHex
+ * @param {import("./types").Entry} entry
+ * @returns {Promise<string>}
+ */
+export async function openEntry(masterHex, entry) {
+  if (entryVersion(entry) === 1) {
+    const plain = crypto.decryptEntryWithMaster(masterHex, entry);
+    if (!plain) throw new Error("v1 entry did not decrypt.");
+    return plain;
+  }
+  const { plaintext } = await Meowscript.unsealWithKey(entry.blob, masterHex);
+  return plaintext;
+}
+
+/**
+ * openEntryMeta(masterHex, entry) - decrypted { title, tags, classification } ({} when none)
+ * @param {string} masterHex
+ * @param {import("./types").Entry} entry
+ * @returns {Promise<import("./types").EntryMeta>}
+ */
+export async function openEntryMeta(masterHex, entry) {
+  if (!entry.meta) return {};
+  const { plaintext } = await Meowscript.unsealWithKey(entry.meta, masterHex);
+  return normalizeMeta(JSON.parse(plaintext));
+}
+
+/**
+ * loadMetaMap(masterHex, entries)
+ * - meta of the latest revision of every chain, keyed by root id; chains failing integrity are left out
+ * @param {string} masterHex
+ * @param {import("./types").Entry[]} entries
+ * @returns {Promise<Record<string, import("./types").EntryMeta>>}
+ */
+export async function loadMetaMap(masterHex, entries) {
+  const out = {};
+  for (const chain of groupRevisions(entries)) await addLatestMeta(masterHex, out, chain.rootId, chain.latest);
+  return out;
+}
+
+/**
+ * loadStoredMetaMap(masterHex) - loadMetaMap() over every stored record, paged
+ * @param {string} masterHex
+ * @returns {Promise<Record<string, import("./types").EntryMeta>>}
+ */
+export async function loadStoredMetaMap(masterHex) {
+  const out = {};
+  await forEachLatestRevision(latest => addLatestMeta(masterHex, out, rootIdOf(latest), latest));
+  return out;
+}
+
+async function addLatestMeta(masterHex, out, rootId, latest) {
+  try {
+    if (!verifyEntry(masterHex, latest)) return;
+    out[rootId] = await openEntryMeta(masterHex, latest);
+  } catch (e) {
+    console.warn("loadMetaMap: meta failed to open", latest.id, e);
+  }
+}
+
+/**
+ * forEachLatestRevision(fn, set)
+ * - awaits fn(record) for the latest revision of every stored chain (latest as in groupRevisions())
+ * - two paged passes: the first finds each chain's latest id, the second hands those records to fn
+ * @param {(record: import("./types").Entry) => unknown} fn
+ * @param {import("./types").VaultSetName} [set]
+ * @returns {Promise<void>}
+ */
+export async function forEachLatestRevision(fn, set) {
+  const latest = new Map();
+  await forEachStoredEntry(e => {
+    const seen = latest.get(rootIdOf(e));
+    if (!seen || !(e.timestamp < seen.timestamp)) latest.set(rootIdOf(e), { id: e.id, timestamp: e.timestamp });
+  }, set);
+  const ids = new Set([...latest.values()].map(l => l.id));
+  latest.clear();
+  await forEachStoredEntry(async e => {
+    if (ids.has(e.id)) await fn(e);
+  }, set);
+}
+
+/**
+ * collectTags(metaMap) - sorted unique tags across all entries
+ * @param {Record<string, import("./types").EntryMeta>} metaMap
+ * @returns {string[]}
+ */
+export function collectTags(metaMap) {
+  const tags = new Set();
+  Object.values(metaMap || {}).forEach(m => (m.tags || []).forEach(t => tags.add(t)));
+  return [...tags].sort();
+}
+
+/**
+ * @param {import("./types").Entry[]} entries
+ * @returns {number}
+ */
+export function countLegacyEntries(entries) {
+  return (entries || []).filter(e => entryVersion(e) < ENTRY_VERSION).length;
+}
+
+/**
+ * countStoredLegacyEntries(set) - countLegacyEntries() over every stored record, paged
+ * @param {import("./types").VaultSetName} [set]
+ * @returns {Promise<number>}
+ */
+export async function countStoredLegacyEntries(set) {
+  let count = 0;
+  await forEachStoredEntry(e => {
+    if (entryVersion(e) < ENTRY_VERSION) count++;
+  }, set);
+  return count;
+}
+
+/**
+ * migrateEntries(masterHex, { batchSize, onProgress, onResealed })
+ * - re-seals every v1 entry as v2, keeping its id and timestamp
+ * - reads the stored records a page at a time; each batch is written before the next starts, so an
+ *   interrupted run resumes on the next unlock
+ * - onResealed(records) gets each written batch, for the audit chain commitments
+ * - entries failing their HMAC are left untouched and reported, never re-sealed
+ * - returns { total, migrated, failed: [ids] }
+ * @param {string} masterHex
+ * @param {{ batchSize?: number,
+ *   onProgress?: (progress: { total: number, migrated: number, failed: string[], done: number }) => unknown,
+ *   onResealed?: (records: import("./types").Entry[]) => unknown }} [options]
+ * @returns {Promise<{ total: number, migrated: number, failed: string[] }>}
+ */
+export async function migrateEntries(masterHex, { batchSize = 20, onProgress, onResealed } = {}) {
+  const result = { total: await countStoredLegacyEntries(), migrated: 0, failed: [] };
+  let done = 0;
+  let batch = [];
+
+  const flush = async () => {
+    const resealed = {};
+    for (const e of batch) {
+      if (!verifyEntry(masterHex, e)) {
+        result.failed.push(e.id);
+        continue;
+      }
+      try {
+        resealed[e.id] = await sealEntry(masterHex, await openEntry(masterHex, e), { id: e.id, timestamp: e.timestamp });
+      } catch (err) {
+        console.warn("migrateEntries: reseal failed", e.id, err);
+        result.failed.push(e.id);
+      }
+    }
+
+    // swapped in as one write against the stored list, so entries saved meanwhile are kept
+    try {
+      await storage.updateEntries(current => current.map(e => (entryVersion(e) === 1 && resealed[e.id] ? resealed[e.id] : e)));
+    } catch {
+      throw new Error("Failed to save migrated entries.");
+    }
+    result.migrated += Object.keys(resealed).length;
+    if (onResealed) await onResealed(Object.values(resealed));
+
+    done += batch.length;
+    batch = [];
+    if (onProgress) await onProgress({ ...result, done: Math.min(done, result.total) });
+  };
+
+  // re-sealing replaces records in place, so the page cursors stay valid across batches
+  await forEachStoredEntry(async e => {
+    if (entryVersion(e) !== 1) return;
+    batch.push(e);
+    if (batch.length >= batchSize) await flush();
+  });
+  if (batch.length) await flush();
+  return result;
+}
@@ -0,0 +1,133 @@
+// src/kdf.js
+// Pluggable passphrase KDFs. Each vault stores a spec { kdf, params } next to its wrapped key,
+// so the cost can be raised later without breaking existing vaults. The derivations themselves are
+// in kdfcore.js; the *Async variants run them on the crypto worker (cryptoworker.js) instead of
+// blocking the JS thread.
+
+import CryptoJS from "crypto-js";
+import { createJob, runJob } from "./kdfcore";
+import { currentCryptoWorker } from "./cryptoworker";
+
+export const KDF_PBKDF2 = "pbkdf2-sha256";
+export const KDF_SCRYPT = "scrypt";
+
+/**
+ * Policy applied to new vaults and to old vaults on their next successful unlock.
+ * scrypt N=2^15, r=8 needs 32 MiB per derivation, which is the memory-hard part PBKDF2 lacks.
+ */
+export const CURRENT_KDF_POLICY = { kdf: KDF_SCRYPT, params: { N: 32768, r: 8, p: 1 } };
+
+/**
+ * Recovery codes carry 128 random bits, so stretching buys little; a lighter scrypt keeps
+ * generating a full set of codes (one derivation each) fast on older phones.
+ */
+export const RECOVERY_KDF_POLICY = { kdf: KDF_SCRYPT, params: { N: 4096, r: 8, p: 1 } };
+
+/* ---------- helpers ---------- */
+
+function wordArrayToBytes(wa) {
+  const out = new Uint8Array(wa.sigBytes);
+  for (let i = 0; i < wa.sigBytes; i++) {
+    out[i] = (wa.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+  }
+  return out;
+}
+
+function bytesToWordArray(bytes) {
+  const words = [];
+  for (let i = 0; i < bytes.length; i++) {
+    words[i >>> 2] |= bytes[i] << (24 - (i % 4) * 8);
+  }
+  return CryptoJS.lib.WordArray.create(words, bytes.length);
+}
+
+// kdfcore job spec; the passphrase is UTF-8 encoded the way CryptoJS does it
+function jobSpec(passphrase, saltWA, spec, dkLen) {
+  const { kdf, params } = normalizeSpec(spec);
+  return {
+    kdf,
+    params,
+    passwordHex: CryptoJS.enc.Utf8.parse(passphrase).toString(CryptoJS.enc.Hex),
+    saltHex: saltWA.toString(CryptoJS.enc.Hex),
+    dkLen
+  };
+}
+
+function runToEnd(spec) {
+  const job = createJob(spec);
+  runJob(job, Infinity);
+  return CryptoJS.enc.Hex.parse(job.resultHex);
+}
+
+/**
+ * scrypt(passphrase, saltWA, { N, r, p }, dkLen) - returns CryptoJS WordArray
+ */
+export function scrypt(passphrase, saltWA, params, dkLen = 32) {
+  return runToEnd(jobSpec(passphrase, saltWA, { kdf: KDF_SCRYPT, params }, dkLen));
+}
+
+/* ---------- main API ---------- */
+
+/**
+ * normalizeSpec(spec | legacyIterations)
+ * - accepts a stored spec or a bare PBKDF2 iteration count from older vaults / headers
+ */
+export function normalizeSpec(spec) {
+  if (typeof spec === "number" || typeof spec === "string") {
+    return { kdf: KDF_PBKDF2, params: { iterations: parseInt(String(spec), 10) } };
+  }
+  if (!spec || !spec.kdf) throw new Error("Missing KDF spec");
+  if (spec.kdf !== KDF_PBKDF2 && spec.kdf !== KDF_SCRYPT) throw new Error(`Unsupported KDF: ${spec.kdf}`);
+  return { kdf: spec.kdf, params: { ...spec.params } };
+}
+
+/**
+ * deriveKey(passphrase, saltHex, spec, dkLen) - returns CryptoJS WordArray (drop-in for deriveKeyPBKDF2)
+ */
+export function deriveKey(passphrase, saltHex, spec, dkLen = 32) {
+  return runToEnd(jobSpec(passphrase, CryptoJS.enc.Hex.parse(saltHex), spec, dkLen));
+}
+
+/**
+ * deriveKeyBytes(passphrase, saltBytes, spec, dkLen) - byte-array variant used by Meowscript
+ */
+export function deriveKeyBytes(passphrase, saltBytes, spec, dkLen = 32) {
+  return Array.from(wordArrayToBytes(runToEnd(jobSpec(passphrase, bytesToWordArray(saltBytes), spec, dkLen))));
+}
+
+/**
+ * deriveKeyAsync(passphrase, saltHex, spec, dkLen, { onProgress, signal })
+ * - deriveKey() on the crypto worker: same bytes, and the JS thread stays free meanwhile
+ * - onProgress(fraction); an aborted signal rejects with CryptoWorkerError CANCELLED
+ */
+export async function deriveKeyAsync(passphrase, saltHex, spec, dkLen = 32, options = {}) {
+  const hex = await currentCryptoWorker().derive(jobSpec(passphrase, CryptoJS.enc.Hex.parse(saltHex), spec, dkLen), options);
+  return CryptoJS.enc.Hex.parse(hex);
+}
+
+/**
+ * deriveKeyBytesAsync(passphrase, saltBytes, spec, dkLen, { onProgress, signal }) - deriveKeyBytes() on the crypto worker
+ */
+export async function deriveKeyBytesAsync(passphrase, saltBytes, spec, dkLen = 32, options = {}) {
+  const hex = await currentCryptoWorker().derive(jobSpec(passphrase, bytesToWordArray(saltBytes), spec, dkLen), options);
+  return Array.from(wordArrayToBytes(CryptoJS.enc.Hex.parse(hex)));
+}
+
+/**
+ * needsUpgrade(spec) - true when the stored spec is weaker than CURRENT_KDF_POLICY
+ */
+export function needsUpgrade(spec) {
+  const s = normalizeSpec(spec);
+  const policy = CURRENT_KDF_POLICY;
+  if (s.kdf !== policy.kdf) return true;
+  return Object.keys(policy.params).some(k => (s.params[k] || 0) < policy.params[k]);
+}
+
+/**
+ * describeKdf(spec) - display string, e.g. "scrypt(N=32768,r=8,p=1)"
+ */
+export function describeKdf(spec) {
+  const { kdf, params } = normalizeSpec(spec);
+  const args = Object.keys(params).map(k => `${k === "iterations" ? "i" : k}=${params[k]}`).join(",");
+  return `${kdf}(${args})`;
+}
@@ -0,0 +1,303 @@
+// src/kdfcore.js
+// PBKDF2-HMAC-SHA256 and scrypt (RFC 7914) as jobs that run a slice at a time. kdf.js runs a job
+// to the end; the crypto workers (cryptoworker.js, cryptoworker.node.js) run it in slices on
+// another thread so they can report progress and stop. CommonJS with no imports, like canonical.js,
+// so plain Node can require it; every function is a worklet so it also runs on a Reanimated
+// worklet runtime.
+
+/**
+ * Job spec (plain JSON, so it can cross threads):
+ * { kdf: "pbkdf2-sha256" | "scrypt", params: { iterations } | { N, r, p }, passwordHex, saltHex, dkLen }
+ * passwordHex is the UTF-8 passphrase, as CryptoJS encodes it.
+ *
+ * createJob(spec) -> job; runJob(job, units) does up to `units` of work (a PBKDF2 iteration or a
+ * scrypt BlockMix) and returns true once job.resultHex is set. job.progress runs from 0 to 1.
+ */
+
+// thrown by the crypto workers; codes: CANCELLED, FAILED (defined here so the Node worker can share it)
+class CryptoWorkerError extends Error {
+  constructor(message, code) {
+    super(message);
+    this.name = "CryptoWorkerError";
+    this.code = code;
+  }
+}
+
+/* ---------- helpers ---------- */
+
+function hexToBytes(hex) {
+  "worklet";
+  const out = new Uint8Array(hex.length >>> 1);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.substr(i * 2, 2), 16);
+  return out;
+}
+
+function bytesToHex(bytes) {
+  "worklet";
+  let s = "";
+  for (let i = 0; i < bytes.length; i++) s += (bytes[i] < 16 ? "0" : "") + bytes[i].toString(16);
+  return s;
+}
+
+/* ---------- SHA-256 / HMAC ---------- */
+
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+];
+const SHA256_IV = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+// one 64-byte block at bytes[off] into state H (8 words); W is 64 words of scratch
+function compress(H, W, bytes, off) {
+  "worklet";
+  const K = SHA256_K;
+  for (let i = 0; i < 16; i++) {
+    const o = off + i * 4;
+    W[i] = (bytes[o] << 24) | (bytes[o + 1] << 16) | (bytes[o + 2] << 8) | bytes[o + 3];
+  }
+  for (let i = 16; i < 64; i++) {
+    const a = W[i - 15];
+    const b = W[i - 2];
+    const s0 = ((a >>> 7) | (a << 25)) ^ ((a >>> 18) | (a << 14)) ^ (a >>> 3);
+    const s1 = ((b >>> 17) | (b << 15)) ^ ((b >>> 19) | (b << 13)) ^ (b >>> 10);
+    W[i] = (W[i - 16] + s0 + W[i - 7] + s1) | 0;
+  }
+  let a = H[0], b = H[1], c = H[2], d = H[3], e = H[4], f = H[5], g = H[6], h = H[7];
+  for (let i = 0; i < 64; i++) {
+    const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+    const t1 = (h + S1 + ((e & f) ^ (~e & g)) + K[i] + W[i]) | 0;
+    const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+    const t2 = (S0 + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+    h = g; g = f; f = e; e = (d + t1) | 0;
+    d = c; c = b; b = a; a = (t1 + t2) | 0;
+  }
+  H[0] = (H[0] + a) | 0; H[1] = (H[1] + b) | 0; H[2] = (H[2] + c) | 0; H[3] = (H[3] + d) | 0;
+  H[4] = (H[4] + e) | 0; H[5] = (H[5] + f) | 0; H[6] = (H[6] + g) | 0; H[7] = (H[7] + h) | 0;
+}
+
+// SHA-256 of msg, continuing from `state` after `prefixLen` bytes (whole blocks) were hashed into it
+function sha256From(state, prefixLen, msg) {
+  "worklet";
+  const H = new Int32Array(state);
+  const W = new Int32Array(64);
+  const padded = new Uint8Array(((msg.length + 9 + 63) >>> 6) << 6);
+  padded.set(msg);
+  padded[msg.length] = 0x80;
+  const bits = (prefixLen + msg.length) * 8;
+  const end = padded.length;
+  padded[end - 5] = Math.floor(bits / 0x100000000) & 0xff;
+  padded[end - 4] = (bits >>> 24) & 0xff;
+  padded[end - 3] = (bits >>> 16) & 0xff;
+  padded[end - 2] = (bits >>> 8) & 0xff;
+  padded[end - 1] = bits & 0xff;
+  for (let off = 0; off < end; off += 64) compress(H, W, padded, off);
+  const out = new Uint8Array(32);
+  for (let i = 0; i < 8; i++) {
+    out[i * 4] = H[i] >>> 24;
+    out[i * 4 + 1] = (H[i] >>> 16) & 0xff;
+    out[i * 4 + 2] = (H[i] >>> 8) & 0xff;
+    out[i * 4 + 3] = H[i] & 0xff;
+  }
+  return out;
+}
+
+// HMAC key as the hash states after the ipad and opad blocks, so each HMAC costs two short hashes
+function hmacKey(key) {
+  "worklet";
+  const k = key.length > 64 ? sha256From(SHA256_IV, 0, key) : key;
+  const inner = new Uint8Array(64);
+  const outer = new Uint8Array(64);
+  for (let i = 0; i < 64; i++) {
+    const b = i < k.length ? k[i] : 0;
+    inner[i] = b ^ 0x36;
+    outer[i] = b ^ 0x5c;
+  }
+  const W = new Int32Array(64);
+  const innerState = new Int32Array(SHA256_IV);
+  const outerState = new Int32Array(SHA256_IV);
+  compress(innerState, W, inner, 0);
+  compress(outerState, W, outer, 0);
+  return { inner: innerState, outer: outerState };
+}
+
+function hmac(key, msg) {
+  "worklet";
+  return sha256From(key.outer, 64, sha256From(key.inner, 64, msg));
+}
+
+/* ---------- PBKDF2 ---------- */
+
+function pbkdf2Start(password, salt, iterations, dkLen) {
+  "worklet";
+  if (!(iterations >= 1)) throw new Error("pbkdf2: iterations must be at least 1");
+  const blocks = Math.ceil(dkLen / 32);
+  return { key: hmacKey(password), salt, iterations, dkLen, blocks, block: 1, i: 0, U: null, T: null, out: new Uint8Array(blocks * 32) };
+}
+
+// returns true once s.out holds the derived key
+function pbkdf2Run(s, units) {
+  "worklet";
+  for (let n = 0; n < units && s.block <= s.blocks; n++) {
+    if (s.i === 0) {
+      const msg = new Uint8Array(s.salt.length + 4);
+      msg.set(s.salt);
+      msg[s.salt.length] = s.block >>> 24;
+      msg[s.salt.length + 1] = (s.block >>> 16) & 0xff;
+      msg[s.salt.length + 2] = (s.block >>> 8) & 0xff;
+      msg[s.salt.length + 3] = s.block & 0xff;
+      s.U = hmac(s.key, msg);
+      s.T = s.U.slice();
+    } else {
+      s.U = hmac(s.key, s.U);
+      for (let j = 0; j < 32; j++) s.T[j] ^= s.U[j];
+    }
+    s.i++;
+    if (s.i === s.iterations) {
+      s.out.set(s.T, (s.block - 1) * 32);
+      s.block++;
+      s.i = 0;
+    }
+  }
+  return s.block > s.blocks;
+}
+
+function pbkdf2(password, salt, iterations, dkLen) {
+  "worklet";
+  const s = pbkdf2Start(password, salt, iterations, dkLen);
+  pbkdf2Run(s, Infinity);
+  return s.out.slice(0, dkLen);
+}
+
+/* ---------- scrypt ---------- */
+
+function salsa20_8(B) {
+  "worklet";
+  const x = new Uint32Array(B);
+  const R = (a, b) => (a << b) | (a >>> (32 - b));
+  for (let i = 0; i < 8; i += 2) {
+    x[4] ^= R(x[0] + x[12], 7); x[8] ^= R(x[4] + x[0], 9);
+    x[12] ^= R(x[8] + x[4], 13); x[0] ^= R(x[12] + x[8], 18);
+    x[9] ^= R(x[5] + x[1], 7); x[13] ^= R(x[9] + x[5], 9);
+    x[1] ^= R(x[13] + x[9], 13); x[5] ^= R(x[1] + x[13], 18);
+    x[14] ^= R(x[10] + x[6], 7); x[2] ^= R(x[14] + x[10], 9);
+    x[6] ^= R(x[2] + x[14], 13); x[10] ^= R(x[6] + x[2], 18);
+    x[3] ^= R(x[15] + x[11], 7); x[7] ^= R(x[3] + x[15], 9);
+    x[11] ^= R(x[7] + x[3], 13); x[15] ^= R(x[11] + x[7], 18);
+    x[1] ^= R(x[0] + x[3], 7); x[2] ^= R(x[1] + x[0], 9);
+    x[3] ^= R(x[2] + x[1], 13); x[0] ^= R(x[3] + x[2], 18);
+    x[6] ^= R(x[5] + x[4], 7); x[7] ^= R(x[6] + x[5], 9);
+    x[4] ^= R(x[7] + x[6], 13); x[5] ^= R(x[4] + x[7], 18);
+    x[11] ^= R(x[10] + x[9], 7); x[8] ^= R(x[11] + x[10], 9);
+    x[9] ^= R(x[8] + x[11], 13); x[10] ^= R(x[9] + x[8], 18);
+    x[12] ^= R(x[15] + x[14], 7); x[13] ^= R(x[12] + x[15], 9);
+    x[14] ^= R(x[13] + x[12], 13); x[15] ^= R(x[14] + x[13], 18);
+  }
+  for (let i = 0; i < 16; i++) B[i] = (B[i] + x[i]) >>> 0;
+}
+
+// BlockMix over 2r 64-byte blocks (as 16-word Uint32 chunks); Y is scratch of the same size.
+function blockMix(B, Y, r) {
+  "worklet";
+  const X = B.slice((2 * r - 1) * 16, 2 * r * 16);
+  for (let i = 0; i < 2 * r; i++) {
+    for (let j = 0; j < 16; j++) X[j] ^= B[i * 16 + j];
+    salsa20_8(X);
+    const dst = (i % 2 === 0 ? i / 2 : r + (i - 1) / 2) * 16;
+    Y.set(X, dst);
+  }
+  B.set(Y);
+}
+
+function scryptStart(password, salt, params, dkLen) {
+  "worklet";
+  const { N, r, p } = params;
+  if (!N || (N & (N - 1)) !== 0 || N < 2) throw new Error("scrypt: N must be a power of two > 1");
+  const words = 32 * r;
+  return {
+    password, N, r, p, dkLen, words,
+    B: pbkdf2(password, salt, 1, p * 128 * r),
+    lane: 0, // which of the p blocks ROMix is working on
+    i: 0, // 0 .. 2N - 1: first the N writes of V, then the N mixes reading it
+    X: null,
+    V: null,
+    Y: new Uint32Array(words),
+    out: null
+  };
+}
+
+// returns true once s.out holds the derived key
+function scryptRun(s, units) {
+  "worklet";
+  const { N, r, words } = s;
+  for (let n = 0; n < units && s.lane < s.p; n++) {
+    if (s.i === 0) {
+      s.X = new Uint32Array(words);
+      s.V = new Uint32Array(words * N);
+      const dv = new DataView(s.B.buffer, s.B.byteOffset + s.lane * 128 * r, 128 * r);
+      for (let k = 0; k < words; k++) s.X[k] = dv.getUint32(k * 4, true);
+    }
+    if (s.i < N) {
+      s.V.set(s.X, s.i * words);
+    } else {
+      const j = s.X[(2 * r - 1) * 16] & (N - 1);
+      for (let k = 0; k < words; k++) s.X[k] ^= s.V[j * words + k];
+    }
+    blockMix(s.X, s.Y, r);
+    s.i++;
+    if (s.i === 2 * N) {
+      const dv = new DataView(s.B.buffer, s.B.byteOffset + s.lane * 128 * r, 128 * r);
+      for (let k = 0; k < words; k++) dv.setUint32(k * 4, s.X[k], true);
+      s.V = null;
+      s.X = null;
+      s.i = 0;
+      s.lane++;
+    }
+  }
+  if (s.lane < s.p) return false;
+  if (!s.out) s.out = pbkdf2(s.password, s.B, 1, s.dkLen);
+  return true;
+}
+
+/* ---------- main API ---------- */
+
+function createJob(spec) {
+  "worklet";
+  const password = hexToBytes(spec.passwordHex || "");
+  const salt = hexToBytes(spec.saltHex || "");
+  const dkLen = spec.dkLen || 32;
+  const params = spec.params || {};
+  if (spec.kdf === "scrypt") {
+    return { kdf: "scrypt", total: params.p * 2 * params.N, done: 0, progress: 0, resultHex: null, state: scryptStart(password, salt, params, dkLen) };
+  }
+  if (spec.kdf === "pbkdf2-sha256") {
+    return { kdf: "pbkdf2-sha256", total: Math.ceil(dkLen / 32) * params.iterations, done: 0, progress: 0, resultHex: null, state: pbkdf2Start(password, salt, params.iterations, dkLen) };
+  }
+  throw new Error(`Unsupported KDF: ${spec.kdf}`);
+}
+
+function runJob(job, units) {
+  "worklet";
+  if (job.resultHex !== null) return true;
+  const finished = job.kdf === "scrypt" ? scryptRun(job.state, units) : pbkdf2Run(job.state, units);
+  job.done = Math.min(job.total, job.done + units);
+  job.progress = finished ? 1 : job.done / job.total;
+  if (finished) {
+    job.resultHex = bytesToHex(job.kdf === "scrypt" ? job.state.out : job.state.out.slice(0, job.state.dkLen));
+    job.state = null;
+  }
+  return finished;
+}
+
+module.exports = {
+  CryptoWorkerError,
+  createJob,
+  runJob,
+  hexToBytes,
+  bytesToHex
+};
@@ -0,0 +1,94 @@
+// src/lockout.js
+// Failed-unlock throttling. The attempt counter lives in SecureStore next to the key slot, so clearing
+// app data (AsyncStorage) does not reset it. Every failure doubles the wait before the next attempt;
+// an optional threshold hands the vault to the panic wipe instead.
+
+import * as SecureStore from "expo-secure-store";
+import * as storage from "./storage";
+
+export const BASE_DELAY_MS = 2000;
+export const MAX_DELAY_MS = 60 * 60 * 1000;
+export const WIPE_THRESHOLD_CHOICES = [null, 5, 10, 20];
+
+/**
+ * Lockout state (JSON in SECUREKEY_LOCKOUT):
+ * {
+ *   failures: number,        // consecutive failed unlocks since the last success
+ *   lastFailureAt: number,   // ms since epoch
+ *   lockedUntil: number,     // next attempt allowed at (ms since epoch)
+ *   wipeAfter: number|null   // panic wipe once failures reaches this, null = never
+ * }
+ */
+
+const EMPTY = { failures: 0, lastFailureAt: 0, lockedUntil: 0, wipeAfter: null };
+
+/* ---------- helpers ---------- */
+
+async function writeState(state) {
+  await SecureStore.setItemAsync(storage.SECUREKEY_LOCKOUT, JSON.stringify(state));
+}
+
+/* ---------- main API ---------- */
+
+/**
+ * readLockout() - returns the stored state, or an empty one
+ */
+export async function readLockout() {
+  try {
+    const json = await SecureStore.getItemAsync(storage.SECUREKEY_LOCKOUT);
+    return json ? { ...EMPTY, ...JSON.parse(json) } : { ...EMPTY };
+  } catch (e) {
+    console.warn("lockout.readLockout failed", e);
+    return { ...EMPTY };
+  }
+}
+
+/**
+ * backoffDelayMs(failures) - 2s after the first failure, doubling each time, capped at an hour
+ */
+export function backoffDelayMs(failures) {
+  if (failures <= 0) return 0;
+  return Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.min(failures - 1, 30));
+}
+
+/**
+ * remainingMs(state, now) - how long until the next attempt is allowed
+ * - a clock set back past the last failure counts as the full wait, so it cannot skip a lockout
+ */
+export function remainingMs(state, now = Date.now()) {
+  if (!state.failures) return 0;
+  if (now < state.lastFailureAt) return backoffDelayMs(state.failures);
+  return Math.max(0, state.lockedUntil - now);
+}
+
+/**
+ * recordFailure()
+ * - returns { failures, delayMs, lockedUntil, wipe } where wipe is true once the threshold is reached
+ */
+export async function recordFailure() {
+  const state = await readLockout();
+  const now = Date.now();
+  const failures = state.failures + 1;
+  const delayMs = backoffDelayMs(failures);
+  const next = { ...state, failures, lastFailureAt: now, lockedUntil: now + delayMs };
+  await writeState(next);
+  return { failures, delayMs, lockedUntil: next.lockedUntil, wipe: !!state.wipeAfter && failures >= state.wipeAfter };
+}
+
+/**
+ * resetFailures() - after a successful unlock; keeps the wipe threshold. Returns the cleared count.
+ */
+export async function resetFailures() {
+  const state = await readLockout();
+  if (state.failures) await writeState({ ...EMPTY, wipeAfter: state.wipeAfter });
+  return state.failures;
+}
+
+/**
+ * setWipeThreshold(n) - n failures in a row trigger the panic wipe; null turns it off
+ */
+export async function setWipeThreshold(n) {
+  if (n !== null && (!Number.isInteger(n) || n < 3)) throw new Error("Wipe threshold must be at least 3 attempts.");
+  const state = await readLockout();
+  await writeState({ ...state, wipeAfter: n });
+}
@@ -37,15 +37,16 @@ export default function MeowDetail({ visible, onClose }) {
 
   const technicalText = useMemo(() => {
     return [
-      "Meowcript™ — Technical Summary (v1)",
+      "Meowcript™ — Technical Summary (v2)",
       "",
       "Algorithms & primitives:",
-      "- Content cipher: XChaCha20-Poly1305 (AEAD) or AES-256-GCM (fallback)",
-      "- Key derivation: Argon2id (recommended params: mem=128MiB, iter=3, parallel=2)",
+      "- Content cipher: XChaCha20-Poly1305 (AEAD) or AES-256-GCM (fallback), checked against published test vectors",
+      "- Key derivation: scrypt (N=32768, r=8, p=1; 32 MiB memory-hard); legacy blobs: PBKDF2-SHA256",
       "- Per-record CEK (random 256-bit) with two-layer wrapping:",
-      "  • Wrapped by K_pass (Argon2id(passphrase, salt))",
+      "  • Wrapped by K_pass (scrypt(passphrase, salt))",
       "  • Wrapped by K_dev (hardware-bound non-exportable key via Secure Enclave / Keystore)",
-      "- Authenticated metadata: watermark (=^.^= Meowcript™ v1.0) included as AAD",
+      "- Authenticated metadata: watermark (=^.^= Meowcript™ v2.0) included as AAD",
+      "- Legacy MEOW1 blobs (AES-CTR + HMAC-SHA256) remain readable; new blobs are always MEOW2",
       "",
       "Storage artifacts included with each record: header (version, kdf params, salts), nonces, device-wrapped CEK, ciphertext, integrity claw (SHA-256)",
       "",
@@ -121,7 +122,7 @@ export default function MeowDetail({ visible, onClose }) {
               <Text style={styles.sectionHeading}>Key Management</Text>
               <Text style={styles.sectionBody}>
                 Per-record encryption keys (CEKs) are randomly generated and wrapped using a layered
-                key model: a passphrase-derived key (Argon2id) and a device-bound hardware key
+                key model: a passphrase-derived key (scrypt) and a device-bound hardware key
                 (Secure Enclave / Android Keystore). The CEK never exists in persistent plaintext.
               </Text>
             </View>
@@ -1,951 +0,0 @@
-/**
- * 🐾 Meowcript™ v1.0 - Next-Generation Encryption Framework
- * Created by Arnab - Playful Secrecy with Deadly Security
- * 
- * "So strong that even if you entrusted it with nuclear launch codes,
- * your secrets would remain untouchable." =^.^=
- * 
- * Production-ready implementation with double-layered protection,
- * device binding, and quantum-resistant design philosophy.
- */
-
-import * as Crypto from 'expo-crypto';
-import * as SecureStore from 'expo-secure-store';
-import CryptoJS from 'crypto-js';
-
-// ============================================================================
-// 🎯 CONSTANTS AND CONFIGURATION
-// ============================================================================
-
-const MEOWSCRIPT_VERSION = '1.0';
-const MAGIC_HEADER = 'MEOW1';
-const WATERMARK = '=^.^= Meowcript™ v1.0';
-
-// Cryptographic Constants
-const KEY_SIZE = 32; // 256 bits
-const NONCE_SIZE_XCHACHA = 24; // XChaCha20
-const NONCE_SIZE_AES = 12; // AES-GCM
-const SALT_SIZE = 32; // 256 bits
-const CLAW_SIZE = 32; // SHA256 output
-
-// KDF Parameters (Argon2id equivalent using PBKDF2)
-const DEFAULT_KDF_PARAMS = {
-    iterations: 500000, // High iteration count for PBKDF2
-    saltSize: 32,
-    keySize: 32,
-    algorithm: 'PBKDF2'
-};
-
-// Device key storage
-const DEVICE_KEY_ALIAS = 'meowscript_device_key_v1';
-
-// Supported algorithms
-const SUPPORTED_ALGORITHMS = {
-    'XChaCha20-Poly1305': 'xchacha20poly1305',
-    'AES-256-GCM': 'aes256gcm'
-};
-
-const DEFAULT_ALGORITHM = 'AES-256-GCM';
-
-// ============================================================================
-// 🛡️ SECURITY UTILITIES
-// ============================================================================
-
-/**
- * Secure random bytes generation using Expo Crypto
- */
-async function secureRandom(byteCount) {
-    try {
-        const randomBytes = await Crypto.getRandomBytesAsync(byteCount);
-        return Array.from(randomBytes);
-    } catch (error) {
-        throw new MeowscriptError('Failed to generate secure random bytes', 'CRYPTO_ERROR');
-    }
-}
-
-/**
- * Convert byte array to base64
- */
-function bytesToBase64(bytes) {
-    return CryptoJS.lib.WordArray.create(bytes).toString(CryptoJS.enc.Base64);
-}
-
-/**
- * Convert base64 to byte array
- */
-function base64ToBytes(base64) {
-    const wordArray = CryptoJS.enc.Base64.parse(base64);
-    return Array.from(new Uint8Array(wordArray.words.flatMap(word => [
-        (word >>> 24) & 0xff,
-        (word >>> 16) & 0xff,
-        (word >>> 8) & 0xff,
-        word & 0xff
-    ])));
-}
-
-/**
- * Secure memory zeroing (best effort in JavaScript)
- */
-function secureZero(data) {
-    if (Array.isArray(data)) {
-        for (let i = 0; i < data.length; i++) {
-            data[i] = 0;
-        }
-    } else if (typeof data === 'object' && data !== null) {
-        Object.keys(data).forEach(key => {
-            if (typeof data[key] === 'string') {
-                data[key] = '\x00'.repeat(data[key].length);
-            } else if (typeof data[key] === 'number') {
-                data[key] = 0;
-            }
-        });
-    }
-}
-
-/**
- * Custom Meowscript error class
- */
-class MeowscriptError extends Error {
-    constructor(message, code, details = null) {
-        super(message);
-        this.name = 'MeowscriptError';
-        this.code = code;
-        this.details = details;
-        this.timestamp = new Date().toISOString();
-    }
-}
-
-// ============================================================================
-// 🔑 KEY DERIVATION AND MANAGEMENT
-// ============================================================================
-
-/**
- * Derive key from passphrase using PBKDF2 (Argon2id fallback)
- */
-async function derivePassphraseKey(passphrase, salt, params = DEFAULT_KDF_PARAMS) {
-    try {
-        const saltWordArray = CryptoJS.lib.WordArray.create(salt);
-        const key = CryptoJS.PBKDF2(passphrase, saltWordArray, {
-            keySize: params.keySize / 4, // CryptoJS uses word size (32-bit)
-            iterations: params.iterations,
-            hasher: CryptoJS.algo.SHA256
-        });
-        
-        // Convert to byte array
-        const keyBytes = [];
-        for (let i = 0; i < key.words.length; i++) {
-            const word = key.words[i];
-            keyBytes.push((word >>> 24) & 0xff);
-            keyBytes.push((word >>> 16) & 0xff);
-            keyBytes.push((word >>> 8) & 0xff);
-            keyBytes.push(word & 0xff);
-        }
-        
-        return keyBytes.slice(0, params.keySize);
-    } catch (error) {
-        throw new MeowscriptError('Failed to derive key from passphrase', 'KDF_ERROR', error);
-    }
-}
-
-/**
- * Get or generate device-bound key using SecureStore
- */
-async function getDeviceKey() {
-    try {
-        let deviceKeyBase64 = await SecureStore.getItemAsync(DEVICE_KEY_ALIAS);
-        
-        if (!deviceKeyBase64) {
-            // Generate new device key
-            const deviceKeyBytes = await secureRandom(KEY_SIZE);
-            deviceKeyBase64 = bytesToBase64(deviceKeyBytes);
-            
-            await SecureStore.setItemAsync(DEVICE_KEY_ALIAS, deviceKeyBase64, {
-                requireAuthentication: false, // Device unlock is sufficient
-                accessGroup: 'meowscript_keys'
-            });
-            
-            secureZero(deviceKeyBytes);
-        }
-        
-        return base64ToBytes(deviceKeyBase64);
-    } catch (error) {
-        throw new MeowscriptError('Failed to access device key', 'DEVICE_KEY_ERROR', error);
-    }
-}
-
-/**
- * Generate Content Encryption Key (CEK)
- */
-async function generateCEK() {
-    return await secureRandom(KEY_SIZE);
-}
-
-// ============================================================================
-// 🎭 WHISKER MASK & PURR SHIFT (Pre-encryption obfuscation)
-// ============================================================================
-
-/**
- * Apply Whisker Mask - deterministic character substitution
- */
-function applyWhiskerMask(text, seed) {
-    const mask = generateWhiskerMask(seed);
-    return text.split('').map(char => {
-        const code = char.charCodeAt(0);
-        return String.fromCharCode((code + mask[code % mask.length]) % 65536);
-    }).join('');
-}
-
-/**
- * Apply Purr Shift - deterministic text fragmentation and reordering
- */
-function applyPurrShift(text, seed) {
-    if (text.length < 2) return text;
-    
-    const rng = seedRandom(seed);
-    const fragments = [];
-    let pos = 0;
-    
-    // Create fragments of random sizes
-    while (pos < text.length) {
-        const fragmentSize = Math.max(1, Math.floor(rng() * 8) + 1);
-        fragments.push(text.slice(pos, Math.min(pos + fragmentSize, text.length)));
-        pos += fragmentSize;
-    }
-    
-    // Shuffle fragments deterministically
-    for (let i = fragments.length - 1; i > 0; i--) {
-        const j = Math.floor(rng() * (i + 1));
-        [fragments[i], fragments[j]] = [fragments[j], fragments[i]];
-    }
-    
-    return fragments.join('');
-}
-
-/**
- * Reverse Whisker Mask
- */
-function reverseWhiskerMask(text, seed) {
-    const mask = generateWhiskerMask(seed);
-    return text.split('').map(char => {
-        const code = char.charCodeAt(0);
-        return String.fromCharCode((code - mask[code % mask.length] + 65536) % 65536);
-    }).join('');
-}
-
-/**
- * Reverse Purr Shift
- */
-function reversePurrShift(text, seed) {
-    if (text.length < 2) return text;
-    
-    // This requires storing the original fragment boundaries
-    // For simplicity, we'll use a reversible algorithm
-    const rng = seedRandom(seed);
-    const originalLength = text.length;
-    
-    // Recreate the fragmentation pattern
-    const fragmentSizes = [];
-    let pos = 0;
-    while (pos < originalLength) {
-        const fragmentSize = Math.max(1, Math.floor(rng() * 8) + 1);
-        fragmentSizes.push(Math.min(fragmentSize, originalLength - pos));
-        pos += fragmentSizes[fragmentSizes.length - 1];
-    }
-    
-    // Recreate fragments from shuffled text
-    const fragments = [];
-    pos = 0;
-    for (const size of fragmentSizes) {
-        fragments.push(text.slice(pos, pos + size));
-        pos += size;
-    }
-    
-    // Reverse the shuffle
-    const originalOrder = Array.from({length: fragments.length}, (_, i) => i);
-    const rng2 = seedRandom(seed);
-    for (let i = 0; i < fragmentSizes.length; i++) {
-        rng2(); // Skip the fragment size generation calls
-    }
-    
-    for (let i = originalOrder.length - 1; i > 0; i--) {
-        const j = Math.floor(rng2() * (i + 1));
-        [originalOrder[i], originalOrder[j]] = [originalOrder[j], originalOrder[i]];
-    }
-    
-    // Reorder fragments
-    const reordered = new Array(fragments.length);
-    for (let i = 0; i < fragments.length; i++) {
-        reordered[originalOrder[i]] = fragments[i];
-    }
-    
-    return reordered.join('');
-}
-
-/**
- * Generate deterministic whisker mask from seed
- */
-function generateWhiskerMask(seed) {
-    const rng = seedRandom(seed);
-    const mask = [];
-    for (let i = 0; i < 256; i++) {
-        mask.push(Math.floor(rng() * 256));
-    }
-    return mask;
-}
-
-/**
- * Simple seeded random number generator
- */
-function seedRandom(seed) {
-    let m = 0x80000000; // 2**31;
-    let a = 1103515245;
-    let c = 12345;
-    let state = seed ? (typeof seed === 'string' ? hashString(seed) : seed) : Math.floor(Math.random() * (m - 1));
-    
-    return function() {
-        state = (a * state + c) % m;
-        return state / (m - 1);
-    };
-}
-
-/**
- * Simple string hash for seeding
- */
-function hashString(str) {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-        const char = str.charCodeAt(i);
-        hash = ((hash << 5) - hash) + char;
-        hash = hash & hash; // Convert to 32bit integer
-    }
-    return Math.abs(hash);
-}
-
-// ============================================================================
-// 🔐 CORE ENCRYPTION/DECRYPTION (AEAD)
-// ============================================================================
-
-/**
- * AES-256-GCM encryption using CryptoJS
- */
-function aesGcmEncrypt(key, nonce, plaintext, aad = '') {
-    try {
-        const keyWordArray = CryptoJS.lib.WordArray.create(key);
-        const nonceWordArray = CryptoJS.lib.WordArray.create(nonce);
-        const plaintextWordArray = CryptoJS.enc.Utf8.parse(plaintext);
-        
-        // CryptoJS doesn't support GCM natively, so we'll use AES-CTR + HMAC
-        // This is a simplified implementation - in production, use a proper AEAD library
-        const encrypted = CryptoJS.AES.encrypt(plaintextWordArray, keyWordArray, {
-            iv: nonceWordArray,
-            mode: CryptoJS.mode.CTR,
-            padding: CryptoJS.pad.NoPadding
-        });
-        
-        // Add HMAC for authentication
-        const ciphertext = encrypted.ciphertext.toString(CryptoJS.enc.Base64);
-        const authKey = CryptoJS.HMAC(CryptoJS.enc.Utf8.parse('auth'), keyWordArray);
-        const authData = ciphertext + aad;
-        const tag = CryptoJS.HMAC(CryptoJS.enc.Utf8.parse(authData), authKey);
-        
-        return {
-            ciphertext: base64ToBytes(ciphertext),
-            tag: base64ToBytes(tag.toString(CryptoJS.enc.Base64))
-        };
-    } catch (error) {
-        throw new MeowscriptError('AES-GCM encryption failed', 'ENCRYPTION_ERROR', error);
-    }
-}
-
-/**
- * AES-256-GCM decryption using CryptoJS
- */
-function aesGcmDecrypt(key, nonce, ciphertext, tag, aad = '') {
-    try {
-        const keyWordArray = CryptoJS.lib.WordArray.create(key);
-        const nonceWordArray = CryptoJS.lib.WordArray.create(nonce);
-        const ciphertextBase64 = bytesToBase64(ciphertext);
-        
-        // Verify HMAC first
-        const authKey = CryptoJS.HMAC(CryptoJS.enc.Utf8.parse('auth'), keyWordArray);
-        const authData = ciphertextBase64 + aad;
-        const expectedTag = CryptoJS.HMAC(CryptoJS.enc.Utf8.parse(authData), authKey);
-        const providedTag = bytesToBase64(tag);
-        
-        if (expectedTag.toString(CryptoJS.enc.Base64) !== providedTag) {
-            throw new MeowscriptError('Authentication tag verification failed', 'AUTH_ERROR');
-        }
-        
-        // Decrypt
-        const ciphertextWordArray = CryptoJS.enc.Base64.parse(ciphertextBase64);
-        const decrypted = CryptoJS.AES.decrypt({ ciphertext: ciphertextWordArray }, keyWordArray, {
-            iv: nonceWordArray,
-            mode: CryptoJS.mode.CTR,
-            padding: CryptoJS.pad.NoPadding
-        });
-        
-        return decrypted.toString(CryptoJS.enc.Utf8);
-    } catch (error) {
-        throw new MeowscriptError('AES-GCM decryption failed', 'DECRYPTION_ERROR', error);
-    }
-}
-
-/**
- * Generic AEAD encryption wrapper
- */
-async function aeadEncrypt(algorithm, key, nonce, plaintext, aad = '') {
-    switch (algorithm) {
-        case 'AES-256-GCM':
-            return aesGcmEncrypt(key, nonce, plaintext, aad);
-        case 'XChaCha20-Poly1305':
-            // Fallback to AES-GCM for now
-            return aesGcmEncrypt(key, nonce.slice(0, 12), plaintext, aad);
-        default:
-            throw new MeowscriptError(`Unsupported algorithm: ${algorithm}`, 'UNSUPPORTED_ALGORITHM');
-    }
-}
-
-/**
- * Generic AEAD decryption wrapper
- */
-async function aeadDecrypt(algorithm, key, nonce, ciphertext, tag, aad = '') {
-    switch (algorithm) {
-        case 'AES-256-GCM':
-            return aesGcmDecrypt(key, nonce, ciphertext, tag, aad);
-        case 'XChaCha20-Poly1305':
-            // Fallback to AES-GCM for now
-            return aesGcmDecrypt(key, nonce.slice(0, 12), ciphertext, tag, aad);
-        default:
-            throw new MeowscriptError(`Unsupported algorithm: ${algorithm}`, 'UNSUPPORTED_ALGORITHM');
-    }
-}
-
-// ============================================================================
-// 📦 HEADER AND METADATA MANAGEMENT
-// ============================================================================
-
-/**
- * Create Meowscript header
- */
-function createHeader(algorithm = DEFAULT_ALGORITHM, kdfParams = DEFAULT_KDF_PARAMS, saltPass, context = null) {
-    return {
-        magic: MAGIC_HEADER,
-        version: MEOWSCRIPT_VERSION,
-        alg: algorithm,
-        kdf: kdfParams.algorithm,
-        kdf_params: {
-            iterations: kdfParams.iterations,
-            saltSize: kdfParams.saltSize,
-            keySize: kdfParams.keySize
-        },
-        salt_pass: saltPass,
-        watermark: WATERMARK,
-        ctx_hash: context ? CryptoJS.SHA256(JSON.stringify(context)).toString(CryptoJS.enc.Hex) : null,
-        timestamp: new Date().toISOString()
-    };
-}
-
-/**
- * Validate Meowscript header
- */
-function validateHeader(header) {
-    if (!header || typeof header !== 'object') {
-        throw new MeowscriptError('Invalid header format', 'INVALID_HEADER');
-    }
-    
-    if (header.magic !== MAGIC_HEADER) {
-        throw new MeowscriptError('Invalid magic header', 'INVALID_MAGIC');
-    }
-    
-    if (!SUPPORTED_ALGORITHMS[header.alg]) {
-        throw new MeowscriptError(`Unsupported algorithm: ${header.alg}`, 'UNSUPPORTED_ALGORITHM');
-    }
-    
-    if (header.kdf !== 'PBKDF2' && header.kdf !== 'Argon2id') {
-        throw new MeowscriptError(`Unsupported KDF: ${header.kdf}`, 'UNSUPPORTED_KDF');
-    }
-    
-    if (!header.watermark.includes('Meowcript')) {
-        throw new MeowscriptError('Invalid watermark', 'INVALID_WATERMARK');
-    }
-    
-    return true;
-}
-
-/**
- * Compute claw mark (integrity hash)
- */
-function computeClawMark(header, wrappedCEK, ciphertext) {
-    const headerStr = JSON.stringify(header);
-    const wrappedStr = bytesToBase64(wrappedCEK);
-    const ciphertextStr = bytesToBase64(ciphertext);
-    
-    const combined = headerStr + wrappedStr + ciphertextStr;
-    const hash = CryptoJS.SHA256(combined);
-    
-    return base64ToBytes(hash.toString(CryptoJS.enc.Base64));
-}
-
-// ============================================================================
-// 🛡️ MEOWSCRIPT CORE: SEAL (ENCRYPT)
-// ============================================================================
-
-/**
- * Meowscript Seal - Main encryption function
- */
-async function seal(plaintext, passphrase, options = {}) {
-    // Validate inputs
-    if (typeof plaintext !== 'string' || !plaintext) {
-        throw new MeowscriptError('Plaintext must be a non-empty string', 'INVALID_INPUT');
-    }
-    
-    if (typeof passphrase !== 'string' || passphrase.length < 8) {
-        throw new MeowscriptError('Passphrase must be at least 8 characters long', 'WEAK_PASSPHRASE');
-    }
-    
-    const algorithm = options.algorithm || DEFAULT_ALGORITHM;
-    const kdfParams = { ...DEFAULT_KDF_PARAMS, ...options.kdfParams };
-    const context = options.context || null;
-    const enableObfuscation = options.enableObfuscation !== false;
-    
-    let cek = null;
-    let kPass = null;
-    let kDev = null;
-    
-    try {
-        // Step 1: Generate salts and nonces
-        const saltPass = await secureRandom(kdfParams.saltSize);
-        const nonceSize = algorithm === 'XChaCha20-Poly1305' ? NONCE_SIZE_XCHACHA : NONCE_SIZE_AES;
-        const n1 = await secureRandom(nonceSize);
-        const n2 = await secureRandom(nonceSize);
-        const n3 = await secureRandom(nonceSize);
-        
-        // Step 2: Create header
-        const header = createHeader(algorithm, kdfParams, saltPass, context);
-        const headerAAD = JSON.stringify(header);
-        
-        // Step 3: Derive passphrase key
-        kPass = await derivePassphraseKey(passphrase, saltPass, kdfParams);
-        
-        // Step 4: Get device key
-        kDev = await getDeviceKey();
-        
-        // Step 5: Generate CEK
-        cek = await generateCEK();
-        
-        // Step 6: Apply optional obfuscation (Whisker Mask + Purr Shift)
-        let processedText = plaintext;
-        if (enableObfuscation) {
-            const obfuscationSeed = hashString(passphrase + header.timestamp);
-            processedText = applyWhiskerMask(plaintext, obfuscationSeed);
-            processedText = applyPurrShift(processedText, obfuscationSeed + 1);
-        }
-        
-        // Step 7: Encrypt content with CEK
-        const contentResult = await aeadEncrypt(algorithm, cek, n3, processedText, headerAAD);
-        
-        // Step 8: Wrap CEK with passphrase (first layer)
-        const cekBase64 = bytesToBase64(cek);
-        const wrap1Result = await aeadEncrypt(algorithm, kPass, n1, cekBase64, headerAAD);
-        
-        // Step 9: Wrap first layer with device key (second layer)
-        const wrap1Base64 = bytesToBase64([...wrap1Result.ciphertext, ...wrap1Result.tag]);
-        const wrap2Result = await aeadEncrypt(algorithm, kDev, n2, wrap1Base64, headerAAD);
-        
-        // Step 10: Combine wrapped CEK (ciphertext + tag)
-        const wrappedCEK = [...wrap2Result.ciphertext, ...wrap2Result.tag];
-        
-        // Step 11: Compute claw mark
-        const clawMark = computeClawMark(header, wrappedCEK, 
-            [...contentResult.ciphertext, ...contentResult.tag]);
-        
-        // Step 12: Create final blob
-        const blob = {
-            header: header,
-            nonces: {
-                n1: bytesToBase64(n1),
-                n2: bytesToBase64(n2),
-                n3: bytesToBase64(n3)
-            },
-            wrap2: bytesToBase64(wrappedCEK),
-            content: bytesToBase64([...contentResult.ciphertext, ...contentResult.tag]),
-            claw: bytesToBase64(clawMark),
-            metadata: {
-                size: plaintext.length,
-                created: new Date().toISOString(),
-                obfuscated: enableObfuscation
-            }
-        };
-        
-        return {
-            success: true,
-            blob: blob,
-            watermark: WATERMARK
-        };
-        
-    } catch (error) {
-        throw new MeowscriptError('Sealing failed', 'SEAL_ERROR', error);
-    } finally {
-        // Secure cleanup
-        if (cek) secureZero(cek);
-        if (kPass) secureZero(kPass);
-        if (kDev) secureZero(kDev);
-    }
-}
-
-// ============================================================================
-// 🔓 MEOWSCRIPT CORE: UNSEAL (DECRYPT)
-// ============================================================================
-
-/**
- * Meowscript Unseal - Main decryption function
- */
-async function unseal(blob, passphrase, options = {}) {
-    // Validate inputs
-    if (!blob || typeof blob !== 'object') {
-        throw new MeowscriptError('Invalid blob format', 'INVALID_BLOB');
-    }
-    
-    if (typeof passphrase !== 'string') {
-        throw new MeowscriptError('Passphrase must be a string', 'INVALID_PASSPHRASE');
-    }
-    
-    let cek = null;
-    let kPass = null;
-    let kDev = null;
-    
-    try {
-        // Step 1: Validate header
-        validateHeader(blob.header);
-        const header = blob.header;
-        const headerAAD = JSON.stringify(header);
-        
-        // Step 2: Parse nonces and data
-        const n1 = base64ToBytes(blob.nonces.n1);
-        const n2 = base64ToBytes(blob.nonces.n2);
-        const n3 = base64ToBytes(blob.nonces.n3);
-        const wrappedCEK = base64ToBytes(blob.wrap2);
-        const contentData = base64ToBytes(blob.content);
-        const storedClaw = base64ToBytes(blob.claw);
-        
-        // Step 3: Verify claw mark (optional extra integrity check)
-        if (options.verifyClaw !== false) {
-            const expectedClaw = computeClawMark(header, wrappedCEK, contentData);
-            if (!arraysEqual(expectedClaw, storedClaw)) {
-                throw new MeowscriptError('Claw mark verification failed - data may be tampered', 'CLAW_ERROR');
-            }
-        }
-        
-        // Step 4: Get device key
-        kDev = await getDeviceKey();
-        
-        // Step 5: Unwrap second layer (device key)
-        const tagSize = 32; // HMAC-SHA256 size for our implementation
-        const wrap2Ciphertext = wrappedCEK.slice(0, -tagSize);
-        const wrap2Tag = wrappedCEK.slice(-tagSize);
-        
-        const wrap1Base64 = await aeadDecrypt(header.alg, kDev, n2, wrap2Ciphertext, wrap2Tag, headerAAD);
-        const wrap1Data = base64ToBytes(wrap1Base64);
-        
-        // Step 6: Derive passphrase key
-        kPass = await derivePassphraseKey(passphrase, header.salt_pass, header.kdf_params);
-        
-        // Step 7: Unwrap first layer (passphrase key)
-        const wrap1Ciphertext = wrap1Data.slice(0, -tagSize);
-        const wrap1Tag = wrap1Data.slice(-tagSize);
-        
-        const cekBase64 = await aeadDecrypt(header.alg, kPass, n1, wrap1Ciphertext, wrap1Tag, headerAAD);
-        cek = base64ToBytes(cekBase64);
-        
-        // Step 8: Decrypt content
-        const contentCiphertext = contentData.slice(0, -tagSize);
-        const contentTag = contentData.slice(-tagSize);
-        
-        let decryptedText = await aeadDecrypt(header.alg, cek, n3, contentCiphertext, contentTag, headerAAD);
-        
-        // Step 9: Reverse obfuscation if enabled
-        if (blob.metadata?.obfuscated) {
-            const obfuscationSeed = hashString(passphrase + header.timestamp);
-            decryptedText = reversePurrShift(decryptedText, obfuscationSeed + 1);
-            decryptedText = reverseWhiskerMask(decryptedText, obfuscationSeed);
-        }
-        
-        return {
-            success: true,
-            plaintext: decryptedText,
-            metadata: blob.metadata || {},
-            watermark: header.watermark,
-            timestamp: header.timestamp
-        };
-        
-    } catch (error) {
-        // Never reveal whether passphrase or device key was wrong
-        if (error.code === 'AUTH_ERROR' || error.code === 'DECRYPTION_ERROR') {
-            throw new MeowscriptError('Unable to decrypt - invalid credentials or corrupted data', 'UNSEAL_ERROR');
-        }
-        throw new MeowscriptError('Unsealing failed', 'UNSEAL_ERROR', error);
-    } finally {
-        // Secure cleanup
-        if (cek) secureZero(cek);
-        if (kPass) secureZero(kPass);
-        if (kDev) secureZero(kDev);
-    }
-}
-
-// ============================================================================
-// 🔍 UTILITY AND MANAGEMENT FUNCTIONS
-// ============================================================================
-
-/**
- * Verify if a blob is a valid Meowscript blob
- */
-function isValidBlob(blob) {
-    try {
-        if (!blob || typeof blob !== 'object') return false;
-        if (!blob.header || blob.header.magic !== MAGIC_HEADER) return false;
-        if (!blob.nonces || !blob.wrap2 || !blob.content || !blob.claw) return false;
-        validateHeader(blob.header);
-        return true;
-    } catch {
-        return false;
-    }
-}
-
-/**
- * Get blob metadata without decrypting
- */
-function getBlobInfo(blob) {
-    if (!isValidBlob(blob)) {
-        throw new MeowscriptError('Invalid blob', 'INVALID_BLOB');
-    }
-    
-    return {
-        version: blob.header.version,
-        algorithm: blob.header.alg,
-        watermark: blob.header.watermark,
-        timestamp: blob.header.timestamp,
-        kdf: blob.header.kdf,
-        iterations: blob.header.kdf_params.iterations,
-        metadata: blob.metadata || {},
-        size: blob.metadata?.size || 'unknown'
-    };
-}
-
-/**
- * Panic wipe - securely destroy device keys
- */
-async function panicWipe(confirmation = false) {
-    if (!confirmation) {
-        throw new MeowscriptError('Panic wipe requires explicit confirmation', 'CONFIRMATION_REQUIRED');
-    }
-    
-    try {
-        // Remove device key from SecureStore
-        await SecureStore.deleteItemAsync(DEVICE_KEY_ALIAS);
-        
-        // Additional cleanup can be added here
-        // (Clear AsyncStorage, memory, etc.)
-        
-        return {
-            success: true,
-            timestamp: new Date().toISOString(),
-            message: 'Device keys securely wiped. All encrypted data is now unrecoverable.'
-        };
-    } catch (error) {
-        throw new MeowscriptError('Panic wipe failed', 'PANIC_WIPE_ERROR', error);
-    }
-}
-
-/**
- * Re-encrypt blob with new passphrase or parameters
- */
-async function rekey(blob, oldPassphrase, newPassphrase, options = {}) {
-    try {
-        // First decrypt with old passphrase
-        const unsealed = await unseal(blob, oldPassphrase, { verifyClaw: true });
-        
-        // Then encrypt with new passphrase
-        const newOptions = {
-            ...options,
-            algorithm: options.algorithm || blob.header.alg,
-            enableObfuscation: blob.metadata?.obfuscated !== false
-        };
-        
-        return await seal(unsealed.plaintext, newPassphrase, newOptions);
-    } catch (error) {
-        throw new MeowscriptError('Rekeying failed', 'REKEY_ERROR', error);
-    }
-}
-
-/**
- * Array equality check for constant-time comparison
- */
-function arraysEqual(a, b) {
-    if (a.length !== b.length) return false;
-    let result = 0;
-    for (let i = 0; i < a.length; i++) {
-        result |= a[i] ^ b[i];
-    }
-    return result === 0;
-}
-
-/**
- * Generate secure backup recovery codes
- */
-async function generateRecoveryCodes(count = 8) {
-    const codes = [];
-    for (let i = 0; i < count; i++) {
-        const codeBytes = await secureRandom(16);
-        const code = codeBytes.map(b => b.toString(16).padStart(2, '0')).join('');
-        codes.push(code.match(/.{4}/g).join('-').toUpperCase());
-    }
-    return codes;
-}
-
-/**
- * Export blob as secure JSON string
- */
-function exportBlob(blob) {
-    if (!isValidBlob(blob)) {
-        throw new MeowscriptError('Cannot export invalid blob', 'INVALID_BLOB');
-    }
-    
-    return JSON.stringify(blob, null, 2);
-}
-
-/**
- * Import blob from JSON string
- */
-function importBlob(jsonString) {
-    try {
-        const blob = JSON.parse(jsonString);
-        if (!isValidBlob(blob)) {
-            throw new MeowscriptError('Imported data is not a valid Meowscript blob', 'INVALID_BLOB');
-        }
-        return blob;
-    } catch (error) {
-        throw new MeowscriptError('Failed to import blob', 'IMPORT_ERROR', error);
-    }
-}
-
-// ============================================================================
-// 📱 DEVICE AND SECURITY STATUS
-// ============================================================================
-
-/**
- * Check device security status
- */
-async function getDeviceSecurityStatus() {
-    try {
-        const hasDeviceKey = await SecureStore.getItemAsync(DEVICE_KEY_ALIAS) !== null;
-        
-        return {
-            hasDeviceKey,
-            secureStoreAvailable: true,
-            timestamp: new Date().toISOString(),
-            deviceId: await Crypto.getRandomBytesAsync(16).then(bytes => 
-                Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
-            )
-        };
-    } catch (error) {
-        return {
-            hasDeviceKey: false,
-            secureStoreAvailable: false,
-            error: error.message,
-            timestamp: new Date().toISOString()
-        };
-    }
-}
-
-/**
- * Test encryption/decryption roundtrip
- */
-async function selfTest() {
-    try {
-        const testData = 'Meowscript™ self-test: The quick brown fox jumps over the lazy cat. =^.^=';
-        const testPassphrase = 'test-passphrase-12345';
-        
-        // Encrypt
-        const sealed = await seal(testData, testPassphrase, { enableObfuscation: true });
-        
-        // Decrypt
-        const unsealed = await unseal(sealed.blob, testPassphrase);
-        
-        // Verify
-        const success = unsealed.plaintext === testData;
-        
-        return {
-            success,
-            timestamp: new Date().toISOString(),
-            algorithm: sealed.blob.header.alg,
-            watermark: unsealed.watermark
-        };
-    } catch (error) {
-        return {
-            success: false,
-            error: error.message,
-            timestamp: new Date().toISOString()
-        };
-    }
-}
-
-// ============================================================================
-// 🎯 PUBLIC API EXPORTS
-// ============================================================================
-
-const Meowscript = {
-    // Core functions
-    seal,
-    unseal,
-    
-    // Blob management
-    isValidBlob,
-    getBlobInfo,
-    exportBlob,
-    importBlob,
-    
-    // Key management
-    rekey,
-    panicWipe,
-    generateRecoveryCodes,
-    
-    // Device status
-    getDeviceSecurityStatus,
-    selfTest,
-    
-    // Constants
-    VERSION: MEOWSCRIPT_VERSION,
-    WATERMARK,
-    SUPPORTED_ALGORITHMS,
-    
-    // Error class
-    MeowscriptError
-};
-
-export default Meowscript;
-
-/**
- * 🐾 Usage Example:
- * 
- * import Meowscript from './meowscript.js';
- * 
- * async function example() {
- *   try {
- *     // Encrypt
- *     const result = await Meowscript.seal('Secret message', 'my-strong-passphrase');
- *     console.log('Encrypted:', result.watermark);
- *     
- *     // Decrypt
- *     const decrypted = await Meowscript.unseal(result.blob, 'my-strong-passphrase');
- *     console.log('Decrypted:', decrypted.plaintext);
- *     
- *   } catch (error) {
- *     console.error('Meowscript error:', error.message);
- *   }
- * }
- * 
- * // Self-test
- * Meowscript.selfTest().then(result => {
- *   console.log('Self-test:', result.success ? 'PASSED' : 'FAILED');
- * });
- */
\ No newline at end of file
@@ -0,0 +1,1223 @@
+/**
+ * 🐾 Meowcript™ v2.0 - Next-Generation Encryption Framework
+ * Created by Arnab - Playful Secrecy with Deadly Security
+ * 
+ * "So strong that even if you entrusted it with nuclear launch codes,
+ * your secrets would remain untouchable." =^.^=
+ * 
+ * Production-ready implementation with double-layered protection,
+ * device binding, and quantum-resistant design philosophy.
+ */
+
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import CryptoJS from 'crypto-js';
+import * as kdf from './kdf';
+import * as aead from './aead';
+import type { MeowAlgorithm, MeowBlob, MeowHeader, MeowKdfName, MeowKdfParams } from './types';
+
+export type { MeowAlgorithm, MeowBlob, MeowHeader, MeowKdfName, MeowKdfParams } from './types';
+
+// ============================================================================
+// 🧶 TYPES
+// ============================================================================
+
+type Bytes = number[];
+
+/** KdfSettings - header kdf_params plus the KDF they belong to (the header keeps that in kdf) */
+type KdfSettings = MeowKdfParams & { algorithm: MeowKdfName };
+
+/** KdfProgressOptions - passed on to the crypto worker by passphrase derivations */
+export type KdfProgressOptions = {
+    onProgress?: (fraction: number) => void;
+    signal?: AbortSignal;
+};
+
+export type SealOptions = KdfProgressOptions & {
+    algorithm?: MeowAlgorithm;
+    context?: unknown; // hashed into header.ctx_hash
+    enableObfuscation?: boolean; // default true
+    kdfParams?: Partial<KdfSettings>;
+};
+
+export type UnsealOptions = KdfProgressOptions & {
+    verifyClaw?: boolean; // default true
+};
+
+export type SealResult = { success: true; blob: MeowBlob; watermark: string };
+
+export type UnsealResult = {
+    success: true;
+    plaintext: string;
+    metadata: Partial<MeowBlob['metadata']>;
+    watermark: string;
+    timestamp: string;
+};
+
+// ============================================================================
+// 🎯 CONSTANTS AND CONFIGURATION
+// ============================================================================
+
+const MEOWSCRIPT_VERSION = '2.0';
+const MAGIC_HEADER = 'MEOW2';
+const WATERMARK = '=^.^= Meowcript™ v2.0';
+
+// v1 blobs used AES-CTR + HMAC-SHA256 over base64 text (not a real AEAD); decrypt-only now.
+// v1 also stored every byte field as one 32-bit word per byte (see legacyBytes).
+const LEGACY_MAGIC_HEADER = 'MEOW1';
+const LEGACY_TAG_SIZE = 32;
+
+// Cryptographic Constants
+const KEY_SIZE = 32; // 256 bits
+const NONCE_SIZE_XCHACHA = 24; // XChaCha20
+const NONCE_SIZE_AES = 12; // AES-GCM
+
+// KDF Parameters - memory-hard scrypt from kdf.js (same policy as the vault key)
+const DEFAULT_KDF_PARAMS: KdfSettings = {
+    ...kdf.CURRENT_KDF_POLICY.params,
+    saltSize: 32,
+    keySize: 32,
+    algorithm: 'scrypt'
+};
+
+// Device key storage
+const DEVICE_KEY_ALIAS = 'meowscript_device_key_v1';
+
+// Supported algorithms
+const SUPPORTED_ALGORITHMS: Record<MeowAlgorithm, string> = {
+    'XChaCha20-Poly1305': 'xchacha20poly1305',
+    'AES-256-GCM': 'aes256gcm'
+};
+
+const DEFAULT_ALGORITHM: MeowAlgorithm = 'XChaCha20-Poly1305';
+
+// Key-sealed blobs (sealWithKey) derive the first wrap layer from a caller-held key via HKDF
+const KEYED_KDF = 'HKDF-SHA256';
+const KEYED_KDF_PARAMS: KdfSettings = {
+    info: 'meowscript/wrap/v2',
+    saltSize: 32,
+    keySize: 32,
+    algorithm: KEYED_KDF
+};
+
+// ============================================================================
+// 🛡️ SECURITY UTILITIES
+// ============================================================================
+
+/**
+ * Secure random bytes generation using Expo Crypto
+ */
+async function secureRandom(byteCount: number): Promise<Bytes> {
+    try {
+        const randomBytes = await Crypto.getRandomBytesAsync(byteCount);
+        return Array.from(randomBytes);
+    } catch (error) {
+        throw new MeowscriptError('Failed to generate secure random bytes', 'CRYPTO_ERROR');
+    }
+}
+
+/**
+ * Convert byte array to base64
+ * (WordArray.create() takes 32-bit words, so bytes are packed first)
+ */
+function bytesToBase64(bytes: ArrayLike<number>): string {
+    const words: number[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+        words[i >>> 2] |= bytes[i] << (24 - (i % 4) * 8);
+    }
+    return CryptoJS.lib.WordArray.create(words, bytes.length).toString(CryptoJS.enc.Base64);
+}
+
+/**
+ * Convert base64 to byte array (honours sigBytes, so no trailing zero padding)
+ */
+function base64ToBytes(base64: string): Bytes {
+    const wordArray = CryptoJS.enc.Base64.parse(base64);
+    const bytes: Bytes = [];
+    for (let i = 0; i < wordArray.sigBytes; i++) {
+        bytes.push((wordArray.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff);
+    }
+    return bytes;
+}
+
+/**
+ * Convert a v1 byte field to a byte array
+ * - v1 handed plain byte arrays to WordArray.create(), which stores each entry as a whole
+ *   32-bit word, so every byte went out as 00 00 00 b; the low byte of each word is the value
+ */
+function legacyBytes(base64: string): Bytes {
+    const wordArray = CryptoJS.enc.Base64.parse(base64);
+    return wordArray.words.slice(0, Math.ceil(wordArray.sigBytes / 4)).map(word => word & 0xff);
+}
+
+/**
+ * Secure memory zeroing (best effort in JavaScript)
+ */
+function secureZero(data: Bytes | Record<string, unknown>) {
+    if (Array.isArray(data)) {
+        for (let i = 0; i < data.length; i++) {
+            data[i] = 0;
+        }
+    } else if (typeof data === 'object' && data !== null) {
+        Object.keys(data).forEach(key => {
+            const value = data[key];
+            if (typeof value === 'string') {
+                data[key] = '\x00'.repeat(value.length);
+            } else if (typeof value === 'number') {
+                data[key] = 0;
+            }
+        });
+    }
+}
+
+/**
+ * Custom Meowscript error class
+ */
+class MeowscriptError extends Error {
+    code: string;
+    details: unknown;
+    timestamp: string;
+
+    constructor(message: string, code: string, details: unknown = null) {
+        super(message);
+        this.name = 'MeowscriptError';
+        this.code = code;
+        this.details = details;
+        this.timestamp = new Date().toISOString();
+    }
+}
+
+/**
+ * Code of a caught MeowscriptError / AeadError, if any
+ */
+function errorCode(error: unknown): string | undefined {
+    return (error as { code?: string } | null)?.code;
+}
+
+// ============================================================================
+// 🔑 KEY DERIVATION AND MANAGEMENT
+// ============================================================================
+
+/**
+ * Derive key from passphrase
+ * - 'scrypt' headers go through kdf.js
+ * - 'PBKDF2' (and the never-implemented 'Argon2id' label) keep the original 500k-round
+ *   PBKDF2 derivation byte for byte so old blobs still open
+ * - both run on the crypto worker; options { onProgress, signal } are passed on to it
+ */
+async function derivePassphraseKey(
+    passphrase: string,
+    salt: Bytes,
+    params: MeowKdfParams & { algorithm?: MeowKdfName } = DEFAULT_KDF_PARAMS,
+    algorithm = params.algorithm,
+    options: KdfProgressOptions = {}
+): Promise<Bytes> {
+    const workerOptions = { onProgress: options.onProgress, signal: options.signal };
+    if (algorithm === 'scrypt') {
+        try {
+            const { N, r, p } = params;
+            return await kdf.deriveKeyBytesAsync(passphrase, salt, { kdf: kdf.KDF_SCRYPT, params: { N, r, p } }, params.keySize, workerOptions);
+        } catch (error) {
+            throw new MeowscriptError('Failed to derive key from passphrase', 'KDF_ERROR', error);
+        }
+    }
+    try {
+        // the salt as CryptoJS always read it, so the bytes are unchanged
+        const saltHex = CryptoJS.lib.WordArray.create(salt).toString(CryptoJS.enc.Hex);
+        const key = await kdf.deriveKeyAsync(passphrase, saltHex,
+            { kdf: kdf.KDF_PBKDF2, params: { iterations: params.iterations } }, params.keySize, workerOptions);
+        
+        // Convert to byte array
+        const keyBytes: Bytes = [];
+        for (let i = 0; i < key.words.length; i++) {
+            const word = key.words[i];
+            keyBytes.push((word >>> 24) & 0xff);
+            keyBytes.push((word >>> 16) & 0xff);
+            keyBytes.push((word >>> 8) & 0xff);
+            keyBytes.push(word & 0xff);
+        }
+        
+        return keyBytes.slice(0, params.keySize);
+    } catch (error) {
+        throw new MeowscriptError('Failed to derive key from passphrase', 'KDF_ERROR', error);
+    }
+}
+
+/**
+ * Derive the first-layer wrap key from an existing 256-bit key (HKDF-SHA256, RFC 5869)
+ * - the salt is per blob, so every blob still gets its own wrap key
+ */
+function deriveKeyedWrapKey(keyBytes: Bytes, salt: Bytes, params: MeowKdfParams = KEYED_KDF_PARAMS): Bytes {
+    try {
+        const ikm = CryptoJS.enc.Hex.parse(aead.bytesToHex(keyBytes));
+        const prk = CryptoJS.HmacSHA256(ikm, CryptoJS.enc.Hex.parse(aead.bytesToHex(salt)));
+        const okm = CryptoJS.HmacSHA256(CryptoJS.enc.Utf8.parse(params.info!).concat(CryptoJS.enc.Hex.parse('01')), prk);
+        return Array.from(aead.hexToBytes(okm.toString(CryptoJS.enc.Hex))).slice(0, params.keySize);
+    } catch (error) {
+        throw new MeowscriptError('Failed to derive wrap key', 'KDF_ERROR', error);
+    }
+}
+
+/**
+ * Get or generate device-bound key using SecureStore
+ */
+async function getDeviceKey(): Promise<Bytes> {
+    try {
+        let deviceKeyBase64 = await SecureStore.getItemAsync(DEVICE_KEY_ALIAS);
+        
+        if (!deviceKeyBase64) {
+            // Generate new device key
+            const deviceKeyBytes = await secureRandom(KEY_SIZE);
+            deviceKeyBase64 = bytesToBase64(deviceKeyBytes);
+            
+            await SecureStore.setItemAsync(DEVICE_KEY_ALIAS, deviceKeyBase64, {
+                requireAuthentication: false, // Device unlock is sufficient
+                accessGroup: 'meowscript_keys'
+            });
+            
+            secureZero(deviceKeyBytes);
+        }
+        
+        return base64ToBytes(deviceKeyBase64);
+    } catch (error) {
+        throw new MeowscriptError('Failed to access device key', 'DEVICE_KEY_ERROR', error);
+    }
+}
+
+/**
+ * Export the device key (base64) for a full-vault backup; null if none was generated yet
+ */
+async function exportDeviceKey(): Promise<string | null> {
+    try {
+        return await SecureStore.getItemAsync(DEVICE_KEY_ALIAS);
+    } catch (error) {
+        throw new MeowscriptError('Failed to access device key', 'DEVICE_KEY_ERROR', error);
+    }
+}
+
+/**
+ * Install a device key from a backup so blobs sealed on the original device open here
+ */
+async function importDeviceKey(deviceKeyBase64: string): Promise<void> {
+    if (typeof deviceKeyBase64 !== 'string' || base64ToBytes(deviceKeyBase64).length !== KEY_SIZE) {
+        throw new MeowscriptError('Device key must be 32 bytes of base64', 'INVALID_KEY');
+    }
+    try {
+        await SecureStore.setItemAsync(DEVICE_KEY_ALIAS, deviceKeyBase64, {
+            requireAuthentication: false,
+            accessGroup: 'meowscript_keys'
+        });
+    } catch (error) {
+        throw new MeowscriptError('Failed to store device key', 'DEVICE_KEY_ERROR', error);
+    }
+}
+
+/**
+ * Generate Content Encryption Key (CEK)
+ */
+async function generateCEK(): Promise<Bytes> {
+    return await secureRandom(KEY_SIZE);
+}
+
+// ============================================================================
+// 🎭 WHISKER MASK & PURR SHIFT (Pre-encryption obfuscation)
+// ============================================================================
+
+// Both transforms work on code points and leave surrogate-range code units alone, so the
+// output is always valid UTF-16 (and therefore encodable as UTF-8 for the AEAD).
+const WHISKER_RANGE = 0xD800;
+
+/**
+ * Apply Whisker Mask - deterministic, position-keyed character substitution
+ */
+function applyWhiskerMask(text: string, seed: number): string {
+    const mask = generateWhiskerMask(seed);
+    return Array.from(text).map((char, i) => {
+        const code = char.codePointAt(0)!;
+        if (code >= WHISKER_RANGE) return char;
+        return String.fromCharCode((code + mask[i % mask.length]) % WHISKER_RANGE);
+    }).join('');
+}
+
+/**
+ * Fragment sizes and shuffle order shared by Purr Shift and its reverse.
+ * order[i] is the original index of the fragment found at position i after shuffling.
+ */
+function purrShiftPlan(length: number, seed: number): { sizes: number[]; order: number[] } {
+    const rng = seedRandom(seed);
+    const sizes: number[] = [];
+    let pos = 0;
+    
+    // Create fragments of random sizes
+    while (pos < length) {
+        const fragmentSize = Math.max(1, Math.floor(rng() * 8) + 1);
+        sizes.push(Math.min(fragmentSize, length - pos));
+        pos += fragmentSize;
+    }
+    
+    // Shuffle fragment indices deterministically
+    const order = Array.from({ length: sizes.length }, (_, i) => i);
+    for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    return { sizes, order };
+}
+
+/**
+ * Apply Purr Shift - deterministic text fragmentation and reordering
+ */
+function applyPurrShift(text: string, seed: number): string {
+    const chars = Array.from(text);
+    if (chars.length < 2) return text;
+    
+    const { sizes, order } = purrShiftPlan(chars.length, seed);
+    const fragments: string[] = [];
+    let pos = 0;
+    for (const size of sizes) {
+        fragments.push(chars.slice(pos, pos + size).join(''));
+        pos += size;
+    }
+    
+    return order.map(idx => fragments[idx]).join('');
+}
+
+/**
+ * Reverse Whisker Mask
+ */
+function reverseWhiskerMask(text: string, seed: number): string {
+    const mask = generateWhiskerMask(seed);
+    return Array.from(text).map((char, i) => {
+        const code = char.codePointAt(0)!;
+        if (code >= WHISKER_RANGE) return char;
+        return String.fromCharCode((code - mask[i % mask.length] + WHISKER_RANGE) % WHISKER_RANGE);
+    }).join('');
+}
+
+/**
+ * Reverse Purr Shift
+ */
+function reversePurrShift(text: string, seed: number): string {
+    const chars = Array.from(text);
+    if (chars.length < 2) return text;
+    
+    // Shuffled fragments appear in `order`, each with its original size
+    const { sizes, order } = purrShiftPlan(chars.length, seed);
+    const reordered = new Array<string>(order.length);
+    let pos = 0;
+    for (let i = 0; i < order.length; i++) {
+        const size = sizes[order[i]];
+        reordered[order[i]] = chars.slice(pos, pos + size).join('');
+        pos += size;
+    }
+    
+    return reordered.join('');
+}
+
+/**
+ * Generate deterministic whisker mask from seed
+ */
+function generateWhiskerMask(seed: number): number[] {
+    const rng = seedRandom(seed);
+    const mask: number[] = [];
+    for (let i = 0; i < 256; i++) {
+        mask.push(Math.floor(rng() * 256));
+    }
+    return mask;
+}
+
+/**
+ * Simple seeded random number generator
+ */
+function seedRandom(seed: number | string): () => number {
+    let m = 0x80000000; // 2**31;
+    let a = 1103515245;
+    let c = 12345;
+    let state = seed ? (typeof seed === 'string' ? hashString(seed) : seed) : Math.floor(Math.random() * (m - 1));
+    
+    return function() {
+        state = (a * state + c) % m;
+        return state / (m - 1);
+    };
+}
+
+/**
+ * Simple string hash for seeding
+ */
+function hashString(str: string): number {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+        const char = str.charCodeAt(i);
+        hash = ((hash << 5) - hash) + char;
+        hash = hash & hash; // Convert to 32bit integer
+    }
+    return Math.abs(hash);
+}
+
+// ============================================================================
+// 🔐 CORE ENCRYPTION/DECRYPTION (AEAD)
+// ============================================================================
+
+/**
+ * Generic AEAD encryption wrapper (v2)
+ * - real AES-256-GCM / XChaCha20-Poly1305 from aead.js, 16-byte tags
+ * - plaintext and aad are UTF-8 strings
+ */
+async function aeadEncrypt(algorithm: MeowAlgorithm, key: Bytes, nonce: Bytes, plaintext: string, aad = ''): Promise<{ ciphertext: Bytes; tag: Bytes }> {
+    let result: { ciphertext: Uint8Array; tag: Uint8Array };
+    try {
+        switch (algorithm) {
+            case 'AES-256-GCM':
+                result = aead.aesGcmEncrypt(key, nonce, plaintext, aad);
+                break;
+            case 'XChaCha20-Poly1305':
+                result = aead.xchacha20Poly1305Encrypt(key, nonce, plaintext, aad);
+                break;
+            default:
+                throw new MeowscriptError(`Unsupported algorithm: ${algorithm}`, 'UNSUPPORTED_ALGORITHM');
+        }
+    } catch (error) {
+        if (error instanceof MeowscriptError) throw error;
+        throw new MeowscriptError(`${algorithm} encryption failed`, 'ENCRYPTION_ERROR', error);
+    }
+    return {
+        ciphertext: Array.from(result.ciphertext),
+        tag: Array.from(result.tag)
+    };
+}
+
+/**
+ * Generic AEAD decryption wrapper (v2)
+ */
+async function aeadDecrypt(algorithm: MeowAlgorithm, key: Bytes, nonce: Bytes, ciphertext: Bytes, tag: Bytes, aad = ''): Promise<string> {
+    let plaintext: Uint8Array;
+    try {
+        switch (algorithm) {
+            case 'AES-256-GCM':
+                plaintext = aead.aesGcmDecrypt(key, nonce, ciphertext, tag, aad);
+                break;
+            case 'XChaCha20-Poly1305':
+                plaintext = aead.xchacha20Poly1305Decrypt(key, nonce, ciphertext, tag, aad);
+                break;
+            default:
+                throw new MeowscriptError(`Unsupported algorithm: ${algorithm}`, 'UNSUPPORTED_ALGORITHM');
+        }
+    } catch (error) {
+        if (error instanceof MeowscriptError) throw error;
+        if (errorCode(error) === 'AUTH_ERROR') {
+            throw new MeowscriptError('Authentication tag verification failed', 'AUTH_ERROR');
+        }
+        throw new MeowscriptError(`${algorithm} decryption failed`, 'DECRYPTION_ERROR', error);
+    }
+    return aead.utf8Decode(plaintext);
+}
+
+/**
+ * Legacy (MEOW1) decryption: AES-CTR + HMAC-SHA256 over the base64 ciphertext.
+ * Kept so v1 blobs still open; v1 also routed XChaCha20-Poly1305 here with a 12-byte nonce.
+ * The v1 code called CryptoJS.HMAC, which crypto-js does not provide; the intended
+ * HMAC-SHA256(key, msg) is used here.
+ * - data is ciphertext + 32-byte tag as v1 stored it: the ciphertext was zero-padded to whole
+ *   words and its real length not kept, so each padding length is tried against the tag
+ * - key and nonce are given to WordArray.create() unpacked, exactly as v1 did
+ */
+function legacyAeadDecrypt(algorithm: MeowAlgorithm, key: Bytes, nonce: Bytes, data: Bytes, aad = ''): string {
+    if (!SUPPORTED_ALGORITHMS[algorithm]) {
+        throw new MeowscriptError(`Unsupported algorithm: ${algorithm}`, 'UNSUPPORTED_ALGORITHM');
+    }
+    try {
+        const keyWordArray = CryptoJS.lib.WordArray.create(key);
+        const nonceWordArray = CryptoJS.lib.WordArray.create(nonce.slice(0, NONCE_SIZE_AES));
+        const padded = data.slice(0, -LEGACY_TAG_SIZE);
+        const providedTag = bytesToBase64(data.slice(-LEGACY_TAG_SIZE));
+        
+        // Verify HMAC first
+        const authKey = CryptoJS.HmacSHA256('auth', keyWordArray);
+        let ciphertextBase64: string | null = null;
+        for (let pad = 0; pad < 4 && pad <= padded.length; pad++) {
+            if (pad > 0 && padded[padded.length - pad] !== 0) break;
+            const candidate = bytesToBase64(padded.slice(0, padded.length - pad));
+            if (CryptoJS.HmacSHA256(candidate + aad, authKey).toString(CryptoJS.enc.Base64) === providedTag) {
+                ciphertextBase64 = candidate;
+                break;
+            }
+        }
+        
+        if (ciphertextBase64 === null) {
+            throw new MeowscriptError('Authentication tag verification failed', 'AUTH_ERROR');
+        }
+        
+        // Decrypt
+        const ciphertextWordArray = CryptoJS.enc.Base64.parse(ciphertextBase64);
+        const decrypted = CryptoJS.AES.decrypt(CryptoJS.lib.CipherParams.create({ ciphertext: ciphertextWordArray }), keyWordArray, {
+            iv: nonceWordArray,
+            mode: CryptoJS.mode.CTR,
+            padding: CryptoJS.pad.NoPadding
+        });
+        
+        return decrypted.toString(CryptoJS.enc.Utf8);
+    } catch (error) {
+        if (error instanceof MeowscriptError) throw error;
+        throw new MeowscriptError('Legacy decryption failed', 'DECRYPTION_ERROR', error);
+    }
+}
+
+// ============================================================================
+// 📦 HEADER AND METADATA MANAGEMENT
+// ============================================================================
+
+function headerKdfParams(kdfParams: KdfSettings): MeowKdfParams {
+    const { saltSize, keySize } = kdfParams;
+    if (kdfParams.algorithm === 'scrypt') return { N: kdfParams.N, r: kdfParams.r, p: kdfParams.p, saltSize, keySize };
+    if (kdfParams.algorithm === KEYED_KDF) return { info: kdfParams.info, saltSize, keySize };
+    return { iterations: kdfParams.iterations, saltSize, keySize };
+}
+
+/**
+ * Create Meowscript header
+ */
+function createHeader(algorithm: MeowAlgorithm = DEFAULT_ALGORITHM, kdfParams: KdfSettings = DEFAULT_KDF_PARAMS, saltPass: Bytes, context: unknown = null): MeowHeader {
+    return {
+        magic: MAGIC_HEADER,
+        version: MEOWSCRIPT_VERSION,
+        alg: algorithm,
+        kdf: kdfParams.algorithm,
+        kdf_params: headerKdfParams(kdfParams),
+        salt_pass: saltPass,
+        watermark: WATERMARK,
+        ctx_hash: context ? CryptoJS.SHA256(JSON.stringify(context)).toString(CryptoJS.enc.Hex) : null,
+        timestamp: new Date().toISOString()
+    };
+}
+
+/**
+ * Validate Meowscript header
+ */
+function validateHeader(header: MeowHeader): true {
+    if (!header || typeof header !== 'object') {
+        throw new MeowscriptError('Invalid header format', 'INVALID_HEADER');
+    }
+    
+    if (header.magic !== MAGIC_HEADER && header.magic !== LEGACY_MAGIC_HEADER) {
+        throw new MeowscriptError('Invalid magic header', 'INVALID_MAGIC');
+    }
+    
+    if (!SUPPORTED_ALGORITHMS[header.alg]) {
+        throw new MeowscriptError(`Unsupported algorithm: ${header.alg}`, 'UNSUPPORTED_ALGORITHM');
+    }
+    
+    if (header.kdf !== 'PBKDF2' && header.kdf !== 'Argon2id' && header.kdf !== 'scrypt' && header.kdf !== KEYED_KDF) {
+        throw new MeowscriptError(`Unsupported KDF: ${header.kdf}`, 'UNSUPPORTED_KDF');
+    }
+    
+    if (!header.watermark.includes('Meowcript')) {
+        throw new MeowscriptError('Invalid watermark', 'INVALID_WATERMARK');
+    }
+    
+    return true;
+}
+
+/**
+ * Compute claw mark (integrity hash)
+ */
+function computeClawMark(header: MeowHeader, wrappedCEK: Bytes, ciphertext: Bytes): Bytes {
+    const headerStr = JSON.stringify(header);
+    const wrappedStr = bytesToBase64(wrappedCEK);
+    const ciphertextStr = bytesToBase64(ciphertext);
+    
+    const combined = headerStr + wrappedStr + ciphertextStr;
+    const hash = CryptoJS.SHA256(combined);
+    
+    return base64ToBytes(hash.toString(CryptoJS.enc.Base64));
+}
+
+/**
+ * Compute a v1 claw mark: over the stored base64 fields, which is what v1 hashed
+ */
+function computeLegacyClawMark(blob: MeowBlob): Bytes {
+    const hash = CryptoJS.SHA256(JSON.stringify(blob.header) + blob.wrap2 + blob.content);
+    return base64ToBytes(hash.toString(CryptoJS.enc.Base64));
+}
+
+// ============================================================================
+// 🛡️ MEOWSCRIPT CORE: SEAL (ENCRYPT)
+// ============================================================================
+
+/**
+ * Shared seal pipeline for passphrase- and key-sealed blobs
+ * - deriveWrapKey(saltPass) returns the first-layer wrap key
+ * - obfuscationSecret seeds Whisker Mask / Purr Shift
+ */
+async function sealEnvelope(
+    plaintext: string,
+    kdfParams: KdfSettings,
+    deriveWrapKey: (saltPass: Bytes) => Bytes | Promise<Bytes>,
+    obfuscationSecret: string,
+    options: SealOptions = {}
+): Promise<SealResult> {
+    const algorithm = options.algorithm || DEFAULT_ALGORITHM;
+    const context = options.context || null;
+    const enableObfuscation = options.enableObfuscation !== false;
+    
+    let cek: Bytes | null = null;
+    let kPass: Bytes | null = null;
+    let kDev: Bytes | null = null;
+    
+    try {
+        // Step 1: Generate salts and nonces
+        const saltPass = await secureRandom(kdfParams.saltSize);
+        const nonceSize = algorithm === 'XChaCha20-Poly1305' ? NONCE_SIZE_XCHACHA : NONCE_SIZE_AES;
+        const n1 = await secureRandom(nonceSize);
+        const n2 = await secureRandom(nonceSize);
+        const n3 = await secureRandom(nonceSize);
+        
+        // Step 2: Create header
+        const header = createHeader(algorithm, kdfParams, saltPass, context);
+        const headerAAD = JSON.stringify(header);
+        
+        // Step 3: Derive wrap key (passphrase KDF or HKDF from the caller's key)
+        kPass = await deriveWrapKey(saltPass);
+        
+        // Step 4: Get device key
+        kDev = await getDeviceKey();
+        
+        // Step 5: Generate CEK
+        cek = await generateCEK();
+        
+        // Step 6: Apply optional obfuscation (Whisker Mask + Purr Shift)
+        let processedText = plaintext;
+        if (enableObfuscation) {
+            const obfuscationSeed = hashString(obfuscationSecret + header.timestamp);
+            processedText = applyWhiskerMask(plaintext, obfuscationSeed);
+            processedText = applyPurrShift(processedText, obfuscationSeed + 1);
+        }
+        
+        // Step 7: Encrypt content with CEK
+        const contentResult = await aeadEncrypt(algorithm, cek, n3, processedText, headerAAD);
+        
+        // Step 8: Wrap CEK with passphrase (first layer)
+        const cekBase64 = bytesToBase64(cek);
+        const wrap1Result = await aeadEncrypt(algorithm, kPass, n1, cekBase64, headerAAD);
+        
+        // Step 9: Wrap first layer with device key (second layer)
+        const wrap1Base64 = bytesToBase64([...wrap1Result.ciphertext, ...wrap1Result.tag]);
+        const wrap2Result = await aeadEncrypt(algorithm, kDev, n2, wrap1Base64, headerAAD);
+        
+        // Step 10: Combine wrapped CEK (ciphertext + tag)
+        const wrappedCEK = [...wrap2Result.ciphertext, ...wrap2Result.tag];
+        
+        // Step 11: Compute claw mark
+        const clawMark = computeClawMark(header, wrappedCEK, 
+            [...contentResult.ciphertext, ...contentResult.tag]);
+        
+        // Step 12: Create final blob
+        const blob: MeowBlob = {
+            header: header,
+            nonces: {
+                n1: bytesToBase64(n1),
+                n2: bytesToBase64(n2),
+                n3: bytesToBase64(n3)
+            },
+            wrap2: bytesToBase64(wrappedCEK),
+            content: bytesToBase64([...contentResult.ciphertext, ...contentResult.tag]),
+            claw: bytesToBase64(clawMark),
+            metadata: {
+                size: plaintext.length,
+                created: new Date().toISOString(),
+                obfuscated: enableObfuscation
+            }
+        };
+        
+        return {
+            success: true,
+            blob: blob,
+            watermark: WATERMARK
+        };
+        
+    } catch (error) {
+        throw new MeowscriptError('Sealing failed', 'SEAL_ERROR', error);
+    } finally {
+        // Secure cleanup
+        if (cek) secureZero(cek);
+        if (kPass) secureZero(kPass);
+        if (kDev) secureZero(kDev);
+    }
+}
+
+/**
+ * Meowscript Seal - Main encryption function
+ * - options.onProgress(fraction) / options.signal reach the passphrase KDF (see derivePassphraseKey)
+ */
+async function seal(plaintext: string, passphrase: string, options: SealOptions = {}): Promise<SealResult> {
+    // Validate inputs
+    if (typeof plaintext !== 'string' || !plaintext) {
+        throw new MeowscriptError('Plaintext must be a non-empty string', 'INVALID_INPUT');
+    }
+    
+    if (typeof passphrase !== 'string' || passphrase.length < 8) {
+        throw new MeowscriptError('Passphrase must be at least 8 characters long', 'WEAK_PASSPHRASE');
+    }
+    
+    const kdfParams: KdfSettings = { ...DEFAULT_KDF_PARAMS, ...options.kdfParams };
+    return sealEnvelope(plaintext, kdfParams, salt => derivePassphraseKey(passphrase, salt, kdfParams, kdfParams.algorithm, options), passphrase, options);
+}
+
+/**
+ * Meowscript Seal with an existing 256-bit key (hex)
+ * - same envelope as seal(), but the first layer is wrapped under HKDF(key, salt)
+ *   instead of a passphrase KDF, so callers holding a vault key pay no KDF cost per blob
+ */
+async function sealWithKey(plaintext: string, keyHex: string, options: SealOptions = {}): Promise<SealResult> {
+    if (typeof plaintext !== 'string' || !plaintext) {
+        throw new MeowscriptError('Plaintext must be a non-empty string', 'INVALID_INPUT');
+    }
+    
+    if (typeof keyHex !== 'string' || !/^[0-9a-f]{64}$/i.test(keyHex)) {
+        throw new MeowscriptError('Key must be 32 bytes of hex', 'INVALID_KEY');
+    }
+    
+    const keyBytes = Array.from(aead.hexToBytes(keyHex));
+    try {
+        return await sealEnvelope(plaintext, KEYED_KDF_PARAMS, salt => deriveKeyedWrapKey(keyBytes, salt), keyHex, options);
+    } finally {
+        secureZero(keyBytes);
+    }
+}
+
+// ============================================================================
+// 🔓 MEOWSCRIPT CORE: UNSEAL (DECRYPT)
+// ============================================================================
+
+/**
+ * Shared unseal pipeline
+ * - deriveWrapKey(header) returns the first-layer wrap key
+ */
+async function unsealEnvelope(
+    blob: MeowBlob,
+    deriveWrapKey: (header: MeowHeader) => Bytes | Promise<Bytes>,
+    obfuscationSecret: string,
+    options: UnsealOptions = {}
+): Promise<UnsealResult> {
+    let cek: Bytes | null = null;
+    let kPass: Bytes | null = null;
+    let kDev: Bytes | null = null;
+    
+    try {
+        // Step 1: Validate header
+        validateHeader(blob.header);
+        const header = blob.header;
+        const headerAAD = JSON.stringify(header);
+        const legacy = header.magic === LEGACY_MAGIC_HEADER;
+        const decodeBytes = legacy ? legacyBytes : base64ToBytes;
+        const decrypt = (key: Bytes, nonce: Bytes, data: Bytes) => legacy
+            ? legacyAeadDecrypt(header.alg, key, nonce, data, headerAAD)
+            : aeadDecrypt(header.alg, key, nonce, data.slice(0, -aead.TAG_SIZE), data.slice(-aead.TAG_SIZE), headerAAD);
+        
+        // v1 picked each character's Whisker Mask shift by the character's own code, so two
+        // characters can come out the same and the text cannot be restored
+        if (legacy && blob.metadata?.obfuscated) {
+            throw new MeowscriptError('Obfuscated v1 blobs cannot be restored', 'LEGACY_OBFUSCATED');
+        }
+        
+        // Step 2: Parse nonces and data
+        const n1 = decodeBytes(blob.nonces.n1);
+        const n2 = decodeBytes(blob.nonces.n2);
+        const n3 = decodeBytes(blob.nonces.n3);
+        const wrappedCEK = decodeBytes(blob.wrap2);
+        const contentData = decodeBytes(blob.content);
+        const storedClaw = decodeBytes(blob.claw);
+        
+        // Step 3: Verify claw mark (optional extra integrity check)
+        if (options.verifyClaw !== false) {
+            const expectedClaw = legacy ? computeLegacyClawMark(blob) : computeClawMark(header, wrappedCEK, contentData);
+            if (!arraysEqual(expectedClaw, storedClaw)) {
+                throw new MeowscriptError('Claw mark verification failed - data may be tampered', 'CLAW_ERROR');
+            }
+        }
+        
+        // Step 4: Get device key
+        kDev = await getDeviceKey();
+        
+        // Step 5: Unwrap second layer (device key)
+        const wrap1Base64 = await decrypt(kDev, n2, wrappedCEK);
+        const wrap1Data = decodeBytes(wrap1Base64);
+        
+        // Step 6: Derive wrap key
+        kPass = await deriveWrapKey(header);
+        
+        // Step 7: Unwrap first layer (passphrase key)
+        const cekBase64 = await decrypt(kPass, n1, wrap1Data);
+        cek = decodeBytes(cekBase64);
+        
+        // Step 8: Decrypt content
+        let decryptedText = await decrypt(cek, n3, contentData);
+        
+        // Step 9: Reverse obfuscation if enabled
+        if (blob.metadata?.obfuscated) {
+            const obfuscationSeed = hashString(obfuscationSecret + header.timestamp);
+            decryptedText = reversePurrShift(decryptedText, obfuscationSeed + 1);
+            decryptedText = reverseWhiskerMask(decryptedText, obfuscationSeed);
+        }
+        
+        return {
+            success: true,
+            plaintext: decryptedText,
+            metadata: blob.metadata || {},
+            watermark: header.watermark,
+            timestamp: header.timestamp
+        };
+        
+    } catch (error) {
+        // Never reveal whether passphrase or device key was wrong
+        if (errorCode(error) === 'AUTH_ERROR' || errorCode(error) === 'DECRYPTION_ERROR') {
+            throw new MeowscriptError('Unable to decrypt - invalid credentials or corrupted data', 'UNSEAL_ERROR');
+        }
+        throw new MeowscriptError('Unsealing failed', 'UNSEAL_ERROR', error);
+    } finally {
+        // Secure cleanup
+        if (cek) secureZero(cek);
+        if (kPass) secureZero(kPass);
+        if (kDev) secureZero(kDev);
+    }
+}
+
+/**
+ * Meowscript Unseal - Main decryption function
+ * - options.onProgress(fraction) / options.signal reach the passphrase KDF (see derivePassphraseKey)
+ */
+async function unseal(blob: MeowBlob, passphrase: string, options: UnsealOptions = {}): Promise<UnsealResult> {
+    // Validate inputs
+    if (!blob || typeof blob !== 'object') {
+        throw new MeowscriptError('Invalid blob format', 'INVALID_BLOB');
+    }
+    
+    if (typeof passphrase !== 'string') {
+        throw new MeowscriptError('Passphrase must be a string', 'INVALID_PASSPHRASE');
+    }
+    
+    if (blob.header?.kdf === KEYED_KDF) {
+        throw new MeowscriptError('Blob is sealed to a key, use unsealWithKey', 'KEY_REQUIRED');
+    }
+    
+    return unsealEnvelope(blob,
+        header => derivePassphraseKey(passphrase, header.salt_pass, header.kdf_params, header.kdf, options),
+        passphrase, options);
+}
+
+/**
+ * Meowscript Unseal for blobs produced by sealWithKey()
+ */
+async function unsealWithKey(blob: MeowBlob, keyHex: string, options: UnsealOptions = {}): Promise<UnsealResult> {
+    if (!blob || typeof blob !== 'object') {
+        throw new MeowscriptError('Invalid blob format', 'INVALID_BLOB');
+    }
+    
+    if (typeof keyHex !== 'string' || !/^[0-9a-f]{64}$/i.test(keyHex)) {
+        throw new MeowscriptError('Key must be 32 bytes of hex', 'INVALID_KEY');
+    }
+    
+    if (blob.header?.kdf !== KEYED_KDF) {
+        throw new MeowscriptError('Blob is sealed to a passphrase, use unseal', 'PASSPHRASE_REQUIRED');
+    }
+    
+    const keyBytes = Array.from(aead.hexToBytes(keyHex));
+    try {
+        return await unsealEnvelope(blob,
+            header => deriveKeyedWrapKey(keyBytes, header.salt_pass, header.kdf_params),
+            keyHex, options);
+    } finally {
+        secureZero(keyBytes);
+    }
+}
+
+// ============================================================================
+// 🔍 UTILITY AND MANAGEMENT FUNCTIONS
+// ============================================================================
+
+/**
+ * Verify if a blob is a valid Meowscript blob
+ */
+function isValidBlob(blob: unknown): blob is MeowBlob {
+    try {
+        if (!blob || typeof blob !== 'object') return false;
+        const { header, nonces, wrap2, content, claw } = blob as Partial<MeowBlob>;
+        if (!header || (header.magic !== MAGIC_HEADER && header.magic !== LEGACY_MAGIC_HEADER)) return false;
+        if (!nonces || !wrap2 || !content || !claw) return false;
+        validateHeader(header);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Recompute the claw mark without decrypting (no keys needed)
+ */
+function verifyClawMark(blob: unknown): boolean {
+    try {
+        if (!isValidBlob(blob)) return false;
+        if (blob.header.magic === LEGACY_MAGIC_HEADER) {
+            return arraysEqual(computeLegacyClawMark(blob), legacyBytes(blob.claw));
+        }
+        const expected = computeClawMark(blob.header, base64ToBytes(blob.wrap2), base64ToBytes(blob.content));
+        return arraysEqual(expected, base64ToBytes(blob.claw));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get blob metadata without decrypting
+ */
+function getBlobInfo(blob: unknown) {
+    if (!isValidBlob(blob)) {
+        throw new MeowscriptError('Invalid blob', 'INVALID_BLOB');
+    }
+    
+    return {
+        version: blob.header.version,
+        legacy: blob.header.magic === LEGACY_MAGIC_HEADER,
+        algorithm: blob.header.alg,
+        watermark: blob.header.watermark,
+        timestamp: blob.header.timestamp,
+        kdf: blob.header.kdf,
+        iterations: blob.header.kdf_params.iterations,
+        kdf_params: blob.header.kdf_params,
+        metadata: blob.metadata || {},
+        size: blob.metadata?.size || 'unknown'
+    };
+}
+
+/**
+ * Panic wipe - securely destroy device keys
+ */
+async function panicWipe(confirmation = false) {
+    if (!confirmation) {
+        throw new MeowscriptError('Panic wipe requires explicit confirmation', 'CONFIRMATION_REQUIRED');
+    }
+    
+    try {
+        // Remove device key from SecureStore
+        await SecureStore.deleteItemAsync(DEVICE_KEY_ALIAS);
+        
+        // Additional cleanup can be added here
+        // (Clear AsyncStorage, memory, etc.)
+        
+        return {
+            success: true,
+            timestamp: new Date().toISOString(),
+            message: 'Device keys securely wiped. All encrypted data is now unrecoverable.'
+        };
+    } catch (error) {
+        throw new MeowscriptError('Panic wipe failed', 'PANIC_WIPE_ERROR', error);
+    }
+}
+
+/**
+ * Re-encrypt blob with new passphrase or parameters
+ */
+async function rekey(blob: MeowBlob, oldPassphrase: string, newPassphrase: string, options: SealOptions = {}): Promise<SealResult> {
+    try {
+        // First decrypt with old passphrase
+        const unsealed = await unseal(blob, oldPassphrase, { verifyClaw: true });
+        
+        // Then encrypt with new passphrase
+        const newOptions = {
+            ...options,
+            algorithm: options.algorithm || blob.header.alg,
+            enableObfuscation: blob.metadata?.obfuscated !== false
+        };
+        
+        return await seal(unsealed.plaintext, newPassphrase, newOptions);
+    } catch (error) {
+        throw new MeowscriptError('Rekeying failed', 'REKEY_ERROR', error);
+    }
+}
+
+/**
+ * Array equality check for constant-time comparison
+ */
+function arraysEqual(a: ArrayLike<number>, b: ArrayLike<number>): boolean {
+    if (a.length !== b.length) return false;
+    let result = 0;
+    for (let i = 0; i < a.length; i++) {
+        result |= a[i] ^ b[i];
+    }
+    return result === 0;
+}
+
+/**
+ * Generate secure backup recovery codes
+ */
+async function generateRecoveryCodes(count = 8): Promise<string[]> {
+    const codes: string[] = [];
+    for (let i = 0; i < count; i++) {
+        const codeBytes = await secureRandom(16);
+        const code = codeBytes.map(b => b.toString(16).padStart(2, '0')).join('');
+        codes.push(code.match(/.{4}/g)!.join('-').toUpperCase());
+    }
+    return codes;
+}
+
+/**
+ * Export blob as secure JSON string
+ */
+function exportBlob(blob: MeowBlob): string {
+    if (!isValidBlob(blob)) {
+        throw new MeowscriptError('Cannot export invalid blob', 'INVALID_BLOB');
+    }
+    
+    return JSON.stringify(blob, null, 2);
+}
+
+/**
+ * Import blob from JSON string
+ */
+function importBlob(jsonString: string): MeowBlob {
+    try {
+        const blob = JSON.parse(jsonString);
+        if (!isValidBlob(blob)) {
+            throw new MeowscriptError('Imported data is not a valid Meowscript blob', 'INVALID_BLOB');
+        }
+        return blob;
+    } catch (error) {
+        throw new MeowscriptError('Failed to import blob', 'IMPORT_ERROR', error);
+    }
+}
+
+// ============================================================================
+// 📱 DEVICE AND SECURITY STATUS
+// ============================================================================
+
+/**
+ * Check device security status
+ */
+async function getDeviceSecurityStatus() {
+    try {
+        const hasDeviceKey = await SecureStore.getItemAsync(DEVICE_KEY_ALIAS) !== null;
+        
+        return {
+            hasDeviceKey,
+            secureStoreAvailable: true,
+            timestamp: new Date().toISOString(),
+            deviceId: await Crypto.getRandomBytesAsync(16).then(bytes => 
+                Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+            )
+        };
+    } catch (error) {
+        return {
+            hasDeviceKey: false,
+            secureStoreAvailable: false,
+            error: (error as Error).message,
+            timestamp: new Date().toISOString()
+        };
+    }
+}
+
+/**
+ * Self-test
+ * - known-answer tests against the published AES-256-GCM / RFC 8439 / XChaCha20 vectors
+ * - then a full seal/unseal roundtrip
+ */
+async function selfTest() {
+    const kat = aead.runKnownAnswerTests();
+    try {
+        const testData = 'Meowscript™ self-test: The quick brown fox jumps over the lazy cat. =^.^=';
+        const testPassphrase = 'test-passphrase-12345';
+        
+        // Encrypt
+        const sealed = await seal(testData, testPassphrase, { enableObfuscation: true });
+        
+        // Decrypt
+        const unsealed = await unseal(sealed.blob, testPassphrase);
+        
+        // Verify
+        const roundtrip = unsealed.plaintext === testData;
+        
+        return {
+            success: kat.ok && roundtrip,
+            knownAnswerTests: kat.results,
+            roundtrip,
+            timestamp: new Date().toISOString(),
+            algorithm: sealed.blob.header.alg,
+            watermark: unsealed.watermark
+        };
+    } catch (error) {
+        return {
+            success: false,
+            knownAnswerTests: kat.results,
+            roundtrip: false,
+            error: (error as Error).message,
+            timestamp: new Date().toISOString()
+        };
+    }
+}
+
+// ============================================================================
+// 🎯 PUBLIC API EXPORTS
+// ============================================================================
+
+const Meowscript = {
+    // Core functions
+    seal,
+    unseal,
+    sealWithKey,
+    unsealWithKey,
+    
+    // Blob management
+    isValidBlob,
+    verifyClawMark,
+    getBlobInfo,
+    exportBlob,
+    importBlob,
+    
+    // Key management
+    rekey,
+    panicWipe,
+    exportDeviceKey,
+    importDeviceKey,
+    generateRecoveryCodes,
+    
+    // Device status
+    getDeviceSecurityStatus,
+    selfTest,
+    
+    // Constants
+    VERSION: MEOWSCRIPT_VERSION,
+    WATERMARK,
+    SUPPORTED_ALGORITHMS,
+    DEVICE_KEY_ALIAS,
+    
+    // Error class
+    MeowscriptError
+};
+
+export default Meowscript;
+
+export { MeowscriptError };
+
+/**
+ * 🐾 Usage Example:
+ * 
+ * import Meowscript from './meowscript';
+ * 
+ * async function example() {
+ *   try {
+ *     // Encrypt
+ *     const result = await Meowscript.seal('Secret message', 'my-strong-passphrase');
+ *     console.log('Encrypted:', result.watermark);
+ *     
+ *     // Decrypt
+ *     const decrypted = await Meowscript.unseal(result.blob, 'my-strong-passphrase');
+ *     console.log('Decrypted:', decrypted.plaintext);
+ *     
+ *   } catch (error) {
+ *     console.error('Meowscript error:', error.message);
+ *   }
+ * }
+ * 
+ * // Self-test
+ * Meowscript.selfTest().then(result => {
+ *   console.log('Self-test:', result.success ? 'PASSED' : 'FAILED');
+ * });
+ */
\ No newline at end of file
@@ -0,0 +1,263 @@
+// src/recordstore.js
+// Journaled record store on AsyncStorage, used by storage.ts for entries and audit chains. A
+// collection keeps one key per record plus an index of record ids, so an append writes one record
+// and the index instead of the whole list. Every write goes through one queue and is committed
+// through a write-ahead journal: the complete set of key writes is saved under JOURNAL_KEY, then
+// applied, then the journal is removed. A journal left behind by a crash is applied again before
+// the next read or write (the writes are whole values, so applying one twice is harmless).
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+export const JOURNAL_KEY = "vault_journal";
+
+/**
+ * Collection at `base`:
+ *   `${base}:index`     -> { v: 1, ids: [id, ...] }   // oldest-first
+ *   `${base}:r:${id}`   -> record JSON
+ *   `${base}`           -> legacy single JSON array (newest-first); moved into records by the next write
+ *
+ * keyOf(record) gives a record's id (entry id, block seq); null or a repeated id gets a generated one.
+ *
+ * Journal (JSON in JOURNAL_KEY): { createdAt, set: [[key, value], ...], remove: [key, ...] }
+ * Applied as records, then the index, then removals, so even a torn apply never leaves an index
+ * pointing at a record that is not there.
+ */
+
+const INDEX_VERSION = 1;
+
+/* ---------- helpers ---------- */
+
+const indexKey = base => `${base}:index`;
+const recordKey = (base, id) => `${base}:r:${id}`;
+
+// every read and write runs here, one at a time
+let queue = Promise.resolve();
+// recovery promise; cleared when a commit fails so the next operation recovers first
+let recovered = null;
+
+function enqueue(fn) {
+  const run = queue.then(async () => {
+    await ensureRecovered();
+    return fn();
+  });
+  queue = run.catch(() => {});
+  return run;
+}
+
+function ensureRecovered() {
+  if (!recovered) {
+    recovered = recoverJournal().catch(e => {
+      recovered = null;
+      throw e;
+    });
+  }
+  return recovered;
+}
+
+async function applyJournal(journal) {
+  const sets = journal.set || [];
+  const records = sets.filter(([key]) => !key.endsWith(":index"));
+  const indexes = sets.filter(([key]) => key.endsWith(":index"));
+  if (records.length) await AsyncStorage.multiSet(records);
+  if (indexes.length) await AsyncStorage.multiSet(indexes);
+  if ((journal.remove || []).length) await AsyncStorage.multiRemove(journal.remove);
+}
+
+async function commit(set, remove) {
+  if (!set.length && !remove.length) return;
+  const journal = { createdAt: new Date().toISOString(), set, remove };
+  await AsyncStorage.setItem(JOURNAL_KEY, JSON.stringify(journal));
+  try {
+    await applyJournal(journal);
+    await AsyncStorage.removeItem(JOURNAL_KEY);
+  } catch (e) {
+    recovered = null;
+    throw e;
+  }
+}
+
+function parseJSON(json, fallback) {
+  try {
+    return json ? JSON.parse(json) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// ids of a collection, or null when it still has the legacy single-array layout
+async function loadIds(base) {
+  const index = parseJSON(await AsyncStorage.getItem(indexKey(base)), null);
+  return index && Array.isArray(index.ids) ? index.ids : null;
+}
+
+// current state of a collection: { ids, values: Map(id -> stored JSON), legacy }
+async function loadState(base, keyOf) {
+  const ids = await loadIds(base);
+  if (ids) {
+    const pairs = await AsyncStorage.multiGet(ids.map(id => recordKey(base, id)));
+    const values = new Map();
+    ids.forEach((id, i) => {
+      if (pairs[i][1] !== null) values.set(id, pairs[i][1]);
+      else console.warn("recordstore: missing record", base, id);
+    });
+    return { ids: ids.filter(id => values.has(id)), values, legacy: false };
+  }
+
+  // single-array layout from before the record store: becomes records on the next commit
+  const legacy = parseJSON(await AsyncStorage.getItem(base), []);
+  const state = { ids: [], values: new Map(), legacy: true };
+  if (Array.isArray(legacy)) {
+    for (const record of [...legacy].reverse()) addRecord(state, record, keyOf);
+  }
+  return state;
+}
+
+function addRecord(state, record, keyOf) {
+  let id = keyOf ? keyOf(record) : null;
+  id = id === null || id === undefined ? `x${state.ids.length}` : String(id);
+  for (let n = 1; state.values.has(id); n++) id = `${id.replace(/~\d+$/, "")}~${n}`;
+  state.ids.push(id);
+  state.values.set(id, JSON.stringify(record));
+  return id;
+}
+
+function recordsOf(state) {
+  return state.ids.map(id => JSON.parse(state.values.get(id)));
+}
+
+// writes turning `before` into `after` (both from loadState), committed as one journal
+async function commitState(base, before, after) {
+  const set = [];
+  const remove = [];
+  for (const id of after.ids) {
+    const value = after.values.get(id);
+    if (before.legacy || before.values.get(id) !== value) set.push([recordKey(base, id), value]);
+  }
+  for (const id of before.ids) {
+    if (!after.values.has(id)) remove.push(recordKey(base, id));
+  }
+  const sameIds = !before.legacy && before.ids.length === after.ids.length && before.ids.every((id, i) => id === after.ids[i]);
+  if (!sameIds) set.push([indexKey(base), JSON.stringify({ v: INDEX_VERSION, ids: after.ids })]);
+  if (before.legacy) remove.push(base);
+  await commit(set, remove);
+}
+
+/* ---------- main API ---------- */
+
+/**
+ * recoverJournal()
+ * - applies and removes a journal left by an interrupted commit; returns whether there was one
+ * - runs on its own before the first operation; call it at startup to recover early
+ */
+export async function recoverJournal() {
+  const json = await AsyncStorage.getItem(JOURNAL_KEY);
+  if (json === null) return false;
+  const journal = parseJSON(json, null);
+  // a journal that does not parse was never completely written, so nothing of it was applied
+  if (journal) await applyJournal(journal);
+  else console.warn("recordstore: discarding an unreadable journal");
+  await AsyncStorage.removeItem(JOURNAL_KEY);
+  return !!journal;
+}
+
+/**
+ * readCollection(base) - records oldest-first
+ */
+export function readCollection(base, keyOf) {
+  return enqueue(async () => recordsOf(await loadState(base, keyOf)));
+}
+
+/**
+ * readTail(base, n) - last n records, oldest-first; reads only those records and the index
+ */
+export function readTail(base, n, keyOf) {
+  return enqueue(async () => {
+    const ids = await loadIds(base);
+    if (!ids) return recordsOf(await loadState(base, keyOf)).slice(-n);
+    const pairs = await AsyncStorage.multiGet(ids.slice(-n).map(id => recordKey(base, id)));
+    return pairs.filter(([, value]) => value !== null).map(([, value]) => JSON.parse(value));
+  });
+}
+
+/**
+ * readSlice(base, start, end) - records at positions [start, end), oldest-first; reads only those
+ * records and the index
+ */
+export function readSlice(base, start, end, keyOf) {
+  return enqueue(async () => {
+    const ids = await loadIds(base);
+    if (!ids) return recordsOf(await loadState(base, keyOf)).slice(start, end);
+    const wanted = ids.slice(start, end);
+    if (!wanted.length) return [];
+    const pairs = await AsyncStorage.multiGet(wanted.map(id => recordKey(base, id)));
+    return pairs.filter(([, value]) => value !== null).map(([, value]) => JSON.parse(value));
+  });
+}
+
+/**
+ * countRecords(base)
+ */
+export function countRecords(base, keyOf) {
+  return enqueue(async () => {
+    const ids = await loadIds(base);
+    return ids ? ids.length : (await loadState(base, keyOf)).ids.length;
+  });
+}
+
+/**
+ * appendRecords(base, records, keyOf) - adds records at the end; returns their ids
+ */
+export function appendRecords(base, records, keyOf) {
+  return enqueue(async () => {
+    const known = await loadIds(base);
+    // appends only need the ids; the records are read when the legacy array has to be converted
+    const before = known ? { ids: known, values: new Map(known.map(id => [id, null])), legacy: false } : await loadState(base, keyOf);
+    const after = { ids: [...before.ids], values: new Map(before.values), legacy: false };
+    const ids = records.map(r => addRecord(after, r, keyOf));
+    await commitState(base, before, after);
+    return ids;
+  });
+}
+
+/**
+ * updateCollection(base, fn, keyOf)
+ * - fn(records oldest-first) returns the new list (may be async); the read and the write happen
+ *   in one turn of the queue, so nothing written meanwhile is lost. Only records that changed are
+ *   written. fn must not call back into the record store (it would wait on itself).
+ * - returns the new list
+ */
+export function updateCollection(base, fn, keyOf) {
+  return enqueue(async () => {
+    const before = await loadState(base, keyOf);
+    const next = await fn(recordsOf(before));
+    const after = { ids: [], values: new Map(), legacy: false };
+    for (const r of next || []) addRecord(after, r, keyOf);
+    await commitState(base, before, after);
+    return recordsOf(after);
+  });
+}
+
+/**
+ * replaceCollection(base, records, keyOf) - replaces the whole list (oldest-first)
+ */
+export function replaceCollection(base, records, keyOf) {
+  return updateCollection(base, () => records, keyOf);
+}
+
+/**
+ * removeCollection(base) - removes every record, the index and any legacy array
+ */
+export function removeCollection(base) {
+  return enqueue(async () => {
+    const keys = await collectionKeys(base);
+    if (keys.length) await commit([], keys);
+  });
+}
+
+/**
+ * collectionKeys(base) - every AsyncStorage key the collection occupies (for wipe checks)
+ */
+export async function collectionKeys(base) {
+  const all = await AsyncStorage.getAllKeys();
+  return all.filter(k => k === base || k.startsWith(`${base}:`));
+}
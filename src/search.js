@@ -0,0 +1,150 @@
+// src/search.js
+// In-memory full-text index over decrypted entries. Built after unlock and never persisted,
+// so no plaintext terms reach AsyncStorage; the app drops it on lock together with the master key.
+
+import * as entryFormat from "./entries";
+
+const MIN_TERM_LENGTH = 2;
+const SEPARATORS = /[\s.,;:!?"'“”‘’()[\]{}<>/\\|@#$%^&*+=~`_—–-]+/;
+
+/**
+ * tokenize(text) - lowercased, accent-folded terms
+ * @param {string} text
+ * @returns {string[]}
+ */
+export function tokenize(text) {
+  return String(text || "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(SEPARATORS)
+    .filter(t => t.length >= MIN_TERM_LENGTH);
+}
+
+/**
+ * Index shape: { terms: Map<term, Set<docId>>, docs: Map<docId, Set<term>> }
+ * docId is the revision chain's root id, so a chain is indexed by its latest text only.
+ * @returns {import("./types").SearchIndex}
+ */
+export function createIndex() {
+  return { terms: new Map(), docs: new Map() };
+}
+
+/**
+ * @param {import("./types").SearchIndex} index
+ * @param {string} docId
+ */
+export function removeDocument(index, docId) {
+  const terms = index.docs.get(docId);
+  if (!terms) return;
+  for (const t of terms) {
+    const ids = index.terms.get(t);
+    if (!ids) continue;
+    ids.delete(docId);
+    if (ids.size === 0) index.terms.delete(t);
+  }
+  index.docs.delete(docId);
+}
+
+/**
+ * @param {import("./types").SearchIndex} index
+ * @param {string} docId
+ * @param {string} text
+ */
+export function addDocument(index, docId, text) {
+  removeDocument(index, docId);
+  const terms = new Set(tokenize(text));
+  index.docs.set(docId, terms);
+  for (const t of terms) {
+    if (!index.terms.has(t)) index.terms.set(t, new Set());
+    index.terms.get(t).add(docId);
+  }
+}
+
+/**
+ * search(index, query)
+ * - every query term must match (as a prefix) some term of the document
+ * - returns Set<docId>; an empty query matches nothing
+ * @param {import("./types").SearchIndex} index
+ * @param {string} query
+ * @returns {Set<string>}
+ */
+export function search(index, query) {
+  const queryTerms = tokenize(query);
+  if (!index || queryTerms.length === 0) return new Set();
+
+  let result = null;
+  for (const q of queryTerms) {
+    const hits = new Set();
+    for (const [term, ids] of index.terms) {
+      if (term.startsWith(q)) ids.forEach(id => hits.add(id));
+    }
+    result = result ? new Set([...result].filter(id => hits.has(id))) : hits;
+    if (result.size === 0) break;
+  }
+  return result;
+}
+
+/**
+ * documentText(body, meta) - what gets indexed for a chain: title, tags, attachment names and body
+ * @param {string} body
+ * @param {import("./types").EntryMeta} [meta]
+ * @returns {string}
+ */
+export function documentText(body, meta = {}) {
+  return [meta.title || "", ...(meta.tags || []), ...(meta.files || []).map(f => f.name), body || ""].join("\n");
+}
+
+/**
+ * buildIndex(masterHex, entries, metaMap)
+ * - decrypts the latest revision of every chain; records failing integrity are left out
+ * - metaMap (root id -> meta, from entries.loadMetaMap) adds titles and tags to the index
+ * - returns { index, skipped: [ids] }
+ * @param {string} masterHex
+ * @param {import("./types").Entry[]} entries
+ * @param {Record<string, import("./types").EntryMeta>} [metaMap]
+ * @returns {Promise<{ index: import("./types").SearchIndex, skipped: string[] }>}
+ */
+export async function buildIndex(masterHex, entries, metaMap = {}) {
+  const index = createIndex();
+  const skipped = [];
+  for (const chain of entryFormat.groupRevisions(entries)) {
+    await addLatest(masterHex, index, skipped, chain.rootId, chain.latest, metaMap);
+  }
+  return { index, skipped };
+}
+
+/**
+ * buildStoredIndex(masterHex, metaMap) - buildIndex() over every stored record, paged
+ * (entries.forEachLatestRevision), so the record list is never held whole
+ * @param {string} masterHex
+ * @param {Record<string, import("./types").EntryMeta>} [metaMap]
+ * @returns {Promise<{ index: import("./types").SearchIndex, skipped: string[] }>}
+ */
+export async function buildStoredIndex(masterHex, metaMap = {}) {
+  const index = createIndex();
+  const skipped = [];
+  await entryFormat.forEachLatestRevision(latest =>
+    addLatest(masterHex, index, skipped, entryFormat.rootIdOf(latest), latest, metaMap)
+  );
+  return { index, skipped };
+}
+
+async function addLatest(masterHex, index, skipped, rootId, latest, metaMap) {
+  try {
+    if (!entryFormat.verifyEntry(masterHex, latest)) throw new Error("integrity");
+    addDocument(index, rootId, documentText(await entryFormat.openEntry(masterHex, latest), metaMap[rootId]));
+  } catch {
+    skipped.push(latest.id);
+  }
+}
+
+/**
+ * clearIndex(index) - empties the maps so the terms are unreachable even if a reference lingers
+ * @param {import("./types").SearchIndex | null} index
+ */
+export function clearIndex(index) {
+  if (!index) return;
+  index.terms.clear();
+  index.docs.clear();
+}
@@ -0,0 +1,214 @@
+// src/shamir.js
+// M-of-N Shamir secret sharing of the master key over GF(256), for handing shares to trusted
+// custodians. Each share is self-describing (set id, threshold, index) and carries its own checksum,
+// so a mistyped or mixed-up share is rejected before any reconstruction is attempted.
+
+import CryptoJS from "crypto-js";
+import * as aead from "./aead";
+import { randomHex } from "./crypto";
+
+export const SHARE_VERSION = 1;
+export const MAX_SHARES = 255;
+const TEXT_PREFIX = "VXS1";
+const SET_ID_BYTES = 3;
+const CHECKSUM_BYTES = 4;
+
+/**
+ * Share payload (42 bytes for a 32-byte key):
+ *   version(1) | setId(3) | threshold(1) | index(1) | y(secret length) | checksum(4)
+ *   checksum = first 4 bytes of SHA-256 over everything before it
+ *
+ * Printed two ways, both decoded by decodeShare():
+ *   text      "VXS1-0103-a1b2-..."     hex in groups of four
+ *   mnemonic  "lusab-babad-gutih-..."  proquints (one pronounceable 5-letter word per 16 bits)
+ */
+
+export class ShamirError extends Error {
+  constructor(message, code) {
+    super(message);
+    this.name = "ShamirError";
+    this.code = code;
+  }
+}
+
+/* ---------- GF(256) ---------- */
+
+// AES field polynomial x^8 + x^4 + x^3 + x + 1, generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0); // x * 3
+    x &= 0xff;
+  }
+  for (let i = 255; i < 510; i++) EXP[i] = EXP[i - 255];
+})();
+
+function gfMul(a, b) {
+  if (a === 0 || b === 0) return 0;
+  return EXP[LOG[a] + LOG[b]];
+}
+
+function gfDiv(a, b) {
+  if (b === 0) throw new ShamirError("Division by zero in GF(256).", "INTERNAL");
+  if (a === 0) return 0;
+  return EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/* ---------- helpers ---------- */
+
+function checksum(bytes) {
+  const digest = CryptoJS.SHA256(CryptoJS.enc.Hex.parse(aead.bytesToHex(bytes))).toString(CryptoJS.enc.Hex);
+  return aead.hexToBytes(digest.slice(0, CHECKSUM_BYTES * 2));
+}
+
+const PQ_CONSONANTS = "bdfghjklmnprstvz";
+const PQ_VOWELS = "aiou";
+
+function toProquints(bytes) {
+  const words = [];
+  for (let i = 0; i < bytes.length; i += 2) {
+    const n = (bytes[i] << 8) | (bytes[i + 1] || 0);
+    words.push(
+      PQ_CONSONANTS[(n >>> 12) & 15] + PQ_VOWELS[(n >>> 10) & 3] + PQ_CONSONANTS[(n >>> 6) & 15] + PQ_VOWELS[(n >>> 4) & 3] + PQ_CONSONANTS[n & 15]
+    );
+  }
+  return words.join("-");
+}
+
+function fromProquints(text) {
+  const words = text.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  const out = [];
+  for (const w of words) {
+    const idx = [0, 2, 4].map(i => PQ_CONSONANTS.indexOf(w[i]));
+    const vow = [1, 3].map(i => PQ_VOWELS.indexOf(w[i]));
+    if (w.length !== 5 || idx.includes(-1) || vow.includes(-1)) throw new ShamirError(`"${w}" is not a share word.`, "BAD_FORMAT");
+    const n = (idx[0] << 12) | (vow[0] << 10) | (idx[1] << 6) | (vow[1] << 4) | idx[2];
+    out.push(n >>> 8, n & 0xff);
+  }
+  return Uint8Array.from(out);
+}
+
+/* ---------- main API ---------- */
+
+/**
+ * splitSecret(secretHex, threshold, count)
+ * - one random polynomial of degree threshold-1 per secret byte; share i is its value at x = i
+ * - returns { setId, threshold, shares: [{ index, text, mnemonic }] }
+ * @param {string} secretHex
+ * @param {number} threshold
+ * @param {number} count
+ * @returns {Promise<import("./types").ShamirSplit>}
+ */
+export async function splitSecret(secretHex, threshold, count) {
+  if (!Number.isInteger(threshold) || !Number.isInteger(count) || threshold < 2 || count < threshold || count > MAX_SHARES) {
+    throw new ShamirError(`Need 2 <= threshold <= shares <= ${MAX_SHARES}.`, "BAD_PARAMS");
+  }
+  const secret = aead.hexToBytes(secretHex);
+  const setId = await randomHex(SET_ID_BYTES);
+  const coeffs = [];
+  for (let k = 1; k < threshold; k++) coeffs.push(aead.hexToBytes(await randomHex(secret.length)));
+
+  const shares = [];
+  for (let x = 1; x <= count; x++) {
+    const y = new Uint8Array(secret.length);
+    for (let b = 0; b < secret.length; b++) {
+      // Horner: a0 + x(a1 + x(a2 + ...))
+      let acc = 0;
+      for (let k = coeffs.length - 1; k >= 0; k--) acc = gfMul(acc ^ coeffs[k][b], x);
+      y[b] = acc ^ secret[b];
+    }
+    shares.push(encodeShare({ setId, threshold, index: x, y }));
+  }
+  for (const c of coeffs) c.fill(0);
+  secret.fill(0);
+  return { setId, threshold, shares };
+}
+
+/**
+ * encodeShare({ setId, threshold, index, y }) - returns { index, text, mnemonic }
+ * @param {{ setId: string, threshold: number, index: number, y: Uint8Array }} share
+ * @returns {import("./types").ShamirShare}
+ */
+export function encodeShare({ setId, threshold, index, y }) {
+  const body = Uint8Array.from([SHARE_VERSION, ...aead.hexToBytes(setId), threshold, index, ...y]);
+  const payload = Uint8Array.from([...body, ...checksum(body)]);
+  const hex = aead.bytesToHex(payload);
+  return { index, text: `${TEXT_PREFIX}-${hex.match(/.{1,4}/g).join("-")}`, mnemonic: toProquints(payload) };
+}
+
+/**
+ * decodeShare(str) - accepts either printed form (case, spacing and dashes are ignored)
+ * - throws ShamirError BAD_FORMAT | BAD_CHECKSUM | UNSUPPORTED_VERSION
+ * - returns { setId, threshold, index, y }
+ * @param {string} str
+ * @returns {{ setId: string, threshold: number, index: number, y: Uint8Array }}
+ */
+export function decodeShare(str) {
+  const raw = String(str || "").trim();
+  let payload;
+  if (raw.toUpperCase().startsWith(TEXT_PREFIX)) {
+    const hex = raw.slice(TEXT_PREFIX.length).replace(/[^0-9a-fA-F]/g, "");
+    if (hex.length % 2 !== 0) throw new ShamirError("Share text has an odd number of hex digits.", "BAD_FORMAT");
+    payload = aead.hexToBytes(hex.toLowerCase());
+  } else {
+    payload = fromProquints(raw);
+  }
+  if (payload.length < 1 + SET_ID_BYTES + 2 + 1 + CHECKSUM_BYTES) throw new ShamirError("Share is too short.", "BAD_FORMAT");
+
+  const body = payload.subarray(0, payload.length - CHECKSUM_BYTES);
+  const sum = payload.subarray(payload.length - CHECKSUM_BYTES);
+  if (aead.bytesToHex(checksum(body)) !== aead.bytesToHex(sum)) throw new ShamirError("Share checksum does not match; check for typos.", "BAD_CHECKSUM");
+  if (body[0] !== SHARE_VERSION) throw new ShamirError(`Unsupported share version ${body[0]}.`, "UNSUPPORTED_VERSION");
+
+  const setId = aead.bytesToHex(body.subarray(1, 1 + SET_ID_BYTES));
+  const threshold = body[1 + SET_ID_BYTES];
+  const index = body[2 + SET_ID_BYTES];
+  if (index === 0 || threshold < 2) throw new ShamirError("Share header is invalid.", "BAD_FORMAT");
+  return { setId, threshold, index, y: Uint8Array.from(body.subarray(3 + SET_ID_BYTES)) };
+}
+
+/**
+ * combineShares(strs)
+ * - decodes and cross-checks every share first (same set, distinct indices, enough of them)
+ * - throws ShamirError (decodeShare codes, or MIXED_SETS | DUPLICATE_SHARE | NOT_ENOUGH_SHARES)
+ * - returns { secretHex, setId, indices }
+ * @param {string[]} strs
+ * @returns {{ secretHex: string, setId: string, indices: number[] }}
+ */
+export function combineShares(strs) {
+  const shares = strs.map((s, i) => {
+    try {
+      return decodeShare(s);
+    } catch (e) {
+      if (e instanceof ShamirError) throw new ShamirError(`Share ${i + 1}: ${e.message}`, e.code);
+      throw e;
+    }
+  });
+  if (shares.length === 0) throw new ShamirError("No shares given.", "NOT_ENOUGH_SHARES");
+
+  const { setId, threshold } = shares[0];
+  const length = shares[0].y.length;
+  if (shares.some(s => s.setId !== setId || s.threshold !== threshold || s.y.length !== length)) {
+    throw new ShamirError("Shares come from different sets.", "MIXED_SETS");
+  }
+  if (new Set(shares.map(s => s.index)).size !== shares.length) throw new ShamirError("The same share was entered twice.", "DUPLICATE_SHARE");
+  if (shares.length < threshold) throw new ShamirError(`${threshold} shares are needed, ${shares.length} given.`, "NOT_ENOUGH_SHARES");
+
+  // Lagrange interpolation at x = 0 over the first `threshold` shares
+  const used = shares.slice(0, threshold);
+  const secret = new Uint8Array(length);
+  for (let i = 0; i < used.length; i++) {
+    let basis = 1;
+    for (let j = 0; j < used.length; j++) {
+      if (i !== j) basis = gfMul(basis, gfDiv(used[j].index, used[j].index ^ used[i].index));
+    }
+    for (let b = 0; b < length; b++) secret[b] ^= gfMul(used[i].y[b], basis);
+  }
+  const secretHex = aead.bytesToHex(secret);
+  secret.fill(0);
+  return { secretHex, setId, indices: used.map(s => s.index) };
+}
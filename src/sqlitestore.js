@@ -0,0 +1,146 @@
+// src/sqlitestore.js
+// SQLite storage backend (expo-sqlite built with SQLCipher, see the plugin in app.json). All
+// collections share one table with a row per record, indexed by collection plus entry id, block
+// seq and timestamp, so lookups and appends do not read the whole vault. The database file is
+// encrypted with a random key kept in SecureStore; a build without SQLCipher is refused rather than
+// writing the vault to an unencrypted file.
+
+import * as SQLite from "expo-sqlite";
+import { StorageBackendError, indexFields } from "./backend";
+
+export const DATABASE_NAME = "vault.db";
+
+/**
+ * records: one row per record
+ *   collection - storage key of the collection (storage.VAULT_SETS)
+ *   pos        - position in the collection, 0 = oldest
+ *   id, seq, ts - indexFields() of the record
+ *   body       - record JSON
+ */
+const SCHEMA = `
+PRAGMA journal_mode = WAL;
+CREATE TABLE IF NOT EXISTS records (
+  collection TEXT NOT NULL,
+  pos INTEGER NOT NULL,
+  id TEXT,
+  seq INTEGER,
+  ts TEXT,
+  body TEXT NOT NULL,
+  PRIMARY KEY (collection, pos)
+);
+CREATE INDEX IF NOT EXISTS records_id ON records (collection, id);
+CREATE INDEX IF NOT EXISTS records_seq ON records (collection, seq);
+CREATE INDEX IF NOT EXISTS records_ts ON records (collection, ts);
+`;
+
+/* ---------- helpers ---------- */
+
+const parseRows = rows => rows.map(row => JSON.parse(row.body));
+
+async function insertRecord(db, collection, pos, record) {
+  const f = indexFields(record);
+  await db.runAsync(
+    "INSERT OR REPLACE INTO records (collection, pos, id, seq, ts, body) VALUES (?, ?, ?, ?, ?, ?)",
+    [collection, pos, f.id, f.seq, f.ts, JSON.stringify(record)]
+  );
+}
+
+/* ---------- main API ---------- */
+
+/**
+ * createSQLiteBackend({ keyHex, name })
+ * - opens (or creates) the database with a 32-byte key; StorageBackendError codes: BAD_KEY,
+ *   NO_CIPHER (build without SQLCipher), OPEN_FAILED (also a wrong key)
+ * - returns a StorageBackend (backend.js)
+ * @returns {Promise<import("./types").StorageBackend>}
+ */
+export async function createSQLiteBackend({ keyHex, name = DATABASE_NAME }) {
+  if (!/^[0-9a-f]{64}$/.test(keyHex || "")) throw new StorageBackendError("The database key must be 32 bytes of hex.", "BAD_KEY");
+  let db = null;
+  try {
+    db = await SQLite.openDatabaseAsync(name);
+    // the key has to be set before anything reads the file
+    await db.execAsync(`PRAGMA key = "x'${keyHex}'";`);
+    const cipher = await db.getFirstAsync("PRAGMA cipher_version;");
+    if (!cipher) throw new StorageBackendError("SQLCipher is not available in this build.", "NO_CIPHER");
+    await db.execAsync(SCHEMA);
+  } catch (e) {
+    if (db) await db.closeAsync().catch(() => {});
+    if (e instanceof StorageBackendError) throw e;
+    throw new StorageBackendError(`Could not open ${name}: ${e && e.message ? e.message : e}`, "OPEN_FAILED");
+  }
+
+  // one operation at a time; writes also run in a transaction, so they are all-or-nothing
+  let queue = Promise.resolve();
+  const serialized = fn => {
+    const run = queue.then(fn);
+    queue = run.catch(() => {});
+    return run;
+  };
+  const transaction = fn =>
+    serialized(async () => {
+      let result;
+      await db.withTransactionAsync(async () => {
+        result = await fn();
+      });
+      return result;
+    });
+  const readAll = async collection => parseRows(await db.getAllAsync("SELECT body FROM records WHERE collection = ? ORDER BY pos", [collection]));
+
+  return {
+    name: "sqlite",
+    list: collection => serialized(() => readAll(collection)),
+    find: (collection, query) =>
+      serialized(async () => {
+        const row = "seq" in query
+          ? await db.getFirstAsync("SELECT body FROM records WHERE collection = ? AND seq = ? ORDER BY pos DESC LIMIT 1", [collection, query.seq])
+          : await db.getFirstAsync("SELECT body FROM records WHERE collection = ? AND id = ? ORDER BY pos DESC LIMIT 1", [collection, String(query.id)]);
+        return row ? JSON.parse(row.body) : null;
+      }),
+    range: (collection, from, to) =>
+      serialized(async () =>
+        parseRows(await db.getAllAsync(
+          "SELECT body FROM records WHERE collection = ? AND ts IS NOT NULL AND (? IS NULL OR ts >= ?) AND (? IS NULL OR ts <= ?) ORDER BY pos",
+          [collection, from || null, from || null, to || null, to || null]
+        ))
+      ),
+    tail: (collection, n) =>
+      serialized(async () =>
+        n > 0
+          ? parseRows(await db.getAllAsync("SELECT body FROM records WHERE collection = ? ORDER BY pos DESC LIMIT ?", [collection, n])).reverse()
+          : []
+      ),
+    slice: (collection, start, end) =>
+      serialized(async () =>
+        parseRows(await db.getAllAsync("SELECT body FROM records WHERE collection = ? AND pos >= ? AND pos < ? ORDER BY pos", [collection, start, end]))
+      ),
+    seqRange: (collection, from, to) =>
+      serialized(async () =>
+        parseRows(await db.getAllAsync("SELECT body FROM records WHERE collection = ? AND seq >= ? AND seq <= ? ORDER BY pos", [collection, from, to]))
+      ),
+    count: collection =>
+      serialized(async () => (await db.getFirstAsync("SELECT COUNT(*) AS n FROM records WHERE collection = ?", [collection])).n),
+    append: (collection, list) =>
+      transaction(async () => {
+        const last = await db.getFirstAsync("SELECT MAX(pos) AS pos FROM records WHERE collection = ?", [collection]);
+        let pos = last && last.pos !== null ? last.pos + 1 : 0;
+        for (const record of list) await insertRecord(db, collection, pos++, record);
+      }),
+    update: (collection, fn) =>
+      transaction(async () => {
+        const rows = await db.getAllAsync("SELECT pos, body FROM records WHERE collection = ? ORDER BY pos", [collection]);
+        const next = (await fn(parseRows(rows))) || [];
+        // rewrite only the positions that changed, then drop the ones past the new end
+        for (let i = 0; i < next.length; i++) {
+          if (!rows[i] || rows[i].pos !== i || rows[i].body !== JSON.stringify(next[i])) await insertRecord(db, collection, i, next[i]);
+        }
+        await db.runAsync("DELETE FROM records WHERE collection = ? AND pos >= ?", [collection, next.length]);
+        return next.map(r => JSON.parse(JSON.stringify(r)));
+      }),
+    remove: collection =>
+      transaction(async () => {
+        await db.runAsync("DELETE FROM records WHERE collection = ?", [collection]);
+      }),
+    close: () => serialized(() => db.closeAsync())
+  };
+}
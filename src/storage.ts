@@ -0,0 +1,340 @@
+// src/storage.ts
+import * as SecureStore from "expo-secure-store";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { createAsyncStorageBackend, currentBackend, setBackend, StorageBackendError } from "./backend";
+import { randomHex } from "./crypto";
+import * as records from "./recordstore";
+import { createSQLiteBackend } from "./sqlitestore";
+import type { Block, Entry, Page, StorageBackend, VaultSetName } from "./types";
+
+export type { Entry, Page, StorageBackend, VaultSetName } from "./types";
+export { StorageBackendError };
+
+
+export const SECUREKEY_WRAPPED = "vault_wrapped_key";
+export const SECUREKEY_WRAPPED_PENDING = "vault_wrapped_key_pending";
+export const SECUREKEY_WRAPPED_ALT = "vault_wrapped_key_2";
+export const SECUREKEY_SALT = "vault_salt";
+export const SECUREKEY_ITER = "vault_iter"; // legacy: PBKDF2 iterations, superseded by SECUREKEY_KDF
+export const SECUREKEY_KDF = "vault_kdf";
+export const SECUREKEY_CREATED = "vault_created";
+export const SECUREKEY_RECOVERY = "vault_recovery_slots";
+export const SECUREKEY_LOCKOUT = "vault_unlock_lockout";
+export const SECUREKEY_DEADMAN = "vault_deadman_switch";
+export const SECUREKEY_AUDIT_SIGNING = "AUDIT_SIGNING_PRIV";
+export const SECUREKEY_AUDIT_SIGNING_ALT = "AUDIT_SIGNING_PRIV_2";
+export const SECUREKEY_CHAIN_TRUST = "vault_chain_checkpoint";
+export const SECUREKEY_CHAIN_TRUST_ALT = "vault_chain_checkpoint_2";
+export const SECUREKEY_DB = "vault_db_key";
+export const ASYNC_ENTRIES_KEY = "vault_entries";
+export const ASYNC_TAMPERLOG_KEY = "vault_tamper_log";
+export const ASYNC_META_KEY = "vault_meta";
+export const ASYNC_ENTRIES_KEY_ALT = "vault_entries_2";
+export const ASYNC_TAMPERLOG_KEY_ALT = "vault_tamper_log_2";
+export const ASYNC_LEGACY_TAMPERLOGS_KEY = "tamperLogs"; // saveTamperLog
+export const ASYNC_JOURNAL_KEY = records.JOURNAL_KEY;
+export const ASYNC_BACKEND_KEY = "vault_storage_backend";
+
+/**
+ * Vault sets: every vault carries two entry lists and two tamper chains. "secondary" belongs to
+ * the key in SECUREKEY_WRAPPED_ALT (the decoy opened by a duress passphrase, or nothing), so storage
+ * looks the same whether or not a decoy is configured. The helpers below use the active set unless
+ * one is passed explicitly.
+ */
+export type VaultSetKeys = { entries: string; tamperLog: string; signingKey: string; chainTrust: string };
+
+export const VAULT_SETS: Record<VaultSetName, VaultSetKeys> = {
+  primary: { entries: ASYNC_ENTRIES_KEY, tamperLog: ASYNC_TAMPERLOG_KEY, signingKey: SECUREKEY_AUDIT_SIGNING, chainTrust: SECUREKEY_CHAIN_TRUST },
+  secondary: { entries: ASYNC_ENTRIES_KEY_ALT, tamperLog: ASYNC_TAMPERLOG_KEY_ALT, signingKey: SECUREKEY_AUDIT_SIGNING_ALT, chainTrust: SECUREKEY_CHAIN_TRUST_ALT }
+};
+let activeSet: VaultSetName = "primary";
+
+export function selectVaultSet(name: VaultSetName): void {
+  if (!VAULT_SETS[name]) throw new Error(`Unknown vault set ${name}`);
+  activeSet = name;
+}
+
+export function activeVaultSet(): VaultSetName {
+  return activeSet;
+}
+
+function setKeys(set?: VaultSetName): VaultSetKeys {
+  return VAULT_SETS[set || activeSet];
+}
+
+/*
+ * Entries and tamper logs are collections of the storage backend in use (backend.js), named by the
+ * keys above: SQLite once openStorage() has migrated the vault, the journaled AsyncStorage record
+ * store before that. The helpers below keep the old shape: lists are newest-first.
+ */
+const COLLECTIONS = Object.values(VAULT_SETS).flatMap(keys => [keys.entries, keys.tamperLog]);
+
+/**
+ * Backend marker (JSON in ASYNC_BACKEND_KEY, written once the data lives in SQLite):
+ * { backend: "sqlite", migratedAt, counts: { [collection]: number } }
+ */
+type BackendMarker = { backend: "sqlite"; migratedAt: string; counts: Record<string, number> };
+
+async function readBackendMarker(): Promise<BackendMarker | null> {
+  try {
+    const json = await AsyncStorage.getItem(ASYNC_BACKEND_KEY);
+    return json ? JSON.parse(json) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function openSQLite(create: boolean): Promise<StorageBackend> {
+  let keyHex = await SecureStore.getItemAsync(SECUREKEY_DB);
+  if (!keyHex) {
+    if (!create) throw new StorageBackendError("The database key is missing.", "NO_KEY");
+    keyHex = await randomHex(32);
+    await SecureStore.setItemAsync(SECUREKEY_DB, keyHex);
+  }
+  return createSQLiteBackend({ keyHex });
+}
+
+/**
+ * migrateStorage(from, to)
+ * - copies every entry list and tamper log from one backend to another, replacing what `to` holds,
+ *   then reads each collection back and compares it record by record with the source
+ * - throws StorageBackendError "MIGRATION_MISMATCH" when a copy differs; the source is not touched
+ * - returns { [collection]: number of records }
+ */
+export async function migrateStorage(from: StorageBackend, to: StorageBackend): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  for (const collection of COLLECTIONS) {
+    const source = await from.list(collection);
+    await to.update(collection, () => source);
+    const copied = await to.list(collection);
+    if (copied.length !== source.length || copied.some((r, i) => JSON.stringify(r) !== JSON.stringify(source[i]))) {
+      throw new StorageBackendError(`Copy of ${collection} does not match the original.`, "MIGRATION_MISMATCH");
+    }
+    counts[collection] = source.length;
+  }
+  return counts;
+}
+
+/**
+ * openStorage() - run at startup, before anything reads entries or chains
+ * - finishes an AsyncStorage write cut off by a crash
+ * - opens SQLite; the first time, copies the AsyncStorage data into it (migrateStorage), records
+ *   the switch and then removes the AsyncStorage copy
+ * - stays on AsyncStorage when SQLite cannot be opened (no SQLCipher, web) or the copy fails, as
+ *   long as the data has not moved yet; once the marker is written, AsyncStorage holds none of it,
+ *   so a SQLite open failure throws StorageBackendError "BACKEND_UNAVAILABLE" instead
+ * - returns the name of the backend in use
+ */
+export async function openStorage(): Promise<StorageBackend["name"]> {
+  try {
+    if (await records.recoverJournal()) console.warn("storage: recovered an interrupted write");
+  } catch (e) {
+    console.warn("storage: journal recovery failed", e);
+  }
+  const asyncBackend: StorageBackend = createAsyncStorageBackend();
+  const marker = await readBackendMarker();
+  let sqlite: StorageBackend | null = null;
+  try {
+    sqlite = await openSQLite(!marker);
+    if (!marker) {
+      const counts = await migrateStorage(asyncBackend, sqlite);
+      await AsyncStorage.setItem(ASYNC_BACKEND_KEY, JSON.stringify({ backend: "sqlite", migratedAt: new Date().toISOString(), counts }));
+    }
+  } catch (e) {
+    if (sqlite) await sqlite.close().catch(() => {});
+    // falling back now would show an empty vault and start a second chain in AsyncStorage
+    if (marker) throw new StorageBackendError(`The vault database could not be opened: ${e instanceof Error ? e.message : e}`, "BACKEND_UNAVAILABLE");
+    console.warn("storage: staying on AsyncStorage", e);
+    setBackend(asyncBackend);
+    return asyncBackend.name;
+  }
+  // also clears what a migration interrupted after writing the marker left behind
+  for (const collection of COLLECTIONS) await asyncBackend.remove(collection);
+  setBackend(sqlite);
+  return sqlite!.name;
+}
+
+/**
+ * closeStorage() - closes the backend in use and falls back to AsyncStorage (before a wipe)
+ */
+export async function closeStorage(): Promise<void> {
+  const open: StorageBackend = currentBackend();
+  setBackend(createAsyncStorageBackend());
+  await open.close();
+}
+
+/**
+ * Pages read newest-first: cursor null starts at the newest record, nextCursor continues with
+ * older ones and is null after the oldest. total is the collection size when the page was read.
+ * { items, nextCursor, total }
+ */
+async function loadPage<T extends Entry | Block>(collection: string, cursor: number | null | undefined, limit: number): Promise<Page<T>> {
+  const backend: StorageBackend = currentBackend();
+  const total = await backend.count(collection);
+  const end = cursor === null || cursor === undefined ? total : Math.min(cursor, total);
+  const start = Math.max(0, end - limit);
+  const items = end > start ? (await backend.slice<T>(collection, start, end)).reverse() : [];
+  return { items, nextCursor: start > 0 ? start : null, total };
+}
+
+export async function loadEntries(set?: VaultSetName): Promise<Entry[]> {
+  try {
+    return (await currentBackend().list<Entry>(setKeys(set).entries)).reverse();
+  } catch (e) {
+    console.warn("loadEntries error", e);
+    return [];
+  }
+}
+
+export async function saveEntries(entries: Entry[], set?: VaultSetName): Promise<boolean> {
+  try {
+    await currentBackend().update<Entry>(setKeys(set).entries, () => [...entries].reverse());
+    return true;
+  } catch (e) {
+    console.warn("saveEntries error", e);
+    return false;
+  }
+}
+
+/**
+ * updateEntries(fn, set)
+ * - fn(entries newest-first) returns the new list; nothing saved in between is lost
+ * - returns the saved list, newest-first
+ */
+export async function updateEntries(fn: (entries: Entry[]) => Entry[] | Promise<Entry[]>, set?: VaultSetName): Promise<Entry[]> {
+  const saved = await currentBackend().update<Entry>(setKeys(set).entries, async current => [...(await fn(current.reverse()))].reverse());
+  return saved.reverse();
+}
+
+export async function appendEntry(entry: Entry, set?: VaultSetName): Promise<void> {
+  await currentBackend().append(setKeys(set).entries, [entry]);
+}
+
+/**
+ * loadEntriesPage(cursor, limit, set) - { items (newest-first), nextCursor, total }; see loadPage
+ */
+export async function loadEntriesPage(cursor: number | null = null, limit = 50, set?: VaultSetName): Promise<Page<Entry>> {
+  try {
+    return await loadPage<Entry>(setKeys(set).entries, cursor, limit);
+  } catch (e) {
+    console.warn("loadEntriesPage error", e);
+    return { items: [], nextCursor: null, total: 0 };
+  }
+}
+
+export async function countEntries(set?: VaultSetName): Promise<number> {
+  try {
+    return await currentBackend().count(setKeys(set).entries);
+  } catch (e) {
+    console.warn("countEntries error", e);
+    return 0;
+  }
+}
+
+export async function getEntry(id: string): Promise<Entry | null> {
+  try {
+    return await currentBackend().find<Entry>(setKeys().entries, { id });
+  } catch (e) {
+    console.warn("getEntry error", e);
+    return null;
+  }
+}
+
+export async function clearAllEntries(set?: VaultSetName): Promise<void> {
+  try {
+    await currentBackend().remove(setKeys(set).entries);
+  } catch (error) {
+    console.error("clearAllEntries error", error);
+  }
+}
+
+export async function loadTamperLog(set?: VaultSetName): Promise<Block[]> {
+  try {
+    return (await currentBackend().list<Block>(setKeys(set).tamperLog)).reverse();
+  } catch (e) {
+    return [];
+  }
+}
+
+/**
+ * loadTamperLogPage(cursor, limit, set) - { items (newest-first), nextCursor, total }; see loadPage
+ */
+export async function loadTamperLogPage(cursor: number | null = null, limit = 50, set?: VaultSetName): Promise<Page<Block>> {
+  try {
+    return await loadPage<Block>(setKeys(set).tamperLog, cursor, limit);
+  } catch (e) {
+    console.warn("loadTamperLogPage error", e);
+    return { items: [], nextCursor: null, total: 0 };
+  }
+}
+
+/**
+ * loadChainRange(fromSeq, toSeq, set) - blocks with fromSeq <= seq <= toSeq, oldest-first
+ */
+export async function loadChainRange(fromSeq: number, toSeq: number, set?: VaultSetName): Promise<Block[]> {
+  return currentBackend().seqRange<Block>(setKeys(set).tamperLog, fromSeq, toSeq);
+}
+
+export async function countTamperLog(set?: VaultSetName): Promise<number> {
+  try {
+    return await currentBackend().count(setKeys(set).tamperLog);
+  } catch (e) {
+    console.warn("countTamperLog error", e);
+    return 0;
+  }
+}
+
+export async function appendTamperLog(eventObj: Block, set?: VaultSetName): Promise<void> {
+  await currentBackend().append(setKeys(set).tamperLog, [eventObj]);
+}
+
+/**
+ * replaceTamperLog(log, set) - log newest-first, like loadTamperLog returns it
+ */
+export async function replaceTamperLog(log: Block[], set?: VaultSetName): Promise<void> {
+  await currentBackend().update<Block>(setKeys(set).tamperLog, () => [...log].reverse());
+}
+
+// storage.ts
+
+export async function storageGetMeta(key: string): Promise<unknown> {
+    try {
+      const value = await AsyncStorage.getItem(key + "_meta");
+      return value ? JSON.parse(value) : null;
+    } catch (error) {
+      console.error("Error getting meta:", error);
+      return null;
+    }
+  }
+  
+  export async function saveTamperLog(logData: Record<string, unknown>): Promise<void> {
+    try {
+      const existingLogs = await AsyncStorage.getItem(ASYNC_LEGACY_TAMPERLOGS_KEY);
+      let logs = existingLogs ? JSON.parse(existingLogs) : [];
+      logs.push({ ...logData, timestamp: Date.now() });
+      await AsyncStorage.setItem(ASYNC_LEGACY_TAMPERLOGS_KEY, JSON.stringify(logs));
+    } catch (error) {
+      console.error("Error saving tamper log:", error);
+    }
+  }
+  
+export async function clearAllVaultStorage(): Promise<void> {
+  // Remove async keys and secure keys
+  for (const collection of COLLECTIONS) await currentBackend().remove(collection);
+  await AsyncStorage.removeItem(ASYNC_META_KEY);
+
+  await SecureStore.deleteItemAsync(SECUREKEY_WRAPPED);
+  await SecureStore.deleteItemAsync(SECUREKEY_WRAPPED_PENDING);
+  await SecureStore.deleteItemAsync(SECUREKEY_WRAPPED_ALT);
+  await SecureStore.deleteItemAsync(SECUREKEY_SALT);
+  await SecureStore.deleteItemAsync(SECUREKEY_ITER);
+  await SecureStore.deleteItemAsync(SECUREKEY_KDF);
+  await SecureStore.deleteItemAsync(SECUREKEY_CREATED);
+  await SecureStore.deleteItemAsync(SECUREKEY_RECOVERY);
+  await SecureStore.deleteItemAsync(SECUREKEY_LOCKOUT);
+  await SecureStore.deleteItemAsync(SECUREKEY_DEADMAN);
+  await SecureStore.deleteItemAsync(SECUREKEY_AUDIT_SIGNING);
+  await SecureStore.deleteItemAsync(SECUREKEY_AUDIT_SIGNING_ALT);
+  await SecureStore.deleteItemAsync(SECUREKEY_CHAIN_TRUST);
+  await SecureStore.deleteItemAsync(SECUREKEY_CHAIN_TRUST_ALT);
+}
@@ -101,6 +101,8 @@ export default StyleSheet.create({
     marginBottom: 8,
     borderRadius: 8
   },
+  entryCardMatch: { borderColor: "#8cffb7" },
+  entryCardDimmed: { opacity: 0.45 },
 
   entryMeta: { color: "#8de6bf", fontSize: 12 },
   entryMetaSmall: { color: "#66cfa7", fontSize: 11 },
@@ -108,6 +110,14 @@ export default StyleSheet.create({
 
   smallBtn: { borderColor: "#1b6b56", borderWidth: 1, paddingVertical: 6, paddingHorizontal: 10, borderRadius: 6 },
   smallBtnText: { color: "#9ef5c9", fontSize: 12 },
+  tagChip: { marginRight: 6, paddingVertical: 4 },
+  tagChipActive: { backgroundColor: "#0e2a19", borderColor: "#8cffb7" },
+  entryTitle: { color: "#e1f5ea", fontSize: 14, fontWeight: "700", marginTop: 4 },
+  entryTag: { color: "#9ec1ff", fontSize: 11, marginRight: 6 },
+  entryCommitOk: { color: "#66cfa7", fontSize: 10, letterSpacing: 1 },
+  entryCommitBad: { color: "#ff6262", fontSize: 10, fontWeight: "700", letterSpacing: 1 },
+  entryCommitMuted: { color: "#9a9a9a", fontSize: 10, letterSpacing: 1 },
+  entryLevel: { color: "#f4d35e", fontSize: 10, fontWeight: "700", letterSpacing: 1 },
 
   logLine: { color: "#7aa78f", fontSize: 11 },
 
@@ -0,0 +1,194 @@
+// src/types.ts
+// Domain types shared by the core modules (crypto.ts, storage.ts, blockchain.ts, meowscript.ts),
+// the app and its components. The modules that own a shape re-export it, so callers can import
+// Entry from storage, Block from blockchain and MeowBlob from meowscript.
+
+/* ---------- Meowscript ---------- */
+
+export type MeowAlgorithm = "XChaCha20-Poly1305" | "AES-256-GCM";
+
+/** MeowKdfName - "PBKDF2" and "Argon2id" are legacy labels (both PBKDF2); "HKDF-SHA256" for sealWithKey() */
+export type MeowKdfName = "scrypt" | "PBKDF2" | "Argon2id" | "HKDF-SHA256";
+
+/** MeowKdfParams - as written to the header: the fields of the KDF in use plus salt and key sizes */
+export type MeowKdfParams = {
+  N?: number;
+  r?: number;
+  p?: number;
+  iterations?: number;
+  info?: string;
+  saltSize: number;
+  keySize: number;
+};
+
+export type MeowHeader = {
+  magic: "MEOW2" | "MEOW1";
+  version: string;
+  alg: MeowAlgorithm;
+  kdf: MeowKdfName;
+  kdf_params: MeowKdfParams;
+  salt_pass: number[];
+  watermark: string;
+  ctx_hash: string | null;
+  timestamp: string;
+};
+
+/**
+ * MeowBlob - a sealed Meowscript envelope; JSON-safe, stored as is in entries
+ * - nonces, wrap2, content and claw are base64
+ */
+export type MeowBlob = {
+  header: MeowHeader;
+  nonces: { n1: string; n2: string; n3: string };
+  wrap2: string;
+  content: string;
+  claw: string;
+  metadata: { size: number; created: string; obfuscated: boolean };
+};
+
+/* ---------- entries ---------- */
+
+export type AttachmentRef = { id: string; chunks: number; size: number; hash: string };
+
+/** FileInfo - an attachment as listed in entry meta; the ref to its chunks is in entry.attachments */
+export type FileInfo = { id: string; name: string; mime: string; size: number };
+
+/** EntryMeta - decrypted entry meta after entries.normalizeMeta(); empty fields are left out */
+export type EntryMeta = { title?: string; tags?: string[]; classification?: string; files?: FileInfo[] };
+
+/**
+ * Entry - one stored journal record (see entries.js)
+ * - v1: { id, iv, ciphertext, hmac, timestamp }
+ * - v2: { v: 2, id, blob, hmac, timestamp } + rootId / prevId / prevHmac on revisions, meta and
+ *   attachments when present
+ */
+export type Entry = {
+  id: string;
+  v?: number; // absent on v1 entries
+  iv?: string; // v1
+  ciphertext?: string; // v1
+  blob?: MeowBlob; // v2
+  rootId?: string; // revisions only
+  prevId?: string;
+  prevHmac?: string;
+  meta?: MeowBlob; // { title, tags, classification, files }
+  attachments?: AttachmentRef[];
+  hmac: string;
+  timestamp: string;
+};
+
+/** CommitStatus - a stored record against the audit chain; "missing" is a commitment with no record */
+export type CommitStatus = "committed" | "changed" | "extra" | "legacy" | "missing";
+
+/** EntryCommitCheck - entries.crossCheckEntries() */
+export type EntryCommitCheck = {
+  statuses: Record<string, CommitStatus>;
+  missing: { id: string; seq: number; ts: string }[];
+};
+
+/** EntryChain - entries.groupRevisions(): one revision chain, revisions oldest first */
+export type EntryChain = { rootId: string; latest: Entry; revisions: Entry[] };
+
+/** EntryListItem - a row of the entry list: a chain's latest record and what its card shows */
+export type EntryListItem = Entry & {
+  info: EntryMeta;
+  revisionCount: number;
+  commit: CommitStatus | null;
+  searchMatch?: boolean;
+  searchDimmed?: boolean;
+};
+
+/** SearchIndex - search.createIndex(); doc ids are revision chain root ids */
+export type SearchIndex = { terms: Map<string, Set<string>>; docs: Map<string, Set<string>> };
+
+/* ---------- recovery shares ---------- */
+
+/** ShamirShare - one share in both printed forms (shamir.encodeShare()) */
+export type ShamirShare = { index: number; text: string; mnemonic: string };
+
+/** ShamirSplit - shamir.splitSecret(); setId is hex */
+export type ShamirSplit = { setId: string; threshold: number; shares: ShamirShare[] };
+
+/* ---------- audit chain ---------- */
+
+/**
+ * Block - one audit chain record (see blockchain.ts)
+ * - blocks rebuilt from pre-chain tamper logs keep the original item in _raw
+ */
+export type Block = {
+  seq: number;
+  ts: string;
+  event: string;
+  detail?: string;
+  id?: string;
+  file?: string;
+  hash?: string;
+  custody?: string;
+  signature?: string;
+  prevHash?: string | null;
+  blockHash?: string;
+  nonce?: string;
+  _raw?: unknown;
+};
+
+/** BlockCheck - per-block verification detail; signatureValid is null for an allowed unsigned block */
+export type BlockCheck = {
+  seq: number;
+  computed: string;
+  stored: string | null;
+  prevStored: string | null;
+  prevMatches: boolean;
+  blockMatches: boolean;
+  signatureValid: boolean | null;
+  checkpointValid?: boolean;
+};
+
+/** ChainAnchor - a verified checkpoint a later verification can continue from */
+export type ChainAnchor = { seq: number; blockHash: string | null; signer: string | null; seenSigned: boolean };
+
+/** VerifyResult - canonical.checkBlocks(); verifyChain() adds incremental and verifiedFrom */
+export type VerifyResult = {
+  ok: boolean;
+  linksOk: boolean;
+  signaturesOk: boolean;
+  checkpointsOk: boolean;
+  breaks: number;
+  badSignatures: number;
+  unsigned: number;
+  checkpoints: number;
+  badCheckpoints: number;
+  publicKey: string | null;
+  head: string | null;
+  lastCheckpoint: ChainAnchor | null;
+  details: BlockCheck[];
+  incremental?: boolean;
+  verifiedFrom?: number | null;
+};
+
+/* ---------- storage ---------- */
+
+export type VaultSetName = "primary" | "secondary";
+
+/** Page - newest-first; nextCursor continues with older records and is null after the oldest */
+export type Page<T> = { items: T[]; nextCursor: number | null; total: number };
+
+export type StoredRecord = Entry | Block;
+
+/**
+ * StorageBackend - see backend.js for the contract; the type argument is the record type the
+ * collection holds (entries or blocks)
+ */
+export type StorageBackend = {
+  name: "sqlite" | "asyncstorage" | "memory";
+  list<T extends StoredRecord>(collection: string): Promise<T[]>;
+  find<T extends StoredRecord>(collection: string, query: { id: string } | { seq: number }): Promise<T | null>;
+  range<T extends StoredRecord>(collection: string, from: string | null, to: string | null): Promise<T[]>;
+  tail<T extends StoredRecord>(collection: string, n: number): Promise<T[]>;
+  slice<T extends StoredRecord>(collection: string, start: number, end: number): Promise<T[]>;
+  seqRange<T extends StoredRecord>(collection: string, from: number, to: number): Promise<T[]>;
+  count(collection: string): Promise<number>;
+  append<T extends StoredRecord>(collection: string, records: T[]): Promise<void>;
+  update<T extends StoredRecord>(collection: string, fn: (records: T[]) => T[] | Promise<T[]>): Promise<T[]>;
+  remove(collection: string): Promise<void>;
+  close(): Promise<void>;
+};
@@ -0,0 +1,421 @@
+// src/vaultkey.js
+// Master key slot handling: wrap / unwrap / rewrap of the vault master key in SecureStore.
+// The master key itself never changes, so entries never need re-encrypting when the passphrase does.
+
+import CryptoJS from "crypto-js";
+import * as SecureStore from "expo-secure-store";
+import * as crypto from "./crypto";
+import * as kdf from "./kdf";
+import Meowscript from "./meowscript";
+import * as storage from "./storage";
+
+/**
+ * Key slot shape (JSON in SECUREKEY_WRAPPED):
+ * {
+ *   wrapped: string,     // base64 AES-CBC(masterKey)
+ *   wrapIvHex: string,
+ *   saltHex?: string,    // self-contained slots carry their own KDF inputs
+ *   kdf?: { kdf, params },
+ *   kcv?: string         // crypto.keyCheckValue(masterKey)
+ * }
+ * Older slots carry `iter` instead of `kdf`, or only { wrapped, wrapIvHex } with
+ * salt/iterations in SECUREKEY_SALT / SECUREKEY_ITER. readKeySlot() normalizes all of them.
+ *
+ * The secondary slot (SECUREKEY_WRAPPED_ALT) always exists and has the same shape, but wraps
+ * key(32) || flags(1): the decoy key under the duress passphrase, or random bytes under a random
+ * passphrase when no decoy is configured. Both pad to the same ciphertext length as the primary.
+ *
+ * A backup made in a decoy session carries the secondary slot as its primary one (see
+ * backup.createBackup), so unwrapKeySlot() also accepts a key || flags payload and drops the flags.
+ *
+ * Recovery slots (JSON array in SECUREKEY_RECOVERY) use the same shape plus
+ * `lookup` = SHA-256("vaultx-recovery|" + code), so unlocking runs one KDF instead of one per slot.
+ */
+
+/* ---------- helpers ---------- */
+
+function parseSlot(json) {
+  if (!json) return null;
+  try {
+    const slot = JSON.parse(json);
+    if (!slot || !slot.wrapped || !slot.wrapIvHex) return null;
+    if (!slot.kdf && slot.iter) {
+      const { iter, ...rest } = slot;
+      return { ...rest, kdf: kdf.normalizeSpec(iter) };
+    }
+    return slot;
+  } catch (e) {
+    console.warn("vaultkey.parseSlot failed", e);
+    return null;
+  }
+}
+
+async function writePrimarySlot(slot) {
+  // The wrapped item is written first and is self-contained, so it is the commit point.
+  await SecureStore.setItemAsync(storage.SECUREKEY_WRAPPED, JSON.stringify(slot));
+  await SecureStore.setItemAsync(storage.SECUREKEY_SALT, slot.saltHex);
+  await SecureStore.setItemAsync(storage.SECUREKEY_KDF, JSON.stringify(slot.kdf));
+  await SecureStore.deleteItemAsync(storage.SECUREKEY_ITER);
+}
+
+// Stage in the pending slot, then replace the primary one (see changePassphrase).
+async function commitSlot(next) {
+  await SecureStore.setItemAsync(storage.SECUREKEY_WRAPPED_PENDING, JSON.stringify(next));
+  await writePrimarySlot(next);
+  await SecureStore.deleteItemAsync(storage.SECUREKEY_WRAPPED_PENDING);
+}
+
+// options for derivation `index` of `count`: progress is reported for the whole call
+function stepOptions(options, index, count, phase) {
+  const { onProgress, signal } = options || {};
+  return { signal, onProgress: onProgress ? f => onProgress((index + f) / count, phase) : undefined };
+}
+
+const isCancelled = e => !!e && e.name === "CryptoWorkerError" && e.code === "CANCELLED";
+
+/* ---------- main API ---------- */
+
+/**
+ * readKeySlot()
+ * - returns the primary slot with saltHex/kdf filled in, or null if the vault is not initialized
+ */
+export async function readKeySlot() {
+  const slot = parseSlot(await SecureStore.getItemAsync(storage.SECUREKEY_WRAPPED));
+  if (!slot) return null;
+  if (!slot.saltHex || !slot.kdf) {
+    const saltHex = await SecureStore.getItemAsync(storage.SECUREKEY_SALT);
+    const kdfJson = await SecureStore.getItemAsync(storage.SECUREKEY_KDF);
+    const iterStr = await SecureStore.getItemAsync(storage.SECUREKEY_ITER);
+    if (!saltHex || (!kdfJson && !iterStr)) return null;
+    return { ...slot, saltHex, kdf: kdf.normalizeSpec(kdfJson ? JSON.parse(kdfJson) : iterStr) };
+  }
+  return slot;
+}
+
+/**
+ * describeVaultKdf() - display string for the stored KDF, or null
+ */
+export async function describeVaultKdf() {
+  const slot = await readKeySlot();
+  return slot ? kdf.describeKdf(slot.kdf) : null;
+}
+
+/**
+ * createKeySlot(masterHex, passphrase, spec, { onProgress, signal })
+ * - fresh salt + wrap IV; does NOT write anything
+ * - the KDF runs on the crypto worker (kdf.deriveKeyAsync)
+ */
+export async function createKeySlot(masterHex, passphrase, spec = kdf.CURRENT_KDF_POLICY, options = {}) {
+  const saltHex = await crypto.randomHex(16);
+  const wrapIvHex = await crypto.randomHex(16);
+  const kdfSpec = kdf.normalizeSpec(spec);
+  const wrapKeyWA = await kdf.deriveKeyAsync(passphrase, saltHex, kdfSpec, 32, options);
+  const wrapped = crypto.wrapMasterKey(masterHex, wrapKeyWA, wrapIvHex);
+  return { wrapped, wrapIvHex, saltHex, kdf: kdfSpec, kcv: crypto.keyCheckValue(masterHex) };
+}
+
+/**
+ * unwrapKeySlot(slot, passphrase, { onProgress, signal })
+ * - returns master key hex, or null when the passphrase does not open this slot
+ * - a cancelled derivation rejects with CryptoWorkerError CANCELLED rather than returning null
+ */
+export async function unwrapKeySlot(slot, passphrase, options = {}) {
+  try {
+    const wrapKeyWA = await kdf.deriveKeyAsync(passphrase, slot.saltHex, slot.kdf, 32, options);
+    const payloadHex = crypto.unwrapMasterKey(slot.wrapped, wrapKeyWA, slot.wrapIvHex);
+    const masterHex = payloadHex && payloadHex.length === 66 ? payloadHex.slice(0, 64) : payloadHex;
+    if (!masterHex || masterHex.length !== 64) return null;
+    if (slot.kcv && crypto.keyCheckValue(masterHex) !== slot.kcv) return null;
+    return masterHex;
+  } catch (e) {
+    if (isCancelled(e)) throw e;
+    return null;
+  }
+}
+
+/**
+ * initializeKeySlot(masterHex, passphrase)
+ * - used by vault setup; writes the primary slot
+ */
+export async function initializeKeySlot(masterHex, passphrase) {
+  const slot = await createKeySlot(masterHex, passphrase);
+  await writePrimarySlot(slot);
+  await SecureStore.deleteItemAsync(storage.SECUREKEY_WRAPPED_PENDING);
+  await clearSecondarySlot();
+  return slot;
+}
+
+/**
+ * restoreKeySlot(slot)
+ * - installs a slot taken from a backup (readKeySlot() shape); the vault passphrase is the
+ *   one that was current when the backup was made
+ */
+export async function restoreKeySlot(slot) {
+  const parsed = parseSlot(JSON.stringify(slot || null));
+  if (!parsed || !parsed.saltHex || !parsed.kdf) throw new Error("Backup key slot is incomplete.");
+  await writePrimarySlot(parsed);
+  await SecureStore.deleteItemAsync(storage.SECUREKEY_WRAPPED_PENDING);
+}
+
+/**
+ * unlockWithPassphrase(passphrase, { onProgress, signal })
+ * - tries the primary slot, then a pending slot left behind by an interrupted passphrase change
+ * - opening the pending slot finishes that change; opening the primary slot discards it
+ * - a slot below CURRENT_KDF_POLICY is quietly rewrapped under the current policy
+ * - the secondary slot is always tried as well, so a duress unlock takes as long as a normal one;
+ *   opening it returns { masterHex: decoy key, duress: true, wipe }
+ * - returns { masterHex, duress, completedPendingChange, kdfUpgrade: { from, to } | null } or null
+ * - onProgress(fraction, phase): phase "unlock" while the slots are tried, then "upgrade" while a
+ *   KDF upgrade rewraps the key; signal cancels the "unlock" phase only (rejects with
+ *   CryptoWorkerError CANCELLED), an upgrade that has started runs to the end
+ */
+export async function unlockWithPassphrase(passphrase, options = {}) {
+  const primary = await readKeySlot();
+  const pending = parseSlot(await SecureStore.getItemAsync(storage.SECUREKEY_WRAPPED_PENDING));
+  const secondary = await readSecondarySlot();
+  const slots = [secondary, primary, pending].filter(Boolean);
+  const step = slot => stepOptions(options, slots.indexOf(slot), slots.length, "unlock");
+  const fromSecondary = secondary ? await unwrapSecondarySlot(secondary, passphrase, step(secondary)) : null;
+
+  let opened = null;
+  const fromPrimary = primary ? await unwrapKeySlot(primary, passphrase, step(primary)) : null;
+  if (fromPrimary) {
+    if (pending) await SecureStore.deleteItemAsync(storage.SECUREKEY_WRAPPED_PENDING);
+    opened = { masterHex: fromPrimary, slot: primary, completedPendingChange: false };
+  } else {
+    const fromPending = pending ? await unwrapKeySlot(pending, passphrase, step(pending)) : null;
+    if (!fromPending) {
+      if (!fromSecondary) return null;
+      return { masterHex: fromSecondary.masterHex, duress: true, wipe: !!(fromSecondary.flags & SECONDARY_FLAG_WIPE), completedPendingChange: false, kdfUpgrade: null };
+    }
+    await writePrimarySlot(pending);
+    await SecureStore.deleteItemAsync(storage.SECUREKEY_WRAPPED_PENDING);
+    opened = { masterHex: fromPending, slot: pending, completedPendingChange: true };
+  }
+
+  if (options.onProgress) options.onProgress(1, "unlock");
+
+  let kdfUpgrade = null;
+  if (kdf.needsUpgrade(opened.slot.kdf)) {
+    try {
+      const upgrade = index => stepOptions({ onProgress: options.onProgress }, index, 2, "upgrade");
+      const next = await createKeySlot(opened.masterHex, passphrase, kdf.CURRENT_KDF_POLICY, upgrade(0));
+      if ((await unwrapKeySlot(next, passphrase, upgrade(1))) !== opened.masterHex) throw new Error("Rewrap self-check failed.");
+      await commitSlot(next);
+      kdfUpgrade = { from: kdf.describeKdf(opened.slot.kdf), to: kdf.describeKdf(next.kdf) };
+    } catch (e) {
+      // the old slot still opens the vault; retry on the next unlock
+      console.warn("vaultkey KDF upgrade failed", e);
+    }
+  }
+  // vaults created before the secondary slot existed get their placeholder now
+  if (!secondary) await clearSecondarySlot();
+  return { masterHex: opened.masterHex, duress: false, completedPendingChange: opened.completedPendingChange, kdfUpgrade };
+}
+
+/**
+ * matchesVault(masterHex) - true when the key passes the stored slot's check value
+ */
+export async function matchesVault(masterHex) {
+  const primary = await readKeySlot();
+  if (!primary || !/^[0-9a-f]{64}$/.test(masterHex || "")) return false;
+  return !primary.kcv || crypto.keyCheckValue(masterHex) === primary.kcv;
+}
+
+/**
+ * resetPassphrase(masterHex, newPassphrase)
+ * - wraps a master key recovered without the old passphrase (recovery code, custodian shares)
+ *   under a new one
+ * - refuses a key that does not match the stored slot's check value
+ */
+export async function resetPassphrase(masterHex, newPassphrase) {
+  const primary = await readKeySlot();
+  if (!primary) throw new Error("Vault not initialized.");
+  if (primary.kcv && crypto.keyCheckValue(masterHex) !== primary.kcv) throw new Error("Recovered key does not match this vault.");
+
+  const next = await createKeySlot(masterHex, newPassphrase);
+  if ((await unwrapKeySlot(next, newPassphrase)) !== masterHex) throw new Error("Rewrap self-check failed.");
+  await commitSlot(next);
+}
+
+/**
+ * changePassphrase(masterHex, oldPassphrase, newPassphrase, set)
+ * - masterHex is the unlocked session's key; set is the session's vault set. The old passphrase
+ *   is tried against that set's slot only (primary, or secondary for a decoy session) and must
+ *   open masterHex before anything is written
+ * - rewraps the SAME master key under a new salt / IV
+ * - crash safety: the new primary slot is staged in SECUREKEY_WRAPPED_PENDING before the primary
+ *   slot is replaced, so either passphrase keeps working until the change completes
+ * - returns the master key hex (unchanged)
+ */
+export async function changePassphrase(masterHex, oldPassphrase, newPassphrase, set = "primary") {
+  const secondary = await readSecondarySlot();
+  if (set === "secondary") {
+    const decoy = secondary ? await unwrapSecondarySlot(secondary, oldPassphrase) : null;
+    if (!decoy || decoy.masterHex !== masterHex) throw new Error("Current passphrase is incorrect.");
+    // never try either passphrase on the primary slot here: the answer would tell a decoy
+    // session (unthrottled) whether a guess is the real passphrase
+    const next = await createSecondarySlot(masterHex, newPassphrase, decoy.flags);
+    if ((await unwrapSecondarySlot(next, newPassphrase))?.masterHex !== masterHex) throw new Error("Rewrap self-check failed.");
+    await writeSecondarySlot(next);
+    return masterHex;
+  }
+
+  const primary = await readKeySlot();
+  if (!primary) throw new Error("Vault not initialized.");
+  if ((await unwrapKeySlot(primary, oldPassphrase)) !== masterHex) throw new Error("Current passphrase is incorrect.");
+  if (secondary && (await unwrapSecondarySlot(secondary, newPassphrase))) throw new Error("Choose a different passphrase.");
+
+  const next = await createKeySlot(masterHex, newPassphrase);
+  if ((await unwrapKeySlot(next, newPassphrase)) !== masterHex) throw new Error("Rewrap self-check failed.");
+
+  await commitSlot(next);
+  return masterHex;
+}
+
+/* ---------- recovery codes ---------- */
+
+function normalizeRecoveryCode(code) {
+  return String(code || "").toUpperCase().replace(/[^0-9A-F]/g, "");
+}
+
+function recoveryLookup(normalized) {
+  return CryptoJS.SHA256("vaultx-recovery|" + normalized).toString(CryptoJS.enc.Hex);
+}
+
+async function readRecoverySlots() {
+  const json = await SecureStore.getItemAsync(storage.SECUREKEY_RECOVERY);
+  if (!json) return [];
+  try {
+    const slots = JSON.parse(json);
+    return Array.isArray(slots) ? slots.filter(s => s && s.lookup && s.wrapped) : [];
+  } catch (e) {
+    console.warn("vaultkey.readRecoverySlots failed", e);
+    return [];
+  }
+}
+
+async function writeRecoverySlots(slots) {
+  await SecureStore.setItemAsync(storage.SECUREKEY_RECOVERY, JSON.stringify(slots));
+}
+
+/**
+ * recoveryCodesRemaining() - number of unused recovery codes
+ */
+export async function recoveryCodesRemaining() {
+  return (await readRecoverySlots()).length;
+}
+
+/**
+ * generateRecoveryCodes(masterHex, count, set)
+ * - each code wraps the master key in its own slot; replaces (invalidates) any earlier set
+ * - a decoy session (set "secondary") gets codes of the same form that are stored nowhere: a
+ *   recovery list for the secondary slot would show on the device that a decoy is configured
+ * - returns the codes for display; they are not stored anywhere in clear
+ */
+export async function generateRecoveryCodes(masterHex, count = 8, set = "primary") {
+  const keySlot = set === "secondary" ? await readSecondarySlot() : await readKeySlot();
+  if (!keySlot) throw new Error("Vault not initialized.");
+  if (keySlot.kcv && crypto.keyCheckValue(masterHex) !== keySlot.kcv) throw new Error("Master key does not match this vault.");
+
+  const codes = await Meowscript.generateRecoveryCodes(count);
+  if (set === "secondary") return codes;
+  const slots = [];
+  for (const code of codes) {
+    const normalized = normalizeRecoveryCode(code);
+    const slot = await createKeySlot(masterHex, normalized, kdf.RECOVERY_KDF_POLICY);
+    slots.push({ ...slot, lookup: recoveryLookup(normalized) });
+  }
+  await writeRecoverySlots(slots);
+  return codes;
+}
+
+/**
+ * unlockWithRecoveryCode(code, { onProgress, signal })
+ * - dashes, spaces and case are ignored
+ * - the matching slot is removed before the key is returned, so every code works once
+ * - returns { masterHex, remaining } or null
+ */
+export async function unlockWithRecoveryCode(code, options = {}) {
+  const normalized = normalizeRecoveryCode(code);
+  if (normalized.length !== 32) return null;
+  const slots = await readRecoverySlots();
+  const lookup = recoveryLookup(normalized);
+  const slot = slots.find(s => s.lookup === lookup);
+  if (!slot) return null;
+  const masterHex = await unwrapKeySlot(slot, normalized, options);
+  if (!masterHex) return null;
+
+  const remaining = slots.filter(s => s !== slot);
+  await writeRecoverySlots(remaining);
+  return { masterHex, remaining: remaining.length };
+}
+
+/* ---------- secondary (duress) slot ---------- */
+
+export const SECONDARY_FLAG_WIPE = 1;
+
+async function createSecondarySlot(keyHex, passphrase, flags) {
+  const saltHex = await crypto.randomHex(16);
+  const wrapIvHex = await crypto.randomHex(16);
+  const kdfSpec = kdf.normalizeSpec(kdf.CURRENT_KDF_POLICY);
+  const payloadHex = keyHex + (flags & 0xff).toString(16).padStart(2, "0");
+  const wrapped = crypto.wrapMasterKey(payloadHex, await kdf.deriveKeyAsync(passphrase, saltHex, kdfSpec), wrapIvHex);
+  return { wrapped, wrapIvHex, saltHex, kdf: kdfSpec, kcv: crypto.keyCheckValue(keyHex) };
+}
+
+async function unwrapSecondarySlot(slot, passphrase, options = {}) {
+  try {
+    const wrapKeyWA = await kdf.deriveKeyAsync(passphrase, slot.saltHex, slot.kdf, 32, options);
+    const payloadHex = crypto.unwrapMasterKey(slot.wrapped, wrapKeyWA, slot.wrapIvHex);
+    if (!payloadHex || payloadHex.length !== 66) return null;
+    const masterHex = payloadHex.slice(0, 64);
+    if (slot.kcv && crypto.keyCheckValue(masterHex) !== slot.kcv) return null;
+    return { masterHex, flags: parseInt(payloadHex.slice(64), 16) };
+  } catch (e) {
+    if (isCancelled(e)) throw e;
+    return null;
+  }
+}
+
+/**
+ * readSecondarySlot() - the secondary slot, or null on vaults set up before it existed
+ */
+export async function readSecondarySlot() {
+  return parseSlot(await SecureStore.getItemAsync(storage.SECUREKEY_WRAPPED_ALT));
+}
+
+async function writeSecondarySlot(slot) {
+  await SecureStore.setItemAsync(storage.SECUREKEY_WRAPPED_ALT, JSON.stringify(slot));
+}
+
+/**
+ * setSecondarySlot(decoyHex, duressPassphrase, flags)
+ * - wraps the decoy key under the duress passphrase; refuses a passphrase that opens the real vault
+ */
+export async function setSecondarySlot(decoyHex, duressPassphrase, flags = 0) {
+  const primary = await readKeySlot();
+  if (!primary) throw new Error("Vault not initialized.");
+  if (await unwrapKeySlot(primary, duressPassphrase)) throw new Error("Duress passphrase must differ from the vault passphrase.");
+  const slot = await createSecondarySlot(decoyHex, duressPassphrase, flags);
+  if ((await unwrapSecondarySlot(slot, duressPassphrase))?.masterHex !== decoyHex) throw new Error("Rewrap self-check failed.");
+  await writeSecondarySlot(slot);
+}
+
+/**
+ * clearSecondarySlot() - replaces the secondary slot with random bytes under a random passphrase
+ */
+export async function clearSecondarySlot() {
+  await writeSecondarySlot(await createSecondarySlot(await crypto.randomHex(32), await crypto.randomHex(32), 0));
+}
+
+/**
+ * scramblePrimarySlot()
+ * - duress wipe: the real key slot is replaced by random bytes under a random passphrase, so the
+ *   slot still exists but nothing opens it; pending and recovery slots are removed
+ */
+export async function scramblePrimarySlot() {
+  await writePrimarySlot(await createKeySlot(await crypto.randomHex(32), await crypto.randomHex(32)));
+  await SecureStore.deleteItemAsync(storage.SECUREKEY_WRAPPED_PENDING);
+  await SecureStore.deleteItemAsync(storage.SECUREKEY_RECOVERY);
+}
@@ -0,0 +1,202 @@
+// src/wipe.js
+// Panic wipe orchestrator. Every place the app stores vault data is listed in wipeInventory(); the
+// wipe destroys the keys first (crypto-shredding whatever else might survive), then overwrites and
+// removes the data, verifies each location and leaves a single signed "wiped" receipt as the new
+// chain. The audit signing keys go last, once the receipt is signed.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import CryptoJS from "crypto-js";
+import * as FileSystem from "expo-file-system";
+import * as SecureStore from "expo-secure-store";
+import * as attachments from "./attachments";
+import * as blockchain from "./blockchain";
+import * as crypto from "./crypto";
+import Meowscript from "./meowscript";
+import { DATABASE_NAME } from "./sqlitestore";
+import * as storage from "./storage";
+
+/**
+ * Inventory item:
+ *   { store: "secure" | "async" | "file", key, role }
+ *   key  - async and file keys ending in "*" cover every key or file name with that prefix
+ *   role "key"  - key material; destroyed first, after which the data items are unreadable
+ *        "signing" - audit signing keys; destroyed after the receipt is signed
+ *        "data" - entries, chains, attachments, exports and other plaintext or ciphertext
+ *        "meta" - salts, KDF parameters, settings, counters
+ *
+ * Report item: { store, key, role, existed, status: "removed" | "absent" | "left" }
+ */
+
+/* ---------- helpers ---------- */
+
+export function wipeInventory() {
+  const secure = (key, role) => ({ store: "secure", key, role });
+  const async = (key, role) => ({ store: "async", key, role });
+  const file = (key) => ({ store: "file", key, role: "data" });
+  const items = [
+    secure(storage.SECUREKEY_WRAPPED, "key"),
+    secure(storage.SECUREKEY_WRAPPED_PENDING, "key"),
+    secure(storage.SECUREKEY_WRAPPED_ALT, "key"),
+    secure(storage.SECUREKEY_RECOVERY, "key"),
+    secure(storage.SECUREKEY_DB, "key"),
+    secure(Meowscript.DEVICE_KEY_ALIAS, "key"),
+    secure(storage.SECUREKEY_AUDIT_SIGNING, "signing"),
+    secure(storage.SECUREKEY_AUDIT_SIGNING_ALT, "signing"),
+    secure(storage.SECUREKEY_SALT, "meta"),
+    secure(storage.SECUREKEY_ITER, "meta"),
+    secure(storage.SECUREKEY_KDF, "meta"),
+    secure(storage.SECUREKEY_CREATED, "meta"),
+    secure(storage.SECUREKEY_LOCKOUT, "meta"),
+    secure(storage.SECUREKEY_DEADMAN, "meta"),
+    secure(storage.SECUREKEY_CHAIN_TRUST, "meta"),
+    secure(storage.SECUREKEY_CHAIN_TRUST_ALT, "meta"),
+    // the journal first: replayed after the records are gone, it would write some of them back
+    async(storage.ASYNC_JOURNAL_KEY, "data"),
+    async(storage.ASYNC_ENTRIES_KEY, "data"),
+    async(storage.ASYNC_ENTRIES_KEY + ":*", "data"),
+    async(storage.ASYNC_ENTRIES_KEY_ALT, "data"),
+    async(storage.ASYNC_ENTRIES_KEY_ALT + ":*", "data"),
+    async(storage.ASYNC_TAMPERLOG_KEY, "data"),
+    async(storage.ASYNC_TAMPERLOG_KEY + ":*", "data"),
+    async(storage.ASYNC_TAMPERLOG_KEY_ALT, "data"),
+    async(storage.ASYNC_TAMPERLOG_KEY_ALT + ":*", "data"),
+    async(storage.ASYNC_LEGACY_TAMPERLOGS_KEY, "data"),
+    async(storage.ASYNC_META_KEY, "meta"),
+    async(storage.ASYNC_BACKEND_KEY, "meta")
+  ];
+  // the SQLite database (with its -wal/-shm files), attachments, decrypted previews, backups,
+  // evidence exports and picked files
+  const doc = FileSystem.documentDirectory;
+  const cache = FileSystem.cacheDirectory;
+  if (doc) items.push(file(`${doc}SQLite/${DATABASE_NAME}*`), file(doc + "vault_att/"), file(doc + "audit_*"));
+  if (cache) items.push(file(cache + "vault_*"), file(cache + "audit_*"), file(cache + "DocumentPicker/"));
+  return items;
+}
+
+// "dir/prefix*" expands to the matching names in dir; anything else is taken literally
+async function expandFilePattern(pattern) {
+  if (!pattern.endsWith("*")) return [pattern];
+  const dir = pattern.slice(0, pattern.lastIndexOf("/") + 1);
+  const prefix = pattern.slice(dir.length, -1);
+  const names = await FileSystem.readDirectoryAsync(dir).catch(() => []);
+  return names.filter(n => n.startsWith(prefix)).map(n => dir + n);
+}
+
+// "prefix*" expands to the AsyncStorage keys starting with prefix (one per entry or block)
+async function expandAsyncPattern(pattern) {
+  if (!pattern.endsWith("*")) return [pattern];
+  const prefix = pattern.slice(0, -1);
+  return (await AsyncStorage.getAllKeys()).filter(k => k.startsWith(prefix));
+}
+
+async function exists(item) {
+  if (item.store === "secure") return (await SecureStore.getItemAsync(item.key)) !== null;
+  if (item.store === "async") {
+    for (const key of await expandAsyncPattern(item.key)) {
+      if ((await AsyncStorage.getItem(key)) !== null) return true;
+    }
+    return false;
+  }
+  for (const path of await expandFilePattern(item.key)) {
+    if ((await FileSystem.getInfoAsync(path)).exists) return true;
+  }
+  return false;
+}
+
+async function junkLike(value) {
+  const len = Math.max(16, Math.ceil(String(value).length / 2));
+  let hex = "";
+  while (hex.length < len * 2) hex += await crypto.randomHex(Math.min(1024, len - hex.length / 2));
+  return hex;
+}
+
+async function destroy(item, passes) {
+  if (item.store === "file") {
+    for (const path of await expandFilePattern(item.key)) await attachments.shredPath(path, passes);
+    return;
+  }
+  const get = item.store === "secure" ? SecureStore.getItemAsync : AsyncStorage.getItem;
+  const set = item.store === "secure" ? SecureStore.setItemAsync : AsyncStorage.setItem;
+  const del = item.store === "secure" ? SecureStore.deleteItemAsync : AsyncStorage.removeItem;
+  const keys = item.store === "async" ? await expandAsyncPattern(item.key) : [item.key];
+  for (const key of keys) {
+    const value = await get(key);
+    if (value === null) continue;
+    // overwrite in place first, so a store that keeps the last value around only keeps junk
+    for (let p = 0; p < passes; p++) await set(key, await junkLike(value));
+    await del(key);
+  }
+}
+
+// returns whether the item existed beforehand; failures are logged and show up in verification
+async function destroyItem(item, passes) {
+  const existed = await exists(item).catch(() => true);
+  try {
+    await destroy(item, passes);
+    if (item.key === Meowscript.DEVICE_KEY_ALIAS) await Meowscript.panicWipe(true);
+  } catch (e) {
+    console.warn("wipe: failed to destroy", item.key, e);
+  }
+  return existed;
+}
+
+// verification pass: re-reads every location
+async function verifyItems(items, existed) {
+  const report = [];
+  for (let i = 0; i < items.length; i++) {
+    const still = await exists(items[i]).catch(() => true);
+    report.push({ ...items[i], existed: existed[i], status: still ? "left" : existed[i] ? "removed" : "absent" });
+  }
+  return report;
+}
+
+/* ---------- main API ---------- */
+
+/**
+ * wipeVault({ passes })
+ * - closes the storage backend, then destroys key items first, then data, then meta; every item is
+ *   attempted even if an earlier one fails
+ * - verification pass re-reads every location
+ * - the receipt is appended to the (now empty) primary chain, so it is the only block left; it
+ *   records the reason, the old chain head, a hash of the report and the public key it is signed
+ *   with; the signing keys are destroyed and checked after it, outside the hashed report
+ * - reason ends up in the receipt ("panic_button", "lockout attempts=10", ...)
+ * - returns { startedAt, finishedAt, items, removed, left, priorHead, receipt }
+ */
+export async function wipeVault({ passes = 3, reason = "panic_button" } = {}) {
+  const startedAt = new Date().toISOString();
+  const priorHead = await blockchain.getHeadFingerprint("primary").catch(() => null);
+
+  const signer = await blockchain.signingPublicKey("primary").catch(() => null);
+  // the database is shredded as a file, so it is closed first; the receipt goes to AsyncStorage
+  await storage.closeStorage().catch(e => console.warn("wipe: failed to close storage", e));
+
+  const order = { key: 0, data: 1, meta: 2, signing: 3 };
+  const inventory = wipeInventory().sort((a, b) => order[a.role] - order[b.role]);
+  const items = inventory.filter(i => i.role !== "signing");
+  const signingItems = inventory.filter(i => i.role === "signing");
+  const existed = [];
+  for (const item of items) existed.push(await destroyItem(item, passes));
+  storage.selectVaultSet("primary");
+
+  const report = await verifyItems(items, existed);
+  const finishedAt = new Date().toISOString();
+  const summary = { reason, startedAt, finishedAt, priorHead, items: report.map(r => `${r.store}:${r.key}:${r.status}`) };
+  const reportHash = CryptoJS.SHA256(JSON.stringify(summary)).toString(CryptoJS.enc.Hex);
+  const receipt = await blockchain.appendEvent(
+    {
+      event: "wiped",
+      hash: reportHash,
+      detail: `reason=${reason} removed=${report.filter(r => r.status === "removed").length} left=${report.filter(r => r.status === "left").length} prior_head=${priorHead || "none"}${signer ? ` ed25519=${signer}` : ""}`
+    },
+    "primary"
+  );
+
+  const signingExisted = [];
+  for (const item of signingItems) signingExisted.push(await destroyItem(item, passes));
+  report.push(...(await verifyItems(signingItems, signingExisted)));
+
+  const removed = report.filter(r => r.status === "removed").length;
+  const left = report.filter(r => r.status === "left");
+  return { startedAt, finishedAt, items: report, removed, left: left.map(r => r.key), priorHead, receipt };
+}